@@ -304,6 +304,23 @@ function setupIpcHandlers(): void {
   ipcMain.handle('notification:show', (event, options) => {
     return electronUtils.showNotification(options);
   });
+
+  ipcMain.handle('notification:schedule', (event, id, options, when) => {
+    return electronUtils.scheduleNotification(id, options, when);
+  });
+
+  ipcMain.handle('notification:cancel', (event, id) => {
+    return electronUtils.cancelScheduledNotification(id);
+  });
+
+  // Network operations
+  ipcMain.handle('network:check-links', (event, urls) => {
+    return electronUtils.checkLinks(urls);
+  });
+
+  ipcMain.handle('network:fetch-data-url', (event, url) => {
+    return electronUtils.fetchAsDataUrl(url);
+  });
 }
 
 /**
@@ -369,6 +386,9 @@ app.whenReady().then(async () => {
   // Setup IPC handlers
   setupIpcHandlers();
   
+  // Re-arm reminders scheduled in a previous session
+  await electronUtils.restoreScheduledNotifications();
+  
   // Setup auto-updater
   setupAutoUpdater();
   
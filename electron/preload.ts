@@ -68,10 +68,18 @@ export interface ElectronAPI {
   // Notification system
   notifications: {
     show: (options: NotificationOptions) => Promise<void>;
+    schedule: (id: string, options: NotificationOptions, when: number) => Promise<void>;
+    cancel: (id: string) => Promise<void>;
     isSupported: () => boolean;
     requestPermission: () => Promise<'granted' | 'denied' | 'default'>;
   };
 
+  // Network requests made from the main process
+  network: {
+    checkLinks: (urls: string[]) => Promise<Record<string, LinkHealth>>;
+    fetchDataUrl: (url: string) => Promise<string | null>;
+  };
+
   // Performance monitoring
   performance: {
     getMemoryUsage: () => Promise<MemoryUsage>;
@@ -130,6 +138,13 @@ interface NotificationOptions {
   timeout?: number;
 }
 
+interface LinkHealth {
+  status: 'ok' | 'redirect' | 'broken' | 'unreachable';
+  httpStatus?: number;
+  finalUrl?: string;
+  checkedAt: number;
+}
+
 interface MemoryUsage {
   rss: number;
   heapTotal: number;
@@ -236,10 +251,18 @@ const electronAPI: ElectronAPI = {
   // Notification APIs
   notifications: {
     show: (options) => ipcRenderer.invoke('notification:show', options),
+    schedule: (id, options, when) => ipcRenderer.invoke('notification:schedule', id, options, when),
+    cancel: (id) => ipcRenderer.invoke('notification:cancel', id),
     isSupported: () => 'Notification' in window,
     requestPermission: () => ipcRenderer.invoke('notification:request-permission'),
   },
 
+  // Network APIs
+  network: {
+    checkLinks: (urls) => ipcRenderer.invoke('network:check-links', urls),
+    fetchDataUrl: (url) => ipcRenderer.invoke('network:fetch-data-url', url),
+  },
+
   // Performance monitoring APIs
   performance: {
     getMemoryUsage: () => ipcRenderer.invoke('performance:get-memory-usage'),
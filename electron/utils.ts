@@ -3,12 +3,14 @@
  * Platform detection, file operations, storage, and system integration utilities
  */
 
-import { app, Notification, clipboard, nativeImage, crashReporter } from 'electron';
+import { app, Notification, clipboard, nativeImage, crashReporter, net } from 'electron';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import * as crypto from 'crypto';
 import { autoUpdater } from 'electron-updater';
+import { checkLinks } from '../src/features/smart-hub/linkChecker';
+import type { LinkHealth } from '../src/types/bookmarks';
 
 // Platform information interface
 export interface PlatformInfo {
@@ -33,6 +35,17 @@ interface StorageItem {
   checksum?: string;
 }
 
+// Notification waiting to be shown by scheduleNotification
+interface ScheduledNotification {
+  options: { title: string; body: string; icon?: string; silent?: boolean };
+  when: number;
+}
+
+const SCHEDULED_NOTIFICATIONS_KEY = 'scheduledNotifications';
+
+// Longest delay setTimeout accepts (2^31 - 1 ms)
+const MAX_TIMER_DELAY = 2147483647;
+
 // Performance metrics interface
 interface PerformanceMetrics {
   memory: {
@@ -54,6 +67,7 @@ export class ElectronUtils {
   private encryptionKey: string;
   private performanceInterval: NodeJS.Timeout | null = null;
   private performanceMetrics: PerformanceMetrics[] = [];
+  private notificationTimers: Map<string, NodeJS.Timeout> = new Map();
 
   constructor() {
     this.storagePath = path.join(app.getPath('userData'), 'storage.json');
@@ -469,6 +483,43 @@ export class ElectronUtils {
     }
   }
 
+  /**
+   * Network
+   */
+
+  /**
+   * Check bookmark links for redirects and dead links. Runs here because the
+   * renderer cannot read cross-origin responses.
+   */
+  async checkLinks(urls: string[]): Promise<Record<string, LinkHealth>> {
+    try {
+      return await checkLinks(urls, (url, init) => net.fetch(url, init));
+    } catch (error) {
+      console.error('Failed to check links:', error);
+      throw new Error('Failed to check links');
+    }
+  }
+
+  /**
+   * Download a small resource (e.g. a favicon) and return it as a data URL,
+   * or null when it is missing or not an image
+   */
+  async fetchAsDataUrl(url: string, maxBytes = 100 * 1024): Promise<string | null> {
+    try {
+      const response = await net.fetch(url);
+      const contentType = response.headers.get('content-type') || '';
+      if (!response.ok || !contentType.startsWith('image/')) return null;
+
+      const buffer = Buffer.from(await response.arrayBuffer());
+      if (buffer.length === 0 || buffer.length > maxBytes) return null;
+
+      return `data:${contentType.split(';')[0]};base64,${buffer.toString('base64')}`;
+    } catch (error) {
+      console.error('Failed to fetch resource:', error);
+      return null;
+    }
+  }
+
   /**
    * Notification System
    */
@@ -498,6 +549,80 @@ export class ElectronUtils {
     }
   }
 
+  /**
+   * Show a notification at a later time. Kept in storage so it still fires
+   * after a restart; one that came due while the app was closed shows at once.
+   */
+  async scheduleNotification(id: string, options: ScheduledNotification['options'], when: number): Promise<void> {
+    const scheduled = await this.getScheduledNotifications();
+    scheduled[id] = { options, when };
+    await this.setStorageItem(SCHEDULED_NOTIFICATIONS_KEY, scheduled);
+    this.armNotificationTimer(id, when);
+  }
+
+  /**
+   * Cancel a scheduled notification that has not fired yet
+   */
+  async cancelScheduledNotification(id: string): Promise<void> {
+    this.clearNotificationTimer(id);
+    const scheduled = await this.getScheduledNotifications();
+    if (!scheduled[id]) return;
+
+    delete scheduled[id];
+    await this.setStorageItem(SCHEDULED_NOTIFICATIONS_KEY, scheduled);
+  }
+
+  /**
+   * Re-arm notifications scheduled before the app last quit
+   */
+  async restoreScheduledNotifications(): Promise<void> {
+    const scheduled = await this.getScheduledNotifications();
+    Object.entries(scheduled).forEach(([id, { when }]) => this.armNotificationTimer(id, when));
+  }
+
+  private async getScheduledNotifications(): Promise<Record<string, ScheduledNotification>> {
+    return (await this.getStorageItem(SCHEDULED_NOTIFICATIONS_KEY)) || {};
+  }
+
+  private armNotificationTimer(id: string, when: number): void {
+    this.clearNotificationTimer(id);
+
+    // setTimeout overflows past ~24.8 days, so long waits re-arm in steps
+    const delay = Math.max(0, when - Date.now());
+    const timer = setTimeout(() => {
+      if (delay > MAX_TIMER_DELAY) {
+        this.armNotificationTimer(id, when);
+      } else {
+        this.fireScheduledNotification(id);
+      }
+    }, Math.min(delay, MAX_TIMER_DELAY));
+
+    this.notificationTimers.set(id, timer);
+  }
+
+  private clearNotificationTimer(id: string): void {
+    const timer = this.notificationTimers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.notificationTimers.delete(id);
+    }
+  }
+
+  private async fireScheduledNotification(id: string): Promise<void> {
+    this.notificationTimers.delete(id);
+    try {
+      const scheduled = await this.getScheduledNotifications();
+      const notification = scheduled[id];
+      if (!notification) return;
+
+      delete scheduled[id];
+      await this.setStorageItem(SCHEDULED_NOTIFICATIONS_KEY, scheduled);
+      await this.showNotification({ ...notification.options, tag: id });
+    } catch (error) {
+      console.error('Failed to show scheduled notification:', error);
+    }
+  }
+
   /**
    * Performance Monitoring
    */
@@ -645,6 +770,8 @@ export class ElectronUtils {
    */
   cleanup(): void {
     this.stopPerformanceMonitoring();
+    this.notificationTimers.forEach(timer => clearTimeout(timer));
+    this.notificationTimers.clear();
     this.performanceMetrics = [];
     console.log('Electron utilities cleaned up');
   }
@@ -174,6 +174,11 @@ export const createMockChromeAPIs = () => {
       removeListener: jest.fn(),
     },
 
+    onStartup: {
+      addListener: jest.fn(),
+      removeListener: jest.fn(),
+    },
+
     getURL: jest.fn().mockImplementation((path: string) => `chrome-extension://test-id/${path}`),
   };
 
@@ -219,6 +224,16 @@ export const createMockChromeAPIs = () => {
           return Promise.resolve(tab);
         }
       ),
+
+    sendMessage: jest
+      .fn()
+      .mockImplementation(
+        (tabId: number, message?: any, _options?: any, callback?: (response: any) => void) => {
+          const response = { success: true, data: { tabId, action: message?.action } };
+          if (callback) callback(response);
+          return Promise.resolve(response);
+        }
+      ),
   };
 
   const mockNotifications = {
@@ -244,6 +259,11 @@ export const createMockChromeAPIs = () => {
       if (callback) callback(notifications);
       return Promise.resolve(notifications);
     }),
+
+    onClicked: {
+      addListener: jest.fn(),
+      removeListener: jest.fn(),
+    },
   };
 
   const mockAction = {
@@ -304,6 +324,42 @@ export const createMockChromeAPIs = () => {
     },
   };
 
+  const mockContextMenus = {
+    create: jest.fn().mockImplementation((createProperties: any, callback?: () => void) => {
+      if (callback) callback();
+      return createProperties?.id;
+    }),
+
+    removeAll: jest.fn().mockImplementation((callback?: () => void) => {
+      if (callback) callback();
+      return Promise.resolve();
+    }),
+
+    onClicked: {
+      addListener: jest.fn(),
+      removeListener: jest.fn(),
+    },
+  };
+
+  const mockCommands = {
+    getAll: jest.fn().mockImplementation((callback?: (commands: any[]) => void) => {
+      if (callback) callback([]);
+      return Promise.resolve([]);
+    }),
+
+    onCommand: {
+      addListener: jest.fn(),
+      removeListener: jest.fn(),
+    },
+  };
+
+  const mockBookmarks = {
+    onCreated: { addListener: jest.fn(), removeListener: jest.fn() },
+    onChanged: { addListener: jest.fn(), removeListener: jest.fn() },
+    onMoved: { addListener: jest.fn(), removeListener: jest.fn() },
+    onRemoved: { addListener: jest.fn(), removeListener: jest.fn() },
+  };
+
   return {
     storage: mockStorage,
     runtime: mockRuntime,
@@ -311,6 +367,9 @@ export const createMockChromeAPIs = () => {
     notifications: mockNotifications,
     action: mockAction,
     alarms: mockAlarms,
+    contextMenus: mockContextMenus,
+    commands: mockCommands,
+    bookmarks: mockBookmarks,
 
     // Helper methods for testing
     _getMockStorage: () => mockStorage,
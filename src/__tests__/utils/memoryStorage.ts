@@ -0,0 +1,29 @@
+/**
+ * Memory Storage
+ * StorageAPI double for feature tests that run without React or the stores
+ */
+
+import type { StorageAPI } from '../../platform';
+
+// In-memory StorageAPI that records writes
+export const createMemoryStorage = () => {
+  const store = new Map<string, any>();
+  const writes: string[] = [];
+
+  const storage: StorageAPI = {
+    get: async (key: string) => (store.has(key) ? structuredClone(store.get(key)) : null),
+    set: async (key: string, value: any) => {
+      writes.push(key);
+      store.set(key, structuredClone(value));
+    },
+    remove: async (key: string) => {
+      store.delete(key);
+    },
+    clear: async () => store.clear(),
+    watch: () => () => {},
+    getSize: async () => store.size,
+    getQuota: async () => Infinity,
+  };
+
+  return { storage, store, writes };
+};
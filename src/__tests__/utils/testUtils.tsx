@@ -408,6 +408,7 @@ export const configureTestEnvironment = () => {
 };
 
 // Export everything needed for testing
+export * from './memoryStorage';
 export * from '@testing-library/react';
 export * from '@testing-library/user-event';
 export { default as userEvent } from '@testing-library/user-event';
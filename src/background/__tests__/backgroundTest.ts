@@ -0,0 +1,240 @@
+/**
+ * @jest-environment node
+ */
+
+import { setupExtensionTestEnvironment } from '@/__tests__/extension/extensionTestUtils';
+import {
+  ALARM_NAMES,
+  CONTEXT_MENU_IDS,
+  STORAGE_KEYS,
+  handleInstalled,
+  handleMessage,
+  initializeBackground,
+} from '@/background';
+import { handleAlarm } from '@/background/alarms';
+import { handleContextMenuClick } from '@/background/contextMenus';
+import { handleNotificationClicked } from '@/background/notifications';
+import { mergeImportedBookmarks } from '@/features/smart-hub/bookmarkSync';
+import { takeExtensionBookmarks } from '@/features/smart-hub/bookmarkInbox';
+import { takeExtensionTasks } from '@/features/task-manager/taskInbox';
+import {
+  BLOCKLIST_STORAGE_KEY,
+  FOCUS_OVERRIDES_STORAGE_KEY,
+} from '@/features/productivity/distractionBlocking';
+import {
+  TIMER_STORAGE_KEY,
+  beginCountdown,
+  createTimerState,
+} from '@/features/productivity/timerEngine';
+import { SCHEDULED_NOTIFICATION_PREFIX } from '@/platform/chrome';
+import type { ExtensionMessage, MessageAction } from '@/types/extension';
+
+// The dashboard's platform storage is chrome.storage.local in the extension
+jest.mock('@/platform', () => ({
+  getPlatformAPI: async () => {
+    const local = (global as any).chrome.storage.local;
+    return {
+      storage: {
+        get: async (key: string) => (await local.get(key))[key] ?? null,
+        remove: (key: string) => local.remove(key),
+      },
+    };
+  },
+}));
+
+const message = (action: MessageAction, data?: any): ExtensionMessage => ({
+  action,
+  data,
+  timestamp: Date.now(),
+  source: 'popup',
+});
+
+describe('background service worker', () => {
+  let mockChrome: ReturnType<typeof setupExtensionTestEnvironment>;
+
+  beforeEach(() => {
+    mockChrome = setupExtensionTestEnvironment();
+  });
+
+  it('registers every listener at startup', () => {
+    initializeBackground();
+
+    expect(mockChrome.runtime.onInstalled.addListener).toHaveBeenCalled();
+    expect(mockChrome.runtime.onStartup.addListener).toHaveBeenCalled();
+    expect(mockChrome.runtime.onMessage.addListener).toHaveBeenCalled();
+    expect(mockChrome.contextMenus.onClicked.addListener).toHaveBeenCalled();
+    expect(mockChrome.alarms.onAlarm.addListener).toHaveBeenCalled();
+    expect(mockChrome.notifications.onClicked.addListener).toHaveBeenCalled();
+    expect(mockChrome.commands.onCommand.addListener).toHaveBeenCalled();
+    expect(mockChrome.bookmarks.onChanged.addListener).toHaveBeenCalled();
+  });
+
+  it('answers runtime messages asynchronously through sendResponse', async () => {
+    initializeBackground();
+    const listener = mockChrome.runtime.onMessage.addListener.mock.calls[0][0];
+    const sendResponse = jest.fn();
+
+    expect(listener(message('ping'), {}, sendResponse)).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(sendResponse).toHaveBeenCalledWith(
+      expect.objectContaining({ success: true, data: { pong: true, version: '2.0.0' } })
+    );
+  });
+
+  it('sets up defaults, menus and alarms on install', async () => {
+    await handleInstalled({ reason: 'install' } as chrome.runtime.InstalledDetails);
+
+    expect(mockChrome.storage.sync.data.get(STORAGE_KEYS.settings)).toMatchObject({
+      autoSyncEnabled: true,
+    });
+    expect(mockChrome.contextMenus.removeAll).toHaveBeenCalled();
+    expect(mockChrome.contextMenus.create).toHaveBeenCalledWith(
+      expect.objectContaining({ id: CONTEXT_MENU_IDS.addSelectionTask })
+    );
+    expect(mockChrome.alarms.create).toHaveBeenCalledWith(ALARM_NAMES.sync, {
+      periodInMinutes: 5,
+    });
+
+    const state = await handleMessage(message('getExtensionState'));
+    expect(state.data).toMatchObject({ isInitialized: true, lastSyncTime: 0 });
+  });
+
+  it('saves bookmarks and tasks, updating bookmarks saved twice', async () => {
+    await handleMessage(message('saveBookmark', { url: 'https://a.dev', title: 'A' }));
+    await handleMessage(message('quickBookmark', { url: 'https://a.dev', title: 'A again' }));
+    const task = await handleMessage(message('addTask', { title: '  Write docs  ' }));
+
+    const bookmarks = mockChrome.storage.local.data.get(STORAGE_KEYS.bookmarks);
+    expect(bookmarks).toHaveLength(1);
+    expect(bookmarks[0]).toMatchObject({ url: 'https://a.dev', title: 'A again' });
+    expect(mockChrome.notifications.create).toHaveBeenCalled();
+    expect(task.data).toMatchObject({ title: 'Write docs', completed: false, source: 'popup' });
+  });
+
+  it('hands pages and tasks captured from the context menu to SmartHub and the Task Manager', async () => {
+    await handleContextMenuClick(
+      {
+        menuItemId: CONTEXT_MENU_IDS.savePage,
+        pageUrl: 'https://b.dev/article',
+        editable: false,
+      } as chrome.contextMenus.OnClickData,
+      { title: 'An article', url: 'https://b.dev/article' } as chrome.tabs.Tab
+    );
+    await handleContextMenuClick({
+      menuItemId: CONTEXT_MENU_IDS.addSelectionTask,
+      selectionText: 'Follow up on this',
+      pageUrl: 'https://b.dev/article',
+      editable: false,
+    } as chrome.contextMenus.OnClickData);
+
+    const tasks = await takeExtensionTasks();
+    expect(tasks).toEqual([
+      expect.objectContaining({
+        text: 'Follow up on this',
+        completed: false,
+        notes: 'https://b.dev/article',
+      }),
+    ]);
+    const { bookmarks } = mergeImportedBookmarks([], await takeExtensionBookmarks());
+    expect(bookmarks).toEqual([
+      expect.objectContaining({ title: 'An article', url: 'https://b.dev/article' }),
+    ]);
+
+    // Taken items are removed so the next load does not add them again
+    expect(mockChrome.storage.local.data.has(STORAGE_KEYS.tasks)).toBe(false);
+    expect(await takeExtensionTasks()).toEqual([]);
+    expect(await takeExtensionBookmarks()).toEqual([]);
+  });
+
+  it('reports handler failures and unknown actions as error responses', async () => {
+    const invalid = await handleMessage(message('addTask', { title: ' ' }));
+    expect(invalid).toMatchObject({ success: false, error: 'Task title is required' });
+
+    const unknown = await handleMessage(message('notAnAction' as MessageAction));
+    expect(unknown).toMatchObject({ success: false, error: 'Unknown action: notAnAction' });
+  });
+
+  it('forwards content script actions to the active tab', async () => {
+    const response = await handleMessage(message('getPageContext'));
+
+    expect(mockChrome.tabs.sendMessage).toHaveBeenCalledWith(
+      1,
+      expect.objectContaining({ action: 'getPageContext', source: 'background' })
+    );
+    expect(response).toMatchObject({ success: true, data: { tabId: 1 } });
+  });
+
+  it('runs context menu, alarm and notification actions', async () => {
+    await handleContextMenuClick({
+      menuItemId: CONTEXT_MENU_IDS.addSelectionTask,
+      selectionText: 'Follow up on this',
+      pageUrl: 'https://b.dev',
+      editable: false,
+    } as chrome.contextMenus.OnClickData);
+    expect(mockChrome.storage.local.data.get(STORAGE_KEYS.tasks)[0]).toMatchObject({
+      title: 'Follow up on this',
+      url: 'https://b.dev',
+    });
+
+    mockChrome.storage.local.data.set(STORAGE_KEYS.activeWorkspace, { id: 'ws1', name: 'Main' });
+    await handleAlarm({ name: ALARM_NAMES.sync, scheduledTime: Date.now() });
+    expect(mockChrome.storage.sync.data.get(STORAGE_KEYS.syncData)).toMatchObject({
+      activeWorkspaceId: 'ws1',
+    });
+
+    await handleNotificationClicked('tasks:task_1');
+    expect(mockChrome.tabs.create).toHaveBeenCalledWith({
+      url: 'chrome-extension://test-id/newtab.html?panel=tasks',
+    });
+    expect(mockChrome.notifications.clear).toHaveBeenCalledWith('tasks:task_1');
+  });
+
+  it('shows notifications scheduled through alarms once', async () => {
+    const name = `${SCHEDULED_NOTIFICATION_PREFIX}tasks:reminder-7`;
+    mockChrome.storage.local.data.set(name, { title: 'Ship release', message: 'Due Mon 09:00' });
+
+    await handleAlarm({ name, scheduledTime: Date.now() });
+    expect(mockChrome.notifications.create).toHaveBeenCalledWith(
+      'tasks:reminder-7',
+      expect.objectContaining({ title: 'Ship release', message: 'Due Mon 09:00' })
+    );
+    expect(mockChrome.storage.local.data.has(name)).toBe(false);
+
+    await handleAlarm({ name, scheduledTime: Date.now() });
+    expect(mockChrome.notifications.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('blocks listed sites during work sessions and logs pages allowed once', async () => {
+    const work = beginCountdown(createTimerState('work', 25 * 60), 'session_1', Date.now());
+    mockChrome.storage.local.data.set(TIMER_STORAGE_KEY, work);
+    mockChrome.storage.local.data.set(BLOCKLIST_STORAGE_KEY, {
+      enabled: true,
+      sites: ['reddit.com'],
+    });
+
+    const blocked = await handleMessage(
+      message('getFocusBlock', { url: 'https://old.reddit.com/r/all' })
+    );
+    expect(blocked.data).toEqual({
+      site: 'reddit.com',
+      sessionId: 'session_1',
+      endsAt: work.endsAt,
+    });
+    const allowed = await handleMessage(message('getFocusBlock', { url: 'https://docs.dev' }));
+    expect(allowed.data).toBeNull();
+
+    await handleMessage(message('allowBlockedSite', { url: 'https://old.reddit.com/r/all' }));
+    expect(mockChrome.storage.local.data.get(FOCUS_OVERRIDES_STORAGE_KEY)).toEqual([
+      expect.objectContaining({ sessionId: 'session_1', site: 'reddit.com' }),
+    ]);
+
+    mockChrome.storage.local.data.set(TIMER_STORAGE_KEY, createTimerState('break', 5 * 60, 1));
+    const onBreak = await handleMessage(
+      message('getFocusBlock', { url: 'https://old.reddit.com/r/all' })
+    );
+    expect(onBreak.data).toBeNull();
+    const notBlocked = await handleMessage(message('allowBlockedSite', { url: 'https://a.dev' }));
+    expect(notBlocked).toMatchObject({ success: false, error: 'This page is not blocked' });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Background Alarms
+ * Periodic workspace sync, storage maintenance, bookmark link checks and scheduled notifications
+ */
+
+import { LINK_CHECK_ORIGINS } from '@/features/smart-hub/linkChecker';
+import { SCHEDULED_NOTIFICATION_PREFIX } from '@/platform/chrome';
+import type { NotificationOptions } from '@/platform/base';
+import { runLinkHealthCheck } from './linkHealth';
+import { optimizeStorage, syncWorkspace } from './messageRouter';
+import { showNotification } from './notifications';
+import { getSettings } from './settings';
+
+export const ALARM_NAMES = {
+  sync: 'lucaverse-sync',
+  optimizeStorage: 'lucaverse-optimize-storage',
+  linkHealth: 'lucaverse-link-health',
+} as const;
+
+// Chrome does not fire alarms more often than once a minute
+const MIN_PERIOD_MINUTES = 1;
+const OPTIMIZE_PERIOD_MINUTES = 24 * 60;
+const LINK_HEALTH_PERIOD_MINUTES = 24 * 60;
+
+/**
+ * Create or replace the alarms to match the current settings
+ */
+export const scheduleAlarms = async (): Promise<void> => {
+  const settings = await getSettings();
+
+  await chrome.alarms.clear(ALARM_NAMES.sync);
+  if (settings.autoSyncEnabled) {
+    await chrome.alarms.create(ALARM_NAMES.sync, {
+      periodInMinutes: Math.max(MIN_PERIOD_MINUTES, settings.syncInterval / 60000),
+    });
+  }
+
+  const dailyAlarms = [
+    [ALARM_NAMES.optimizeStorage, OPTIMIZE_PERIOD_MINUTES],
+    [ALARM_NAMES.linkHealth, LINK_HEALTH_PERIOD_MINUTES],
+  ] as const;
+  for (const [name, periodInMinutes] of dailyAlarms) {
+    if (!(await chrome.alarms.get(name))) {
+      await chrome.alarms.create(name, { periodInMinutes });
+    }
+  }
+};
+
+/**
+ * Show a notification scheduled through the platform NotificationAPI, e.g. a task reminder
+ */
+const showScheduledNotification = async (alarmName: string): Promise<void> => {
+  const stored = await chrome.storage.local.get(alarmName);
+  const options: NotificationOptions | undefined = stored[alarmName];
+  await chrome.storage.local.remove(alarmName);
+  if (!options) return;
+
+  await showNotification(
+    alarmName.slice(SCHEDULED_NOTIFICATION_PREFIX.length),
+    options.title,
+    options.message
+  );
+};
+
+/**
+ * Run the work for a fired alarm
+ */
+export const handleAlarm = async (alarm: chrome.alarms.Alarm): Promise<void> => {
+  try {
+    switch (alarm.name) {
+      case ALARM_NAMES.sync:
+        await syncWorkspace();
+        break;
+      case ALARM_NAMES.optimizeStorage:
+        await optimizeStorage();
+        break;
+      case ALARM_NAMES.linkHealth:
+        // Only runs once the user has granted site access from SmartHub
+        if (await chrome.permissions.contains({ origins: LINK_CHECK_ORIGINS })) {
+          await runLinkHealthCheck();
+        }
+        break;
+      default:
+        if (alarm.name.startsWith(SCHEDULED_NOTIFICATION_PREFIX)) {
+          await showScheduledNotification(alarm.name);
+        }
+    }
+  } catch (error) {
+    console.error(`Alarm "${alarm.name}" failed:`, error);
+  }
+};
@@ -0,0 +1,101 @@
+/**
+ * Background Context Menus
+ * Right-click entries for saving pages, links and selections into the hub
+ */
+
+import { addTask, saveBookmark } from './messageRouter';
+import { openDashboard, showNotification } from './notifications';
+
+export const CONTEXT_MENU_IDS = {
+  savePage: 'lucaverse-save-page',
+  saveLink: 'lucaverse-save-link',
+  addSelectionTask: 'lucaverse-add-selection-task',
+  openDashboard: 'lucaverse-open-dashboard',
+} as const;
+
+// Task titles longer than this are cut, the full selection goes into the description
+const MAX_TASK_TITLE = 120;
+
+/**
+ * Recreate the context menu entries. Called on install and update, because
+ * Chrome keeps menus between service worker restarts.
+ */
+export const createContextMenus = async (): Promise<void> => {
+  await chrome.contextMenus.removeAll();
+
+  chrome.contextMenus.create({
+    id: CONTEXT_MENU_IDS.savePage,
+    title: 'Save page to Lucaverse Hub',
+    contexts: ['page'],
+  });
+  chrome.contextMenus.create({
+    id: CONTEXT_MENU_IDS.saveLink,
+    title: 'Save link to Lucaverse Hub',
+    contexts: ['link'],
+  });
+  chrome.contextMenus.create({
+    id: CONTEXT_MENU_IDS.addSelectionTask,
+    title: 'Add "%s" as a task',
+    contexts: ['selection'],
+  });
+  chrome.contextMenus.create({
+    id: CONTEXT_MENU_IDS.openDashboard,
+    title: 'Open Lucaverse Hub',
+    contexts: ['action'],
+  });
+};
+
+/**
+ * Handle a click on one of the extension's context menu entries
+ */
+export const handleContextMenuClick = async (
+  info: chrome.contextMenus.OnClickData,
+  tab?: chrome.tabs.Tab
+): Promise<void> => {
+  try {
+    switch (info.menuItemId) {
+      case CONTEXT_MENU_IDS.savePage: {
+        const bookmark = await saveBookmark(
+          { url: info.pageUrl || tab?.url || '', title: tab?.title || info.pageUrl || '' },
+          'manual'
+        );
+        await showNotification(`bookmarks:${bookmark.id}`, 'Page saved', bookmark.title);
+        break;
+      }
+
+      case CONTEXT_MENU_IDS.saveLink: {
+        const bookmark = await saveBookmark(
+          { url: info.linkUrl || '', title: info.selectionText || info.linkUrl || '' },
+          'manual'
+        );
+        await showNotification(`bookmarks:${bookmark.id}`, 'Link saved', bookmark.title);
+        break;
+      }
+
+      case CONTEXT_MENU_IDS.addSelectionTask: {
+        const text = info.selectionText?.trim() || '';
+        const task = await addTask(
+          {
+            title: text.length > MAX_TASK_TITLE ? `${text.slice(0, MAX_TASK_TITLE - 1)}…` : text,
+            ...(text.length > MAX_TASK_TITLE && { description: text }),
+            ...(info.pageUrl && { url: info.pageUrl }),
+          },
+          'manual'
+        );
+        await showNotification(`tasks:${task.id}`, 'Task added', task.title);
+        break;
+      }
+
+      case CONTEXT_MENU_IDS.openDashboard:
+        await openDashboard();
+        break;
+    }
+  } catch (error) {
+    console.error(`Context menu action "${info.menuItemId}" failed:`, error);
+    await showNotification(
+      `error:${Date.now()}`,
+      'Lucaverse Hub',
+      error instanceof Error ? error.message : 'Action failed'
+    );
+  }
+};
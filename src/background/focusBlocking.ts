@@ -0,0 +1,77 @@
+/**
+ * Background Focus Blocking
+ * Decides which pages the content script covers during Productivity work
+ * sessions and logs the pages allowed once
+ */
+
+import {
+  BLOCKLIST_STORAGE_KEY,
+  DEFAULT_BLOCKLIST,
+  FOCUS_OVERRIDES_STORAGE_KEY,
+  addFocusOverride,
+  getFocusBlock,
+  type Blocklist,
+  type FocusBlock,
+  type FocusOverride,
+} from '@/features/productivity/distractionBlocking';
+import { TIMER_STORAGE_KEY, type TimerState } from '@/features/productivity/timerEngine';
+
+// Storage keys whose changes can block or unblock open pages
+export const FOCUS_BLOCK_KEYS = [TIMER_STORAGE_KEY, BLOCKLIST_STORAGE_KEY];
+
+const getStoredBlock = async (url: string): Promise<FocusBlock | null> => {
+  const stored = await chrome.storage.local.get([TIMER_STORAGE_KEY, BLOCKLIST_STORAGE_KEY]);
+  const timer: TimerState | null = stored?.[TIMER_STORAGE_KEY] ?? null;
+  const blocklist: Blocklist = { ...DEFAULT_BLOCKLIST, ...(stored?.[BLOCKLIST_STORAGE_KEY] || {}) };
+  return getFocusBlock(url, timer, blocklist, Date.now());
+};
+
+/**
+ * The block for a page, or null when it may be shown
+ */
+export const checkFocusBlock = async (url: string): Promise<FocusBlock | null> =>
+  url ? getStoredBlock(url) : null;
+
+/**
+ * Let a blocked page through once and log it against the running session
+ */
+export const allowBlockedSite = async (url: string): Promise<FocusOverride> => {
+  const block = url ? await getStoredBlock(url) : null;
+  if (!block) {
+    throw new Error('This page is not blocked');
+  }
+
+  const override: FocusOverride = {
+    sessionId: block.sessionId,
+    site: block.site,
+    url,
+    at: Date.now(),
+  };
+  const stored = await chrome.storage.local.get(FOCUS_OVERRIDES_STORAGE_KEY);
+  const overrides: FocusOverride[] = stored?.[FOCUS_OVERRIDES_STORAGE_KEY] || [];
+  await chrome.storage.local.set({
+    [FOCUS_OVERRIDES_STORAGE_KEY]: addFocusOverride(overrides, override),
+  });
+  return override;
+};
+
+/**
+ * Ask open pages to check their block again, e.g. when a break starts.
+ * Tabs without the content script (browser pages, the dashboard) are skipped.
+ */
+export const broadcastFocusBlockChange = async (): Promise<void> => {
+  const tabs = await chrome.tabs.query({ url: ['http://*/*', 'https://*/*'] });
+  await Promise.all(
+    tabs.map(tab =>
+      tab.id === undefined
+        ? undefined
+        : chrome.tabs
+            .sendMessage(tab.id, {
+              action: 'focusBlockChanged',
+              timestamp: Date.now(),
+              source: 'background',
+            })
+            .catch(() => undefined)
+    )
+  );
+};
@@ -0,0 +1,118 @@
+/**
+ * Extension Background Service Worker
+ * Registers every chrome event listener the extension relies on
+ */
+
+import { recordBookmarkChange } from '@/features/smart-hub/chromeBookmarks';
+import { handleAlarm, scheduleAlarms } from './alarms';
+import { createContextMenus, handleContextMenuClick } from './contextMenus';
+import { FOCUS_BLOCK_KEYS, broadcastFocusBlockChange } from './focusBlocking';
+import { handleMessage, updateBackgroundState } from './messageRouter';
+import { handleNotificationClicked, openDashboard } from './notifications';
+import { DEFAULT_SETTINGS, STORAGE_KEYS } from './settings';
+
+export { handleMessage, getBackgroundState } from './messageRouter';
+export { ALARM_NAMES } from './alarms';
+export { CONTEXT_MENU_IDS } from './contextMenus';
+export { STORAGE_KEYS, DEFAULT_SETTINGS, getSettings } from './settings';
+
+/**
+ * Install or update: store default settings, build menus and schedule alarms
+ */
+export const handleInstalled = async (details: chrome.runtime.InstalledDetails): Promise<void> => {
+  const stored = await chrome.storage.sync.get(STORAGE_KEYS.settings);
+  await chrome.storage.sync.set({
+    [STORAGE_KEYS.settings]: { ...DEFAULT_SETTINGS, ...(stored?.[STORAGE_KEYS.settings] || {}) },
+  });
+
+  await createContextMenus();
+  await scheduleAlarms();
+  await updateBackgroundState({ isInitialized: true });
+
+  if (details.reason === 'install') {
+    await openDashboard();
+  }
+};
+
+/**
+ * Browser startup: alarms survive restarts, but make sure they match the settings
+ */
+export const handleStartup = async (): Promise<void> => {
+  await scheduleAlarms();
+  await updateBackgroundState({ isInitialized: true });
+};
+
+/**
+ * Keyboard shortcuts declared under "commands" in the manifest
+ */
+export const handleCommand = async (command: string): Promise<void> => {
+  switch (command) {
+    case 'open_dashboard':
+      await openDashboard();
+      break;
+    case 'toggle_popup':
+      // openPopup needs a recent user gesture and is missing in older Chrome versions
+      try {
+        await chrome.action.openPopup();
+      } catch {
+        await openDashboard();
+      }
+      break;
+  }
+};
+
+const logFailure = (label: string) => (error: unknown) =>
+  console.error(`Background ${label} failed:`, error);
+
+/**
+ * Register all listeners. Must run synchronously at the top level of the
+ * service worker so Chrome can deliver the event that woke it up.
+ */
+export const initializeBackground = (): void => {
+  chrome.runtime.onInstalled.addListener(details => {
+    handleInstalled(details).catch(logFailure('install'));
+  });
+
+  chrome.runtime.onStartup.addListener(() => {
+    handleStartup().catch(logFailure('startup'));
+  });
+
+  chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    handleMessage(message, sender).then(sendResponse);
+    return true; // Keep the channel open for the async response
+  });
+
+  chrome.contextMenus.onClicked.addListener((info, tab) => {
+    handleContextMenuClick(info, tab).catch(logFailure('context menu'));
+  });
+
+  chrome.alarms.onAlarm.addListener(alarm => {
+    handleAlarm(alarm).catch(logFailure('alarm'));
+  });
+
+  chrome.notifications.onClicked.addListener(notificationId => {
+    handleNotificationClicked(notificationId).catch(logFailure('notification click'));
+  });
+
+  chrome.commands.onCommand.addListener(command => {
+    handleCommand(command).catch(logFailure('command'));
+  });
+
+  // SmartHub sync resolves conflicts on when each browser bookmark last changed
+  const onBookmarkChange = (nativeId: string) => {
+    recordBookmarkChange(nativeId).catch(logFailure('bookmark change log'));
+  };
+  chrome.bookmarks.onCreated.addListener(onBookmarkChange);
+  chrome.bookmarks.onChanged.addListener(onBookmarkChange);
+  chrome.bookmarks.onMoved.addListener(onBookmarkChange);
+
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'sync' && changes[STORAGE_KEYS.settings]) {
+      scheduleAlarms().catch(logFailure('alarm scheduling'));
+    }
+    // A work session starting or ending, or the blocklist changing, re-checks open pages
+    if (areaName === 'local' && FOCUS_BLOCK_KEYS.some(key => changes[key])) {
+      broadcastFocusBlockChange().catch(logFailure('focus block update'));
+    }
+  });
+};
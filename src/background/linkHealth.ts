@@ -0,0 +1,52 @@
+/**
+ * Background Link Health
+ * Re-checks SmartHub bookmark URLs and stores the results for the dashboard
+ */
+
+import {
+  LINK_CHECK_ORIGINS,
+  LINK_HEALTH_STORAGE_KEY,
+  LINK_RECHECK_AGE,
+  checkLinks,
+  type StoredLinkHealth,
+} from '@/features/smart-hub/linkChecker';
+import type { LinkHealth } from '@/types/bookmarks';
+
+const getStoredLinkHealth = async (): Promise<StoredLinkHealth> => {
+  const result = await chrome.storage.local.get(LINK_HEALTH_STORAGE_KEY);
+  return { urls: [], results: {}, lastRunAt: 0, ...(result?.[LINK_HEALTH_STORAGE_KEY] || {}) };
+};
+
+/**
+ * Check bookmark links and store the results.
+ * `urls` replaces the tracked list; without it the last tracked list is used.
+ * Unless `force` is set, links checked within LINK_RECHECK_AGE are skipped.
+ */
+export const runLinkHealthCheck = async (
+  options: { urls?: string[]; force?: boolean } = {}
+): Promise<Record<string, LinkHealth>> => {
+  const hasAccess = await chrome.permissions.contains({ origins: LINK_CHECK_ORIGINS });
+  if (!hasAccess) {
+    throw new Error('Allow access to all sites to check bookmark links');
+  }
+
+  const stored = await getStoredLinkHealth();
+  const urls = options.urls || stored.urls;
+  const now = Date.now();
+
+  const due = options.force
+    ? urls
+    : urls.filter(url => now - (stored.results[url]?.checkedAt || 0) > LINK_RECHECK_AGE);
+  const checked = await checkLinks(due);
+
+  // Drop results for links that are no longer bookmarked
+  const tracked = new Set(urls);
+  const results = Object.fromEntries(
+    Object.entries({ ...stored.results, ...checked }).filter(([url]) => tracked.has(url))
+  );
+
+  await chrome.storage.local.set({
+    [LINK_HEALTH_STORAGE_KEY]: { urls, results, lastRunAt: now } satisfies StoredLinkHealth,
+  });
+  return results;
+};
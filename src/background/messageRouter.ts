@@ -0,0 +1,334 @@
+/**
+ * Background Message Router
+ * Dispatches every MessageAction sent through chrome.runtime to its handler
+ */
+
+import {
+  createExtensionResponse,
+  isExtensionMessage,
+  type ExtensionMessage,
+  type ExtensionResponse,
+  type ExtensionTask,
+  type MessageAction,
+  type SmartBookmark,
+} from '@/types/extension';
+import { allowBlockedSite, broadcastFocusBlockChange, checkFocusBlock } from './focusBlocking';
+import { runLinkHealthCheck } from './linkHealth';
+import { showNotification } from './notifications';
+import { STORAGE_KEYS, getSettings } from './settings';
+
+type MessageSender = chrome.runtime.MessageSender;
+type MessageHandler = (data: any, sender: MessageSender) => Promise<any>;
+
+// State kept in storage because the service worker can be stopped at any time
+export interface BackgroundState {
+  isInitialized: boolean;
+  activeWorkspace: string | null;
+  lastSyncTime: number;
+  lastNewTabAt: number;
+  version: string;
+}
+
+// Caps for append-only lists kept in chrome.storage.local
+const MAX_RECENT_PAGES = 20;
+const MAX_LOG_ENTRIES = 100;
+
+const getLocal = async <T>(key: string, fallback: T): Promise<T> => {
+  const result = await chrome.storage.local.get(key);
+  return (result?.[key] as T) ?? fallback;
+};
+
+const setLocal = (key: string, value: unknown) => chrome.storage.local.set({ [key]: value });
+
+/**
+ * Read the persisted background state
+ */
+export const getBackgroundState = async (): Promise<BackgroundState> => {
+  const stored = await getLocal<Partial<BackgroundState>>(STORAGE_KEYS.state, {});
+  return {
+    isInitialized: false,
+    activeWorkspace: null,
+    lastSyncTime: 0,
+    lastNewTabAt: 0,
+    version: chrome.runtime.getManifest?.().version || '2.0.0',
+    ...stored,
+  };
+};
+
+/**
+ * Merge updates into the persisted background state
+ */
+export const updateBackgroundState = async (
+  updates: Partial<BackgroundState>
+): Promise<BackgroundState> => {
+  const state = { ...(await getBackgroundState()), ...updates };
+  await setLocal(STORAGE_KEYS.state, state);
+  return state;
+};
+
+/**
+ * Save a bookmark captured outside the dashboard. Re-saving a URL updates it.
+ */
+export const saveBookmark = async (
+  data: Partial<SmartBookmark>,
+  source: SmartBookmark['source']
+): Promise<SmartBookmark> => {
+  if (!data?.url) {
+    throw new Error('Bookmark URL is required');
+  }
+
+  const bookmarks = await getLocal<SmartBookmark[]>(STORAGE_KEYS.bookmarks, []);
+  const existing = bookmarks.find(bookmark => bookmark.url === data.url);
+  const now = Date.now();
+
+  const bookmark: SmartBookmark = {
+    id: existing?.id || `bookmark_${now}`,
+    url: data.url,
+    title: data.title || existing?.title || data.url,
+    category: data.category || existing?.category || 'General',
+    tags: data.tags || existing?.tags || [],
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    source,
+    ...(data.description && { description: data.description }),
+    ...(data.favicon && { favicon: data.favicon }),
+  };
+
+  await setLocal(STORAGE_KEYS.bookmarks, [
+    ...bookmarks.filter(item => item.url !== data.url),
+    bookmark,
+  ]);
+  return bookmark;
+};
+
+/**
+ * Save a task captured outside the dashboard
+ */
+export const addTask = async (
+  data: Partial<ExtensionTask>,
+  source: ExtensionTask['source']
+): Promise<ExtensionTask> => {
+  const title = data?.title?.trim();
+  if (!title) {
+    throw new Error('Task title is required');
+  }
+
+  const tasks = await getLocal<ExtensionTask[]>(STORAGE_KEYS.tasks, []);
+  const now = Date.now();
+
+  const task: ExtensionTask = {
+    id: `task_${now}`,
+    title,
+    completed: false,
+    priority: data.priority || 3,
+    createdAt: now,
+    updatedAt: now,
+    source,
+    ...(data.description && { description: data.description }),
+    ...(data.url && { url: data.url }),
+    ...(data.category && { category: data.category }),
+    ...(data.tags && { tags: data.tags }),
+    ...(data.dueDate && { dueDate: data.dueDate }),
+  };
+
+  await setLocal(STORAGE_KEYS.tasks, [...tasks, task]);
+  return task;
+};
+
+/**
+ * Record a workspace sync in chrome.storage.sync
+ */
+export const syncWorkspace = async (data?: { workspace?: any }): Promise<number> => {
+  const lastSyncTime = Date.now();
+  const workspace = data?.workspace || (await getLocal<any>(STORAGE_KEYS.activeWorkspace, null));
+
+  if (data?.workspace) {
+    await setLocal(STORAGE_KEYS.activeWorkspace, data.workspace);
+  }
+
+  if (workspace?.id) {
+    await chrome.storage.sync.set({
+      [STORAGE_KEYS.syncData]: {
+        lastSyncTime,
+        activeWorkspaceId: workspace.id,
+        workspaceMetadata: {
+          id: workspace.id,
+          name: workspace.name || 'Workspace',
+          ...(workspace.description && { description: workspace.description }),
+          lastAccessed: lastSyncTime,
+          panelCount: Array.isArray(workspace.panels) ? workspace.panels.length : 0,
+        },
+        settings: await getSettings(),
+        version: '2.0.0',
+      },
+    });
+  }
+
+  await updateBackgroundState({
+    lastSyncTime,
+    activeWorkspace: workspace?.name || workspace?.id || null,
+  });
+  return lastSyncTime;
+};
+
+/**
+ * Trim logs and drop empty entries from local storage
+ */
+export const optimizeStorage = async () => {
+  const bytesBefore = await chrome.storage.local.getBytesInUse(null);
+  const allData: Record<string, any> = await chrome.storage.local.get(null);
+
+  const emptyKeys = Object.keys(allData).filter(
+    key => allData[key] === null || allData[key] === undefined || allData[key] === ''
+  );
+  if (emptyKeys.length > 0) {
+    await chrome.storage.local.remove(emptyKeys);
+  }
+
+  for (const key of [STORAGE_KEYS.errors, STORAGE_KEYS.analytics]) {
+    const entries = allData[key];
+    if (Array.isArray(entries) && entries.length > MAX_LOG_ENTRIES) {
+      await setLocal(key, entries.slice(-MAX_LOG_ENTRIES));
+    }
+  }
+
+  const bytesAfter = await chrome.storage.local.getBytesInUse(null);
+  return { bytesBefore, bytesAfter, removedKeys: emptyKeys };
+};
+
+/**
+ * Forward a content-script action to a tab: the requested tab, the sending tab, or the active tab
+ */
+const forwardToContent = async (action: MessageAction, data: any, sender: MessageSender) => {
+  let tabId: number | undefined = data?.tabId ?? sender.tab?.id;
+  if (tabId === undefined) {
+    const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    tabId = activeTab?.id;
+  }
+  if (tabId === undefined) {
+    throw new Error('No tab available for content script action');
+  }
+
+  const response: ExtensionResponse | undefined = await chrome.tabs.sendMessage(tabId, {
+    action,
+    data,
+    timestamp: Date.now(),
+    source: 'background',
+  });
+  if (!response?.success) {
+    throw new Error(response?.error || 'Content script did not respond');
+  }
+  return response.data;
+};
+
+const handlers: Record<MessageAction, MessageHandler> = {
+  ping: async () => ({ pong: true, version: (await getBackgroundState()).version }),
+
+  getStorageData: async data => chrome.storage.local.get(data?.keys ?? null),
+
+  setStorageData: async data => {
+    if (!data || typeof data !== 'object') {
+      throw new Error('Storage data must be an object');
+    }
+    await chrome.storage.local.set(data);
+    return { keys: Object.keys(data) };
+  },
+
+  syncWorkspace: async data => ({ lastSyncTime: await syncWorkspace(data) }),
+
+  getExtensionState: async () => getBackgroundState(),
+
+  loadTemplate: async data => {
+    if (!data?.templateId) {
+      throw new Error('Template id is required');
+    }
+    await setLocal(STORAGE_KEYS.pendingTemplate, {
+      templateId: data.templateId,
+      requestedAt: Date.now(),
+    });
+    return { templateId: data.templateId };
+  },
+
+  saveBookmark: async (data, sender) => saveBookmark(data, sender.tab ? 'manual' : 'popup'),
+
+  quickBookmark: async data => {
+    const bookmark = await saveBookmark(data, 'manual');
+    await showNotification(`bookmarks:${bookmark.id}`, 'Bookmark saved', bookmark.title);
+    return bookmark;
+  },
+
+  addTask: async (data, sender) => addTask(data, sender.tab ? 'manual' : 'popup'),
+
+  optimizeStorage: async () => optimizeStorage(),
+
+  pageChanged: async (data, sender) => {
+    if (!data?.url) return null;
+
+    const pages = await getLocal<any[]>(STORAGE_KEYS.recentPages, []);
+    const page = {
+      url: data.url,
+      title: data.title || data.url,
+      domain: data.domain || '',
+      tabId: sender.tab?.id,
+      visitedAt: Date.now(),
+    };
+    await setLocal(
+      STORAGE_KEYS.recentPages,
+      [page, ...pages.filter(item => item.url !== data.url)].slice(0, MAX_RECENT_PAGES)
+    );
+    return page;
+  },
+
+  newTabOpened: async () => {
+    await updateBackgroundState({ lastNewTabAt: Date.now() });
+    return { pendingTemplate: await getLocal(STORAGE_KEYS.pendingTemplate, null) };
+  },
+
+  getPageContext: async (data, sender) => forwardToContent('getPageContext', data, sender),
+  extractContent: async (data, sender) => forwardToContent('extractContent', data, sender),
+  highlightElement: async (data, sender) => forwardToContent('highlightElement', data, sender),
+  injectBookmarkButton: async (data, sender) =>
+    forwardToContent('injectBookmarkButton', data, sender),
+
+  // Storage changes already reach every context through chrome.storage.onChanged
+  storageChanged: async data => ({ acknowledged: true, keys: data?.keys ?? [] }),
+
+  checkLinks: async data =>
+    runLinkHealthCheck({
+      ...(Array.isArray(data?.urls) && { urls: data.urls }),
+      force: data?.force === true,
+    }),
+
+  // Asked by the content script on every page it runs in
+  getFocusBlock: async (data, sender) => checkFocusBlock(data?.url ?? sender.tab?.url ?? ''),
+  allowBlockedSite: async (data, sender) => allowBlockedSite(data?.url ?? sender.tab?.url ?? ''),
+  focusBlockChanged: async () => broadcastFocusBlockChange(),
+};
+
+/**
+ * Route a runtime message to its handler and wrap the result in an ExtensionResponse
+ */
+export const handleMessage = async (
+  message: ExtensionMessage,
+  sender: MessageSender = {}
+): Promise<ExtensionResponse> => {
+  if (!isExtensionMessage(message)) {
+    return createExtensionResponse(false, undefined, 'Invalid message');
+  }
+
+  const handler = handlers[message.action as MessageAction];
+  if (!handler) {
+    return createExtensionResponse(false, undefined, `Unknown action: ${message.action}`);
+  }
+
+  try {
+    return createExtensionResponse(true, await handler(message.data, sender));
+  } catch (error) {
+    console.error(`Background action "${message.action}" failed:`, error);
+    return createExtensionResponse(
+      false,
+      undefined,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+  }
+};
@@ -0,0 +1,56 @@
+/**
+ * Background Notifications
+ * Shows extension notifications and opens the dashboard when they are clicked
+ */
+
+import { getSettings } from './settings';
+
+const DASHBOARD_PAGE = 'newtab.html';
+
+/**
+ * Open the dashboard in a new tab, optionally focusing a panel
+ */
+export const openDashboard = async (params: Record<string, string> = {}): Promise<void> => {
+  const query = new URLSearchParams(params).toString();
+  await chrome.tabs.create({
+    url: chrome.runtime.getURL(query ? `${DASHBOARD_PAGE}?${query}` : DASHBOARD_PAGE),
+  });
+};
+
+/**
+ * Show a basic notification unless the user turned notifications off.
+ * Returns the notification id, or null when nothing was shown.
+ */
+export const showNotification = async (
+  id: string,
+  title: string,
+  message: string
+): Promise<string | null> => {
+  const settings = await getSettings();
+  if (!settings.notificationsEnabled) {
+    return null;
+  }
+
+  try {
+    await chrome.notifications.create(id, {
+      type: 'basic',
+      iconUrl: chrome.runtime.getURL('icons/icon-128.png'),
+      title,
+      message,
+    });
+    return id;
+  } catch (error) {
+    console.error('Failed to show notification:', error);
+    return null;
+  }
+};
+
+/**
+ * Notification click: bring up the dashboard and dismiss the notification
+ */
+export const handleNotificationClicked = async (notificationId: string): Promise<void> => {
+  // Notification ids are "<panel>:<detail>", e.g. "tasks:reminder-42"
+  const [panel] = notificationId.split(':');
+  await openDashboard(panel ? { panel } : {});
+  await chrome.notifications.clear(notificationId);
+};
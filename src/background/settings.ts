@@ -0,0 +1,45 @@
+/**
+ * Background Settings
+ * Storage keys and extension settings access for the service worker
+ */
+
+import { EXTENSION_BOOKMARKS_STORAGE_KEY } from '@/features/smart-hub/bookmarkInbox';
+import { EXTENSION_TASKS_STORAGE_KEY } from '@/features/task-manager/taskInbox';
+import type { ExtensionSettings } from '@/types/extension';
+
+// chrome.storage keys owned by the background worker
+export const STORAGE_KEYS = {
+  settings: 'extensionSettings',
+  state: 'backgroundState',
+  syncData: 'syncData',
+  bookmarks: EXTENSION_BOOKMARKS_STORAGE_KEY, // Taken by SmartHub on load
+  tasks: EXTENSION_TASKS_STORAGE_KEY, // Taken by the Task Manager on load
+  recentPages: 'recent_pages',
+  pendingTemplate: 'pendingTemplate',
+  activeWorkspace: 'activeWorkspace',
+  errors: 'extension_errors',
+  analytics: 'extension_analytics',
+} as const;
+
+export const DEFAULT_SETTINGS: ExtensionSettings = {
+  autoSyncEnabled: true,
+  notificationsEnabled: true,
+  newTabOverride: true,
+  syncInterval: 300000, // 5 minutes
+  theme: 'dark',
+  debugMode: false,
+  version: '2.0.0',
+};
+
+/**
+ * Read extension settings merged over defaults
+ */
+export const getSettings = async (): Promise<ExtensionSettings> => {
+  try {
+    const result = await chrome.storage.sync.get(STORAGE_KEYS.settings);
+    return { ...DEFAULT_SETTINGS, ...(result?.[STORAGE_KEYS.settings] || {}) };
+  } catch (error) {
+    console.error('Failed to read extension settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+};
@@ -0,0 +1,7 @@
+/**
+ * Service worker entry point, built to background.js
+ */
+
+import { initializeBackground } from './index';
+
+initializeBackground();
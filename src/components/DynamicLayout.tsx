@@ -6,9 +6,11 @@
 import React, { useEffect, useCallback, useMemo, useRef, useState } from 'react';
 import { useLayoutStore } from '@/stores/layoutStore';
 import { useLayoutKeyboard } from '@/hooks/useLayoutKeyboard';
+import { useAppStore } from '@/stores/appStore';
 import { SmartHub, AIChat, TaskManager, Productivity } from '@/components/panels';
 import { PanelToolbar } from '@/components/ui/PanelToolbar';
 import { GridOverlay } from '@/components/ui/GridOverlay';
+import { CommandPalette } from '@/components/ui/CommandPalette';
 import { snapToGrid, magneticSnapToGrid } from '@/utils/gridSystem';
 import {
   findCollisions,
@@ -73,6 +75,14 @@ export const DynamicLayout: React.FC<DynamicLayoutProps> = ({
     suggestedPosition?: Position;
   } | null>(null);
 
+  // Command palette, toggled with Ctrl/Cmd+K
+  const isCommandPaletteOpen = useAppStore(state => state.isCommandPaletteOpen);
+  const setCommandPaletteOpen = useAppStore(state => state.setCommandPaletteOpen);
+  const closeCommandPalette = useCallback(
+    () => setCommandPaletteOpen(false),
+    [setCommandPaletteOpen]
+  );
+
   // Initialize keyboard shortcuts
   useLayoutKeyboard({
     enabled: enableKeyboardShortcuts,
@@ -473,6 +483,9 @@ export const DynamicLayout: React.FC<DynamicLayoutProps> = ({
         <div className="absolute bottom-0 left-0 right-0 z-40">{toolbar}</div>
       )}
 
+      {/* Command Palette */}
+      {isCommandPaletteOpen && <CommandPalette onClose={closeCommandPalette} />}
+
       {/* Global Event Listeners */}
       {enableKeyboardShortcuts && (
         <div className="sr-only">Press Ctrl+Shift+H for keyboard shortcuts help</div>
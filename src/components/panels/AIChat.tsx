@@ -5,39 +5,109 @@
  */
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Panel } from '@/components/ui';
+import { MarkdownContent, Panel } from '@/components/ui';
 import { usePanelSelection } from '@/hooks/usePanelInteractions';
 import type { Position, Size } from '@/types/panel';
+import type {
+  AIProvider,
+  ChatContext,
+  ChatMessage,
+  ChatSearchResult,
+  ChatSession,
+} from '@/types/chat';
+import {
+  PROVIDER_OPTIONS,
+  createProviderAdapter,
+  getProviderModels,
+  loadProviderSettings,
+  saveProviderSettings,
+  toProviderMessages,
+  type ProviderConfig,
+  type ProviderSettings,
+} from '@/features/ai-chat/providers';
+import { chatRepository } from '@/features/ai-chat/chatRepository';
+import { OPEN_CHAT_EVENT, takePendingChatSession } from '@/features/ai-chat/chatNavigation';
+import { buildContextPrompt, capturePageContext } from '@/features/ai-chat/pageContext';
+import {
+  getExportFileName,
+  parseSessionJSON,
+  sessionToJSON,
+  sessionToMarkdown,
+} from '@/features/ai-chat/sessionExport';
+import { sendTaskToTaskManager } from '@/features/task-manager/taskInbox';
+import { openTextFile, saveTextFile } from '@/utils/fileTransfer';
 
-// Types for AI Chat data structures
-interface ChatMessage {
-  id: string;
-  type: 'user' | 'assistant';
-  content: string;
-  timestamp: number;
-}
+// How often partial replies are persisted while streaming
+const STREAM_SAVE_INTERVAL = 1000;
 
-interface ChatSession {
-  id: string;
-  title: string;
-  messages: ChatMessage[];
-  createdAt: number;
-  updatedAt: number;
-}
+// New session seeded with the assistant greeting
+const createWelcomeChat = (): ChatSession => ({
+  id: `chat_${Date.now()}`,
+  title: 'New Chat',
+  messages: [
+    {
+      id: `msg_${Date.now()}`,
+      type: 'assistant',
+      content: "🚀 Hello! I'm your AI assistant. How can I help you today?",
+      timestamp: Date.now(),
+    },
+  ],
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+// Immutable helpers for editing a message inside the sessions map
+const appendMessage = (
+  sessions: Record<string, ChatSession>,
+  chatId: string,
+  message: ChatMessage
+): Record<string, ChatSession> => {
+  const session = sessions[chatId];
+  if (!session) return sessions;
+
+  return {
+    ...sessions,
+    [chatId]: { ...session, messages: [...session.messages, message], updatedAt: Date.now() },
+  };
+};
+
+const updateMessage = (
+  sessions: Record<string, ChatSession>,
+  chatId: string,
+  messageId: string,
+  updater: (message: ChatMessage) => ChatMessage
+): Record<string, ChatSession> => {
+  const session = sessions[chatId];
+  if (!session) return sessions;
+
+  return {
+    ...sessions,
+    [chatId]: {
+      ...session,
+      messages: session.messages.map(message =>
+        message.id === messageId ? updater(message) : message
+      ),
+      updatedAt: Date.now(),
+    },
+  };
+};
 
-type AIProvider = 'claude' | 'gpt4' | 'gemini' | 'local';
-type AIModel =
-  | 'sonnet'
-  | 'haiku'
-  | 'opus'
-  | 'gpt4-turbo'
-  | 'gpt4'
-  | 'gpt3.5-turbo'
-  | 'gemini-pro'
-  | 'gemini-ultra'
-  | 'llama2'
-  | 'codellama'
-  | 'mistral';
+const removeMessage = (
+  sessions: Record<string, ChatSession>,
+  chatId: string,
+  messageId: string
+): Record<string, ChatSession> => {
+  const session = sessions[chatId];
+  if (!session) return sessions;
+
+  return {
+    ...sessions,
+    [chatId]: {
+      ...session,
+      messages: session.messages.filter(message => message.id !== messageId),
+    },
+  };
+};
 
 export interface AIChatProps {
   id: string;
@@ -62,11 +132,23 @@ export const AIChat: React.FC<AIChatProps> = ({
   const [currentMessage, setCurrentMessage] = useState('');
   const [isThinking, setIsThinking] = useState(false);
   const [aiProvider, setAIProvider] = useState<AIProvider>('claude');
-  const [aiModel, setAIModel] = useState<AIModel>('sonnet');
+  const [aiModel, setAIModel] = useState<string>('');
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>({});
+  const [showProviderSettings, setShowProviderSettings] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<ChatSearchResult[]>([]);
+  const [renamingChatId, setRenamingChatId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [capturingContext, setCapturingContext] = useState<ChatContext['kind'] | null>(null);
+  const [contextError, setContextError] = useState<string | null>(null);
 
   // Refs
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const sessionsRef = useRef<Record<string, ChatSession>>({});
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Panel selection state
   const { isSelected } = usePanelSelection(id);
@@ -74,6 +156,7 @@ export const AIChat: React.FC<AIChatProps> = ({
   // Load data on mount
   useEffect(() => {
     loadChatSessions();
+    loadProviderSettings().then(setProviderSettings);
   }, []);
 
   // Auto-scroll to bottom when messages change
@@ -81,6 +164,40 @@ export const AIChat: React.FC<AIChatProps> = ({
     scrollToBottom();
   }, [chatSessions, activeChatId]);
 
+  // Bring a message opened from search into view
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    document
+      .getElementById(`chat-message-${highlightedMessageId}`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId, chatSessions]);
+
+  // Search every stored message as the query changes
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      chatRepository
+        .searchMessages(searchQuery)
+        .then(results => {
+          if (!cancelled) setSearchResults(results);
+        })
+        .catch(error => console.error('Chat search failed:', error));
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery]);
+
   // Auto-resize textarea
   useEffect(() => {
     if (textareaRef.current) {
@@ -89,26 +206,21 @@ export const AIChat: React.FC<AIChatProps> = ({
     }
   }, [currentMessage]);
 
-  // Load chat sessions from localStorage
-  const loadChatSessions = useCallback(() => {
+  // Load chat sessions from the chat repository, migrating the legacy localStorage blob once
+  const loadChatSessions = useCallback(async () => {
     try {
-      const stored = localStorage.getItem('lucaverse_chat_sessions');
-      if (stored) {
-        const sessions = JSON.parse(stored);
-        setChatSessions(sessions);
-
-        // Find the most recent session
-        const sessionArray = Object.values(sessions) as ChatSession[];
-        if (sessionArray.length > 0) {
-          const mostRecent = sessionArray.sort((a, b) => b.updatedAt - a.updatedAt)[0];
-          if (mostRecent) {
-            setActiveChatId(mostRecent.id);
-          } else {
-            createNewChat();
-          }
-        } else {
-          createNewChat();
-        }
+      await chatRepository.migrateLegacySessions();
+      const sessions = await chatRepository.loadSessions();
+      sessionsRef.current = sessions;
+      setChatSessions(sessions);
+
+      // Start on a session requested before the panel opened, else the most recent one
+      const requestedId = takePendingChatSession();
+      const mostRecent =
+        (requestedId && sessions[requestedId]) ||
+        Object.values(sessions).sort((a, b) => b.updatedAt - a.updatedAt)[0];
+      if (mostRecent) {
+        setActiveChatId(mostRecent.id);
       } else {
         createNewChat();
       }
@@ -118,32 +230,44 @@ export const AIChat: React.FC<AIChatProps> = ({
     }
   }, []);
 
-  // Save chat sessions to localStorage
+  // Save chat sessions to the chat repository
   const saveChatSessions = useCallback((sessions: Record<string, ChatSession>) => {
-    try {
-      localStorage.setItem('lucaverse_chat_sessions', JSON.stringify(sessions));
-    } catch (error) {
+    chatRepository.saveSessions(sessions).catch(error => {
       console.error('Failed to save chat sessions:', error);
-    }
+    });
   }, []);
 
+  // Keep the sessions ref in sync with state updates made outside of streaming
+  useEffect(() => {
+    sessionsRef.current = chatSessions;
+  }, [chatSessions]);
+
+  // Switch to sessions opened elsewhere, e.g. from the command palette
+  useEffect(() => {
+    const handleOpenChat = (event: Event) => {
+      const sessionId = (event as CustomEvent<string>).detail;
+      if (!sessionsRef.current[sessionId]) return;
+
+      event.preventDefault();
+      setActiveChatId(sessionId);
+    };
+
+    window.addEventListener(OPEN_CHAT_EVENT, handleOpenChat);
+    return () => window.removeEventListener(OPEN_CHAT_EVENT, handleOpenChat);
+  }, []);
+
+  // Stop any in-flight reply and persist partial output when the panel unmounts
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+      saveChatSessions(sessionsRef.current);
+    };
+  }, [saveChatSessions]);
+
   // Create new chat session
   const createNewChat = useCallback(() => {
-    const chatId = `chat_${Date.now()}`;
-    const newChat: ChatSession = {
-      id: chatId,
-      title: 'New Chat',
-      messages: [
-        {
-          id: `msg_${Date.now()}`,
-          type: 'assistant',
-          content: "🚀 Hello! I'm your AI assistant. How can I help you today?",
-          timestamp: Date.now(),
-        },
-      ],
-      createdAt: Date.now(),
-      updatedAt: Date.now(),
-    };
+    const newChat = createWelcomeChat();
+    const chatId = newChat.id;
 
     const updatedSessions = { ...chatSessions, [chatId]: newChat };
     setChatSessions(updatedSessions);
@@ -158,10 +282,44 @@ export const AIChat: React.FC<AIChatProps> = ({
 
   // Clear all chats
   const clearAllChats = useCallback(() => {
-    setChatSessions({});
-    setActiveChatId(null);
-    createNewChat();
-  }, [createNewChat]);
+    const newChat = createWelcomeChat();
+    const chatId = newChat.id;
+
+    const updatedSessions = { [chatId]: newChat };
+    setChatSessions(updatedSessions);
+    setActiveChatId(chatId);
+    saveChatSessions(updatedSessions);
+  }, [saveChatSessions]);
+
+  // Load the previous page of stored messages for the active chat
+  const loadOlderMessages = useCallback(async () => {
+    const session = activeChatId ? sessionsRef.current[activeChatId] : undefined;
+    const olderCount = session?.olderMessageCount ?? 0;
+    if (!session || olderCount <= 0) return;
+
+    try {
+      const expanded = await chatRepository.loadOlderMessages(session);
+      setChatSessions(prev => {
+        const current = prev[expanded.id];
+        if (!current) return prev;
+        const next = {
+          ...prev,
+          [expanded.id]: {
+            ...current,
+            messages: [
+              ...expanded.messages.slice(0, olderCount - (expanded.olderMessageCount ?? 0)),
+              ...current.messages,
+            ],
+            olderMessageCount: expanded.olderMessageCount ?? 0,
+          },
+        };
+        sessionsRef.current = next;
+        return next;
+      });
+    } catch (error) {
+      console.error('Failed to load older messages:', error);
+    }
+  }, [activeChatId]);
 
   // Get active chat
   const activeChat = activeChatId ? chatSessions[activeChatId] : null;
@@ -171,10 +329,245 @@ export const AIChat: React.FC<AIChatProps> = ({
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, []);
 
+  // Stream AI response through the selected provider adapter
+  const streamAIResponse = useCallback(
+    async (
+      history: ChatMessage[],
+      provider: AIProvider,
+      model: string,
+      signal: AbortSignal,
+      onToken: (token: string) => void,
+      context?: ChatContext
+    ): Promise<string> => {
+      const adapter = createProviderAdapter(provider, providerSettings[provider]);
+      const response = await adapter.stream(
+        {
+          model,
+          messages: toProviderMessages(history),
+          signal,
+          ...(context && { systemPrompt: buildContextPrompt(context) }),
+        },
+        onToken
+      );
+
+      return response.content;
+    },
+    [providerSettings]
+  );
+
+  // Apply sessions immediately so stream callbacks and unmount cleanup see the latest state
+  const commitSessions = useCallback((sessions: Record<string, ChatSession>) => {
+    sessionsRef.current = sessions;
+    setChatSessions(sessions);
+  }, []);
+
+  // Rename a chat session
+  const renameChat = useCallback(
+    (chatId: string, title: string) => {
+      const session = sessionsRef.current[chatId];
+      const trimmed = title.trim();
+      setRenamingChatId(null);
+      if (!session || !trimmed || trimmed === session.title) return;
+
+      const updatedSessions = { ...sessionsRef.current, [chatId]: { ...session, title: trimmed } };
+      commitSessions(updatedSessions);
+      saveChatSessions(updatedSessions);
+    },
+    [commitSessions, saveChatSessions]
+  );
+
+  // Pin or unpin a chat session to the top of the history
+  const togglePinChat = useCallback(
+    (chatId: string) => {
+      const session = sessionsRef.current[chatId];
+      if (!session) return;
+
+      const { pinned, ...rest } = session;
+      const updatedSessions = {
+        ...sessionsRef.current,
+        [chatId]: pinned ? rest : { ...rest, pinned: true },
+      };
+      commitSessions(updatedSessions);
+      saveChatSessions(updatedSessions);
+    },
+    [commitSessions, saveChatSessions]
+  );
+
+  // Delete a single chat session
+  const deleteChat = useCallback(
+    (chatId: string) => {
+      const session = sessionsRef.current[chatId];
+      if (!session || !confirm(`Delete "${session.title}"? This cannot be undone.`)) return;
+
+      if (chatId === activeChatId) {
+        abortControllerRef.current?.abort();
+      }
+
+      const { [chatId]: _deleted, ...remaining } = sessionsRef.current;
+      const nextActive = Object.values(remaining).sort((a, b) => b.updatedAt - a.updatedAt)[0];
+
+      if (!nextActive) {
+        clearAllChats();
+        return;
+      }
+
+      commitSessions(remaining);
+      saveChatSessions(remaining);
+      if (chatId === activeChatId) {
+        setActiveChatId(nextActive.id);
+      }
+    },
+    [activeChatId, clearAllChats, commitSessions, saveChatSessions]
+  );
+
+  // Export a chat session, including messages that are not loaded yet
+  const exportChat = useCallback(async (chatId: string, format: 'md' | 'json') => {
+    try {
+      const session = (await chatRepository.loadFullSession(chatId)) || sessionsRef.current[chatId];
+      if (!session) return;
+
+      if (format === 'md') {
+        await saveTextFile(
+          getExportFileName(session, 'md'),
+          sessionToMarkdown(session),
+          'text/markdown',
+          [{ name: 'Markdown', extensions: ['md'] }]
+        );
+      } else {
+        await saveTextFile(
+          getExportFileName(session, 'json'),
+          sessionToJSON(session),
+          'application/json',
+          [{ name: 'JSON', extensions: ['json'] }]
+        );
+      }
+    } catch (error) {
+      console.error('Failed to export chat:', error);
+      alert('Failed to export chat. Please try again.');
+    }
+  }, []);
+
+  // Import a chat session from a JSON export
+  const importChat = useCallback(async () => {
+    try {
+      const file = await openTextFile([{ name: 'JSON', extensions: ['json'] }]);
+      if (!file) return;
+
+      const imported = parseSessionJSON(file.content);
+      const session: ChatSession = sessionsRef.current[imported.id]
+        ? { ...imported, id: `chat_${Date.now()}` }
+        : imported;
+
+      const updatedSessions = { ...sessionsRef.current, [session.id]: session };
+      commitSessions(updatedSessions);
+      saveChatSessions(updatedSessions);
+      setActiveChatId(session.id);
+    } catch (error) {
+      console.error('Failed to import chat:', error);
+      alert(error instanceof Error ? error.message : 'Failed to import chat.');
+    }
+  }, [commitSessions, saveChatSessions]);
+
+  // Open a search result, loading the full history when the match is not loaded yet
+  const openSearchResult = useCallback(
+    async (result: ChatSearchResult) => {
+      setActiveChatId(result.sessionId);
+      setSearchQuery('');
+      setSearchResults([]);
+      if (!result.messageId) return;
+
+      const session = sessionsRef.current[result.sessionId];
+      if (session && !session.messages.some(message => message.id === result.messageId)) {
+        try {
+          const full = await chatRepository.loadFullSession(result.sessionId);
+          if (full) {
+            commitSessions({ ...sessionsRef.current, [full.id]: full });
+          }
+        } catch (error) {
+          console.error('Failed to load chat history:', error);
+        }
+      }
+      setHighlightedMessageId(result.messageId);
+    },
+    [commitSessions]
+  );
+
+  // Ground the active chat on the current page or its selected text
+  const attachPageContext = useCallback(
+    async (kind: ChatContext['kind']) => {
+      const chatId = activeChatId;
+      if (!chatId) return;
+
+      setCapturingContext(kind);
+      setContextError(null);
+      try {
+        const context = await capturePageContext(kind);
+        const session = sessionsRef.current[chatId];
+        if (!session) return;
+
+        const updatedSessions = {
+          ...sessionsRef.current,
+          [chatId]: {
+            ...session,
+            context,
+            ...(session.title === 'New Chat' && {
+              title:
+                context.title.length > 30 ? context.title.substring(0, 30) + '...' : context.title,
+            }),
+            updatedAt: Date.now(),
+          },
+        };
+        commitSessions(updatedSessions);
+        saveChatSessions(updatedSessions);
+        textareaRef.current?.focus();
+      } catch (error) {
+        console.error('Failed to capture page context:', error);
+        setContextError(error instanceof Error ? error.message : 'Failed to read the page');
+      } finally {
+        setCapturingContext(null);
+      }
+    },
+    [activeChatId, commitSessions, saveChatSessions]
+  );
+
+  // Stop grounding the active chat on a page
+  const detachPageContext = useCallback(() => {
+    const session = activeChatId ? sessionsRef.current[activeChatId] : undefined;
+    if (!session?.context) return;
+
+    const { context: _context, ...rest } = session;
+    const updatedSessions = { ...sessionsRef.current, [session.id]: rest };
+    commitSessions(updatedSessions);
+    saveChatSessions(updatedSessions);
+  }, [activeChatId, commitSessions, saveChatSessions]);
+
+  // Turn a code block from a reply into a Task Manager task
+  const sendCodeToTasks = useCallback((code: string, language: string) => {
+    const firstLine =
+      code
+        .split('\n')
+        .find(line => line.trim())
+        ?.trim() || 'snippet';
+    const summary = firstLine.length > 60 ? `${firstLine.substring(0, 60)}...` : firstLine;
+
+    try {
+      sendTaskToTaskManager({
+        text: `Review ${language ? `${language} ` : ''}code: ${summary}`,
+        category: 'Development',
+        tags: ['ai-chat', 'code'],
+        notes: code,
+      });
+    } catch (error) {
+      console.error('Failed to send code to Task Manager:', error);
+      alert('Failed to send code to Task Manager.');
+    }
+  }, []);
+
   // Handle sending message
   const sendMessage = useCallback(async () => {
     const message = currentMessage.trim();
-    if (!message || !activeChatId || isThinking) return;
+    const chatId = activeChatId;
+    if (!message || !chatId || isThinking) return;
 
     const userMessage: ChatMessage = {
       id: `msg_${Date.now()}`,
@@ -183,106 +576,129 @@ export const AIChat: React.FC<AIChatProps> = ({
       timestamp: Date.now(),
     };
 
-    // Add user message to active chat
-    const updatedSessions = { ...chatSessions };
-    if (updatedSessions[activeChatId]) {
-      updatedSessions[activeChatId].messages.push(userMessage);
-      updatedSessions[activeChatId].updatedAt = Date.now();
+    const assistantMessageId = `msg_${Date.now() + 1}`;
+    const assistantMessage: ChatMessage = {
+      id: assistantMessageId,
+      type: 'assistant',
+      content: '',
+      timestamp: Date.now(),
+      model: aiModel,
+      partial: true,
+    };
 
-      // Update title if this is the first user message
-      if (updatedSessions[activeChatId].title === 'New Chat') {
-        updatedSessions[activeChatId].title =
-          message.length > 30 ? message.substring(0, 30) + '...' : message;
-      }
+    // Add user message and an empty reply to the active chat
+    let updatedSessions = appendMessage(sessionsRef.current, chatId, userMessage);
+    const history = updatedSessions[chatId]?.messages || [userMessage];
+    updatedSessions = appendMessage(updatedSessions, chatId, assistantMessage);
+
+    // Update title if this is the first user message
+    const session = updatedSessions[chatId];
+    if (session && session.title === 'New Chat') {
+      updatedSessions = {
+        ...updatedSessions,
+        [chatId]: {
+          ...session,
+          title: message.length > 30 ? message.substring(0, 30) + '...' : message,
+        },
+      };
     }
 
-    setChatSessions(updatedSessions);
+    commitSessions(updatedSessions);
     setCurrentMessage('');
     setIsThinking(true);
+    setStreamingMessageId(assistantMessageId);
     saveChatSessions(updatedSessions);
 
-    // Simulate AI response
-    try {
-      const response = await generateAIResponse(message, aiProvider, aiModel);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
-      const assistantMessage: ChatMessage = {
-        id: `msg_${Date.now() + 1}`,
-        type: 'assistant',
-        content: response,
-        timestamp: Date.now(),
-      };
+    let content = '';
+    let lastSaved = Date.now();
 
-      const finalSessions = { ...updatedSessions };
-      if (finalSessions[activeChatId]) {
-        finalSessions[activeChatId].messages.push(assistantMessage);
-        finalSessions[activeChatId].updatedAt = Date.now();
-      }
+    try {
+      const context = updatedSessions[chatId]?.context;
+      await streamAIResponse(
+        history,
+        aiProvider,
+        aiModel,
+        controller.signal,
+        token => {
+          content += token;
+          const next = updateMessage(sessionsRef.current, chatId, assistantMessageId, msg => ({
+            ...msg,
+            content,
+          }));
+          commitSessions(next);
 
-      setChatSessions(finalSessions);
-      saveChatSessions(finalSessions);
-    } catch (error) {
-      console.error('Failed to get AI response:', error);
+          // Persist partial replies periodically so nothing is lost mid-stream
+          if (Date.now() - lastSaved > STREAM_SAVE_INTERVAL) {
+            lastSaved = Date.now();
+            saveChatSessions(next);
+          }
+        },
+        context
+      );
 
-      const errorMessage: ChatMessage = {
-        id: `msg_${Date.now() + 1}`,
-        type: 'assistant',
-        content: '❌ Sorry, I encountered an error. Please try again.',
-        timestamp: Date.now(),
-      };
+      commitSessions(
+        updateMessage(sessionsRef.current, chatId, assistantMessageId, msg => ({
+          ...msg,
+          content,
+          timestamp: Date.now(),
+          partial: false,
+        }))
+      );
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before the stop; drop the reply if nothing did
+        commitSessions(
+          content
+            ? updateMessage(sessionsRef.current, chatId, assistantMessageId, msg => ({
+                ...msg,
+                content,
+              }))
+            : removeMessage(sessionsRef.current, chatId, assistantMessageId)
+        );
+      } else {
+        console.error('Failed to get AI response:', error);
 
-      const errorSessions = { ...updatedSessions };
-      if (errorSessions[activeChatId]) {
-        errorSessions[activeChatId].messages.push(errorMessage);
-        errorSessions[activeChatId].updatedAt = Date.now();
+        const errorText = `❌ ${error instanceof Error ? error.message : 'Sorry, I encountered an error. Please try again.'}`;
+        commitSessions(
+          updateMessage(sessionsRef.current, chatId, assistantMessageId, msg =>
+            content
+              ? { ...msg, content: `${content}\n\n${errorText}` }
+              : {
+                  id: msg.id,
+                  type: 'assistant',
+                  content: errorText,
+                  timestamp: Date.now(),
+                  error: true,
+                }
+          )
+        );
       }
-
-      setChatSessions(errorSessions);
-      saveChatSessions(errorSessions);
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
+      setStreamingMessageId(null);
       setIsThinking(false);
+      saveChatSessions(sessionsRef.current);
     }
   }, [
     currentMessage,
     activeChatId,
     isThinking,
-    chatSessions,
     aiProvider,
     aiModel,
     saveChatSessions,
+    streamAIResponse,
+    commitSessions,
   ]);
 
-  // Generate AI response (simulation)
-  const generateAIResponse = useCallback(
-    async (message: string, _provider: AIProvider, _model: AIModel): Promise<string> => {
-      // Simulate network delay
-      await new Promise(resolve => setTimeout(resolve, 1500 + Math.random() * 2000));
-
-      const responses = [
-        "I understand your question. Based on current best practices, here's my analysis:",
-        "That's an excellent point. Let me break this down into actionable steps for you.",
-        "I've analyzed your request and here are my recommendations with examples.",
-        "Interesting challenge! Here's a comprehensive solution approach.",
-        'Great question! This relates to several key concepts in modern development.',
-        "Let me help you with that. Here's what I recommend:",
-        "Based on the latest information, here's my technical analysis:",
-        "I can assist with that implementation. Here's the optimal approach:",
-      ];
-
-      const baseResponse = responses[Math.floor(Math.random() * responses.length)];
-
-      // Add contextual response based on message content
-      if (message.toLowerCase().includes('code')) {
-        return `${baseResponse}\n\n\`\`\`javascript\n// Example implementation\nconst solution = () => {\n  // Your optimized code here\n  return result;\n};\n\`\`\`\n\nThis approach ensures maintainability and performance.`;
-      } else if (message.toLowerCase().includes('debug')) {
-        return `${baseResponse}\n\n1. **Check for common issues**\n2. **Verify input validation**\n3. **Review error handling**\n4. **Test edge cases**\n\nWould you like me to elaborate on any of these steps?`;
-      } else if (message.toLowerCase().includes('optimize')) {
-        return `${baseResponse}\n\n• **Performance improvements**\n• **Memory optimization**\n• **Code refactoring suggestions**\n• **Best practices implementation**\n\nLet me know which area you'd like to focus on first.`;
-      }
-
-      return `${baseResponse}\n\nRegarding "${message.split(' ').slice(-3).join(' ')}", I'd be happy to provide more specific guidance if you can share additional context.`;
-    },
-    []
-  );
+  // Stop the in-flight reply
+  const stopGenerating = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
 
   // Handle keyboard shortcuts
   const handleKeyDown = useCallback(
@@ -333,43 +749,29 @@ export const AIChat: React.FC<AIChatProps> = ({
     return `${days}d ago`;
   }, []);
 
-  // Model options based on provider
-  const getModelOptions = useCallback((provider: AIProvider) => {
-    const modelOptions = {
-      claude: [
-        { value: 'sonnet', label: 'Claude 3.5 Sonnet' },
-        { value: 'haiku', label: 'Claude 3 Haiku' },
-        { value: 'opus', label: 'Claude 3 Opus' },
-      ],
-      gpt4: [
-        { value: 'gpt4-turbo', label: 'GPT-4 Turbo' },
-        { value: 'gpt4', label: 'GPT-4' },
-        { value: 'gpt3.5-turbo', label: 'GPT-3.5 Turbo' },
-      ],
-      gemini: [
-        { value: 'gemini-pro', label: 'Gemini Pro' },
-        { value: 'gemini-ultra', label: 'Gemini Ultra' },
-      ],
-      local: [
-        { value: 'llama2', label: 'Llama 2 70B' },
-        { value: 'codellama', label: 'Code Llama' },
-        { value: 'mistral', label: 'Mistral 7B' },
-      ],
-    };
-
-    return modelOptions[provider] || modelOptions.claude;
-  }, []);
-
   // Update model when provider changes
   useEffect(() => {
-    const options = getModelOptions(aiProvider);
+    const options = getProviderModels(aiProvider);
     if (options.length > 0) {
-      setAIModel(options[0].value as AIModel);
+      setAIModel(options[0]!.value);
     }
-  }, [aiProvider, getModelOptions]);
+  }, [aiProvider]);
 
-  // Chat sessions array for sidebar
-  const chatSessionsArray = Object.values(chatSessions).sort((a, b) => b.updatedAt - a.updatedAt);
+  // Update connection settings for the selected provider
+  const updateProviderConfig = useCallback(
+    (updates: Partial<ProviderConfig>) => {
+      setProviderSettings(prev => ({
+        ...prev,
+        [aiProvider]: { ...prev[aiProvider], ...updates },
+      }));
+    },
+    [aiProvider]
+  );
+
+  // Chat sessions array for sidebar, pinned first
+  const chatSessionsArray = Object.values(chatSessions).sort(
+    (a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.updatedAt - a.updatedAt
+  );
 
   return (
     <Panel
@@ -407,6 +809,23 @@ export const AIChat: React.FC<AIChatProps> = ({
               </button>
             </div>
 
+            <div className="flex space-x-2 mb-3">
+              <input
+                type="text"
+                placeholder="🔍 Search chats..."
+                value={searchQuery}
+                onChange={e => setSearchQuery(e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white placeholder-white placeholder-opacity-40 text-xs focus:outline-none focus:ring-1 focus:ring-blue-400"
+              />
+              <button
+                onClick={importChat}
+                title="Import chat from JSON"
+                className="px-2 py-1 bg-white bg-opacity-10 text-white text-opacity-80 rounded text-xs hover:bg-opacity-20 transition-colors"
+              >
+                Import
+              </button>
+            </div>
+
             {/* Provider & Model Selection */}
             <div className="space-y-2">
               <select
@@ -414,53 +833,176 @@ export const AIChat: React.FC<AIChatProps> = ({
                 onChange={e => setAIProvider(e.target.value as AIProvider)}
                 className="w-full px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-xs focus:outline-none focus:ring-1 focus:ring-blue-400"
               >
-                <option value="claude">Claude</option>
-                <option value="gpt4">GPT-4</option>
-                <option value="gemini">Gemini</option>
-                <option value="local">Local Models</option>
+                {PROVIDER_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
               </select>
 
               <select
                 value={aiModel}
-                onChange={e => setAIModel(e.target.value as AIModel)}
+                onChange={e => setAIModel(e.target.value)}
                 className="w-full px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-xs focus:outline-none focus:ring-1 focus:ring-blue-400"
               >
-                {getModelOptions(aiProvider).map(option => (
+                {getProviderModels(aiProvider).map(option => (
                   <option key={option.value} value={option.value}>
                     {option.label}
                   </option>
                 ))}
               </select>
+
+              <button
+                onClick={() => setShowProviderSettings(!showProviderSettings)}
+                className="w-full px-2 py-1 bg-white bg-opacity-10 text-white text-opacity-80 rounded text-xs hover:bg-opacity-20 transition-colors"
+              >
+                {showProviderSettings ? '▾' : '▸'} Connection
+              </button>
+
+              {showProviderSettings && (
+                <div className="space-y-2">
+                  <input
+                    type="password"
+                    placeholder={aiProvider === 'local' ? 'API key (optional)' : 'API key'}
+                    value={providerSettings[aiProvider]?.apiKey || ''}
+                    onChange={e => updateProviderConfig({ apiKey: e.target.value })}
+                    onBlur={() => saveProviderSettings(providerSettings)}
+                    className="w-full px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white placeholder-white placeholder-opacity-40 text-xs focus:outline-none focus:ring-1 focus:ring-blue-400"
+                  />
+                  <input
+                    type="text"
+                    placeholder={`${createProviderAdapter(aiProvider).name} endpoint (optional)`}
+                    value={providerSettings[aiProvider]?.baseUrl || ''}
+                    onChange={e => updateProviderConfig({ baseUrl: e.target.value })}
+                    onBlur={() => saveProviderSettings(providerSettings)}
+                    className="w-full px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white placeholder-white placeholder-opacity-40 text-xs focus:outline-none focus:ring-1 focus:ring-blue-400"
+                  />
+                </div>
+              )}
             </div>
           </div>
 
           {/* Chat History */}
           <div className="flex-1 overflow-auto">
-            {chatSessionsArray.map(session => {
-              const lastMessage = session.messages[session.messages.length - 1];
-              const preview =
-                lastMessage?.content && lastMessage.content.length > 40
-                  ? lastMessage.content.substring(0, 40) + '...'
-                  : lastMessage?.content || 'New conversation';
-
-              return (
-                <div
-                  key={session.id}
-                  onClick={() => switchToChat(session.id)}
-                  className={`p-3 cursor-pointer border-b border-white border-opacity-5 hover:bg-white hover:bg-opacity-5 transition-colors ${
-                    activeChatId === session.id ? 'bg-white bg-opacity-10' : ''
-                  }`}
-                >
-                  <div className="text-white text-sm font-medium truncate mb-1">
-                    {session.title}
+            {searchQuery.trim() ? (
+              searchResults.length === 0 ? (
+                <div className="p-3 text-white text-opacity-60 text-xs">No matches</div>
+              ) : (
+                searchResults.map(result => (
+                  <div
+                    key={`${result.sessionId}_${result.messageId}`}
+                    onClick={() => openSearchResult(result)}
+                    className="p-3 cursor-pointer border-b border-white border-opacity-5 hover:bg-white hover:bg-opacity-5 transition-colors"
+                  >
+                    <div className="text-white text-sm font-medium truncate mb-1">
+                      {result.sessionTitle}
+                    </div>
+                    <div className="text-white text-opacity-60 text-xs mb-1 line-clamp-2">
+                      {result.snippet}
+                    </div>
+                    <div className="text-white text-opacity-40 text-xs">
+                      {getTimeAgo(result.timestamp)}
+                    </div>
                   </div>
-                  <div className="text-white text-opacity-60 text-xs truncate mb-1">{preview}</div>
-                  <div className="text-white text-opacity-40 text-xs">
-                    {getTimeAgo(session.updatedAt)}
+                ))
+              )
+            ) : (
+              chatSessionsArray.map(session => {
+                const lastMessage = session.messages[session.messages.length - 1];
+                const preview =
+                  lastMessage?.content && lastMessage.content.length > 40
+                    ? lastMessage.content.substring(0, 40) + '...'
+                    : lastMessage?.content || 'New conversation';
+
+                return (
+                  <div
+                    key={session.id}
+                    onClick={() => switchToChat(session.id)}
+                    className={`group p-3 cursor-pointer border-b border-white border-opacity-5 hover:bg-white hover:bg-opacity-5 transition-colors ${
+                      activeChatId === session.id ? 'bg-white bg-opacity-10' : ''
+                    }`}
+                  >
+                    {renamingChatId === session.id ? (
+                      <input
+                        autoFocus
+                        value={renameValue}
+                        onClick={e => e.stopPropagation()}
+                        onChange={e => setRenameValue(e.target.value)}
+                        onBlur={() => renameChat(session.id, renameValue)}
+                        onKeyDown={e => {
+                          if (e.key === 'Enter') renameChat(session.id, renameValue);
+                          if (e.key === 'Escape') setRenamingChatId(null);
+                        }}
+                        className="w-full mb-1 px-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-sm focus:outline-none focus:ring-1 focus:ring-blue-400"
+                      />
+                    ) : (
+                      <div
+                        onDoubleClick={() => {
+                          setRenamingChatId(session.id);
+                          setRenameValue(session.title);
+                        }}
+                        className="text-white text-sm font-medium truncate mb-1"
+                      >
+                        {session.pinned && '📌 '}
+                        {session.context && '🌐 '}
+                        {session.title}
+                      </div>
+                    )}
+                    <div className="text-white text-opacity-60 text-xs truncate mb-1">
+                      {preview}
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <div className="text-white text-opacity-40 text-xs">
+                        {getTimeAgo(session.updatedAt)}
+                      </div>
+                      <div
+                        onClick={e => e.stopPropagation()}
+                        className="hidden group-hover:flex space-x-1 text-xs"
+                      >
+                        <button
+                          onClick={() => togglePinChat(session.id)}
+                          title={session.pinned ? 'Unpin' : 'Pin'}
+                          className="opacity-60 hover:opacity-100"
+                        >
+                          📌
+                        </button>
+                        <button
+                          onClick={() => {
+                            setRenamingChatId(session.id);
+                            setRenameValue(session.title);
+                          }}
+                          title="Rename"
+                          className="opacity-60 hover:opacity-100"
+                        >
+                          ✏️
+                        </button>
+                        <button
+                          onClick={() => exportChat(session.id, 'md')}
+                          title="Export as Markdown"
+                          className="opacity-60 hover:opacity-100 text-white"
+                        >
+                          MD
+                        </button>
+                        <button
+                          onClick={() => exportChat(session.id, 'json')}
+                          title="Export as JSON"
+                          className="opacity-60 hover:opacity-100 text-white"
+                        >
+                          JSON
+                        </button>
+                        <button
+                          onClick={() => deleteChat(session.id)}
+                          title="Delete"
+                          className="opacity-60 hover:opacity-100"
+                        >
+                          🗑️
+                        </button>
+                      </div>
+                    </div>
                   </div>
-                </div>
-              );
-            })}
+                );
+              })
+            )}
           </div>
         </div>
 
@@ -483,57 +1025,143 @@ export const AIChat: React.FC<AIChatProps> = ({
                   {template.emoji}
                 </button>
               ))}
+              <div className="flex-1" />
+              <button
+                onClick={() => attachPageContext('page')}
+                disabled={!!capturingContext}
+                title="Ask about the current page"
+                className="px-2 py-1 bg-white bg-opacity-10 text-white text-opacity-80 rounded text-xs hover:bg-opacity-20 transition-colors disabled:opacity-40"
+              >
+                {capturingContext === 'page' ? '⏳' : '🌐'} Page
+              </button>
+              <button
+                onClick={() => attachPageContext('selection')}
+                disabled={!!capturingContext}
+                title="Ask about the text selected on the current page"
+                className="px-2 py-1 bg-white bg-opacity-10 text-white text-opacity-80 rounded text-xs hover:bg-opacity-20 transition-colors disabled:opacity-40"
+              >
+                {capturingContext === 'selection' ? '⏳' : '✂️'} Selection
+              </button>
             </div>
+
+            {contextError && (
+              <div className="mt-2 text-xs text-red-300 flex items-center justify-between">
+                <span>{contextError}</span>
+                <button
+                  onClick={() => setContextError(null)}
+                  className="opacity-60 hover:opacity-100"
+                >
+                  ✕
+                </button>
+              </div>
+            )}
+
+            {/* Grounded page */}
+            {activeChat?.context && (
+              <div className="mt-2 px-2 py-1 bg-blue-500 bg-opacity-20 rounded text-xs text-blue-100 flex items-center space-x-2">
+                <span>{activeChat.context.kind === 'selection' ? '✂️' : '🌐'}</span>
+                <a
+                  href={activeChat.context.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title={activeChat.context.url}
+                  className="flex-1 truncate hover:underline"
+                >
+                  {activeChat.context.kind === 'selection' ? 'Selection from ' : 'Grounded on '}
+                  {activeChat.context.title}
+                  <span className="opacity-60"> · {activeChat.context.domain}</span>
+                  {activeChat.context.truncated && <span className="opacity-60"> · truncated</span>}
+                </a>
+                <button
+                  onClick={detachPageContext}
+                  title="Stop using this page as context"
+                  className="opacity-60 hover:opacity-100"
+                >
+                  ✕
+                </button>
+              </div>
+            )}
           </div>
 
           {/* Messages */}
           <div className="flex-1 overflow-auto p-4 space-y-4">
-            {activeChat?.messages.map(message => (
-              <div
-                key={message.id}
-                className={`message ${message.type === 'user' ? 'ml-8' : 'mr-8'}`}
-              >
+            {!!activeChat?.olderMessageCount && (
+              <div className="text-center">
+                <button
+                  onClick={loadOlderMessages}
+                  className="px-3 py-1 bg-white bg-opacity-10 text-white text-opacity-80 rounded text-xs hover:bg-opacity-20 transition-colors"
+                >
+                  ⬆️ Load earlier messages ({activeChat.olderMessageCount})
+                </button>
+              </div>
+            )}
+            {activeChat?.messages
+              .filter(message => message.id !== streamingMessageId || message.content)
+              .map(message => (
                 <div
-                  className={`p-3 rounded-lg ${
-                    message.type === 'user'
-                      ? 'bg-blue-500 bg-opacity-20 text-blue-100 ml-auto'
-                      : 'bg-white bg-opacity-10 text-white'
+                  key={message.id}
+                  id={`chat-message-${message.id}`}
+                  className={`message ${message.type === 'user' ? 'ml-8' : 'mr-8'} ${
+                    message.id === highlightedMessageId ? 'ring-2 ring-yellow-400 rounded-lg' : ''
                   }`}
                 >
-                  <div className="font-medium text-sm mb-1">
-                    {message.type === 'user' ? 'You' : '🤖 Lucaverse AI'}
+                  <div
+                    className={`p-3 rounded-lg ${
+                      message.type === 'user'
+                        ? 'bg-blue-500 bg-opacity-20 text-blue-100 ml-auto'
+                        : 'bg-white bg-opacity-10 text-white'
+                    }`}
+                  >
+                    <div className="font-medium text-sm mb-1">
+                      {message.type === 'user' ? 'You' : '🤖 Lucaverse AI'}
+                    </div>
+                    <div className="text-sm">
+                      {message.type === 'assistant' ? (
+                        <MarkdownContent
+                          content={message.content}
+                          onSendCodeToTasks={sendCodeToTasks}
+                        />
+                      ) : (
+                        <div className="whitespace-pre-wrap">{message.content}</div>
+                      )}
+                      {message.id === streamingMessageId && (
+                        <span className="inline-block w-2 animate-pulse">▍</span>
+                      )}
+                    </div>
+                    <div className="text-xs opacity-60 mt-2">
+                      {formatTime(message.timestamp)}
+                      {message.partial && message.id !== streamingMessageId && ' • ⏹️ Stopped'}
+                    </div>
                   </div>
-                  <div className="text-sm whitespace-pre-wrap">{message.content}</div>
-                  <div className="text-xs opacity-60 mt-2">{formatTime(message.timestamp)}</div>
                 </div>
-              </div>
-            ))}
+              ))}
 
             {/* Thinking indicator */}
-            {isThinking && (
-              <div className="mr-8">
-                <div className="bg-white bg-opacity-10 text-white p-3 rounded-lg">
-                  <div className="font-medium text-sm mb-1">🤖 Lucaverse AI</div>
-                  <div className="flex items-center space-x-2">
-                    <span className="text-sm">Thinking</span>
-                    <div className="flex space-x-1">
-                      <div
-                        className="w-1 h-1 bg-white rounded-full animate-bounce"
-                        style={{ animationDelay: '0ms' }}
-                      ></div>
-                      <div
-                        className="w-1 h-1 bg-white rounded-full animate-bounce"
-                        style={{ animationDelay: '150ms' }}
-                      ></div>
-                      <div
-                        className="w-1 h-1 bg-white rounded-full animate-bounce"
-                        style={{ animationDelay: '300ms' }}
-                      ></div>
+            {isThinking &&
+              !activeChat?.messages.find(message => message.id === streamingMessageId)?.content && (
+                <div className="mr-8">
+                  <div className="bg-white bg-opacity-10 text-white p-3 rounded-lg">
+                    <div className="font-medium text-sm mb-1">🤖 Lucaverse AI</div>
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm">Thinking</span>
+                      <div className="flex space-x-1">
+                        <div
+                          className="w-1 h-1 bg-white rounded-full animate-bounce"
+                          style={{ animationDelay: '0ms' }}
+                        ></div>
+                        <div
+                          className="w-1 h-1 bg-white rounded-full animate-bounce"
+                          style={{ animationDelay: '150ms' }}
+                        ></div>
+                        <div
+                          className="w-1 h-1 bg-white rounded-full animate-bounce"
+                          style={{ animationDelay: '300ms' }}
+                        ></div>
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
-            )}
+              )}
 
             <div ref={messagesEndRef} />
           </div>
@@ -554,13 +1182,22 @@ export const AIChat: React.FC<AIChatProps> = ({
                 className="flex-1 px-3 py-2 bg-white bg-opacity-10 border border-white border-opacity-20 rounded-lg text-white placeholder-white placeholder-opacity-60 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent resize-none"
                 style={{ minHeight: '40px', maxHeight: '120px' }}
               />
-              <button
-                onClick={sendMessage}
-                disabled={!currentMessage.trim() || isThinking}
-                className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-              >
-                Send
-              </button>
+              {isThinking ? (
+                <button
+                  onClick={stopGenerating}
+                  className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+                >
+                  Stop
+                </button>
+              ) : (
+                <button
+                  onClick={sendMessage}
+                  disabled={!currentMessage.trim()}
+                  className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Send
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -5,9 +5,76 @@
  */
 
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { Panel } from '@/components/ui';
+import {
+  DistractionBlocklist,
+  FocusStats,
+  FocusTemplateManager,
+  NotesManager,
+  Panel,
+} from '@/components/ui';
 import { usePanelSelection } from '@/hooks/usePanelInteractions';
+import { chatRepository } from '@/features/ai-chat/chatRepository';
+import { openChatSession } from '@/features/ai-chat/chatNavigation';
+import {
+  DEFAULT_BLOCKLIST,
+  loadBlocklist,
+  loadFocusOverrides,
+  saveBlocklist,
+  type Blocklist,
+  type FocusOverride,
+} from '@/features/productivity/distractionBlocking';
+import { exportSessionsCSV } from '@/features/productivity/focusAnalytics';
+import {
+  BUILT_IN_TEMPLATES,
+  DEFAULT_TIMER_SOUND,
+  FOCUS_TEMPLATE_FILE_FILTERS,
+  TIMER_SOUNDS,
+  exportFocusTemplatesFile,
+  getBreakAfter,
+  getWorkMinutes,
+  loadCustomTemplates,
+  parseFocusTemplatesFile,
+  saveCustomTemplates,
+  type FocusTemplate,
+  type TimerSound,
+} from '@/features/productivity/focusTemplates';
+import {
+  createNote,
+  exportNotesFile,
+  loadNotes,
+  saveNotes,
+  updateNote,
+  type NoteChanges,
+  type NoteLinkTarget,
+  type ProductivityNote,
+} from '@/features/productivity/notes';
+import {
+  beginCountdown,
+  claimFinishedCountdown,
+  createTimerState,
+  getRemainingSeconds,
+  isCountdownFinished,
+  loadTimerState,
+  pauseCountdown,
+  resumeCountdown,
+  saveTimerState,
+  watchTimerState,
+  type FocusMode,
+  type TimerState,
+} from '@/features/productivity/timerEngine';
+import {
+  START_TASK_FOCUS_EVENT,
+  takePendingFocusTask,
+  type FocusTask,
+} from '@/features/productivity/taskFocus';
+import { TASKS_STORAGE_KEY, focusTaskInTaskManager } from '@/features/task-manager/taskInbox';
+import { recordTaskTime } from '@/features/task-manager/taskTimeTracking';
 import type { Position, Size } from '@/types/panel';
+import { PanelComponent } from '@/types/panel';
+import { getCurrentPlatformType } from '@/platform';
+import type { Task } from '@/types/tasks';
+import { openTextFile } from '@/utils/fileTransfer';
+import { showPanel } from '@/utils/panelActions';
 
 // Types for Productivity data structures
 interface PomodoroSession {
@@ -18,27 +85,38 @@ interface PomodoroSession {
   startTime: number;
   endTime?: number;
   date: string; // YYYY-MM-DD format
+  taskId?: number; // Task the session was spent on
+  templateId?: string; // Focus template the session was run with
 }
 
-interface FocusTemplate {
-  id: string;
-  name: string;
-  work: number;
-  break: number;
-  longBreak: number;
-  sessions: number;
-  description: string;
-}
+// A session that ended longer ago finished while the panel was closed: it is
+// completed quietly and the following break does not start by itself
+const JUST_FINISHED_WINDOW = 60 * 1000;
 
-interface ProductivityNote {
-  id: string;
-  content: string;
-  timestamp: number;
-  sessionId?: string;
-}
+const SESSIONS_STORAGE_KEY = 'lucaverse_pomodoro_sessions';
 
-type FocusMode = 'work' | 'break' | 'longBreak';
-type TimerStatus = 'idle' | 'running' | 'paused';
+const loadSessions = (): PomodoroSession[] => {
+  try {
+    const stored = localStorage.getItem(SESSIONS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to load focus sessions:', error);
+    return [];
+  }
+};
+
+// Sessions are re-read before every change, so sessions other tabs saved are kept
+const changeStoredSessions = (
+  change: (sessions: PomodoroSession[]) => PomodoroSession[]
+): PomodoroSession[] => {
+  const sessions = change(loadSessions());
+  try {
+    localStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(sessions));
+  } catch (error) {
+    console.error('Failed to save focus sessions:', error);
+  }
+  return sessions;
+};
 
 export interface ProductivityProps {
   id: string;
@@ -57,154 +135,141 @@ export const Productivity: React.FC<ProductivityProps> = ({
   onResize,
   className = '',
 }) => {
-  // Timer state
-  const [timerStatus, setTimerStatus] = useState<TimerStatus>('idle');
-  const [currentMode, setCurrentMode] = useState<FocusMode>('work');
-  const [timeLeft, setTimeLeft] = useState(25 * 60); // 25 minutes in seconds
-  const [sessionCount, setSessionCount] = useState(0);
-  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  // Timer state, stored through the platform so a running session outlives the panel
+  const [timer, setTimer] = useState<TimerState>(() => createTimerState('work', 25 * 60));
+  const [timerLoaded, setTimerLoaded] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const timerStatus = timer.status;
+  const currentMode = timer.mode;
+  const sessionCount = timer.sessionCount;
+  const currentSessionId = timer.sessionId;
+  const timeLeft = getRemainingSeconds(timer, now);
+  // Task that work sessions are tracked against, picked in the Task Manager
+  const [focusTask, setFocusTask] = useState<FocusTask | null>(null);
+  // Break waiting to start by itself after a work session
+  const [pendingStart, setPendingStart] = useState(false);
 
   // Settings state
-  const [workDuration, setWorkDuration] = useState(25);
-  const [breakDuration, setBreakDuration] = useState(5);
-  const [longBreakDuration, setLongBreakDuration] = useState(15);
-  const [sessionsUntilLongBreak, setSessionsUntilLongBreak] = useState(4);
   const [autoStartBreaks, setAutoStartBreaks] = useState(false);
   const [soundEnabled, setSoundEnabled] = useState(true);
 
+  // Distraction blocking, enforced by the extension's content script during work sessions
+  const blockingAvailable = useMemo(() => getCurrentPlatformType() === 'chrome', []);
+  const [blocklist, setBlocklist] = useState<Blocklist>(DEFAULT_BLOCKLIST);
+  const [showBlocklist, setShowBlocklist] = useState(false);
+  const [focusOverrides, setFocusOverrides] = useState<FocusOverride[]>([]);
+
   // Notes state
-  const [currentNote, setCurrentNote] = useState('');
-  const [savedNotes, setSavedNotes] = useState<ProductivityNote[]>([]);
+  const [notes, setNotes] = useState<ProductivityNote[]>(loadNotes);
   const [showNotes, setShowNotes] = useState(true);
+  // Tasks and chats a note can be linked to
+  const [noteLinkTargets, setNoteLinkTargets] = useState<{
+    tasks: NoteLinkTarget<number>[];
+    chats: NoteLinkTarget<string>[];
+  }>({ tasks: [], chats: [] });
 
   // History and statistics
-  const [sessions, setSessions] = useState<PomodoroSession[]>([]);
+  const [sessions, setSessions] = useState<PomodoroSession[]>(loadSessions);
   const [selectedTemplate, setSelectedTemplate] = useState<string>('default');
+  const [customTemplates, setCustomTemplates] = useState<FocusTemplate[]>([]);
+  const [showTemplateManager, setShowTemplateManager] = useState(false);
+  const [showStats, setShowStats] = useState(false);
 
   // Refs
-  const timerRef = useRef<NodeJS.Timeout | null>(null);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
-  const notesTextareaRef = useRef<HTMLTextAreaElement>(null);
+  // Last timer state read from or written to storage, so changes are not echoed back
+  const syncedTimerRef = useRef<string | null>(null);
+  // Session whose finished countdown this panel is completing
+  const completingRef = useRef<string | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
 
   // Panel selection state
   const { isSelected } = usePanelSelection(id);
 
-  // Focus templates
-  const focusTemplates: FocusTemplate[] = [
-    {
-      id: 'default',
-      name: 'Classic Pomodoro',
-      work: 25,
-      break: 5,
-      longBreak: 15,
-      sessions: 4,
-      description: 'Traditional 25/5 technique',
-    },
-    {
-      id: 'extended',
-      name: 'Extended Focus',
-      work: 45,
-      break: 15,
-      longBreak: 30,
-      sessions: 3,
-      description: 'Longer work sessions for deep work',
-    },
-    {
-      id: 'sprint',
-      name: 'Sprint Mode',
-      work: 15,
-      break: 3,
-      longBreak: 10,
-      sessions: 6,
-      description: 'Quick bursts for urgent tasks',
-    },
-    {
-      id: 'flow',
-      name: 'Flow State',
-      work: 90,
-      break: 20,
-      longBreak: 45,
-      sessions: 2,
-      description: 'Long sessions for creative work',
-    },
-  ];
+  // Focus templates: the presets followed by the user's own
+  const focusTemplates = useMemo(
+    () => [...BUILT_IN_TEMPLATES, ...customTemplates],
+    [customTemplates]
+  );
+  const currentTemplate =
+    focusTemplates.find(t => t.id === selectedTemplate) ?? BUILT_IN_TEMPLATES[0]!;
 
   // Load data on mount
   useEffect(() => {
     loadProductivityData();
-    initializeAudio();
-    return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-    };
+    loadCustomTemplates()
+      .then(setCustomTemplates)
+      .catch(error => console.error('Failed to load focus templates:', error));
+    if (blockingAvailable) {
+      loadBlocklist()
+        .then(setBlocklist)
+        .catch(error => console.error('Failed to load blocklist:', error));
+    }
   }, []);
 
-  // Timer effect
+  // Pages allowed once today, newest first, shown with the blocklist
   useEffect(() => {
-    if (timerStatus === 'running') {
-      timerRef.current = setInterval(() => {
-        setTimeLeft(prev => {
-          if (prev <= 1) {
-            handleTimerComplete();
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-    } else {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-        timerRef.current = null;
-      }
-    }
+    if (!showBlocklist) return;
+    const startOfDay = new Date().setHours(0, 0, 0, 0);
+    loadFocusOverrides()
+      .then(overrides =>
+        setFocusOverrides(overrides.filter(override => override.at >= startOfDay).reverse())
+      )
+      .catch(error => console.error('Failed to load blocked site overrides:', error));
+  }, [showBlocklist]);
+
+  // Load the stored timer and follow changes made in other tabs
+  useEffect(() => {
+    let cancelled = false;
+    const adoptTimer = (state: TimerState) => {
+      syncedTimerRef.current = JSON.stringify(state);
+      setTimer(state);
+      setNow(Date.now());
+    };
+
+    loadTimerState()
+      .then(stored => {
+        if (cancelled) return;
+        if (stored) adoptTimer(stored);
+        setTimerLoaded(true);
+      })
+      .catch(error => {
+        console.error('Failed to load timer:', error);
+        if (!cancelled) setTimerLoaded(true);
+      });
 
+    const unwatch = watchTimerState(adoptTimer);
     return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
+      cancelled = true;
+      unwatch();
     };
-  }, [timerStatus]);
+  }, []);
 
-  // Auto-save notes
+  // Store timer changes, which also schedules or cancels the completion notification
   useEffect(() => {
-    const timeoutId = setTimeout(() => {
-      if (currentNote.trim()) {
-        saveNote();
-      }
-    }, 2000);
-
-    return () => clearTimeout(timeoutId);
-  }, [currentNote]);
-
-  // Auto-resize textarea
+    if (!timerLoaded) return;
+    const serialized = JSON.stringify(timer);
+    if (serialized === syncedTimerRef.current) return;
+    const previous: TimerState | null = syncedTimerRef.current
+      ? JSON.parse(syncedTimerRef.current)
+      : null;
+    syncedTimerRef.current = serialized;
+    saveTimerState(timer, previous).catch(error => console.error('Failed to save timer:', error));
+  }, [timer, timerLoaded]);
+
+  // Redraw every second while running; the time left comes from the end time, so it never drifts
   useEffect(() => {
-    if (notesTextareaRef.current) {
-      notesTextareaRef.current.style.height = 'auto';
-      notesTextareaRef.current.style.height = `${Math.min(notesTextareaRef.current.scrollHeight, 200)}px`;
-    }
-  }, [currentNote]);
+    if (timerStatus !== 'running') return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timerStatus]);
 
   // Load productivity data from localStorage
   const loadProductivityData = useCallback(() => {
     try {
-      const storedSessions = localStorage.getItem('lucaverse_pomodoro_sessions');
-      if (storedSessions) {
-        setSessions(JSON.parse(storedSessions));
-      }
-
-      const storedNotes = localStorage.getItem('lucaverse_productivity_notes');
-      if (storedNotes) {
-        setSavedNotes(JSON.parse(storedNotes));
-      }
-
       const storedSettings = localStorage.getItem('lucaverse_productivity_settings');
       if (storedSettings) {
         const settings = JSON.parse(storedSettings);
-        setWorkDuration(settings.workDuration || 25);
-        setBreakDuration(settings.breakDuration || 5);
-        setLongBreakDuration(settings.longBreakDuration || 15);
-        setSessionsUntilLongBreak(settings.sessionsUntilLongBreak || 4);
         setAutoStartBreaks(settings.autoStartBreaks || false);
         setSoundEnabled(settings.soundEnabled !== false);
         setSelectedTemplate(settings.selectedTemplate || 'default');
@@ -217,14 +282,7 @@ export const Productivity: React.FC<ProductivityProps> = ({
   // Save productivity data to localStorage
   const saveProductivityData = useCallback(() => {
     try {
-      localStorage.setItem('lucaverse_pomodoro_sessions', JSON.stringify(sessions));
-      localStorage.setItem('lucaverse_productivity_notes', JSON.stringify(savedNotes));
-
       const settings = {
-        workDuration,
-        breakDuration,
-        longBreakDuration,
-        sessionsUntilLongBreak,
         autoStartBreaks,
         soundEnabled,
         selectedTemplate,
@@ -233,209 +291,380 @@ export const Productivity: React.FC<ProductivityProps> = ({
     } catch (error) {
       console.error('Failed to save productivity data:', error);
     }
-  }, [
-    sessions,
-    savedNotes,
-    workDuration,
-    breakDuration,
-    longBreakDuration,
-    sessionsUntilLongBreak,
-    autoStartBreaks,
-    soundEnabled,
-    selectedTemplate,
-  ]);
-
-  // Initialize audio for notifications
-  const initializeAudio = useCallback(async () => {
-    // Create audio context for notification sounds
+  }, [autoStartBreaks, soundEnabled, selectedTemplate]);
+
+  const updateSessions = useCallback(
+    (change: (sessions: PomodoroSession[]) => PomodoroSession[]) =>
+      setSessions(changeStoredSessions(change)),
+    []
+  );
+
+  // Follow sessions started and completed in other tabs
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === SESSIONS_STORAGE_KEY) setSessions(loadSessions());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const updateBlocklist = useCallback((next: Blocklist) => {
+    setBlocklist(next);
+    saveBlocklist(next).catch(error => {
+      console.error('Failed to save blocklist:', error);
+      alert(`Failed to save blocked sites: ${error instanceof Error ? error.message : error}`);
+    });
+  }, []);
+
+  // Play a completion sound with the Web Audio API
+  const playSound = useCallback((sound: TimerSound) => {
     try {
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      audioRef.current = new Audio();
+      if (!audioContextRef.current) {
+        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+      }
+      const audioContext = audioContextRef.current;
 
-      // Create a simple notification sound using Web Audio API
-      const createNotificationSound = (frequency: number, duration: number) => {
-        const oscillator = audioContext.createOscillator();
-        const gainNode = audioContext.createGain();
+      TIMER_SOUNDS[sound].notes.forEach(({ frequency, delay }) =>
+        setTimeout(() => {
+          const oscillator = audioContext.createOscillator();
+          const gainNode = audioContext.createGain();
 
-        oscillator.connect(gainNode);
-        gainNode.connect(audioContext.destination);
+          oscillator.connect(gainNode);
+          gainNode.connect(audioContext.destination);
 
-        oscillator.frequency.value = frequency;
-        oscillator.type = 'sine';
+          oscillator.frequency.value = frequency;
+          oscillator.type = 'sine';
 
-        gainNode.gain.setValueAtTime(0.3, audioContext.currentTime);
-        gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + duration);
+          gainNode.gain.setValueAtTime(0.3, audioContext.currentTime);
+          gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 0.5);
 
-        oscillator.start(audioContext.currentTime);
-        oscillator.stop(audioContext.currentTime + duration);
-      };
+          oscillator.start(audioContext.currentTime);
+          oscillator.stop(audioContext.currentTime + 0.5);
+        }, delay)
+      );
+    } catch (error) {
+      console.warn('Audio context not available:', error);
+    }
+  }, []);
 
-      audioRef.current.play = () => {
-        if (soundEnabled) {
-          createNotificationSound(800, 0.5);
-          setTimeout(() => createNotificationSound(600, 0.5), 200);
-          setTimeout(() => createNotificationSound(800, 0.5), 400);
+  // Handle timer completion. Every open panel sees the countdown finish, but only
+  // the one that claims it in storage records the session; the rest follow the
+  // stored timer. With no panel open, this waits until one is opened.
+  const handleTimerComplete = useCallback(async () => {
+    const finished = timer;
+    if (!finished.sessionId || completingRef.current === finished.sessionId) return;
+    completingRef.current = finished.sessionId;
+
+    const finishedAt = finished.endsAt ?? Date.now();
+    const justFinished = Date.now() - finishedAt < JUST_FINISHED_WINDOW;
+
+    // Determine next mode
+    let next: TimerState;
+    if (finished.mode === 'work') {
+      const nextBreak = getBreakAfter(currentTemplate, finished.sessionCount);
+      next = createTimerState(nextBreak.mode, nextBreak.minutes * 60, finished.sessionCount + 1);
+    } else {
+      next = createTimerState(
+        'work',
+        getWorkMinutes(currentTemplate, finished.sessionCount) * 60,
+        finished.sessionCount
+      );
+    }
+
+    try {
+      if (!(await claimFinishedCountdown(finished, next))) {
+        // Completed or restarted elsewhere: follow the stored timer and sessions
+        const stored = await loadTimerState();
+        if (stored) {
+          syncedTimerRef.current = JSON.stringify(stored);
+          setTimer(stored);
         }
-      };
+        setSessions(loadSessions());
+        return;
+      }
     } catch (error) {
-      console.warn('Audio context not available:', error);
+      console.error('Failed to complete timer:', error);
+      return;
+    } finally {
+      completingRef.current = null;
     }
-  }, [soundEnabled]);
 
-  // Handle timer completion
-  const handleTimerComplete = useCallback(() => {
-    setTimerStatus('idle');
+    syncedTimerRef.current = JSON.stringify(next);
+    setTimer(next);
 
-    // Play notification sound
-    if (audioRef.current && soundEnabled) {
-      audioRef.current.play();
+    // Play notification sound; the notification itself was scheduled when the timer started
+    if (soundEnabled && justFinished) {
+      playSound(currentTemplate.sound ?? DEFAULT_TIMER_SOUND);
     }
 
     // Complete current session
-    if (currentSessionId) {
-      const updatedSessions = sessions.map(session =>
-        session.id === currentSessionId
-          ? { ...session, completed: true, endTime: Date.now() }
+    const updatedSessions = changeStoredSessions(stored =>
+      stored.map(session =>
+        session.id === finished.sessionId
+          ? { ...session, completed: true, endTime: finishedAt }
           : session
-      );
-      setSessions(updatedSessions);
-    }
+      )
+    );
+    setSessions(updatedSessions);
 
-    // Determine next mode
-    if (currentMode === 'work') {
-      const newSessionCount = sessionCount + 1;
-      setSessionCount(newSessionCount);
-
-      const nextMode = newSessionCount % sessionsUntilLongBreak === 0 ? 'longBreak' : 'break';
-      setCurrentMode(nextMode);
-      setTimeLeft((nextMode === 'longBreak' ? longBreakDuration : breakDuration) * 60);
+    const session = updatedSessions.find(s => s.id === finished.sessionId);
+    if (session?.type === 'work' && session.taskId !== undefined) {
+      recordTaskTime(session.taskId, session.duration);
+    }
 
-      if (autoStartBreaks) {
-        setTimeout(() => setTimerStatus('running'), 1000);
-      }
-    } else {
-      setCurrentMode('work');
-      setTimeLeft(workDuration * 60);
+    if (finished.mode === 'work' && autoStartBreaks && justFinished) {
+      setTimeout(() => setPendingStart(true), 1000);
     }
+  }, [timer, currentTemplate, autoStartBreaks, soundEnabled, playSound]);
 
-    // Show browser notification if supported
-    if ('Notification' in window && Notification.permission === 'granted') {
-      const modeText = currentMode === 'work' ? 'Work session' : 'Break time';
-      new Notification(`Lucaverse Productivity`, {
-        body: `${modeText} completed! ${currentMode === 'work' ? 'Time for a break.' : 'Ready to focus?'}`,
-        icon: '/icon.png',
-      });
+  // Complete the session once its end time passes, including while the panel was closed
+  useEffect(() => {
+    if (isCountdownFinished(timer, now)) {
+      handleTimerComplete();
     }
-  }, [
-    currentMode,
-    sessionCount,
-    sessionsUntilLongBreak,
-    autoStartBreaks,
-    soundEnabled,
-    workDuration,
-    breakDuration,
-    longBreakDuration,
-    currentSessionId,
-    sessions,
-  ]);
+  }, [timer, now, handleTimerComplete]);
+
+  // Time a phase as a new stored session
+  const launchSession = useCallback(
+    (phase: TimerState, task: FocusTask | null) => {
+      const startedAt = Date.now();
+
+      // Create new session
+      const sessionId = `session_${startedAt}`;
+      const newSession: PomodoroSession = {
+        id: sessionId,
+        type: phase.mode,
+        duration: phase.duration / 60,
+        completed: false,
+        startTime: startedAt,
+        date: new Date(startedAt).toISOString().split('T')[0],
+        ...(phase.mode === 'work' && task && { taskId: task.id }),
+        templateId: selectedTemplate,
+      };
+
+      updateSessions(prev => [...prev, newSession]);
+      setTimer(beginCountdown(phase, sessionId, startedAt));
+      setNow(startedAt);
+    },
+    [selectedTemplate, updateSessions]
+  );
 
   // Start timer
   const startTimer = useCallback(() => {
-    setTimerStatus('running');
-
-    // Create new session
-    const sessionId = `session_${Date.now()}`;
-    const newSession: PomodoroSession = {
-      id: sessionId,
-      type: currentMode,
-      duration:
-        currentMode === 'work'
-          ? workDuration
-          : currentMode === 'longBreak'
-            ? longBreakDuration
-            : breakDuration,
-      completed: false,
-      startTime: Date.now(),
-      date: new Date().toISOString().split('T')[0],
+    launchSession(timer, focusTask);
+  }, [launchSession, timer, focusTask]);
+
+  // Credit the linked task with the part of a work session already done,
+  // before the session is abandoned
+  const recordElapsedFocus = useCallback(() => {
+    const session = sessions.find(s => s.id === currentSessionId);
+    if (timer.status === 'idle' || session?.type !== 'work' || session.taskId === undefined) return;
+    const left = getRemainingSeconds(timer, Date.now());
+    recordTaskTime(session.taskId, Math.floor((session.duration * 60 - left) / 60));
+  }, [sessions, currentSessionId, timer]);
+
+  // Work on a task: a fresh focus session starts straight away
+  const beginTaskFocus = useCallback(
+    (task: FocusTask) => {
+      recordElapsedFocus();
+      setFocusTask(task);
+      const minutes = getWorkMinutes(currentTemplate, timer.sessionCount);
+      launchSession(createTimerState('work', minutes * 60, timer.sessionCount), task);
+    },
+    [recordElapsedFocus, launchSession, currentTemplate, timer.sessionCount]
+  );
+
+  // Stop tracking time against the task; time so far is kept
+  const clearFocusTask = useCallback(() => {
+    recordElapsedFocus();
+    updateSessions(prev =>
+      prev.map(session => {
+        if (session.id !== currentSessionId) return session;
+        const { taskId: _taskId, ...rest } = session;
+        return rest;
+      })
+    );
+    setFocusTask(null);
+  }, [recordElapsedFocus, currentSessionId, updateSessions]);
+
+  useEffect(() => {
+    if (!pendingStart) return;
+    setPendingStart(false);
+    if (timerStatus === 'idle') startTimer();
+  }, [pendingStart, timerStatus, startTimer]);
+
+  // Start focus sessions requested from the Task Manager
+  useEffect(() => {
+    const handleStartTaskFocus = (event: Event) => {
+      event.preventDefault();
+      beginTaskFocus((event as CustomEvent<FocusTask>).detail);
     };
 
-    setSessions(prev => [...prev, newSession]);
-    setCurrentSessionId(sessionId);
-  }, [currentMode, workDuration, breakDuration, longBreakDuration]);
+    window.addEventListener(START_TASK_FOCUS_EVENT, handleStartTaskFocus);
+    return () => window.removeEventListener(START_TASK_FOCUS_EVENT, handleStartTaskFocus);
+  }, [beginTaskFocus]);
+
+  // Pick up a request made before this panel loaded, once the stored timer is in place
+  useEffect(() => {
+    if (!timerLoaded) return;
+    const pending = takePendingFocusTask();
+    if (pending) beginTaskFocus(pending);
+  }, [timerLoaded]);
 
   // Pause/Resume timer
   const toggleTimer = useCallback(() => {
-    setTimerStatus(prev => (prev === 'running' ? 'paused' : 'running'));
+    const changedAt = Date.now();
+    setTimer(prev =>
+      prev.status === 'running' ? pauseCountdown(prev, changedAt) : resumeCountdown(prev, changedAt)
+    );
+    setNow(changedAt);
   }, []);
 
   // Reset timer
   const resetTimer = useCallback(() => {
-    setTimerStatus('idle');
-    setCurrentMode('work');
-    setTimeLeft(workDuration * 60);
-    setSessionCount(0);
-    setCurrentSessionId(null);
-  }, [workDuration]);
+    recordElapsedFocus();
+    setTimer(createTimerState('work', getWorkMinutes(currentTemplate, 0) * 60));
+  }, [currentTemplate, recordElapsedFocus]);
 
   // Apply template
   const applyTemplate = useCallback(
     (templateId: string) => {
       const template = focusTemplates.find(t => t.id === templateId);
       if (template) {
-        setWorkDuration(template.work);
-        setBreakDuration(template.break);
-        setLongBreakDuration(template.longBreak);
-        setSessionsUntilLongBreak(template.sessions);
+        recordElapsedFocus();
         setSelectedTemplate(templateId);
 
         // Reset timer with new settings
-        setTimerStatus('idle');
-        setCurrentMode('work');
-        setTimeLeft(template.work * 60);
-        setSessionCount(0);
+        setTimer(createTimerState('work', getWorkMinutes(template, 0) * 60));
       }
     },
-    [focusTemplates]
+    [focusTemplates, recordElapsedFocus]
   );
 
-  // Save note
-  const saveNote = useCallback(() => {
-    if (!currentNote.trim()) return;
+  // Keep the user's templates in platform storage
+  const updateCustomTemplates = useCallback((templates: FocusTemplate[]) => {
+    setCustomTemplates(templates);
+    saveCustomTemplates(templates).catch(error =>
+      console.error('Failed to save focus templates:', error)
+    );
+  }, []);
 
-    const newNote: ProductivityNote = {
-      id: `note_${Date.now()}`,
-      content: currentNote.trim(),
-      timestamp: Date.now(),
-      ...(currentSessionId && { sessionId: currentSessionId }),
-    };
+  // Add a new template or replace the one with the same id
+  const saveTemplate = useCallback(
+    (template: FocusTemplate) => {
+      updateCustomTemplates(
+        customTemplates.some(t => t.id === template.id)
+          ? customTemplates.map(t => (t.id === template.id ? template : t))
+          : [...customTemplates, template]
+      );
+    },
+    [customTemplates, updateCustomTemplates]
+  );
+
+  const deleteTemplate = useCallback(
+    (templateId: string) => {
+      updateCustomTemplates(customTemplates.filter(t => t.id !== templateId));
+      if (templateId === selectedTemplate) {
+        applyTemplate('default');
+      }
+    },
+    [customTemplates, updateCustomTemplates, selectedTemplate, applyTemplate]
+  );
+
+  // Add templates shared by someone else
+  const handleImportTemplates = useCallback(async () => {
+    try {
+      const file = await openTextFile(FOCUS_TEMPLATE_FILE_FILTERS);
+      if (!file) return;
+
+      const imported = parseFocusTemplatesFile(file.content);
+      updateCustomTemplates([...customTemplates, ...imported]);
+      alert(`Imported ${imported.length} template(s)`);
+    } catch (error) {
+      console.error('Failed to import focus templates:', error);
+      alert(`Failed to import templates: ${error instanceof Error ? error.message : error}`);
+    }
+  }, [customTemplates, updateCustomTemplates]);
+
+  const handleExportTemplates = useCallback(async (templates: FocusTemplate[]) => {
+    try {
+      await exportFocusTemplatesFile(templates);
+    } catch (error) {
+      console.error('Failed to export focus templates:', error);
+      alert(`Failed to export templates: ${error instanceof Error ? error.message : error}`);
+    }
+  }, []);
+
+  // Notes are edited in place and stored on every change
+  const createFocusNote = useCallback(() => {
+    const note = createNote(currentSessionId ? { sessionId: currentSessionId } : {});
+    setNotes(prev => [note, ...prev]);
+    return note.id;
+  }, [currentSessionId]);
 
-    setSavedNotes(prev => [newNote, ...prev.slice(0, 19)]); // Keep last 20 notes
-  }, [currentNote, currentSessionId]);
+  const updateFocusNote = useCallback((noteId: string, changes: NoteChanges) => {
+    setNotes(prev => updateNote(prev, noteId, changes));
+  }, []);
 
-  // Clear note
-  const clearNote = useCallback(() => {
-    setCurrentNote('');
+  const deleteFocusNote = useCallback((noteId: string) => {
+    setNotes(prev => prev.filter(note => note.id !== noteId));
   }, []);
 
-  // Delete saved note
-  const deleteSavedNote = useCallback((noteId: string) => {
-    setSavedNotes(prev => prev.filter(note => note.id !== noteId));
+  const handleExportNotes = useCallback(async (notesToExport: ProductivityNote[]) => {
+    try {
+      await exportNotesFile(notesToExport);
+    } catch (error) {
+      console.error('Failed to export notes:', error);
+      alert(`Failed to export notes: ${error instanceof Error ? error.message : error}`);
+    }
   }, []);
 
+  const openNoteTask = useCallback((taskId: number) => {
+    showPanel(PanelComponent.TaskManager);
+    focusTaskInTaskManager(taskId);
+  }, []);
+
+  const openNoteChat = useCallback((sessionId: string) => {
+    showPanel(PanelComponent.AIChat);
+    openChatSession(sessionId);
+  }, []);
+
+  useEffect(() => {
+    saveNotes(notes);
+  }, [notes]);
+
+  // Refresh the tasks and chats offered as note links whenever the notes are shown
+  useEffect(() => {
+    if (!showNotes) return;
+    let cancelled = false;
+
+    let tasks: NoteLinkTarget<number>[] = [];
+    try {
+      const stored: Task[] = JSON.parse(localStorage.getItem(TASKS_STORAGE_KEY) || '[]');
+      tasks = stored.map(task => ({ id: task.id, title: task.text }));
+    } catch (error) {
+      console.error('Failed to load tasks for note links:', error);
+    }
+    setNoteLinkTargets(prev => ({ ...prev, tasks }));
+
+    chatRepository
+      .listSessions()
+      .then(sessions => {
+        if (cancelled) return;
+        const chats = sessions.map(session => ({ id: session.id, title: session.title }));
+        setNoteLinkTargets(prev => ({ ...prev, chats }));
+      })
+      .catch(error => console.error('Failed to list chat sessions for note links:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showNotes]);
+
   // Save data when state changes
   useEffect(() => {
     saveProductivityData();
-  }, [
-    sessions,
-    savedNotes,
-    workDuration,
-    breakDuration,
-    longBreakDuration,
-    sessionsUntilLongBreak,
-    autoStartBreaks,
-    soundEnabled,
-    selectedTemplate,
-  ]);
+  }, [autoStartBreaks, soundEnabled, selectedTemplate]);
 
   // Format time display
   const formatTime = useCallback((seconds: number) => {
@@ -467,15 +696,10 @@ export const Productivity: React.FC<ProductivityProps> = ({
   }, [sessions]);
 
   // Get progress percentage
-  const progressPercentage = useMemo(() => {
-    const totalDuration =
-      currentMode === 'work'
-        ? workDuration
-        : currentMode === 'longBreak'
-          ? longBreakDuration
-          : breakDuration;
-    return ((totalDuration * 60 - timeLeft) / (totalDuration * 60)) * 100;
-  }, [currentMode, timeLeft, workDuration, breakDuration, longBreakDuration]);
+  const progressPercentage = useMemo(
+    () => ((timer.duration - timeLeft) / timer.duration) * 100,
+    [timer.duration, timeLeft]
+  );
 
   // Request notification permission
   useEffect(() => {
@@ -484,7 +708,19 @@ export const Productivity: React.FC<ProductivityProps> = ({
     }
   }, []);
 
-  const currentTemplate = focusTemplates.find(t => t.id === selectedTemplate);
+  // Reference time for the statistics, refreshed as sessions change rather than every tick
+  const statsNow = useMemo(() => Date.now(), [sessions, showStats]);
+
+  // Export session history for spreadsheets
+  const handleExportSessions = useCallback(async () => {
+    try {
+      await exportSessionsCSV(sessions);
+    } catch (error) {
+      console.error('Failed to export sessions:', error);
+      alert('Failed to export sessions. Please try again.');
+    }
+  }, [sessions]);
+
   const modeInfo = getModeInfo(currentMode);
 
   return (
@@ -508,17 +744,43 @@ export const Productivity: React.FC<ProductivityProps> = ({
         <div className="p-6 border-b border-white border-opacity-10">
           {/* Template Selector */}
           <div className="mb-4">
-            <select
-              value={selectedTemplate}
-              onChange={e => applyTemplate(e.target.value)}
-              className="w-full px-3 py-2 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-400"
-            >
-              {focusTemplates.map(template => (
-                <option key={template.id} value={template.id}>
-                  {template.name} - {template.description}
-                </option>
-              ))}
-            </select>
+            <div className="flex space-x-2">
+              <select
+                value={selectedTemplate}
+                onChange={e => applyTemplate(e.target.value)}
+                className="flex-1 min-w-0 px-3 py-2 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-400"
+              >
+                {focusTemplates.map(template => (
+                  <option key={template.id} value={template.id}>
+                    {template.name} - {template.description}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => setShowTemplateManager(prev => !prev)}
+                className={`px-3 py-2 rounded text-sm transition-colors ${
+                  showTemplateManager
+                    ? 'bg-blue-500 text-white'
+                    : 'bg-white bg-opacity-10 text-white hover:bg-opacity-20'
+                }`}
+                title="Manage focus templates"
+              >
+                ⚙️
+              </button>
+            </div>
+            {showTemplateManager && (
+              <div className="mt-2 p-3 glass-panel rounded-lg">
+                <FocusTemplateManager
+                  templates={focusTemplates}
+                  onSave={saveTemplate}
+                  onDelete={deleteTemplate}
+                  onImport={handleImportTemplates}
+                  onExport={handleExportTemplates}
+                  onPreviewSound={playSound}
+                  onClose={() => setShowTemplateManager(false)}
+                />
+              </div>
+            )}
           </div>
 
           {/* Current Mode */}
@@ -531,6 +793,20 @@ export const Productivity: React.FC<ProductivityProps> = ({
             <div className="text-white text-opacity-60 text-xs mt-1">
               Session {sessionCount + 1} • {currentTemplate?.name}
             </div>
+            {focusTask && (
+              <div className="inline-flex items-center max-w-full space-x-2 mt-2 px-3 py-1 bg-white bg-opacity-10 rounded-full text-white text-xs">
+                <span className="truncate" title={focusTask.text}>
+                  🎯 {focusTask.text}
+                </span>
+                <button
+                  onClick={clearFocusTask}
+                  className="text-white text-opacity-60 hover:text-opacity-100"
+                  title="Stop tracking time for this task"
+                >
+                  ×
+                </button>
+              </div>
+            )}
           </div>
 
           {/* Timer Display */}
@@ -617,6 +893,17 @@ export const Productivity: React.FC<ProductivityProps> = ({
               <h3 className="text-white font-medium mb-3 flex items-center">
                 <span className="mr-2">📊</span>
                 Today's Progress
+                <button
+                  onClick={() => setShowStats(prev => !prev)}
+                  className={`ml-auto px-2 py-0.5 text-xs rounded transition-colors ${
+                    showStats
+                      ? 'bg-blue-500 text-white'
+                      : 'bg-white bg-opacity-10 text-white text-opacity-80 hover:bg-opacity-20'
+                  }`}
+                  title="Focus statistics"
+                >
+                  📈 Stats
+                </button>
               </h3>
               <div className="grid grid-cols-3 gap-3 text-center">
                 <div>
@@ -661,17 +948,69 @@ export const Productivity: React.FC<ProductivityProps> = ({
                     className="rounded"
                   />
                 </label>
+                {blockingAvailable && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-white text-opacity-80 text-sm">
+                      Block distracting sites
+                      <button
+                        onClick={() => setShowBlocklist(prev => !prev)}
+                        className="ml-2 text-xs text-blue-300 hover:text-blue-200"
+                        title="Choose the sites blocked during work sessions"
+                      >
+                        Edit
+                      </button>
+                    </span>
+                    <input
+                      type="checkbox"
+                      checked={blocklist.enabled}
+                      onChange={e => updateBlocklist({ ...blocklist, enabled: e.target.checked })}
+                      className="rounded"
+                    />
+                  </div>
+                )}
               </div>
             </div>
           </div>
 
+          {/* Blocked Sites */}
+          {showBlocklist && (
+            <div className="px-4">
+              <div className="glass-panel p-4 rounded-lg">
+                <DistractionBlocklist
+                  blocklist={blocklist}
+                  overrides={focusOverrides}
+                  onSave={sites => updateBlocklist({ ...blocklist, sites })}
+                  onClose={() => setShowBlocklist(false)}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Focus Statistics */}
+          {showStats && (
+            <div className="px-4">
+              <div className="glass-panel p-4 rounded-lg">
+                <h3 className="text-white font-medium mb-3 flex items-center">
+                  <span className="mr-2">📈</span>
+                  Focus Statistics
+                </h3>
+                <FocusStats
+                  sessions={sessions}
+                  templateNames={Object.fromEntries(focusTemplates.map(t => [t.id, t.name]))}
+                  now={statsNow}
+                  onExport={handleExportSessions}
+                />
+              </div>
+            </div>
+          )}
+
           {/* Notes Section */}
           <div className="p-4">
             <div className="glass-panel p-4 rounded-lg">
               <div className="flex items-center justify-between mb-3">
                 <h3 className="text-white font-medium flex items-center">
                   <span className="mr-2">📝</span>
-                  Focus Notes
+                  Notes
                 </h3>
                 <button
                   onClick={() => setShowNotes(!showNotes)}
@@ -682,62 +1021,17 @@ export const Productivity: React.FC<ProductivityProps> = ({
               </div>
 
               {showNotes && (
-                <div className="space-y-3">
-                  {/* Current Note */}
-                  <div>
-                    <textarea
-                      ref={notesTextareaRef}
-                      value={currentNote}
-                      onChange={e => setCurrentNote(e.target.value)}
-                      placeholder="Jot down thoughts, ideas, or session notes..."
-                      className="w-full px-3 py-2 bg-white bg-opacity-5 border border-white border-opacity-10 rounded text-white placeholder-white placeholder-opacity-60 text-sm focus:outline-none focus:ring-2 focus:ring-blue-400 resize-none"
-                      rows={3}
-                    />
-                    <div className="flex justify-between mt-2">
-                      <div className="text-white text-opacity-40 text-xs">
-                        Auto-saves while typing
-                      </div>
-                      {currentNote.trim() && (
-                        <button
-                          onClick={clearNote}
-                          className="text-white text-opacity-60 hover:text-opacity-100 text-xs"
-                        >
-                          Clear
-                        </button>
-                      )}
-                    </div>
-                  </div>
-
-                  {/* Saved Notes */}
-                  {savedNotes.length > 0 && (
-                    <div>
-                      <div className="text-white text-opacity-80 text-sm font-medium mb-2">
-                        Recent Notes
-                      </div>
-                      <div className="space-y-2 max-h-40 overflow-auto">
-                        {savedNotes.slice(0, 5).map(note => (
-                          <div
-                            key={note.id}
-                            className="p-2 bg-white bg-opacity-5 rounded text-sm group"
-                          >
-                            <div className="text-white text-opacity-90 mb-1">{note.content}</div>
-                            <div className="flex justify-between items-center">
-                              <div className="text-white text-opacity-40 text-xs">
-                                {new Date(note.timestamp).toLocaleTimeString()}
-                              </div>
-                              <button
-                                onClick={() => deleteSavedNote(note.id)}
-                                className="text-white text-opacity-40 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
-                              >
-                                ×
-                              </button>
-                            </div>
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-                </div>
+                <NotesManager
+                  notes={notes}
+                  tasks={noteLinkTargets.tasks}
+                  chats={noteLinkTargets.chats}
+                  onCreate={createFocusNote}
+                  onUpdate={updateFocusNote}
+                  onDelete={deleteFocusNote}
+                  onExport={handleExportNotes}
+                  onOpenTask={openNoteTask}
+                  onOpenChat={openNoteChat}
+                />
               )}
             </div>
           </div>
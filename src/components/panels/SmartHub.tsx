@@ -4,23 +4,54 @@
  * Migrated from vanilla JavaScript while preserving all functionality
  */
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { Panel } from '@/components/ui';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Panel, QRCodeModal } from '@/components/ui';
 import { usePanelSelection } from '@/hooks/usePanelInteractions';
+import {
+  loadSyncState,
+  mergeImportedBookmarks,
+  saveSyncState,
+  syncWithBrowserFolder,
+} from '@/features/smart-hub/bookmarkSync';
+import {
+  getBookmarkFolders,
+  getOrCreateSyncFolder,
+  isBookmarksAPIAvailable,
+  type BookmarkFolder,
+} from '@/features/smart-hub/chromeBookmarks';
+import {
+  BOOKMARK_FILE_FILTERS,
+  exportBookmarksFile,
+  parseBookmarkFile,
+  type BookmarkFileFormat,
+} from '@/features/smart-hub/bookmarkTransfer';
+import { getQueryTags, searchBookmarks, toggleQueryTag } from '@/features/smart-hub/bookmarkSearch';
+import { takeExtensionBookmarks } from '@/features/smart-hub/bookmarkInbox';
+import { faviconCache } from '@/features/smart-hub/faviconCache';
+import {
+  applyLinkHealth,
+  applyRedirects,
+  canApplyRedirect,
+  getStoredLinkHealth,
+  isLinkCheckAvailable,
+  isLinkCheckDue,
+  removeBrokenBookmarks,
+  requestLinkCheck,
+  trackLinksForHealthCheck,
+} from '@/features/smart-hub/linkHealth';
+import {
+  addSmartCollection,
+  loadSmartCollections,
+  saveSmartCollections,
+} from '@/features/smart-hub/smartCollections';
+import { getCurrentPlatformType } from '@/platform';
+import { openTextFile } from '@/utils/fileTransfer';
+import type { Bookmark, BookmarkSyncState, LinkHealth, SmartCollection } from '@/types/bookmarks';
 import type { Position, Size } from '@/types/panel';
 
 // Types for SmartHub data structures
-interface Bookmark {
-  id: number;
-  title: string;
-  url: string;
-  favicon: string;
-  visits: number;
-  isPinned: boolean;
-  tags?: string[];
-  createdAt: number;
-  updatedAt: number;
-}
+// How often the desktop app looks for bookmarks that are due a link check
+const LINK_CHECK_INTERVAL = 60 * 60 * 1000;
 
 interface RecentLink {
   url: string;
@@ -54,17 +85,101 @@ export const SmartHub: React.FC<SmartHubProps> = ({
     pinned: Bookmark[];
     recent: Bookmark[];
   }>({ mostVisited: [], pinned: [], recent: [] });
-  const [activeFilter, setActiveFilter] = useState<string | null>(null);
+  const [searchResults, setSearchResults] = useState<Bookmark[] | null>(null);
+  const [smartCollections, setSmartCollections] = useState<SmartCollection[]>(loadSmartCollections);
+  const [qrBookmark, setQrBookmark] = useState<Bookmark | null>(null);
+
+  // Browser bookmark sync state
+  const [syncState, setSyncState] = useState<BookmarkSyncState>(loadSyncState);
+  const [bookmarkFolders, setBookmarkFolders] = useState<BookmarkFolder[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncMessage, setSyncMessage] = useState<string | null>(null);
+  const canSyncWithBrowser = useMemo(() => isBookmarksAPIAvailable(), []);
+
+  // Favicons and link health
+  const platform = useMemo(() => getCurrentPlatformType(), []);
+  const canCheckLinks = isLinkCheckAvailable(platform);
+  const [favicons, setFavicons] = useState<Record<string, string>>({});
+  const [isCheckingLinks, setIsCheckingLinks] = useState(false);
+  const bookmarksRef = useRef<Bookmark[]>([]);
+  bookmarksRef.current = bookmarks;
 
   // Panel selection state
   const { isSelected } = usePanelSelection(id);
 
   // Load initial data
   useEffect(() => {
-    loadBookmarksFromStorage();
+    const loaded = loadBookmarksFromStorage();
     loadRecentLinksFromStorage();
+
+    if (canSyncWithBrowser) {
+      getBookmarkFolders()
+        .then(setBookmarkFolders)
+        .catch(error => console.error('Failed to list bookmark folders:', error));
+
+      if (syncState.folderId) {
+        syncBookmarks(loaded, syncState);
+      }
+    }
+
+    if (platform === 'chrome') {
+      // Pages saved through the extension's context menu or popup since the last visit
+      takeExtensionBookmarks()
+        .then(captured => {
+          if (captured.length === 0) return;
+          const { bookmarks: merged } = mergeImportedBookmarks(bookmarksRef.current, captured);
+          setBookmarks(merged);
+          saveBookmarksToStorage(merged);
+        })
+        .catch(error => console.error('Failed to load saved pages:', error));
+
+      // Pick up results from the background worker's periodic link checks
+      getStoredLinkHealth()
+        .then(stored => stored && applyHealthResults(stored.results))
+        .catch(error => console.error('Failed to load link health:', error));
+    }
   }, []);
 
+  // The desktop app has no background worker, so it checks due links while open
+  useEffect(() => {
+    if (platform !== 'electron') return;
+
+    const checkDueLinks = () => {
+      if (!isLinkCheckDue(bookmarksRef.current)) return;
+      requestLinkCheck(
+        platform,
+        bookmarksRef.current.map(b => b.url)
+      )
+        .then(applyHealthResults)
+        .catch(error => console.error('Periodic link check failed:', error));
+    };
+
+    checkDueLinks();
+    const intervalId = setInterval(checkDueLinks, LINK_CHECK_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  // Load cached favicons and keep the background worker's link list current
+  const bookmarkUrls = useMemo(() => bookmarks.map(b => b.url), [bookmarks]);
+  const bookmarkUrlsKey = bookmarkUrls.join('\n');
+  useEffect(() => {
+    let cancelled = false;
+    faviconCache
+      .getFavicons(bookmarkUrls)
+      .then(loaded => !cancelled && setFavicons(loaded))
+      .catch(error => console.error('Failed to load favicons:', error));
+
+    if (platform === 'chrome') {
+      trackLinksForHealthCheck(bookmarkUrls).catch(error =>
+        console.error('Failed to update link check list:', error)
+      );
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bookmarkUrlsKey]);
+
   // Debounced search effect
   useEffect(() => {
     const timeoutId = setTimeout(() => {
@@ -75,12 +190,13 @@ export const SmartHub: React.FC<SmartHubProps> = ({
   }, [searchQuery, bookmarks]);
 
   // Load bookmarks from localStorage
-  const loadBookmarksFromStorage = useCallback(() => {
+  const loadBookmarksFromStorage = useCallback((): Bookmark[] => {
     try {
       const stored = localStorage.getItem('lucaverse_bookmarks');
       if (stored) {
         const parsed = JSON.parse(stored);
         setBookmarks(parsed);
+        return parsed;
       } else {
         // Initialize with sample bookmarks
         const sampleBookmarks: Bookmark[] = [
@@ -120,9 +236,11 @@ export const SmartHub: React.FC<SmartHubProps> = ({
         ];
         setBookmarks(sampleBookmarks);
         saveBookmarksToStorage(sampleBookmarks);
+        return sampleBookmarks;
       }
     } catch (error) {
       console.error('Failed to load bookmarks:', error);
+      return [];
     }
   }, []);
 
@@ -156,6 +274,158 @@ export const SmartHub: React.FC<SmartHubProps> = ({
     }
   }, []);
 
+  // Store link check results on the bookmarks they belong to
+  const applyHealthResults = useCallback(
+    (results: Record<string, LinkHealth>) => {
+      setBookmarks(current => {
+        const updated = applyLinkHealth(current, results);
+        saveBookmarksToStorage(updated);
+        return updated;
+      });
+    },
+    [saveBookmarksToStorage]
+  );
+
+  // Two-way sync with the chosen browser bookmark folder
+  const syncBookmarks = useCallback(
+    async (currentBookmarks: Bookmark[], state: BookmarkSyncState) => {
+      setIsSyncing(true);
+      setSyncMessage(null);
+      try {
+        const result = await syncWithBrowserFolder(currentBookmarks, state);
+        setBookmarks(result.bookmarks);
+        saveBookmarksToStorage(result.bookmarks);
+        setSyncState(result.state);
+        saveSyncState(result.state);
+
+        const changes = result.created + result.updated + result.removed;
+        setSyncMessage(changes > 0 ? `Synced ${changes} change(s)` : 'Up to date');
+      } catch (error) {
+        console.error('Bookmark sync failed:', error);
+        setSyncMessage(error instanceof Error ? error.message : 'Bookmark sync failed');
+      } finally {
+        setIsSyncing(false);
+      }
+    },
+    [saveBookmarksToStorage]
+  );
+
+  // Pick the browser folder to sync with. Changing folders starts a fresh sync.
+  const handleSyncFolderChange = useCallback(
+    async (folderId: string) => {
+      try {
+        let folder = bookmarkFolders.find(f => f.id === folderId) || null;
+        if (folderId === 'create') {
+          folder = await getOrCreateSyncFolder();
+          setBookmarkFolders(await getBookmarkFolders());
+        }
+
+        const state: BookmarkSyncState = {
+          folderId: folder?.id || null,
+          ...(folder && { folderTitle: folder.title }),
+          lastSyncAt: 0,
+          links: {},
+        };
+        setSyncState(state);
+        saveSyncState(state);
+
+        if (state.folderId) {
+          await syncBookmarks(bookmarks, state);
+        } else {
+          setSyncMessage(null);
+        }
+      } catch (error) {
+        console.error('Failed to set bookmark sync folder:', error);
+        setSyncMessage(error instanceof Error ? error.message : 'Could not use that folder');
+      }
+    },
+    [bookmarkFolders, bookmarks, syncBookmarks]
+  );
+
+  // Import a bookmarks.html, JSON or CSV file. Where chrome.bookmarks is
+  // unavailable this is also how browser bookmarks get into SmartHub.
+  const handleImportBookmarksFile = useCallback(async () => {
+    try {
+      const file = await openTextFile(BOOKMARK_FILE_FILTERS);
+      if (!file) return;
+
+      const imported = parseBookmarkFile(file.name, file.content);
+      if (imported.length === 0) {
+        alert('No bookmarks found in that file');
+        return;
+      }
+
+      const result = mergeImportedBookmarks(bookmarks, imported);
+      setBookmarks(result.bookmarks);
+      saveBookmarksToStorage(result.bookmarks);
+      setSyncMessage(
+        `Imported ${result.added} new · ${result.duplicates} duplicate(s), ${result.updated} updated`
+      );
+    } catch (error) {
+      console.error('Failed to import bookmarks:', error);
+      alert(`Failed to import bookmarks: ${error instanceof Error ? error.message : error}`);
+    }
+  }, [bookmarks, saveBookmarksToStorage]);
+
+  // Export all bookmarks
+  const handleExportBookmarks = useCallback(
+    async (format: BookmarkFileFormat) => {
+      try {
+        if (await exportBookmarksFile(bookmarks, format)) {
+          setSyncMessage(`Exported ${bookmarks.length} bookmark(s)`);
+        }
+      } catch (error) {
+        console.error('Failed to export bookmarks:', error);
+        alert(`Failed to export bookmarks: ${error instanceof Error ? error.message : error}`);
+      }
+    },
+    [bookmarks]
+  );
+
+  const linkHealthCounts = useMemo(() => {
+    const counts = { broken: 0, redirect: 0, unreachable: 0, updatableRedirects: 0 };
+    bookmarks.forEach(bookmark => {
+      const status = bookmark.health?.status;
+      if (status && status !== 'ok') counts[status]++;
+      if (canApplyRedirect(bookmark)) counts.updatableRedirects++;
+    });
+    return counts;
+  }, [bookmarks]);
+
+  // Check every bookmark now. The extension asks for site access on first use.
+  const handleCheckLinks = useCallback(async () => {
+    setIsCheckingLinks(true);
+    setSyncMessage(null);
+    try {
+      const results = await requestLinkCheck(platform, bookmarkUrls);
+      applyHealthResults(results);
+      setSyncMessage(`Checked ${Object.keys(results).length} link(s)`);
+    } catch (error) {
+      console.error('Link check failed:', error);
+      setSyncMessage(error instanceof Error ? error.message : 'Link check failed');
+    } finally {
+      setIsCheckingLinks(false);
+    }
+  }, [platform, bookmarkUrls, applyHealthResults]);
+
+  // Bulk clean-up after a link check
+  const handleRemoveBroken = useCallback(() => {
+    const remaining = removeBrokenBookmarks(bookmarks);
+    const removed = bookmarks.length - remaining.length;
+    if (!confirm(`Delete ${removed} bookmark(s) with dead links?`)) return;
+
+    setBookmarks(remaining);
+    saveBookmarksToStorage(remaining);
+    setSyncMessage(`Removed ${removed} broken bookmark(s)`);
+  }, [bookmarks, saveBookmarksToStorage]);
+
+  const handleUpdateRedirects = useCallback(() => {
+    const updatedBookmarks = applyRedirects(bookmarks);
+    setBookmarks(updatedBookmarks);
+    saveBookmarksToStorage(updatedBookmarks);
+    setSyncMessage(`Updated ${linkHealthCounts.updatableRedirects} redirected link(s)`);
+  }, [bookmarks, linkHealthCounts, saveBookmarksToStorage]);
+
   // Process bookmarks into categories
   const processBookmarks = useCallback((bookmarksToProcess: Bookmark[]) => {
     const mostVisited = bookmarksToProcess
@@ -173,33 +443,58 @@ export const SmartHub: React.FC<SmartHubProps> = ({
     return { mostVisited, pinned, recent };
   }, []);
 
-  // Perform search with filtering
+  // Perform fuzzy ranked search
   const performSearch = useCallback(
     (query: string) => {
-      if (!query || query.length < 2) {
-        setFilteredBookmarksData(processBookmarks(bookmarks));
+      if (query.trim().length < 2) {
+        setSearchResults(null);
         return;
       }
 
-      const filtered = bookmarks.filter(
-        bookmark =>
-          bookmark.title.toLowerCase().includes(query.toLowerCase()) ||
-          bookmark.url.toLowerCase().includes(query.toLowerCase()) ||
-          (bookmark.tags &&
-            bookmark.tags.some(tag => tag.toLowerCase().includes(query.toLowerCase())))
-      );
-
-      setFilteredBookmarksData(processBookmarks(filtered));
+      setSearchResults(searchBookmarks(bookmarks, query));
     },
-    [bookmarks, processBookmarks]
+    [bookmarks]
   );
 
   // Update bookmarks data when bookmarks change
   useEffect(() => {
-    if (!searchQuery && !activeFilter) {
-      setFilteredBookmarksData(processBookmarks(bookmarks));
+    setFilteredBookmarksData(processBookmarks(bookmarks));
+  }, [bookmarks, processBookmarks]);
+
+  // Saved searches, each shown as its own section
+  const collectionSections = useMemo(
+    () =>
+      smartCollections.map(collection => ({
+        collection,
+        bookmarks: searchBookmarks(bookmarks, collection.query).slice(0, 8),
+      })),
+    [bookmarks, smartCollections]
+  );
+
+  const handleSaveCollection = useCallback(() => {
+    const name = prompt('Name this smart collection', searchQuery.trim());
+    if (!name) return;
+
+    try {
+      const updated = addSmartCollection(smartCollections, name, searchQuery);
+      setSmartCollections(updated);
+      saveSmartCollections(updated);
+      setSearchQuery('');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save smart collection');
     }
-  }, [bookmarks, searchQuery, activeFilter, processBookmarks]);
+  }, [searchQuery, smartCollections]);
+
+  const handleRemoveCollection = useCallback(
+    (collection: SmartCollection) => {
+      if (!confirm(`Remove the "${collection.name}" collection?`)) return;
+
+      const updated = smartCollections.filter(c => c.id !== collection.id);
+      setSmartCollections(updated);
+      saveSmartCollections(updated);
+    },
+    [smartCollections]
+  );
 
   // Handle link click
   const handleLinkClick = useCallback(
@@ -247,51 +542,32 @@ export const SmartHub: React.FC<SmartHubProps> = ({
     [bookmarks, saveBookmarksToStorage]
   );
 
+  // Handle bookmark deletion
+  const handleDelete = useCallback(
+    (bookmark: Bookmark, event: React.MouseEvent) => {
+      event.stopPropagation();
+      if (!confirm(`Delete "${bookmark.title}"?`)) return;
+
+      const updatedBookmarks = bookmarks.filter(b => b.id !== bookmark.id);
+      setBookmarks(updatedBookmarks);
+      saveBookmarksToStorage(updatedBookmarks);
+    },
+    [bookmarks, saveBookmarksToStorage]
+  );
+
   // Handle QR code request
   const handleQRRequest = useCallback((bookmark: Bookmark, event: React.MouseEvent) => {
     event.stopPropagation();
+    setQrBookmark(bookmark);
+  }, []);
 
-    // Create simple QR modal
-    const qrUrl = `https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(bookmark.url)}`;
-
-    const modal = document.createElement('div');
-    modal.className = 'fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50';
-    modal.innerHTML = `
-      <div class="bg-white p-6 rounded-lg max-w-sm">
-        <h3 class="text-lg font-bold mb-4">${bookmark.title}</h3>
-        <img src="${qrUrl}" alt="QR Code" class="mx-auto mb-4" />
-        <div class="flex justify-end space-x-2">
-          <button class="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600">Close</button>
-        </div>
-      </div>
-    `;
-
-    modal.onclick = e => {
-      if (e.target === modal || (e.target as HTMLElement).textContent === 'Close') {
-        document.body.removeChild(modal);
-      }
-    };
+  // Handle tag filter: tags combine as `tag:` terms in the search query
+  const activeTags = useMemo(() => getQueryTags(searchQuery), [searchQuery]);
 
-    document.body.appendChild(modal);
+  const handleTagFilter = useCallback((tag: string) => {
+    setSearchQuery(query => toggleQueryTag(query, tag));
   }, []);
 
-  // Handle tag filter
-  const handleTagFilter = useCallback(
-    (tag: string) => {
-      if (activeFilter === tag) {
-        // Clear filter
-        setActiveFilter(null);
-        setFilteredBookmarksData(processBookmarks(bookmarks));
-      } else {
-        // Apply filter
-        setActiveFilter(tag);
-        const filtered = bookmarks.filter(bookmark => bookmark.tags && bookmark.tags.includes(tag));
-        setFilteredBookmarksData(processBookmarks(filtered));
-      }
-    },
-    [activeFilter, bookmarks, processBookmarks]
-  );
-
   // Common tags from bookmarks
   const availableTags = useMemo(() => {
     const tags = new Set<string>();
@@ -301,6 +577,43 @@ export const SmartHub: React.FC<SmartHubProps> = ({
     return Array.from(tags).slice(0, 6);
   }, [bookmarks]);
 
+  // Render the result of the last link check, if it found a problem
+  const renderHealthBadge = (health?: LinkHealth) => {
+    switch (health?.status) {
+      case 'broken':
+        return (
+          <span
+            className="px-1.5 py-0.5 rounded text-xs bg-red-500 bg-opacity-20 text-red-300 flex-shrink-0"
+            title={`Dead link (HTTP ${health.httpStatus})`}
+          >
+            {health.httpStatus}
+          </span>
+        );
+      case 'redirect':
+        return (
+          <span
+            className="px-1.5 py-0.5 rounded text-xs bg-yellow-500 bg-opacity-20 text-yellow-300 flex-shrink-0"
+            title={`Redirects to ${health.finalUrl}`}
+          >
+            ↪
+          </span>
+        );
+      case 'unreachable':
+        return (
+          <span
+            className="px-1.5 py-0.5 rounded text-xs bg-white bg-opacity-10 text-white text-opacity-60 flex-shrink-0"
+            title={`Could not be reached at the last check${
+              health.httpStatus ? ` (HTTP ${health.httpStatus})` : ''
+            }`}
+          >
+            ?
+          </span>
+        );
+      default:
+        return null;
+    }
+  };
+
   // Render bookmark item
   const renderBookmarkItem = useCallback(
     (bookmark: Bookmark) => (
@@ -310,13 +623,20 @@ export const SmartHub: React.FC<SmartHubProps> = ({
         onClick={() => handleLinkClick(bookmark)}
       >
         <div className="flex items-center space-x-3">
-          <div className="text-2xl flex-shrink-0">{bookmark.favicon}</div>
+          <div className="text-2xl flex-shrink-0">
+            {favicons[bookmark.url] ? (
+              <img src={favicons[bookmark.url]} alt="" className="w-6 h-6 rounded" />
+            ) : (
+              bookmark.favicon
+            )}
+          </div>
           <div className="flex-1 min-w-0">
             <div className="text-white font-medium truncate">{bookmark.title}</div>
             <div className="text-white text-opacity-60 text-xs truncate">
               {new URL(bookmark.url).hostname}
             </div>
           </div>
+          {renderHealthBadge(bookmark.health)}
           {bookmark.visits > 0 && (
             <div className="text-white text-opacity-40 text-xs flex-shrink-0">
               {bookmark.visits}x
@@ -341,34 +661,51 @@ export const SmartHub: React.FC<SmartHubProps> = ({
             >
               📌
             </button>
+            <button
+              onClick={e => handleDelete(bookmark, e)}
+              className="w-6 h-6 flex items-center justify-center text-white text-opacity-60 hover:text-red-300 hover:bg-red-500 hover:bg-opacity-20 rounded"
+              title="Delete"
+            >
+              🗑️
+            </button>
           </div>
         </div>
       </div>
     ),
-    [handleLinkClick, handlePinToggle, handleQRRequest]
+    [favicons, handleLinkClick, handlePinToggle, handleQRRequest, handleDelete]
   );
 
   // Render bookmark section
   const renderBookmarkSection = useCallback(
-    (title: string, bookmarks: Bookmark[], emoji: string) => {
+    (
+      title: string,
+      bookmarks: Bookmark[],
+      emoji: string,
+      {
+        actions,
+        emptyText = 'No items yet',
+      }: { actions?: React.ReactNode; emptyText?: string } = {}
+    ) => {
+      const header = (
+        <div className="text-white text-opacity-80 font-medium mb-3 flex items-center space-x-2">
+          <span>{emoji}</span>
+          <span className="truncate">{title}</span>
+          {actions && <span className="ml-auto flex items-center space-x-1">{actions}</span>}
+        </div>
+      );
+
       if (bookmarks.length === 0) {
         return (
           <div className="mb-6">
-            <div className="text-white text-opacity-80 font-medium mb-3 flex items-center space-x-2">
-              <span>{emoji}</span>
-              <span>{title}</span>
-            </div>
-            <div className="text-white text-opacity-40 text-sm italic">No items yet</div>
+            {header}
+            <div className="text-white text-opacity-40 text-sm italic">{emptyText}</div>
           </div>
         );
       }
 
       return (
         <div className="mb-6">
-          <div className="text-white text-opacity-80 font-medium mb-3 flex items-center space-x-2">
-            <span>{emoji}</span>
-            <span>{title}</span>
-          </div>
+          {header}
           <div className="space-y-2">{bookmarks.map(renderBookmarkItem)}</div>
         </div>
       );
@@ -398,17 +735,124 @@ export const SmartHub: React.FC<SmartHubProps> = ({
           <div className="relative">
             <input
               type="text"
-              placeholder="Search bookmarks..."
+              placeholder="Search bookmarks... e.g. react tag:dev -tag:old"
               value={searchQuery}
               onChange={e => setSearchQuery(e.target.value)}
-              className="w-full px-4 py-2 bg-white bg-opacity-10 border border-white border-opacity-20 rounded-lg text-white placeholder-white placeholder-opacity-60 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent"
+              className="w-full px-4 py-2 pr-10 bg-white bg-opacity-10 border border-white border-opacity-20 rounded-lg text-white placeholder-white placeholder-opacity-60 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent"
+              title="Combine words with tag:name, site:host, is:pinned, AND, OR, NOT or -term"
             />
-            <div className="absolute right-3 top-1/2 transform -translate-y-1/2 text-white text-opacity-40">
-              🔍
-            </div>
+            {searchQuery.trim() ? (
+              <button
+                onClick={handleSaveCollection}
+                className="absolute right-3 top-1/2 transform -translate-y-1/2 text-white text-opacity-60 hover:text-opacity-100"
+                title="Save this search as a smart collection"
+              >
+                ⭐
+              </button>
+            ) : (
+              <div className="absolute right-3 top-1/2 transform -translate-y-1/2 text-white text-opacity-40">
+                🔍
+              </div>
+            )}
+          </div>
+
+          {/* Bookmark Sync, Import and Export */}
+          <div className="mt-3 flex items-center gap-2 text-xs">
+            {canSyncWithBrowser && (
+              <>
+                <select
+                  value={syncState.folderId || ''}
+                  onChange={e => handleSyncFolderChange(e.target.value)}
+                  disabled={isSyncing}
+                  className="flex-1 min-w-0 px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white focus:outline-none"
+                  title="Browser bookmark folder to keep in sync"
+                >
+                  <option value="">Don't sync with browser bookmarks</option>
+                  {bookmarkFolders.map(folder => (
+                    <option key={folder.id} value={folder.id}>
+                      {folder.title}
+                    </option>
+                  ))}
+                  <option value="create">+ Create "Lucaverse Hub" folder</option>
+                </select>
+                <button
+                  onClick={() => syncBookmarks(bookmarks, syncState)}
+                  disabled={!syncState.folderId || isSyncing}
+                  className="px-2 py-1 rounded bg-white bg-opacity-10 text-white hover:bg-opacity-20 disabled:opacity-40"
+                  title={
+                    syncState.lastSyncAt
+                      ? `Last synced ${new Date(syncState.lastSyncAt).toLocaleString()}`
+                      : 'Sync now'
+                  }
+                >
+                  {isSyncing ? '⏳' : '🔄'} Sync
+                </button>
+              </>
+            )}
+            <button
+              onClick={handleImportBookmarksFile}
+              className="px-2 py-1 rounded bg-white bg-opacity-10 text-white hover:bg-opacity-20"
+              title="Import bookmarks from a browser bookmarks.html, JSON or CSV file"
+            >
+              📥 Import
+            </button>
+            <select
+              value=""
+              onChange={e => {
+                const format = e.target.value as BookmarkFileFormat;
+                if (format) handleExportBookmarks(format);
+              }}
+              disabled={bookmarks.length === 0}
+              className="px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white focus:outline-none disabled:opacity-40"
+              title="Export bookmarks"
+            >
+              <option value="">📤 Export</option>
+              <option value="html">Bookmarks HTML</option>
+              <option value="json">JSON</option>
+              <option value="csv">CSV</option>
+            </select>
+            {canCheckLinks && (
+              <button
+                onClick={handleCheckLinks}
+                disabled={bookmarks.length === 0 || isCheckingLinks}
+                className="px-2 py-1 rounded bg-white bg-opacity-10 text-white hover:bg-opacity-20 disabled:opacity-40"
+                title="Look for dead and redirected bookmark links"
+              >
+                {isCheckingLinks ? '⏳' : '🩺'} Check links
+              </button>
+            )}
+            {syncMessage && (
+              <span className="text-white text-opacity-60 truncate">{syncMessage}</span>
+            )}
           </div>
         </div>
 
+        {/* Link Health Clean-up */}
+        {(linkHealthCounts.broken > 0 || linkHealthCounts.redirect > 0) && (
+          <div className="px-4 py-2 border-b border-white border-opacity-10 flex items-center gap-2 text-xs">
+            <span className="text-white text-opacity-60 flex-1">
+              {linkHealthCounts.broken} broken · {linkHealthCounts.redirect} redirected
+              {linkHealthCounts.unreachable > 0 && ` · ${linkHealthCounts.unreachable} unreachable`}
+            </span>
+            {linkHealthCounts.broken > 0 && (
+              <button
+                onClick={handleRemoveBroken}
+                className="px-2 py-1 rounded bg-red-500 bg-opacity-20 text-red-300 hover:bg-opacity-30"
+              >
+                Remove broken
+              </button>
+            )}
+            {linkHealthCounts.updatableRedirects > 0 && (
+              <button
+                onClick={handleUpdateRedirects}
+                className="px-2 py-1 rounded bg-white bg-opacity-10 text-white hover:bg-opacity-20"
+              >
+                Update redirects
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Quick Tags */}
         {availableTags.length > 0 && (
           <div className="p-4 border-b border-white border-opacity-10">
@@ -418,7 +862,7 @@ export const SmartHub: React.FC<SmartHubProps> = ({
                   key={tag}
                   onClick={() => handleTagFilter(tag)}
                   className={`px-3 py-1 rounded-full text-xs transition-all ${
-                    activeFilter === tag
+                    activeTags.includes(tag.toLowerCase())
                       ? 'bg-blue-500 text-white'
                       : 'bg-white bg-opacity-10 text-white text-opacity-80 hover:bg-opacity-20'
                   }`}
@@ -426,12 +870,9 @@ export const SmartHub: React.FC<SmartHubProps> = ({
                   {tag}
                 </button>
               ))}
-              {activeFilter && (
+              {activeTags.length > 0 && (
                 <button
-                  onClick={() => {
-                    setActiveFilter(null);
-                    setFilteredBookmarksData(processBookmarks(bookmarks));
-                  }}
+                  onClick={() => setSearchQuery('')}
                   className="px-3 py-1 rounded-full text-xs bg-red-500 bg-opacity-20 text-red-300 hover:bg-opacity-30"
                 >
                   Clear
@@ -443,20 +884,59 @@ export const SmartHub: React.FC<SmartHubProps> = ({
 
         {/* Content */}
         <div className="flex-1 overflow-auto p-4">
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            {/* Left Column */}
-            <div>
-              {renderBookmarkSection('Most Visited', filteredBookmarksData.mostVisited, '⚡')}
-            </div>
-
-            {/* Right Column */}
-            <div>
-              {renderBookmarkSection('Recent Bookmarks', filteredBookmarksData.recent, '🔖')}
-              {renderBookmarkSection('Pinned Items', filteredBookmarksData.pinned, '📌')}
+          {searchResults ? (
+            renderBookmarkSection(`Search Results (${searchResults.length})`, searchResults, '🔍', {
+              emptyText: 'No matching bookmarks',
+            })
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Left Column */}
+              <div>
+                {renderBookmarkSection('Most Visited', filteredBookmarksData.mostVisited, '⚡')}
+                {collectionSections.map(({ collection, bookmarks: matches }) => (
+                  <React.Fragment key={collection.id}>
+                    {renderBookmarkSection(collection.name, matches, '✨', {
+                      emptyText: 'No matching bookmarks',
+                      actions: (
+                        <>
+                          <button
+                            onClick={() => setSearchQuery(collection.query)}
+                            className="w-5 h-5 flex items-center justify-center text-xs text-white text-opacity-40 hover:text-opacity-100"
+                            title={`Search: ${collection.query}`}
+                          >
+                            🔍
+                          </button>
+                          <button
+                            onClick={() => handleRemoveCollection(collection)}
+                            className="w-5 h-5 flex items-center justify-center text-white text-opacity-40 hover:text-red-300"
+                            title="Remove collection"
+                          >
+                            ×
+                          </button>
+                        </>
+                      ),
+                    })}
+                  </React.Fragment>
+                ))}
+              </div>
+
+              {/* Right Column */}
+              <div>
+                {renderBookmarkSection('Recent Bookmarks', filteredBookmarksData.recent, '🔖')}
+                {renderBookmarkSection('Pinned Items', filteredBookmarksData.pinned, '📌')}
+              </div>
             </div>
-          </div>
+          )}
         </div>
       </div>
+
+      {qrBookmark && (
+        <QRCodeModal
+          value={qrBookmark.url}
+          title={qrBookmark.title}
+          onClose={() => setQrBookmark(null)}
+        />
+      )}
     </Panel>
   );
 };
@@ -4,7 +4,7 @@
  * Migrated from vanilla JavaScript while preserving all functionality
  */
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { DndContext, closestCenter, PointerSensor, useSensor, useSensors } from '@dnd-kit/core';
 import {
   SortableContext,
@@ -13,26 +13,289 @@ import {
   useSortable,
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
-import { Panel } from '@/components/ui';
-import { usePanelSelection } from '@/hooks/usePanelInteractions';
+import { Panel, QRCodeModal, TaskBoard, TaskCalendar } from '@/components/ui';
+import { usePanelSelection, usePanelSetting } from '@/hooks/usePanelInteractions';
+import { getCurrentPlatformType } from '@/platform';
+import { openTextFile } from '@/utils/fileTransfer';
 import type { Position, Size } from '@/types/panel';
+import type { Task, TaskPriority, TaskRecurrence } from '@/types/tasks';
+import {
+  ADD_TASK_EVENT,
+  FOCUS_TASK_EVENT,
+  TASKS_STORAGE_KEY,
+  createTaskFromDraft,
+  takeExtensionTasks,
+  takePendingTaskFocus,
+  type TaskDraft,
+} from '@/features/task-manager/taskInbox';
+import {
+  REMINDER_OFFSETS,
+  formatDueDate,
+  getDueStatus,
+  matchesDueView,
+  parseDateTimeInput,
+  syncTaskReminders,
+  toDateTimeInputValue,
+  withDueDate,
+  type DueView,
+} from '@/features/task-manager/taskReminders';
+import {
+  RECURRENCE_PRESETS,
+  WEEKDAY_LABELS,
+  completeRecurringTask,
+  describeRecurrence,
+  getRecurrencePreset,
+  previewOccurrences,
+  recurrenceFromPreset,
+  withRecurrence,
+  type RecurrencePreset,
+} from '@/features/task-manager/taskRecurrence';
+import { parseQuickAdd } from '@/features/task-manager/quickAdd';
+import {
+  TRACK_TASK_TIME_EVENT,
+  addTrackedTime,
+  formatMinutes,
+  getTimeStatus,
+  withEstimate,
+  type TrackedTime,
+} from '@/features/task-manager/taskTimeTracking';
+import { startTaskFocus } from '@/features/productivity/taskFocus';
+import {
+  addDependency,
+  getBlockers,
+  isBlocked,
+  pruneDependencies,
+  removeDependency,
+  rollUpProgress,
+  wouldCreateCycle,
+} from '@/features/task-manager/taskDependencies';
+import {
+  TASK_FILE_FILTERS,
+  exportTasksFile,
+  mergeImportedTasks,
+  parseTaskFile,
+  type TaskFileFormat,
+} from '@/features/task-manager/taskTransfer';
+import {
+  PRIORITY_INFO,
+  groupTasksForBoard,
+  moveTaskToColumn,
+  type BoardGrouping,
+  type CalendarRange,
+  type TaskViewMode,
+} from '@/features/task-manager/taskViews';
 
-// Types for Task Manager data structures
-interface Task {
-  id: number;
-  text: string;
-  completed: boolean;
-  priority: 1 | 2 | 3 | 4 | 5; // 1 = Critical, 5 = Optional
-  parentId?: number;
-  progress: number;
-  category?: string;
+type TaskTemplate = 'daily' | 'meeting' | 'research' | 'code';
+
+// Fields the add dialog can set beyond text, priority and category
+interface NewTaskDetails {
+  dueDate?: number | null;
+  reminderOffset?: number | null;
+  recurrence?: TaskRecurrence | null;
   tags?: string[];
-  dueDate?: number;
-  createdAt: number;
-  updatedAt: number;
 }
 
-type TaskTemplate = 'daily' | 'meeting' | 'research' | 'code';
+// Interval units for the repeat picker
+const RECURRENCE_UNITS = { daily: 'days', weekly: 'weeks', monthly: 'months' } as const;
+
+interface RecurrenceFieldsProps {
+  recurrence: TaskRecurrence | null;
+  // Due date the schedule starts from; now when the task has none
+  anchor: number;
+  onChange: (recurrence: TaskRecurrence | null) => void;
+}
+
+// Repeat picker with a preview of the next occurrences
+const RecurrenceFields: React.FC<RecurrenceFieldsProps> = ({ recurrence, anchor, onChange }) => {
+  const preset = getRecurrencePreset(recurrence ?? undefined);
+  const now = Date.now();
+
+  const toggleWeekday = (day: number) => {
+    if (!recurrence) return;
+    const weekdays = recurrence.weekdays ?? [];
+    const next = weekdays.includes(day) ? weekdays.filter(d => d !== day) : [...weekdays, day];
+    // A weekly schedule needs at least one day
+    if (next.length > 0) onChange({ ...recurrence, weekdays: next });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <label className="text-white text-opacity-80 text-sm">Repeat</label>
+        <select
+          value={preset}
+          onChange={e => onChange(recurrenceFromPreset(e.target.value as RecurrencePreset, anchor))}
+          className="flex-1 px-2 py-2 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-400"
+        >
+          {RECURRENCE_PRESETS.map(({ preset: value, label }) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+
+        {recurrence && preset !== 'weekdays' && (
+          <>
+            <span className="text-white text-opacity-60 text-sm">every</span>
+            <input
+              type="number"
+              min={1}
+              max={99}
+              value={recurrence.interval}
+              onChange={e =>
+                onChange({ ...recurrence, interval: Math.max(1, parseInt(e.target.value) || 1) })
+              }
+              className="w-14 px-2 py-2 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-400"
+            />
+            <span className="text-white text-opacity-60 text-sm">
+              {RECURRENCE_UNITS[recurrence.frequency]}
+            </span>
+          </>
+        )}
+      </div>
+
+      {recurrence?.frequency === 'weekly' && preset !== 'weekdays' && (
+        <div className="flex space-x-1">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              className={`flex-1 py-1 rounded text-xs transition-colors ${
+                recurrence.weekdays?.includes(day)
+                  ? 'bg-blue-500 bg-opacity-40 text-white'
+                  : 'bg-white bg-opacity-10 text-white text-opacity-60'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {recurrence && (
+        <div className="text-white text-opacity-60 text-xs">
+          Next:{' '}
+          {previewOccurrences(recurrence, anchor, 4)
+            .map(time => formatDueDate(time, now))
+            .join(' · ')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface DueDateFieldsProps {
+  dueDate: number | null;
+  reminderOffset: number | null;
+  onChange: (dueDate: number | null, reminderOffset: number | null) => void;
+}
+
+// Due date picker with its reminder choice, shared by the add dialog and the task editor
+const DueDateFields: React.FC<DueDateFieldsProps> = ({ dueDate, reminderOffset, onChange }) => (
+  <div className="grid grid-cols-2 gap-3">
+    <div>
+      <label className="block text-white text-opacity-80 text-sm mb-1">Due</label>
+      <input
+        type="datetime-local"
+        value={dueDate === null ? '' : toDateTimeInputValue(dueDate)}
+        onChange={e => onChange(parseDateTimeInput(e.target.value), reminderOffset)}
+        className="w-full px-2 py-2 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-400"
+      />
+    </div>
+
+    <div>
+      <label className="block text-white text-opacity-80 text-sm mb-1">Reminder</label>
+      <select
+        value={reminderOffset ?? ''}
+        disabled={dueDate === null}
+        onChange={e => onChange(dueDate, e.target.value === '' ? null : Number(e.target.value))}
+        className="w-full px-2 py-2 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-400 disabled:opacity-50"
+      >
+        <option value="">No reminder</option>
+        {REMINDER_OFFSETS.map(({ minutes, label }) => (
+          <option key={minutes} value={minutes}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </div>
+  </div>
+);
+
+interface DependencyFieldsProps {
+  task: Task;
+  tasks: Task[];
+  onAdd: (blockerId: number) => void;
+  onRemove: (blockerId: number) => void;
+}
+
+// Badge colours for tracked time against the estimate
+const TIME_STATUS_CLASSES = {
+  under: 'bg-white bg-opacity-10 text-white text-opacity-80',
+  near: 'bg-yellow-500 bg-opacity-20 text-yellow-300',
+  over: 'bg-red-500 bg-opacity-20 text-red-300',
+} as const;
+
+// "Blocked by" list with a picker of open tasks that would not create a cycle
+const DependencyFields: React.FC<DependencyFieldsProps> = ({ task, tasks, onAdd, onRemove }) => {
+  const blockers = tasks.filter(other => task.blockedBy?.includes(other.id));
+  const candidates = tasks.filter(
+    other =>
+      other.id !== task.id &&
+      !other.completed &&
+      !task.blockedBy?.includes(other.id) &&
+      !wouldCreateCycle(tasks, task.id, other.id)
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <label className="text-white text-opacity-80 text-sm">Blocked by</label>
+        <select
+          value=""
+          disabled={candidates.length === 0}
+          onChange={e => {
+            if (e.target.value) onAdd(Number(e.target.value));
+          }}
+          className="flex-1 min-w-0 px-2 py-2 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-400 disabled:opacity-50"
+        >
+          <option value="">Add a task this waits on…</option>
+          {candidates.map(other => (
+            <option key={other.id} value={other.id}>
+              {other.text}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {blockers.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {blockers.map(blocker => (
+            <span
+              key={blocker.id}
+              className={`flex items-center space-x-1 px-2 py-1 rounded text-xs ${
+                blocker.completed
+                  ? 'bg-green-500 bg-opacity-20 text-green-300 line-through'
+                  : 'bg-orange-500 bg-opacity-20 text-orange-300'
+              }`}
+            >
+              <span>{blocker.text}</span>
+              <button
+                type="button"
+                onClick={() => onRemove(blocker.id)}
+                className="hover:text-white"
+                title="Remove dependency"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
 
 export interface TaskManagerProps {
   id: string;
@@ -58,13 +321,37 @@ export const TaskManager: React.FC<TaskManagerProps> = ({
   const [newTaskText, setNewTaskText] = useState('');
   const [newTaskPriority, setNewTaskPriority] = useState<1 | 2 | 3 | 4 | 5>(3);
   const [newTaskCategory, setNewTaskCategory] = useState('');
+  const [newTaskDueDate, setNewTaskDueDate] = useState<number | null>(null);
+  const [newTaskReminderOffset, setNewTaskReminderOffset] = useState<number | null>(null);
+  const [newTaskRecurrence, setNewTaskRecurrence] = useState<TaskRecurrence | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [filterCategory, setFilterCategory] = useState<string>('');
+  const [dueView, setDueView] = useState<DueView>('all');
+  const [now, setNow] = useState(Date.now());
+  const [tasksLoaded, setTasksLoaded] = useState(false);
   const [showCompleted, setShowCompleted] = useState(true);
+  const [qrTask, setQrTask] = useState<Task | null>(null);
+  const [focusRequestId, setFocusRequestId] = useState<number | null>(null);
+  // Date the calendar view is showing
+  const [calendarDate, setCalendarDate] = useState(Date.now());
+  const taskListRef = useRef<HTMLDivElement>(null);
 
   // Panel selection state
   const { isSelected } = usePanelSelection(id);
 
+  // View preferences are kept per panel instance
+  const [viewMode, setViewMode] = usePanelSetting<TaskViewMode>(id, 'taskView', 'list');
+  const [boardGrouping, setBoardGrouping] = usePanelSetting<BoardGrouping>(
+    id,
+    'taskBoardGrouping',
+    'priority'
+  );
+  const [calendarRange, setCalendarRange] = usePanelSetting<CalendarRange>(
+    id,
+    'taskCalendarRange',
+    'week'
+  );
+
   // Task templates
   const taskTemplates = {
     daily: [
@@ -86,17 +373,110 @@ export const TaskManager: React.FC<TaskManagerProps> = ({
   // Load tasks on mount
   useEffect(() => {
     loadTasksFromStorage();
+    setFocusRequestId(takePendingTaskFocus());
+
+    // Tasks added from the extension's context menu or popup since the last visit
+    if (getCurrentPlatformType() === 'chrome') {
+      takeExtensionTasks()
+        .then(captured => captured.length > 0 && setTasks(prev => [...prev, ...captured]))
+        .catch(error => console.error('Failed to load captured tasks:', error));
+    }
+  }, []);
+
+  // Accept tasks sent from other panels
+  useEffect(() => {
+    const handleExternalTask = (event: Event) => {
+      const draft = (event as CustomEvent<TaskDraft>).detail;
+      if (!draft?.text?.trim()) return;
+
+      event.preventDefault();
+      setTasks(prev => [...prev, createTaskFromDraft(draft)]);
+    };
+
+    window.addEventListener(ADD_TASK_EVENT, handleExternalTask);
+    return () => window.removeEventListener(ADD_TASK_EVENT, handleExternalTask);
   }, []);
 
+  // Reveal tasks picked elsewhere, e.g. in the command palette
+  useEffect(() => {
+    const handleFocusTask = (event: Event) => {
+      event.preventDefault();
+      setFocusRequestId((event as CustomEvent<number>).detail);
+    };
+
+    window.addEventListener(FOCUS_TASK_EVENT, handleFocusTask);
+    return () => window.removeEventListener(FOCUS_TASK_EVENT, handleFocusTask);
+  }, []);
+
+  // Record focus time from Pomodoro sessions
+  useEffect(() => {
+    const handleTrackTime = (event: Event) => {
+      const { taskId, minutes } = (event as CustomEvent<TrackedTime>).detail;
+      event.preventDefault();
+      setTasks(prev => addTrackedTime(prev, taskId, minutes));
+    };
+
+    window.addEventListener(TRACK_TASK_TIME_EVENT, handleTrackTime);
+    return () => window.removeEventListener(TRACK_TASK_TIME_EVENT, handleTrackTime);
+  }, []);
+
+  useEffect(() => {
+    if (focusRequestId === null) return;
+    const task = tasks.find(t => t.id === focusRequestId);
+    if (!task) return;
+
+    // Clear filters that would hide it, then select its top-level task
+    const rootId = task.parentId ?? task.id;
+    setSearchQuery('');
+    setFilterCategory('');
+    setDueView('all');
+    if (task.completed) setShowCompleted(true);
+    setSelectedTaskId(rootId);
+    setFocusRequestId(null);
+
+    // Boards only show top-level tasks and calendars only dated ones
+    if (viewMode === 'calendar' && task.dueDate !== undefined) {
+      setCalendarDate(task.dueDate);
+      return;
+    }
+    if (viewMode !== 'list' && !(viewMode === 'board' && rootId === task.id)) {
+      setViewMode('list');
+    }
+
+    requestAnimationFrame(() => {
+      taskListRef.current
+        ?.querySelector(`[data-task-id="${rootId}"]`)
+        ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    });
+  }, [focusRequestId, tasks, viewMode, setViewMode]);
+
+  // Parents' progress follows their subtasks
+  useEffect(() => {
+    const rolled = rollUpProgress(tasks);
+    if (rolled !== tasks) setTasks(rolled);
+  }, [tasks]);
+
   // Save tasks when they change
   useEffect(() => {
     saveTasksToStorage(tasks);
   }, [tasks]);
 
+  // Keep platform reminders in step with due dates, once stored tasks are loaded
+  useEffect(() => {
+    if (!tasksLoaded) return;
+    syncTaskReminders(tasks).catch(error => console.error('Failed to sync reminders:', error));
+  }, [tasks, tasksLoaded]);
+
+  // Tasks become due or overdue as time passes
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
   // Load tasks from localStorage
   const loadTasksFromStorage = useCallback(() => {
     try {
-      const stored = localStorage.getItem('lucaverse_tasks');
+      const stored = localStorage.getItem(TASKS_STORAGE_KEY);
       if (stored) {
         setTasks(JSON.parse(stored));
       } else {
@@ -138,6 +518,7 @@ export const TaskManager: React.FC<TaskManagerProps> = ({
         ];
         setTasks(sampleTasks);
       }
+      setTasksLoaded(true);
     } catch (error) {
       console.error('Failed to load tasks:', error);
     }
@@ -146,7 +527,7 @@ export const TaskManager: React.FC<TaskManagerProps> = ({
   // Save tasks to localStorage
   const saveTasksToStorage = useCallback((tasksToSave: Task[]) => {
     try {
-      localStorage.setItem('lucaverse_tasks', JSON.stringify(tasksToSave));
+      localStorage.setItem(TASKS_STORAGE_KEY, JSON.stringify(tasksToSave));
     } catch (error) {
       console.error('Failed to save tasks:', error);
     }
@@ -179,18 +560,30 @@ export const TaskManager: React.FC<TaskManagerProps> = ({
 
   // Add new task
   const addTask = useCallback(
-    (text: string, priority: 1 | 2 | 3 | 4 | 5 = 3, parentId?: number, category?: string) => {
-      const newTask: Task = {
-        id: Date.now() + Math.random(),
-        text: text.trim(),
-        completed: false,
-        priority,
-        parentId: parentId || undefined,
-        progress: 0,
-        category,
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
-      };
+    (
+      text: string,
+      priority: 1 | 2 | 3 | 4 | 5 = 3,
+      parentId?: number,
+      category?: string,
+      details: NewTaskDetails = {}
+    ) => {
+      const scheduled = withDueDate(
+        {
+          id: Date.now() + Math.random(),
+          text: text.trim(),
+          completed: false,
+          priority,
+          parentId: parentId || undefined,
+          progress: 0,
+          category,
+          ...(details.tags?.length && { tags: details.tags }),
+          createdAt: Date.now(),
+          updatedAt: Date.now(),
+        },
+        details.dueDate ?? null,
+        details.reminderOffset ?? null
+      );
+      const newTask: Task = withRecurrence(scheduled, details.recurrence ?? null);
 
       setTasks(prev => [...prev, newTask]);
       return newTask.id;
@@ -198,40 +591,145 @@ export const TaskManager: React.FC<TaskManagerProps> = ({
     []
   );
 
-  // Toggle task completion
+  // Toggle task completion; completing a repeating task adds its next occurrence.
+  // Blocked tasks cannot be completed until their blockers are.
   const toggleTask = useCallback((taskId: number) => {
-    setTasks(prev =>
-      prev.map(task => {
-        if (task.id === taskId) {
-          const completed = !task.completed;
-          return {
-            ...task,
-            completed,
-            progress: completed ? 100 : task.progress,
-            updatedAt: Date.now(),
-          };
-        }
-        return task;
-      })
-    );
+    setTasks(prev => {
+      const target = prev.find(task => task.id === taskId);
+      if (target && !target.completed && isBlocked(target, prev)) return prev;
+
+      return completeRecurringTask(
+        prev.map(task => {
+          if (task.id === taskId) {
+            const completed = !task.completed;
+            return {
+              ...task,
+              completed,
+              progress: completed ? 100 : task.progress,
+              updatedAt: Date.now(),
+            };
+          }
+          return task;
+        }),
+        taskId,
+        Date.now()
+      );
+    });
   }, []);
 
   // Delete task
   const deleteTask = useCallback((taskId: number) => {
-    setTasks(prev => prev.filter(task => task.id !== taskId && task.parentId !== taskId));
+    setTasks(prev =>
+      pruneDependencies(prev.filter(task => task.id !== taskId && task.parentId !== taskId))
+    );
   }, []);
 
   // Update task progress
   const updateTaskProgress = useCallback((taskId: number, progress: number) => {
+    setTasks(prev => {
+      const target = prev.find(task => task.id === taskId);
+      if (target && progress === 100 && isBlocked(target, prev)) return prev;
+
+      return completeRecurringTask(
+        prev.map(task =>
+          task.id === taskId
+            ? { ...task, progress, completed: progress === 100, updatedAt: Date.now() }
+            : task
+        ),
+        taskId,
+        Date.now()
+      );
+    });
+  }, []);
+
+  // Make a task wait on another, refusing links that would form a cycle
+  const addTaskDependency = useCallback(
+    (taskId: number, blockerId: number) => {
+      // Checked on the tasks shown to explain a refusal, and again on the latest
+      // tasks so a change still queued cannot let a cycle in
+      if (wouldCreateCycle(tasks, taskId, blockerId)) {
+        alert('That dependency would create a cycle');
+        return;
+      }
+      setTasks(prev =>
+        wouldCreateCycle(prev, taskId, blockerId) ? prev : addDependency(prev, taskId, blockerId)
+      );
+    },
+    [tasks]
+  );
+
+  const removeTaskDependency = useCallback((taskId: number, blockerId: number) => {
+    setTasks(prev => removeDependency(prev, taskId, blockerId));
+  }, []);
+
+  // Set or clear the minutes a task is expected to take
+  const updateTaskEstimate = useCallback((taskId: number, estimate: number | null) => {
+    setTasks(prev => prev.map(task => (task.id === taskId ? withEstimate(task, estimate) : task)));
+  }, []);
+
+  // Set or clear a task's due date and reminder
+  const updateTaskDueDate = useCallback(
+    (taskId: number, dueDate: number | null, reminderOffset: number | null) => {
+      setTasks(prev =>
+        prev.map(task => (task.id === taskId ? withDueDate(task, dueDate, reminderOffset) : task))
+      );
+    },
+    []
+  );
+
+  // Set or stop a task's repeat schedule
+  const updateTaskRecurrence = useCallback((taskId: number, recurrence: TaskRecurrence | null) => {
     setTasks(prev =>
-      prev.map(task =>
-        task.id === taskId
-          ? { ...task, progress, completed: progress === 100, updatedAt: Date.now() }
-          : task
-      )
+      prev.map(task => (task.id === taskId ? withRecurrence(task, recurrence) : task))
     );
   }, []);
 
+  // Drop a task into another board column, changing its priority or category
+  const moveTaskOnBoard = useCallback(
+    (taskId: number, columnId: string) => {
+      setTasks(prev =>
+        prev.map(task =>
+          task.id === taskId ? moveTaskToColumn(task, boardGrouping, columnId) : task
+        )
+      );
+    },
+    [boardGrouping]
+  );
+
+  // Import a todo.txt, Markdown checklist or iCalendar file
+  const handleImportTasks = useCallback(async () => {
+    try {
+      const file = await openTextFile(TASK_FILE_FILTERS);
+      if (!file) return;
+
+      const imported = parseTaskFile(file.name, file.content);
+      if (imported.length === 0) {
+        alert('No tasks found in that file');
+        return;
+      }
+
+      const result = mergeImportedTasks(tasks, imported);
+      setTasks(result.tasks);
+      alert(`Imported ${result.added} task(s), skipped ${result.duplicates} duplicate(s)`);
+    } catch (error) {
+      console.error('Failed to import tasks:', error);
+      alert(`Failed to import tasks: ${error instanceof Error ? error.message : error}`);
+    }
+  }, [tasks]);
+
+  // Export all tasks, including hidden and completed ones
+  const handleExportTasks = useCallback(
+    async (format: TaskFileFormat) => {
+      try {
+        await exportTasksFile(tasks, format);
+      } catch (error) {
+        console.error('Failed to export tasks:', error);
+        alert(`Failed to export tasks: ${error instanceof Error ? error.message : error}`);
+      }
+    },
+    [tasks]
+  );
+
   // Add task template
   const addTaskTemplate = useCallback(
     (template: TaskTemplate) => {
@@ -297,20 +795,32 @@ export const TaskManager: React.FC<TaskManagerProps> = ({
         return false;
       }
 
+      // Filter by due date
+      if (!matchesDueView(task, dueView, now)) {
+        return false;
+      }
+
       return true;
     });
 
-    // Sort by completion status, then priority, then creation date
+    // Sort by completion status, then priority, then due date, then creation date.
+    // Due-date views put the soonest first regardless of priority.
+    // Tasks without a due date go last; `|| 0` turns Infinity - Infinity into a tie
+    const byDueDate = (a: Task, b: Task) => (a.dueDate ?? Infinity) - (b.dueDate ?? Infinity) || 0;
+
     return filtered.sort((a, b) => {
       if (a.completed !== b.completed) {
         return a.completed ? 1 : -1;
       }
+      if (dueView !== 'all' && byDueDate(a, b) !== 0) {
+        return byDueDate(a, b);
+      }
       if (a.priority !== b.priority) {
         return a.priority - b.priority;
       }
-      return b.createdAt - a.createdAt;
+      return byDueDate(a, b) || b.createdAt - a.createdAt;
     });
-  }, [tasks, searchQuery, filterCategory, showCompleted]);
+  }, [tasks, searchQuery, filterCategory, showCompleted, dueView, now]);
 
   // Get main tasks and subtasks
   const mainTasks = filteredTasks.filter(task => !task.parentId);
@@ -332,6 +842,21 @@ export const TaskManager: React.FC<TaskManagerProps> = ({
     [filteredTasks]
   );
 
+  // Open tasks in each due-date view
+  const dueCounts = useMemo(() => {
+    const counts: Record<DueView, number> = {
+      all: tasks.length,
+      overdue: 0,
+      today: 0,
+      upcoming: 0,
+    };
+    tasks.forEach(task => {
+      const status = getDueStatus(task, now);
+      if (status) counts[status]++;
+    });
+    return counts;
+  }, [tasks, now]);
+
   // Get available categories
   const availableCategories = useMemo(() => {
     const categories = new Set(tasks.map(task => task.category).filter(Boolean));
@@ -340,16 +865,59 @@ export const TaskManager: React.FC<TaskManagerProps> = ({
 
   // Get priority info
   const getPriorityInfo = useCallback((priority: number) => {
-    const priorityMap = {
-      1: { text: '🔴 Critical', class: 'text-red-400 bg-red-500 bg-opacity-20' },
-      2: { text: '🟠 High', class: 'text-orange-400 bg-orange-500 bg-opacity-20' },
-      3: { text: '🟡 Medium', class: 'text-yellow-400 bg-yellow-500 bg-opacity-20' },
-      4: { text: '🟢 Low', class: 'text-green-400 bg-green-500 bg-opacity-20' },
-      5: { text: '🔵 Optional', class: 'text-blue-400 bg-blue-500 bg-opacity-20' },
-    };
-    return priorityMap[priority as keyof typeof priorityMap] || priorityMap[3];
+    return PRIORITY_INFO[priority as TaskPriority] || PRIORITY_INFO[3];
   }, []);
 
+  // Board columns for the current grouping
+  const boardColumns = useMemo(
+    () => groupTasksForBoard(filteredTasks, boardGrouping, availableCategories as string[]),
+    [filteredTasks, boardGrouping, availableCategories]
+  );
+
+  // Badges on board cards; the column already shows priority or category
+  const renderBoardMeta = useCallback(
+    (task: Task) => {
+      const subtasks = tasks.filter(t => t.parentId === task.id);
+      return (
+        <>
+          {boardGrouping === 'category' && (
+            <span className={`px-1 rounded text-xs ${getPriorityInfo(task.priority).class}`}>
+              {getPriorityInfo(task.priority).text}
+            </span>
+          )}
+          {boardGrouping === 'priority' && task.category && (
+            <span className="px-1 bg-white bg-opacity-10 text-white text-opacity-80 rounded text-xs">
+              {task.category}
+            </span>
+          )}
+          {task.dueDate !== undefined && (
+            <span
+              className={`px-1 rounded text-xs ${
+                getDueStatus(task, now) === 'overdue'
+                  ? 'bg-red-500 bg-opacity-20 text-red-300'
+                  : 'bg-white bg-opacity-10 text-white text-opacity-80'
+              }`}
+            >
+              📅 {formatDueDate(task.dueDate, now)}
+            </span>
+          )}
+          {task.recurrence && <span className="text-xs">🔁</span>}
+          {isBlocked(task, tasks) && (
+            <span className="px-1 bg-orange-500 bg-opacity-20 text-orange-300 rounded text-xs">
+              🔒 Blocked
+            </span>
+          )}
+          {subtasks.length > 0 && (
+            <span className="text-white text-opacity-60 text-xs">
+              {subtasks.filter(st => st.completed).length}/{subtasks.length}
+            </span>
+          )}
+        </>
+      );
+    },
+    [tasks, boardGrouping, getPriorityInfo, now]
+  );
+
   // Calculate task statistics
   const taskStats = useMemo(() => {
     const total = tasks.length;
@@ -368,19 +936,44 @@ export const TaskManager: React.FC<TaskManagerProps> = ({
 
   // Handle add task form submit
   const handleAddTask = useCallback(() => {
-    if (!newTaskText.trim()) return;
+    // Shorthand typed into the text wins over the dialog fields
+    const parsed = parseQuickAdd(newTaskText);
+    if (!parsed.text) return;
 
     addTask(
-      newTaskText,
-      newTaskPriority,
+      parsed.text,
+      parsed.priority ?? newTaskPriority,
       selectedTaskId || undefined,
-      newTaskCategory || undefined
+      parsed.category ?? (newTaskCategory || undefined),
+      {
+        dueDate: parsed.dueDate ?? newTaskDueDate,
+        reminderOffset: newTaskReminderOffset,
+        // Only top-level tasks repeat
+        recurrence: selectedTaskId ? null : newTaskRecurrence,
+        tags: parsed.tags,
+      }
     );
     setNewTaskText('');
     setNewTaskPriority(3);
     setNewTaskCategory('');
+    setNewTaskDueDate(null);
+    setNewTaskReminderOffset(null);
+    setNewTaskRecurrence(null);
     setShowAddTaskDialog(false);
-  }, [newTaskText, newTaskPriority, selectedTaskId, newTaskCategory, addTask]);
+  }, [
+    newTaskText,
+    newTaskPriority,
+    selectedTaskId,
+    newTaskCategory,
+    newTaskDueDate,
+    newTaskReminderOffset,
+    newTaskRecurrence,
+    addTask,
+  ]);
+
+  // Live preview of the shorthand in the add dialog
+  const quickAdd = useMemo(() => parseQuickAdd(newTaskText, now), [newTaskText, now]);
+  const newTaskEffectiveDueDate = quickAdd.dueDate ?? newTaskDueDate;
 
   // Handle task double-click for editing
   const handleTaskDoubleClick = useCallback(
@@ -458,6 +1051,17 @@ export const TaskManager: React.FC<TaskManagerProps> = ({
                 ))}
               </select>
 
+              <select
+                value={dueView}
+                onChange={e => setDueView(e.target.value as DueView)}
+                className="flex-1 px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-xs focus:outline-none focus:ring-1 focus:ring-blue-400"
+              >
+                <option value="all">All Dates</option>
+                <option value="overdue">Overdue ({dueCounts.overdue})</option>
+                <option value="today">Today ({dueCounts.today})</option>
+                <option value="upcoming">Upcoming ({dueCounts.upcoming})</option>
+              </select>
+
               <button
                 onClick={() => setShowCompleted(!showCompleted)}
                 className={`px-3 py-1 rounded text-xs transition-colors ${
@@ -496,151 +1100,398 @@ export const TaskManager: React.FC<TaskManagerProps> = ({
                 ))}
               </div>
             </div>
+
+            <div className="relative group">
+              <button
+                className="px-3 py-2 bg-white bg-opacity-10 text-white rounded text-sm hover:bg-opacity-20 transition-colors"
+                title="Import or export tasks"
+              >
+                ⇅
+              </button>
+              <div className="absolute top-full right-0 mt-1 bg-black bg-opacity-90 rounded shadow-lg p-2 space-y-1 min-w-32 whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity z-10">
+                <button
+                  onClick={handleImportTasks}
+                  className="block w-full text-left px-2 py-1 text-white text-xs hover:bg-white hover:bg-opacity-10 rounded"
+                >
+                  📥 Import file…
+                </button>
+                {(
+                  [
+                    ['todotxt', 'todo.txt'],
+                    ['markdown', 'Markdown checklist'],
+                    ['ics', 'iCalendar (.ics)'],
+                  ] as const
+                ).map(([format, label]) => (
+                  <button
+                    key={format}
+                    onClick={() => handleExportTasks(format)}
+                    disabled={tasks.length === 0}
+                    className="block w-full text-left px-2 py-1 text-white text-xs hover:bg-white hover:bg-opacity-10 rounded disabled:opacity-40"
+                  >
+                    📤 {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* View Switcher */}
+            <div className="flex rounded overflow-hidden">
+              {(
+                [
+                  ['list', '☰', 'List'],
+                  ['board', '▦', 'Board'],
+                  ['calendar', '📅', 'Calendar'],
+                ] as const
+              ).map(([mode, icon, label]) => (
+                <button
+                  key={mode}
+                  onClick={() => setViewMode(mode)}
+                  className={`px-2 py-2 text-sm transition-colors ${
+                    viewMode === mode
+                      ? 'bg-blue-500 bg-opacity-30 text-blue-200'
+                      : 'bg-white bg-opacity-10 text-white text-opacity-60 hover:bg-opacity-20'
+                  }`}
+                  title={`${label} view`}
+                >
+                  {icon}
+                </button>
+              ))}
+            </div>
           </div>
-        </div>
 
-        {/* Task List */}
-        <div className="flex-1 overflow-auto p-4">
-          <div className="space-y-3">
-            {getTasksByParent(null).map(task => {
-              const isSelected = selectedTaskId === task.id;
-              const subtasks = getTasksByParent(task.id);
-              const completedSubtasks = subtasks.filter(st => st.completed).length;
-              const priorityInfo = getPriorityInfo(task.priority);
-
-              return (
-                <div
-                  key={task.id}
-                  className={`glass-panel p-4 rounded-lg cursor-pointer hover:bg-white hover:bg-opacity-5 transition-all ${
-                    isSelected ? 'ring-2 ring-blue-400' : ''
-                  } ${task.completed ? 'opacity-50' : ''}`}
-                  onClick={() => setSelectedTaskId(isSelected ? null : task.id)}
-                  onDoubleClick={() => handleTaskDoubleClick(task)}
+          {viewMode === 'board' && (
+            <div className="flex items-center space-x-2 mt-2 text-xs text-white text-opacity-60">
+              <span>Group by</span>
+              {(['priority', 'category'] as const).map(grouping => (
+                <button
+                  key={grouping}
+                  onClick={() => setBoardGrouping(grouping)}
+                  className={`px-2 py-1 rounded capitalize transition-colors ${
+                    boardGrouping === grouping
+                      ? 'bg-blue-500 bg-opacity-30 text-blue-200'
+                      : 'bg-white bg-opacity-10 text-white text-opacity-60'
+                  }`}
                 >
-                  <div className="flex items-start space-x-3">
-                    {/* Checkbox */}
-                    <button
-                      onClick={e => {
-                        e.stopPropagation();
-                        toggleTask(task.id);
-                      }}
-                      className={`w-5 h-5 border-2 rounded flex items-center justify-center transition-colors ${
-                        task.completed
-                          ? 'bg-green-500 border-green-500 text-white'
-                          : 'border-white border-opacity-40 hover:border-opacity-60'
-                      }`}
-                    >
-                      {task.completed && '✓'}
-                    </button>
+                  {grouping}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
 
-                    {/* Task Content */}
-                    <div className="flex-1 min-w-0">
-                      <div
-                        className={`text-white font-medium ${task.completed ? 'line-through opacity-60' : ''}`}
-                      >
-                        {task.text}
-                      </div>
+        {/* Board View */}
+        {viewMode === 'board' && (
+          <div className="flex-1 overflow-hidden p-4">
+            <TaskBoard
+              columns={boardColumns}
+              selectedTaskId={selectedTaskId}
+              renderMeta={renderBoardMeta}
+              isTaskBlocked={task => isBlocked(task, tasks)}
+              onMoveTask={moveTaskOnBoard}
+              onToggleTask={toggleTask}
+              onSelectTask={setSelectedTaskId}
+              onEditTask={handleTaskDoubleClick}
+            />
+          </div>
+        )}
 
-                      <div className="flex items-center space-x-2 mt-1">
-                        <span className={`px-2 py-1 rounded text-xs ${priorityInfo.class}`}>
-                          {priorityInfo.text}
-                        </span>
+        {/* Calendar View */}
+        {viewMode === 'calendar' && (
+          <div className="flex-1 overflow-auto p-4">
+            <TaskCalendar
+              tasks={filteredTasks}
+              range={calendarRange}
+              anchor={calendarDate}
+              now={now}
+              selectedTaskId={selectedTaskId}
+              onRangeChange={setCalendarRange}
+              onAnchorChange={setCalendarDate}
+              onToggleTask={toggleTask}
+              onSelectTask={setSelectedTaskId}
+              onEditTask={handleTaskDoubleClick}
+            />
+          </div>
+        )}
 
-                        {task.category && (
-                          <span className="px-2 py-1 bg-white bg-opacity-10 text-white text-opacity-80 rounded text-xs">
-                            {task.category}
-                          </span>
-                        )}
+        {/* Task List */}
+        {viewMode === 'list' && (
+          <div ref={taskListRef} className="flex-1 overflow-auto p-4">
+            <div className="space-y-3">
+              {getTasksByParent(null).map(task => {
+                const isSelected = selectedTaskId === task.id;
+                const subtasks = getTasksByParent(task.id);
+                const completedSubtasks = subtasks.filter(st => st.completed).length;
+                const priorityInfo = getPriorityInfo(task.priority);
+                const isOverdue = getDueStatus(task, now) === 'overdue';
+                const blockers = getBlockers(task, tasks);
+
+                return (
+                  <div
+                    key={task.id}
+                    data-task-id={task.id}
+                    className={`glass-panel p-4 rounded-lg cursor-pointer hover:bg-white hover:bg-opacity-5 transition-all ${
+                      isSelected ? 'ring-2 ring-blue-400' : ''
+                    } ${task.completed ? 'opacity-50' : ''}`}
+                    onClick={() => setSelectedTaskId(isSelected ? null : task.id)}
+                    onDoubleClick={() => handleTaskDoubleClick(task)}
+                  >
+                    <div className="flex items-start space-x-3">
+                      {/* Checkbox */}
+                      <button
+                        onClick={e => {
+                          e.stopPropagation();
+                          toggleTask(task.id);
+                        }}
+                        disabled={blockers.length > 0}
+                        className={`w-5 h-5 border-2 rounded flex items-center justify-center transition-colors ${
+                          task.completed
+                            ? 'bg-green-500 border-green-500 text-white'
+                            : blockers.length > 0
+                              ? 'border-orange-400 border-opacity-60 text-xs cursor-not-allowed'
+                              : 'border-white border-opacity-40 hover:border-opacity-60'
+                        }`}
+                        title={blockers.length > 0 ? 'Blocked' : undefined}
+                      >
+                        {task.completed ? '✓' : blockers.length > 0 && '🔒'}
+                      </button>
 
-                        {subtasks.length > 0 && (
-                          <span className="text-white text-opacity-60 text-xs">
-                            {completedSubtasks}/{subtasks.length} subtasks
+                      {/* Task Content */}
+                      <div className="flex-1 min-w-0">
+                        <div
+                          className={`text-white font-medium ${task.completed ? 'line-through opacity-60' : ''}`}
+                        >
+                          {task.text}
+                        </div>
+
+                        <div className="flex items-center space-x-2 mt-1">
+                          <span className={`px-2 py-1 rounded text-xs ${priorityInfo.class}`}>
+                            {priorityInfo.text}
                           </span>
-                        )}
+
+                          {task.category && (
+                            <span className="px-2 py-1 bg-white bg-opacity-10 text-white text-opacity-80 rounded text-xs">
+                              {task.category}
+                            </span>
+                          )}
+
+                          {task.dueDate !== undefined && (
+                            <span
+                              className={`px-2 py-1 rounded text-xs ${
+                                isOverdue
+                                  ? 'bg-red-500 bg-opacity-20 text-red-300'
+                                  : 'bg-white bg-opacity-10 text-white text-opacity-80'
+                              }`}
+                              title={new Date(task.dueDate).toLocaleString()}
+                            >
+                              📅 {formatDueDate(task.dueDate, now)}
+                              {task.reminderOffset !== undefined && ' 🔔'}
+                            </span>
+                          )}
+
+                          {task.recurrence && (
+                            <span className="px-2 py-1 bg-purple-500 bg-opacity-20 text-purple-300 rounded text-xs">
+                              🔁 {describeRecurrence(task.recurrence)}
+                            </span>
+                          )}
+
+                          {((task.timeSpent ?? 0) > 0 || task.estimate !== undefined) && (
+                            <span
+                              className={`px-2 py-1 rounded text-xs ${TIME_STATUS_CLASSES[getTimeStatus(task) ?? 'under']}`}
+                              title="Focus time tracked / estimate"
+                            >
+                              ⏱ {formatMinutes(task.timeSpent ?? 0)}
+                              {task.estimate !== undefined && ` / ${formatMinutes(task.estimate)}`}
+                            </span>
+                          )}
+
+                          {blockers.length > 0 && (
+                            <span
+                              className="px-2 py-1 bg-orange-500 bg-opacity-20 text-orange-300 rounded text-xs"
+                              title={`Waiting on: ${blockers.map(blocker => blocker.text).join(', ')}`}
+                            >
+                              🔒 Blocked by {blockers.length}
+                            </span>
+                          )}
+
+                          {subtasks.length > 0 && (
+                            <span className="text-white text-opacity-60 text-xs">
+                              {completedSubtasks}/{subtasks.length} subtasks
+                            </span>
+                          )}
+                        </div>
+
+                        {/* Progress Bar */}
+                        <div className="w-full bg-white bg-opacity-10 rounded-full h-2 mt-2">
+                          <div
+                            className="bg-blue-500 h-2 rounded-full transition-all duration-300"
+                            style={{ width: `${task.progress}%` }}
+                          />
+                        </div>
                       </div>
 
-                      {/* Progress Bar */}
-                      <div className="w-full bg-white bg-opacity-10 rounded-full h-2 mt-2">
-                        <div
-                          className="bg-blue-500 h-2 rounded-full transition-all duration-300"
-                          style={{ width: `${task.progress}%` }}
+                      {/* Actions */}
+                      <div className="flex space-x-1">
+                        <input
+                          type="range"
+                          min="0"
+                          max="100"
+                          value={task.progress}
+                          onChange={e => updateTaskProgress(task.id, parseInt(e.target.value))}
+                          disabled={subtasks.length > 0}
+                          className="w-16 h-1 disabled:opacity-40"
+                          onClick={e => e.stopPropagation()}
+                          title={subtasks.length > 0 ? 'Calculated from subtasks' : undefined}
                         />
+
+                        {!task.completed && (
+                          <button
+                            onClick={e => {
+                              e.stopPropagation();
+                              startTaskFocus({ id: task.id, text: task.text });
+                            }}
+                            className="w-6 h-6 flex items-center justify-center text-white text-opacity-40 hover:text-opacity-100 hover:bg-white hover:bg-opacity-20 rounded transition-colors"
+                            title="Start a focus session on this task"
+                          >
+                            🎯
+                          </button>
+                        )}
+
+                        <button
+                          onClick={e => {
+                            e.stopPropagation();
+                            setQrTask(task);
+                          }}
+                          className="w-6 h-6 flex items-center justify-center text-white text-opacity-40 hover:text-opacity-100 hover:bg-white hover:bg-opacity-20 rounded transition-colors"
+                          title="QR Code"
+                        >
+                          📱
+                        </button>
+
+                        <button
+                          onClick={e => {
+                            e.stopPropagation();
+                            deleteTask(task.id);
+                          }}
+                          className="w-6 h-6 flex items-center justify-center text-white text-opacity-40 hover:text-red-400 hover:bg-red-500 hover:bg-opacity-20 rounded transition-colors"
+                        >
+                          🗑️
+                        </button>
                       </div>
                     </div>
 
-                    {/* Actions */}
-                    <div className="flex space-x-1">
-                      <input
-                        type="range"
-                        min="0"
-                        max="100"
-                        value={task.progress}
-                        onChange={e => updateTaskProgress(task.id, parseInt(e.target.value))}
-                        className="w-16 h-1"
+                    {/* Due Date */}
+                    {isSelected && (
+                      <div
                         onClick={e => e.stopPropagation()}
-                      />
-
-                      <button
-                        onClick={e => {
-                          e.stopPropagation();
-                          deleteTask(task.id);
-                        }}
-                        className="w-6 h-6 flex items-center justify-center text-white text-opacity-40 hover:text-red-400 hover:bg-red-500 hover:bg-opacity-20 rounded transition-colors"
+                        onDoubleClick={e => e.stopPropagation()}
+                        className="ml-8 mt-3 space-y-3"
                       >
-                        🗑️
-                      </button>
-                    </div>
-                  </div>
+                        <DueDateFields
+                          dueDate={task.dueDate ?? null}
+                          reminderOffset={task.reminderOffset ?? null}
+                          onChange={(dueDate, reminderOffset) =>
+                            updateTaskDueDate(task.id, dueDate, reminderOffset)
+                          }
+                        />
+                        {!task.completed && (
+                          <RecurrenceFields
+                            recurrence={task.recurrence ?? null}
+                            anchor={task.dueDate ?? now}
+                            onChange={recurrence => updateTaskRecurrence(task.id, recurrence)}
+                          />
+                        )}
+                        <DependencyFields
+                          task={task}
+                          tasks={tasks}
+                          onAdd={blockerId => addTaskDependency(task.id, blockerId)}
+                          onRemove={blockerId => removeTaskDependency(task.id, blockerId)}
+                        />
+                        <div className="flex items-center space-x-2">
+                          <label className="text-white text-opacity-80 text-sm">Estimate</label>
+                          <input
+                            type="number"
+                            min={0}
+                            step={5}
+                            value={task.estimate ?? ''}
+                            onChange={e =>
+                              updateTaskEstimate(
+                                task.id,
+                                e.target.value === '' ? null : Number(e.target.value)
+                              )
+                            }
+                            placeholder="—"
+                            className="w-20 px-2 py-2 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-400"
+                          />
+                          <span className="text-white text-opacity-60 text-sm">minutes</span>
+                          {task.timeSpent !== undefined && (
+                            <span className="text-white text-opacity-60 text-xs">
+                              · {formatMinutes(task.timeSpent)} tracked
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                    )}
 
-                  {/* Subtasks */}
-                  {isSelected && subtasks.length > 0 && (
-                    <div className="ml-8 space-y-2">
-                      {subtasks.map(subtask => {
-                        return (
-                          <div
-                            key={subtask.id}
-                            className={`glass-panel p-2 rounded cursor-pointer hover:bg-white hover:bg-opacity-5 transition-all ${
-                              subtask.completed ? 'opacity-50' : ''
-                            }`}
-                            onDoubleClick={() => handleTaskDoubleClick(subtask)}
-                          >
-                            <div className="flex items-center space-x-2">
-                              <button
-                                onClick={() => toggleTask(subtask.id)}
-                                className={`w-4 h-4 border-2 rounded flex items-center justify-center transition-colors ${
-                                  subtask.completed
-                                    ? 'bg-green-500 border-green-500 text-white'
-                                    : 'border-white border-opacity-40 hover:border-opacity-60'
-                                }`}
-                              >
-                                {subtask.completed && '✓'}
-                              </button>
-
-                              <div className="flex-1">
-                                <span
-                                  className={`text-white text-sm ${subtask.completed ? 'line-through opacity-60' : ''}`}
+                    {/* Notes */}
+                    {isSelected && task.notes && (
+                      <pre
+                        onClick={e => e.stopPropagation()}
+                        className="ml-8 mt-3 p-2 bg-black bg-opacity-30 rounded text-xs text-white text-opacity-80 overflow-auto max-h-48 whitespace-pre-wrap cursor-text"
+                      >
+                        {task.notes}
+                      </pre>
+                    )}
+
+                    {/* Subtasks */}
+                    {isSelected && subtasks.length > 0 && (
+                      <div className="ml-8 space-y-2">
+                        {subtasks.map(subtask => {
+                          return (
+                            <div
+                              key={subtask.id}
+                              className={`glass-panel p-2 rounded cursor-pointer hover:bg-white hover:bg-opacity-5 transition-all ${
+                                subtask.completed ? 'opacity-50' : ''
+                              }`}
+                              onDoubleClick={() => handleTaskDoubleClick(subtask)}
+                            >
+                              <div className="flex items-center space-x-2">
+                                <button
+                                  onClick={() => toggleTask(subtask.id)}
+                                  className={`w-4 h-4 border-2 rounded flex items-center justify-center transition-colors ${
+                                    subtask.completed
+                                      ? 'bg-green-500 border-green-500 text-white'
+                                      : 'border-white border-opacity-40 hover:border-opacity-60'
+                                  }`}
                                 >
-                                  {subtask.text}
-                                </span>
+                                  {subtask.completed && '✓'}
+                                </button>
+
+                                <div className="flex-1">
+                                  <span
+                                    className={`text-white text-sm ${subtask.completed ? 'line-through opacity-60' : ''}`}
+                                  >
+                                    {subtask.text}
+                                  </span>
+                                </div>
+
+                                <button
+                                  onClick={() => deleteTask(subtask.id)}
+                                  className="w-5 h-5 flex items-center justify-center text-white text-opacity-40 hover:text-red-400 hover:bg-red-500 hover:bg-opacity-20 rounded transition-colors"
+                                >
+                                  ×
+                                </button>
                               </div>
-
-                              <button
-                                onClick={() => deleteTask(subtask.id)}
-                                className="w-5 h-5 flex items-center justify-center text-white text-opacity-40 hover:text-red-400 hover:bg-red-500 hover:bg-opacity-20 rounded transition-colors"
-                              >
-                                ×
-                              </button>
                             </div>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  )}
-                </div>
-              );
-            })}
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Add Task Dialog */}
         {showAddTaskDialog && (
@@ -653,7 +1504,7 @@ export const TaskManager: React.FC<TaskManagerProps> = ({
               <div className="space-y-4">
                 <input
                   type="text"
-                  placeholder="Task description..."
+                  placeholder="Call Sam tomorrow 3pm !2 #Work +phone"
                   value={newTaskText}
                   onChange={e => setNewTaskText(e.target.value)}
                   className="w-full px-3 py-2 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white placeholder-white placeholder-opacity-60 focus:outline-none focus:ring-2 focus:ring-blue-400"
@@ -664,6 +1515,43 @@ export const TaskManager: React.FC<TaskManagerProps> = ({
                   }}
                 />
 
+                {/* Quick-add preview */}
+                {(quickAdd.priority ||
+                  quickAdd.category ||
+                  quickAdd.tags.length > 0 ||
+                  quickAdd.dueDate !== undefined) && (
+                  <div className="flex flex-wrap gap-1 -mt-2 text-xs">
+                    <span className="px-2 py-1 text-white text-opacity-80 truncate max-w-full">
+                      {quickAdd.text || <em className="text-opacity-50">No task text</em>}
+                    </span>
+                    {quickAdd.priority && (
+                      <span
+                        className={`px-2 py-1 rounded ${getPriorityInfo(quickAdd.priority).class}`}
+                      >
+                        {getPriorityInfo(quickAdd.priority).text}
+                      </span>
+                    )}
+                    {quickAdd.category && (
+                      <span className="px-2 py-1 bg-white bg-opacity-10 text-white text-opacity-80 rounded">
+                        #{quickAdd.category}
+                      </span>
+                    )}
+                    {quickAdd.tags.map(tag => (
+                      <span
+                        key={tag}
+                        className="px-2 py-1 bg-blue-500 bg-opacity-20 text-blue-300 rounded"
+                      >
+                        +{tag}
+                      </span>
+                    ))}
+                    {quickAdd.dueDate !== undefined && (
+                      <span className="px-2 py-1 bg-white bg-opacity-10 text-white text-opacity-80 rounded">
+                        📅 {formatDueDate(quickAdd.dueDate, now)}
+                      </span>
+                    )}
+                  </div>
+                )}
+
                 <div className="grid grid-cols-2 gap-3">
                   <div>
                     <label className="block text-white text-opacity-80 text-sm mb-1">
@@ -697,12 +1585,29 @@ export const TaskManager: React.FC<TaskManagerProps> = ({
                     />
                   </div>
                 </div>
+
+                <DueDateFields
+                  dueDate={newTaskEffectiveDueDate}
+                  reminderOffset={newTaskReminderOffset}
+                  onChange={(dueDate, reminderOffset) => {
+                    setNewTaskDueDate(dueDate);
+                    setNewTaskReminderOffset(reminderOffset);
+                  }}
+                />
+
+                {!selectedTaskId && (
+                  <RecurrenceFields
+                    recurrence={newTaskRecurrence}
+                    anchor={newTaskEffectiveDueDate ?? now}
+                    onChange={setNewTaskRecurrence}
+                  />
+                )}
               </div>
 
               <div className="flex space-x-3 mt-6">
                 <button
                   onClick={handleAddTask}
-                  disabled={!newTaskText.trim()}
+                  disabled={!quickAdd.text}
                   className="flex-1 px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
                   Add Task
@@ -717,6 +1622,14 @@ export const TaskManager: React.FC<TaskManagerProps> = ({
             </div>
           </div>
         )}
+
+        {qrTask && (
+          <QRCodeModal
+            value={qrTask.notes ? `${qrTask.text}\n\n${qrTask.notes}` : qrTask.text}
+            title={qrTask.text}
+            onClose={() => setQrTask(null)}
+          />
+        )}
       </div>
     </Panel>
   );
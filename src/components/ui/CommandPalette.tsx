@@ -0,0 +1,200 @@
+/**
+ * CommandPalette Component
+ * Ctrl/Cmd+K launcher that searches bookmarks, tasks, chats, workspaces, templates and actions
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useAppStore } from '@/stores/appStore';
+import {
+  PALETTE_GROUP_LABELS,
+  formatShortcut,
+  rankCommands,
+  type PaletteCommand,
+} from '@/features/command-palette/commandIndex';
+import { collectPaletteCommands } from '@/features/command-palette/commandSources';
+
+export interface CommandPaletteProps {
+  onClose: () => void;
+}
+
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ onClose }) => {
+  const [commands, setCommands] = useState<PaletteCommand[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+  const openShortcut = useAppStore(state => state.shortcuts['palette.open']);
+
+  // Read sources fresh every time the palette opens
+  useEffect(() => {
+    let cancelled = false;
+    collectPaletteCommands()
+      .then(collected => !cancelled && setCommands(collected))
+      .catch(error => console.error('Failed to load commands:', error))
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const results = useMemo(() => rankCommands(commands, query), [commands, query]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  // Keep the highlighted row visible while navigating with the keyboard
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runCommand = useCallback(
+    async (command: PaletteCommand | undefined) => {
+      if (!command || command.disabled) return;
+
+      // Close first so prompts and dialogs opened by the command are not covered
+      onClose();
+      try {
+        await command.run();
+      } catch (error) {
+        console.error(`Command "${command.title}" failed:`, error);
+        alert(error instanceof Error ? error.message : `Command "${command.title}" failed`);
+      }
+    },
+    [onClose]
+  );
+
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent) => {
+      switch (event.key) {
+        case 'ArrowDown':
+          event.preventDefault();
+          setActiveIndex(index => (results.length ? (index + 1) % results.length : 0));
+          break;
+        case 'ArrowUp':
+          event.preventDefault();
+          setActiveIndex(index =>
+            results.length ? (index - 1 + results.length) % results.length : 0
+          );
+          break;
+        case 'Home':
+          event.preventDefault();
+          setActiveIndex(0);
+          break;
+        case 'End':
+          event.preventDefault();
+          setActiveIndex(Math.max(0, results.length - 1));
+          break;
+        case 'Enter':
+          event.preventDefault();
+          runCommand(results[activeIndex]);
+          break;
+        case 'Escape':
+          event.preventDefault();
+          onClose();
+          break;
+      }
+    },
+    [results, activeIndex, runCommand, onClose]
+  );
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center pt-24 z-50"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        className="bg-gray-800 rounded-lg max-w-xl w-full mx-4 shadow-2xl overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        <input
+          autoFocus
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search bookmarks, tasks, chats, workspaces… or > for actions"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-results"
+          aria-activedescendant={results[activeIndex] ? `command-${activeIndex}` : undefined}
+          className="w-full px-4 py-3 bg-transparent text-white placeholder-white placeholder-opacity-40 border-b border-white border-opacity-10 focus:outline-none"
+        />
+
+        <div
+          ref={listRef}
+          id="command-palette-results"
+          role="listbox"
+          className="max-h-96 overflow-auto py-2"
+        >
+          {results.map((command, index) => {
+            const isActive = index === activeIndex;
+            const showHeading = index === 0 || results[index - 1]!.group !== command.group;
+
+            return (
+              <React.Fragment key={command.id}>
+                {showHeading && (
+                  <div className="px-4 pt-2 pb-1 text-xs uppercase tracking-wide text-white text-opacity-40">
+                    {PALETTE_GROUP_LABELS[command.group]}
+                  </div>
+                )}
+                <div
+                  id={`command-${index}`}
+                  data-index={index}
+                  role="option"
+                  aria-selected={isActive}
+                  aria-disabled={command.disabled}
+                  onMouseMove={() => !isActive && setActiveIndex(index)}
+                  onClick={() => runCommand(command)}
+                  className={`flex items-center gap-3 px-4 py-2 cursor-pointer ${
+                    isActive ? 'bg-white bg-opacity-10' : ''
+                  } ${command.disabled ? 'opacity-40 cursor-default' : ''}`}
+                >
+                  <span className="w-5 text-center">{command.icon}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-white text-sm truncate">{command.title}</div>
+                    {command.subtitle && (
+                      <div className="text-white text-opacity-50 text-xs truncate">
+                        {command.subtitle}
+                      </div>
+                    )}
+                  </div>
+                  {command.shortcut && (
+                    <kbd className="px-1.5 py-0.5 rounded bg-white bg-opacity-10 text-white text-opacity-60 text-xs">
+                      {command.shortcut}
+                    </kbd>
+                  )}
+                </div>
+              </React.Fragment>
+            );
+          })}
+
+          {results.length === 0 && (
+            <div className="px-4 py-6 text-center text-white text-opacity-50 text-sm">
+              {isLoading ? 'Loading…' : 'No matching commands'}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-4 px-4 py-2 border-t border-white border-opacity-10 text-xs text-white text-opacity-40">
+          <span>↑↓ navigate</span>
+          <span>↵ run</span>
+          <span>Esc close</span>
+          {openShortcut && (
+            <span className="ml-auto">{formatShortcut(openShortcut, IS_MAC)} toggle</span>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,99 @@
+/**
+ * DistractionBlocklist Component
+ * Edit the sites blocked during work sessions and review the ones allowed once
+ */
+
+import React, { useState } from 'react';
+import {
+  parseBlockedSites,
+  type Blocklist,
+  type FocusOverride,
+} from '@/features/productivity/distractionBlocking';
+
+export interface DistractionBlocklistProps {
+  blocklist: Blocklist;
+  overrides: FocusOverride[]; // Recently allowed pages, newest first
+  onSave: (sites: string[]) => void;
+  onClose: () => void;
+}
+
+const buttonClasses =
+  'px-2 py-1 bg-white bg-opacity-10 text-white text-xs rounded hover:bg-opacity-20 transition-colors';
+
+export const DistractionBlocklist: React.FC<DistractionBlocklistProps> = ({
+  blocklist,
+  overrides,
+  onSave,
+  onClose,
+}) => {
+  const [sitesText, setSitesText] = useState(() => blocklist.sites.join('\n'));
+  const [error, setError] = useState<string | null>(null);
+
+  const save = () => {
+    try {
+      onSave(parseBlockedSites(sitesText));
+      setError(null);
+      onClose();
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Sites could not be saved');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-white font-medium text-sm">Blocked sites</span>
+        <button onClick={onClose} className={buttonClasses} title="Close blocklist">
+          ×
+        </button>
+      </div>
+
+      <textarea
+        value={sitesText}
+        onChange={e => setSitesText(e.target.value)}
+        placeholder={'reddit.com\nyoutube.com'}
+        className="w-full px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-400 resize-y"
+        rows={6}
+      />
+      <div className="text-white text-opacity-50 text-xs">
+        One site per line. Subdomains are blocked too, only while a work session runs.
+      </div>
+      {error && <div className="text-red-400 text-xs">{error}</div>}
+
+      <div className="flex justify-end space-x-2">
+        <button onClick={onClose} className={buttonClasses}>
+          Cancel
+        </button>
+        <button
+          onClick={save}
+          className="px-2 py-1 bg-blue-500 text-white text-xs rounded hover:bg-blue-600 transition-colors"
+        >
+          Save
+        </button>
+      </div>
+
+      {overrides.length > 0 && (
+        <div>
+          <div className="text-white text-opacity-80 text-xs font-medium mb-1">
+            Allowed once today
+          </div>
+          <div className="space-y-1 max-h-24 overflow-auto">
+            {overrides.map(override => (
+              <div
+                key={`${override.at}-${override.url}`}
+                className="flex justify-between text-xs text-white text-opacity-70"
+              >
+                <span className="truncate" title={override.url}>
+                  {override.site}
+                </span>
+                <span className="ml-2 text-white text-opacity-40">
+                  {new Date(override.at).toLocaleTimeString()}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
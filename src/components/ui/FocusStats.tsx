@@ -0,0 +1,192 @@
+/**
+ * FocusStats Component
+ * Charts and totals over the Pomodoro session history
+ */
+
+import React, { useMemo } from 'react';
+import {
+  compareTemplates,
+  getBestFocusSlot,
+  getCompletionRate,
+  getDailyFocus,
+  getHourHeatmap,
+  getStreaks,
+  getWeeklyFocus,
+  type AnalyticsSession,
+  type FocusPeriod,
+} from '@/features/productivity/focusAnalytics';
+import { formatMinutes } from '@/features/task-manager/taskTimeTracking';
+
+export interface FocusStatsProps {
+  sessions: AnalyticsSession[];
+  // Display names of the focus templates by id
+  templateNames: Record<string, string>;
+  now: number;
+  onExport: () => void;
+}
+
+const DAILY_DAYS = 14;
+const WEEKLY_WEEKS = 8;
+
+const WEEKDAY_HEADINGS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+const BarChart: React.FC<{
+  periods: FocusPeriod[];
+  label: (period: FocusPeriod) => string;
+}> = ({ periods, label }) => {
+  const max = Math.max(1, ...periods.map(period => period.minutes));
+  return (
+    <div className="flex items-end h-20 space-x-1">
+      {periods.map(period => (
+        <div
+          key={period.start}
+          className="flex-1 h-full flex flex-col justify-end"
+          title={`${label(period)}: ${formatMinutes(period.minutes)} in ${period.sessions} sessions`}
+        >
+          <div
+            className="bg-green-400 bg-opacity-70 rounded-t"
+            style={{ height: `${(period.minutes / max) * 100}%` }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const FocusStats: React.FC<FocusStatsProps> = ({
+  sessions,
+  templateNames,
+  now,
+  onExport,
+}) => {
+  const daily = useMemo(() => getDailyFocus(sessions, DAILY_DAYS, now), [sessions, now]);
+  const weekly = useMemo(() => getWeeklyFocus(sessions, WEEKLY_WEEKS, now), [sessions, now]);
+  const streaks = useMemo(() => getStreaks(sessions, now), [sessions, now]);
+  const completionRate = useMemo(() => getCompletionRate(sessions), [sessions]);
+  const heatmap = useMemo(() => getHourHeatmap(sessions), [sessions]);
+  const bestSlot = useMemo(() => getBestFocusSlot(heatmap), [heatmap]);
+  const templates = useMemo(() => compareTemplates(sessions), [sessions]);
+
+  const heatmapMax = Math.max(1, ...heatmap.map(hours => Math.max(...hours)));
+  const dayLabel = (period: FocusPeriod) => new Date(period.start).toLocaleDateString();
+  const weekLabel = (period: FocusPeriod) =>
+    `Week of ${new Date(period.start).toLocaleDateString()}`;
+
+  return (
+    <div className="space-y-4">
+      {/* Totals */}
+      <div className="grid grid-cols-4 gap-3 text-center">
+        <div>
+          <div className="text-xl font-bold text-green-400">
+            {formatMinutes(daily[daily.length - 1]?.minutes ?? 0)}
+          </div>
+          <div className="text-xs text-white text-opacity-60">Today</div>
+        </div>
+        <div>
+          <div className="text-xl font-bold text-blue-400">
+            {formatMinutes(weekly[weekly.length - 1]?.minutes ?? 0)}
+          </div>
+          <div className="text-xs text-white text-opacity-60">This week</div>
+        </div>
+        <div>
+          <div className="text-xl font-bold text-yellow-400">
+            {completionRate === null ? '–' : `${Math.round(completionRate * 100)}%`}
+          </div>
+          <div className="text-xs text-white text-opacity-60">Completed</div>
+        </div>
+        <div title={`Longest streak: ${streaks.longest} days`}>
+          <div className="text-xl font-bold text-orange-400">🔥 {streaks.current}</div>
+          <div className="text-xs text-white text-opacity-60">
+            Day streak (best {streaks.longest})
+          </div>
+        </div>
+      </div>
+
+      {/* Daily and weekly focus */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div>
+          <div className="text-white text-opacity-80 text-sm mb-2">Last {DAILY_DAYS} days</div>
+          <BarChart periods={daily} label={dayLabel} />
+        </div>
+        <div>
+          <div className="text-white text-opacity-80 text-sm mb-2">Last {WEEKLY_WEEKS} weeks</div>
+          <BarChart periods={weekly} label={weekLabel} />
+        </div>
+      </div>
+
+      {/* Time-of-day heatmap */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-white text-opacity-80 text-sm">Focus by time of day</span>
+          {bestSlot && (
+            <span className="text-white text-opacity-60 text-xs">
+              Best: {WEEKDAY_HEADINGS[bestSlot.day]} {formatHour(bestSlot.hour)}
+            </span>
+          )}
+        </div>
+        <div className="space-y-0.5">
+          {heatmap.map((hours, day) => (
+            <div key={day} className="flex items-center space-x-0.5">
+              <span className="w-8 text-white text-opacity-60 text-xs">
+                {WEEKDAY_HEADINGS[day]}
+              </span>
+              {hours.map((minutes, hour) => (
+                <div
+                  key={hour}
+                  className="flex-1 h-3 rounded-sm bg-green-400"
+                  style={{ opacity: minutes > 0 ? 0.2 + (minutes / heatmapMax) * 0.8 : 0.05 }}
+                  title={`${WEEKDAY_HEADINGS[day]} ${formatHour(hour)}: ${formatMinutes(minutes)}`}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Template comparison */}
+      <div>
+        <div className="text-white text-opacity-80 text-sm mb-2">Templates</div>
+        {templates.length === 0 ? (
+          <div className="text-white text-opacity-40 text-xs">
+            No focus sessions recorded with a template yet
+          </div>
+        ) : (
+          <table className="w-full text-xs text-white">
+            <thead className="text-white text-opacity-60">
+              <tr>
+                <th className="text-left font-normal">Template</th>
+                <th className="text-right font-normal">Sessions</th>
+                <th className="text-right font-normal">Completed</th>
+                <th className="text-right font-normal">Focus</th>
+                <th className="text-right font-normal">Average</th>
+              </tr>
+            </thead>
+            <tbody>
+              {templates.map(stats => (
+                <tr key={stats.templateId}>
+                  <td>{templateNames[stats.templateId] ?? stats.templateId}</td>
+                  <td className="text-right">{stats.started}</td>
+                  <td className="text-right">{Math.round(stats.completionRate * 100)}%</td>
+                  <td className="text-right">{formatMinutes(stats.minutes)}</td>
+                  <td className="text-right">{formatMinutes(stats.averageMinutes)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={onExport}
+          disabled={sessions.length === 0}
+          className="px-3 py-1 bg-white bg-opacity-10 text-white text-xs rounded hover:bg-opacity-20 disabled:opacity-40 transition-colors"
+        >
+          ⬇ Export CSV
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,237 @@
+/**
+ * FocusTemplateManager Component
+ * Create, edit, delete and share Pomodoro focus templates
+ */
+
+import React, { useState } from 'react';
+import {
+  DEFAULT_TIMER_SOUND,
+  TIMER_SOUNDS,
+  createCustomTemplate,
+  formatCycle,
+  getTemplateCycle,
+  parseCycle,
+  type FocusTemplate,
+  type TimerSound,
+} from '@/features/productivity/focusTemplates';
+
+export interface FocusTemplateManagerProps {
+  templates: FocusTemplate[];
+  onSave: (template: FocusTemplate) => void;
+  onDelete: (templateId: string) => void;
+  onImport: () => void;
+  onExport: (templates: FocusTemplate[]) => void;
+  onPreviewSound: (sound: TimerSound) => void;
+  onClose: () => void;
+}
+
+interface TemplateDraft {
+  id?: string; // Set when editing an existing custom template
+  name: string;
+  description: string;
+  cycleText: string;
+  sound: TimerSound;
+}
+
+const EMPTY_DRAFT: TemplateDraft = {
+  name: '',
+  description: '',
+  cycleText: '50/10 x2, 25/30',
+  sound: DEFAULT_TIMER_SOUND,
+};
+
+const inputClasses =
+  'w-full px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-400';
+
+const buttonClasses =
+  'px-2 py-1 bg-white bg-opacity-10 text-white text-xs rounded hover:bg-opacity-20 transition-colors';
+
+export const FocusTemplateManager: React.FC<FocusTemplateManagerProps> = ({
+  templates,
+  onSave,
+  onDelete,
+  onImport,
+  onExport,
+  onPreviewSound,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const customTemplates = templates.filter(template => template.custom);
+
+  const openDraft = (template?: FocusTemplate, copy: boolean = false) => {
+    setError(null);
+    if (!template) {
+      setDraft(EMPTY_DRAFT);
+      return;
+    }
+    setDraft({
+      ...(!copy && { id: template.id }),
+      name: copy ? `${template.name} (copy)` : template.name,
+      description: template.description,
+      cycleText: formatCycle(getTemplateCycle(template)),
+      sound: template.sound ?? DEFAULT_TIMER_SOUND,
+    });
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    try {
+      onSave(
+        createCustomTemplate({
+          ...(draft.id && { id: draft.id }),
+          name: draft.name,
+          description: draft.description,
+          cycle: parseCycle(draft.cycleText),
+          sound: draft.sound,
+        })
+      );
+      setDraft(null);
+      setError(null);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Template could not be saved');
+    }
+  };
+
+  const deleteTemplate = (template: FocusTemplate) => {
+    if (confirm(`Delete the "${template.name}" template?`)) {
+      onDelete(template.id);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-white font-medium text-sm">Focus templates</span>
+        <button onClick={onClose} className={buttonClasses} title="Close template manager">
+          ×
+        </button>
+      </div>
+
+      {/* Template list */}
+      <div className="space-y-1 max-h-48 overflow-auto">
+        {templates.map(template => (
+          <div
+            key={template.id}
+            className="flex items-center space-x-2 px-2 py-1 bg-white bg-opacity-5 rounded"
+          >
+            <div className="flex-1 min-w-0">
+              <div className="text-white text-sm truncate">{template.name}</div>
+              <div className="text-white text-opacity-50 text-xs truncate">
+                {formatCycle(getTemplateCycle(template))} ·{' '}
+                {TIMER_SOUNDS[template.sound ?? DEFAULT_TIMER_SOUND].label}
+              </div>
+            </div>
+            {template.custom ? (
+              <button onClick={() => openDraft(template)} className={buttonClasses}>
+                Edit
+              </button>
+            ) : (
+              <button
+                onClick={() => openDraft(template, true)}
+                className={buttonClasses}
+                title="Copy into a template you can edit"
+              >
+                Duplicate
+              </button>
+            )}
+            <button
+              onClick={() => onExport([template])}
+              className={buttonClasses}
+              title="Save this template to a file to share"
+            >
+              Share
+            </button>
+            {template.custom && (
+              <button
+                onClick={() => deleteTemplate(template)}
+                className={`${buttonClasses} hover:bg-red-500`}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Editor */}
+      {draft ? (
+        <div className="space-y-2 p-2 bg-white bg-opacity-5 rounded">
+          <input
+            value={draft.name}
+            onChange={e => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Template name"
+            className={inputClasses}
+            autoFocus
+          />
+          <input
+            value={draft.description}
+            onChange={e => setDraft({ ...draft, description: e.target.value })}
+            placeholder="Description (optional)"
+            className={inputClasses}
+          />
+          <div>
+            <input
+              value={draft.cycleText}
+              onChange={e => setDraft({ ...draft, cycleText: e.target.value })}
+              placeholder="50/10 x2, 25/30"
+              className={`${inputClasses} font-mono`}
+            />
+            <div className="text-white text-opacity-50 text-xs mt-1">
+              Work/break minutes for each session, repeated once the cycle ends
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <select
+              value={draft.sound}
+              onChange={e => setDraft({ ...draft, sound: e.target.value as TimerSound })}
+              className={inputClasses}
+            >
+              {(Object.keys(TIMER_SOUNDS) as TimerSound[]).map(sound => (
+                <option key={sound} value={sound}>
+                  {TIMER_SOUNDS[sound].label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => onPreviewSound(draft.sound)}
+              className={buttonClasses}
+              title="Play sound"
+            >
+              ▶
+            </button>
+          </div>
+          {error && <div className="text-red-400 text-xs">{error}</div>}
+          <div className="flex justify-end space-x-2">
+            <button onClick={() => setDraft(null)} className={buttonClasses}>
+              Cancel
+            </button>
+            <button
+              onClick={saveDraft}
+              className="px-2 py-1 bg-blue-500 text-white text-xs rounded hover:bg-blue-600 transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex space-x-2">
+          <button onClick={() => openDraft()} className={buttonClasses}>
+            + New template
+          </button>
+          <button onClick={onImport} className={buttonClasses}>
+            Import
+          </button>
+          <button
+            onClick={() => onExport(customTemplates)}
+            disabled={customTemplates.length === 0}
+            className={`${buttonClasses} disabled:opacity-40`}
+          >
+            Export mine
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+/**
+ * MarkdownContent Component
+ * Renders sanitized Markdown with highlighted code blocks and per-block actions
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import clsx from 'clsx';
+import { getPlatformAPI } from '@/platform';
+import { globalSecurity } from '@/utils/security';
+import { parseMarkdown } from '@/utils/markdown';
+import { highlightCode } from '@/utils/syntaxHighlight';
+
+export interface MarkdownContentProps {
+  content: string;
+  className?: string;
+  onSendCodeToTasks?: (code: string, language: string) => void;
+}
+
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({
+  content,
+  className,
+  onSendCodeToTasks,
+}) => {
+  const [copiedBlock, setCopiedBlock] = useState<number | null>(null);
+  const [sentBlock, setSentBlock] = useState<number | null>(null);
+  const feedbackTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  useEffect(() => () => clearTimeout(feedbackTimer.current), []);
+
+  const showFeedback = useCallback((setter: (index: number | null) => void, index: number) => {
+    setter(index);
+    clearTimeout(feedbackTimer.current);
+    feedbackTimer.current = setTimeout(() => {
+      setCopiedBlock(null);
+      setSentBlock(null);
+    }, 1500);
+  }, []);
+
+  const copyCode = useCallback(
+    async (code: string, index: number) => {
+      try {
+        const api = await getPlatformAPI();
+        await api.system.clipboard.write(code);
+        showFeedback(setCopiedBlock, index);
+      } catch (error) {
+        console.error('Failed to copy code:', error);
+      }
+    },
+    [showFeedback]
+  );
+
+  const sendCode = useCallback(
+    (code: string, language: string, index: number) => {
+      onSendCodeToTasks?.(code, language);
+      showFeedback(setSentBlock, index);
+    },
+    [onSendCodeToTasks, showFeedback]
+  );
+
+  return (
+    <div className={clsx('break-words', className)}>
+      {blocks.map((block, index) =>
+        block.type === 'html' ? (
+          <div
+            key={index}
+            dangerouslySetInnerHTML={{ __html: globalSecurity.sanitizeHTML(block.html) }}
+          />
+        ) : (
+          <div key={index} className="my-2 rounded bg-black bg-opacity-30 overflow-hidden">
+            <div className="flex items-center justify-between px-2 py-1 bg-black bg-opacity-20 text-xs text-white text-opacity-60">
+              <span>{block.language || 'code'}</span>
+              <div className="flex space-x-2">
+                {onSendCodeToTasks && (
+                  <button
+                    onClick={() => sendCode(block.code, block.language, index)}
+                    className="hover:text-white transition-colors"
+                    title="Send code to Task Manager as a task"
+                  >
+                    {sentBlock === index ? '✓ Added' : '📋 Add as task'}
+                  </button>
+                )}
+                <button
+                  onClick={() => copyCode(block.code, index)}
+                  className="hover:text-white transition-colors"
+                  title="Copy code"
+                >
+                  {copiedBlock === index ? '✓ Copied' : '📄 Copy'}
+                </button>
+              </div>
+            </div>
+            <pre className="p-2 overflow-auto text-xs whitespace-pre">
+              <code
+                dangerouslySetInnerHTML={{
+                  __html: globalSecurity.sanitizeHTML(highlightCode(block.code, block.language)),
+                }}
+              />
+            </pre>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default MarkdownContent;
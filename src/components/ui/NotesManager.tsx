@@ -0,0 +1,355 @@
+/**
+ * NotesManager Component
+ * Searchable Markdown notes with tags, pinning and links to tasks and chats
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { MarkdownContent } from './MarkdownContent';
+import { QRCodeModal } from './QRCodeModal';
+import {
+  getNoteTitle,
+  getTagCounts,
+  isNoteEmpty,
+  parseTags,
+  searchNotes,
+  type NoteChanges,
+  type NoteLinkTarget,
+  type ProductivityNote,
+} from '@/features/productivity/notes';
+
+export interface NotesManagerProps {
+  notes: ProductivityNote[];
+  tasks: NoteLinkTarget<number>[];
+  chats: NoteLinkTarget<string>[];
+  onCreate: () => string; // Returns the new note's id
+  onUpdate: (noteId: string, changes: NoteChanges) => void;
+  onDelete: (noteId: string) => void;
+  onExport: (notes: ProductivityNote[]) => void;
+  onOpenTask: (taskId: number) => void;
+  onOpenChat: (sessionId: string) => void;
+}
+
+const inputClasses =
+  'w-full px-2 py-1 bg-white bg-opacity-10 border border-white border-opacity-20 rounded text-white text-sm placeholder-white placeholder-opacity-50 focus:outline-none focus:ring-2 focus:ring-blue-400';
+
+const buttonClasses =
+  'px-2 py-1 bg-white bg-opacity-10 text-white text-xs rounded hover:bg-opacity-20 transition-colors';
+
+const chipClasses =
+  'inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-white bg-opacity-10 text-white text-opacity-80';
+
+export const NotesManager: React.FC<NotesManagerProps> = ({
+  notes,
+  tasks,
+  chats,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onExport,
+  onOpenTask,
+  onOpenChat,
+}) => {
+  const [query, setQuery] = useState('');
+  const [activeNoteId, setActiveNoteId] = useState<string | null>(null);
+  const [preview, setPreview] = useState(false);
+  const [tagsText, setTagsText] = useState('');
+  const [showQr, setShowQr] = useState(false);
+
+  const results = useMemo(() => searchNotes(notes, query), [notes, query]);
+  const tagCounts = useMemo(() => getTagCounts(notes), [notes]);
+  const activeNote = notes.find(note => note.id === activeNoteId) ?? null;
+
+  // Tags are edited as text and applied on blur, so typing a separator is not swallowed
+  useEffect(() => {
+    setTagsText(activeNote ? activeNote.tags.join(', ') : '');
+  }, [activeNoteId]);
+
+  const openNote = (noteId: string | null) => {
+    // Leaving a note that was never written in discards it
+    if (activeNote && activeNote.id !== noteId && isNoteEmpty(activeNote)) {
+      onDelete(activeNote.id);
+    }
+    setActiveNoteId(noteId);
+    setPreview(false);
+    setShowQr(false);
+  };
+
+  const newNote = () => openNote(onCreate());
+
+  const toggleTagFilter = (tag: string) => {
+    const word = `#${tag}`;
+    const words = query.split(/\s+/).filter(Boolean);
+    setQuery(
+      words.includes(word) ? words.filter(w => w !== word).join(' ') : [...words, word].join(' ')
+    );
+  };
+
+  const deleteNote = (note: ProductivityNote) => {
+    if (isNoteEmpty(note) || confirm(`Delete "${getNoteTitle(note)}"?`)) {
+      onDelete(note.id);
+      setActiveNoteId(null);
+    }
+  };
+
+  if (activeNote) {
+    const linkedTasks = activeNote.taskIds.map(
+      taskId => tasks.find(task => task.id === taskId) ?? { id: taskId, title: `Task #${taskId}` }
+    );
+    const linkedChats = activeNote.chatSessionIds.map(
+      sessionId =>
+        chats.find(chat => chat.id === sessionId) ?? { id: sessionId, title: 'Deleted chat' }
+    );
+    const unlinkedTasks = tasks.filter(task => !activeNote.taskIds.includes(task.id));
+    const unlinkedChats = chats.filter(chat => !activeNote.chatSessionIds.includes(chat.id));
+
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <button onClick={() => openNote(null)} className={buttonClasses} title="Back to notes">
+            ←
+          </button>
+          <input
+            value={activeNote.title}
+            onChange={e => onUpdate(activeNote.id, { title: e.target.value })}
+            placeholder={getNoteTitle({ ...activeNote, title: '' })}
+            className={inputClasses}
+          />
+          <button
+            onClick={() => onUpdate(activeNote.id, { pinned: !activeNote.pinned })}
+            className={`${buttonClasses} ${activeNote.pinned ? 'bg-blue-500' : ''}`}
+            title={activeNote.pinned ? 'Unpin' : 'Pin to top'}
+          >
+            📌
+          </button>
+        </div>
+
+        <input
+          value={tagsText}
+          onChange={e => setTagsText(e.target.value)}
+          onBlur={() => onUpdate(activeNote.id, { tags: parseTags(tagsText) })}
+          onKeyDown={e => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+          }}
+          placeholder="Tags, e.g. ideas, reading"
+          className={inputClasses}
+        />
+
+        <div className="flex space-x-1">
+          <button
+            onClick={() => setPreview(false)}
+            className={`${buttonClasses} ${!preview ? 'bg-blue-500' : ''}`}
+          >
+            Edit
+          </button>
+          <button
+            onClick={() => setPreview(true)}
+            className={`${buttonClasses} ${preview ? 'bg-blue-500' : ''}`}
+          >
+            Preview
+          </button>
+        </div>
+
+        {preview ? (
+          <div className="min-h-[8rem] max-h-64 overflow-auto p-2 bg-white bg-opacity-5 rounded text-sm">
+            {activeNote.content.trim() ? (
+              <MarkdownContent content={activeNote.content} />
+            ) : (
+              <span className="text-white text-opacity-40">Nothing to preview</span>
+            )}
+          </div>
+        ) : (
+          <textarea
+            value={activeNote.content}
+            onChange={e => onUpdate(activeNote.id, { content: e.target.value })}
+            placeholder="Write in Markdown: # headings, **bold**, - lists, `code`..."
+            className={`${inputClasses} font-mono resize-y`}
+            rows={8}
+            autoFocus
+          />
+        )}
+
+        {/* Links */}
+        <div className="flex flex-wrap gap-1">
+          {linkedTasks.map(task => (
+            <span key={`task-${task.id}`} className={chipClasses}>
+              <button onClick={() => onOpenTask(task.id)} title="Open in Task Manager">
+                📋 {task.title}
+              </button>
+              <button
+                onClick={() =>
+                  onUpdate(activeNote.id, {
+                    taskIds: activeNote.taskIds.filter(id => id !== task.id),
+                  })
+                }
+                className="ml-1 hover:text-red-400"
+                title="Remove link"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          {linkedChats.map(chat => (
+            <span key={`chat-${chat.id}`} className={chipClasses}>
+              <button onClick={() => onOpenChat(chat.id)} title="Open in AI Chat">
+                💬 {chat.title}
+              </button>
+              <button
+                onClick={() =>
+                  onUpdate(activeNote.id, {
+                    chatSessionIds: activeNote.chatSessionIds.filter(id => id !== chat.id),
+                  })
+                }
+                className="ml-1 hover:text-red-400"
+                title="Remove link"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+        <div className="flex space-x-2">
+          <select
+            value=""
+            onChange={e =>
+              onUpdate(activeNote.id, { taskIds: [...activeNote.taskIds, Number(e.target.value)] })
+            }
+            disabled={unlinkedTasks.length === 0}
+            className={`${inputClasses} disabled:opacity-40`}
+          >
+            <option value="">Link a task…</option>
+            {unlinkedTasks.map(task => (
+              <option key={task.id} value={task.id}>
+                {task.title}
+              </option>
+            ))}
+          </select>
+          <select
+            value=""
+            onChange={e =>
+              onUpdate(activeNote.id, {
+                chatSessionIds: [...activeNote.chatSessionIds, e.target.value],
+              })
+            }
+            disabled={unlinkedChats.length === 0}
+            className={`${inputClasses} disabled:opacity-40`}
+          >
+            <option value="">Link a chat…</option>
+            {unlinkedChats.map(chat => (
+              <option key={chat.id} value={chat.id}>
+                {chat.title}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex justify-between items-center">
+          <span className="text-white text-opacity-40 text-xs">
+            Saved {new Date(activeNote.updatedAt).toLocaleTimeString()}
+          </span>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setShowQr(true)}
+              disabled={isNoteEmpty(activeNote)}
+              className={`${buttonClasses} disabled:opacity-40`}
+              title="QR Code"
+            >
+              📱
+            </button>
+            <button onClick={() => onExport([activeNote])} className={buttonClasses}>
+              Export .md
+            </button>
+            <button
+              onClick={() => deleteNote(activeNote)}
+              className={`${buttonClasses} hover:bg-red-500`}
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+
+        {showQr && (
+          <QRCodeModal
+            value={
+              activeNote.title.trim()
+                ? `${activeNote.title.trim()}\n\n${activeNote.content.trim()}`
+                : activeNote.content.trim()
+            }
+            title={getNoteTitle(activeNote)}
+            onClose={() => setShowQr(false)}
+          />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex space-x-2">
+        <input
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Search notes, #tag to filter"
+          className={inputClasses}
+        />
+        <button onClick={newNote} className={`${buttonClasses} whitespace-nowrap`}>
+          + New
+        </button>
+      </div>
+
+      {tagCounts.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {tagCounts.map(({ tag, count }) => {
+            const active = query.split(/\s+/).includes(`#${tag}`);
+            return (
+              <button
+                key={tag}
+                onClick={() => toggleTagFilter(tag)}
+                className={`${chipClasses} ${active ? 'bg-blue-500 text-opacity-100' : ''}`}
+              >
+                #{tag} <span className="ml-1 text-opacity-50">{count}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="space-y-1 max-h-64 overflow-auto">
+        {results.map(note => (
+          <button
+            key={note.id}
+            onClick={() => openNote(note.id)}
+            className="w-full text-left p-2 bg-white bg-opacity-5 rounded hover:bg-opacity-10 transition-colors"
+          >
+            <div className="flex items-center text-white text-sm">
+              {note.pinned && <span className="mr-1">📌</span>}
+              <span className="truncate flex-1">{getNoteTitle(note)}</span>
+              <span className="ml-2 text-white text-opacity-40 text-xs">
+                {new Date(note.updatedAt).toLocaleDateString()}
+              </span>
+            </div>
+            {(note.tags.length > 0 || note.taskIds.length + note.chatSessionIds.length > 0) && (
+              <div className="text-white text-opacity-50 text-xs truncate">
+                {note.tags.map(tag => `#${tag}`).join(' ')}
+                {note.taskIds.length > 0 && ` · 📋 ${note.taskIds.length}`}
+                {note.chatSessionIds.length > 0 && ` · 💬 ${note.chatSessionIds.length}`}
+              </div>
+            )}
+          </button>
+        ))}
+        {results.length === 0 && (
+          <div className="text-white text-opacity-40 text-xs text-center py-2">
+            {notes.length === 0 ? 'No notes yet' : 'No notes match'}
+          </div>
+        )}
+      </div>
+
+      {results.length > 0 && (
+        <div className="flex justify-end">
+          <button onClick={() => onExport(results)} className={buttonClasses}>
+            Export {query.trim() ? 'matches' : 'all'} .md
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -78,6 +78,9 @@ export const Panel: React.FC<PanelProps> = ({
   const effectivePosition = storePanel?.position ?? position;
   const effectiveSize = storePanel?.size ?? size;
   const effectiveZIndex = propZIndex ?? storePanel?.zIndex ?? 100;
+  const locked = storePanel?.locked === true;
+  // Renamed from the context menu or command palette
+  const effectiveTitle = storePanel?.metadata?.title || title;
 
   // Hooks for interactions
   const { isDragging, currentPosition } = usePanelDrag(id);
@@ -219,7 +222,7 @@ export const Panel: React.FC<PanelProps> = ({
       onClick={handlePanelClick}
       tabIndex={0}
       role="dialog"
-      aria-label={title || `Panel ${id}`}
+      aria-label={effectiveTitle || `Panel ${id}`}
       aria-selected={effectiveIsSelected}
       data-panel-id={id}
       data-dragging={isDragging}
@@ -231,10 +234,21 @@ export const Panel: React.FC<PanelProps> = ({
       {showHeader && (
         <HeaderDragHandle
           panelId={id}
-          title={title}
+          title={effectiveTitle}
           icon={icon}
-          actions={headerActions}
-          disabled={!draggable}
+          actions={
+            locked ? (
+              <>
+                <span className="text-xs text-white/60" title="Locked">
+                  🔒
+                </span>
+                {headerActions}
+              </>
+            ) : (
+              headerActions
+            )
+          }
+          disabled={!draggable || locked}
           className="border-b border-white/10 bg-white/5"
         />
       )}
@@ -251,7 +265,7 @@ export const Panel: React.FC<PanelProps> = ({
       </div>
 
       {/* Resize Handles */}
-      {showResizeHandles && resizable && effectiveIsSelected && (
+      {showResizeHandles && resizable && !locked && effectiveIsSelected && (
         <ResizeHandles
           panelId={id}
           constraints={constraints}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { PanelLayout, PanelComponent } from '../../types/panel';
 import { ZIndexLayer } from '../../utils/zIndexManager';
+import { hasCopiedPanels, runPanelAction } from '@/utils/panelActions';
 import clsx from 'clsx';
 
 // Context menu action types
@@ -48,8 +49,8 @@ export interface PanelContextMenuProps {
   selectedPanels: PanelLayout[];
   allPanels: PanelLayout[];
 
-  // Event handlers
-  onAction: (action: ContextMenuAction, panelIds: string[]) => void;
+  // Event handlers; actions run through runPanelAction unless handled here
+  onAction?: (action: ContextMenuAction, panelIds: string[]) => void;
   onClose: () => void;
 
   // Configuration
@@ -58,7 +59,7 @@ export interface PanelContextMenuProps {
   showIcons?: boolean;
   showShortcuts?: boolean;
 
-  // Panel-specific context
+  // Panel-specific context, worked out from the selection when not given
   canGroup?: boolean;
   canUngroup?: boolean;
   hasClipboard?: boolean;
@@ -83,6 +84,13 @@ const SHORTCUTS: Record<string, ContextMenuAction> = {
   'Ctrl+,': 'settings',
 };
 
+const defaultPanelAction = (action: ContextMenuAction, panelIds: string[]) => {
+  runPanelAction(action, panelIds).catch(error => {
+    console.error(`Panel action "${action}" failed:`, error);
+    alert(error instanceof Error ? error.message : `Panel action "${action}" failed`);
+  });
+};
+
 // Context menu item component
 const MenuItem: React.FC<{
   item: ContextMenuItem;
@@ -195,15 +203,15 @@ export const PanelContextMenu: React.FC<PanelContextMenuProps> = ({
   visible,
   selectedPanels,
   allPanels,
-  onAction,
+  onAction = defaultPanelAction,
   onClose,
   customItems = [],
   disabledActions = [],
   showIcons = true,
   showShortcuts = true,
-  canGroup = false,
-  canUngroup = false,
-  hasClipboard = false,
+  canGroup = selectedPanels.length > 1,
+  canUngroup = selectedPanels.some(panel => panel.groupId),
+  hasClipboard = hasCopiedPanels(),
   className = '',
 }) => {
   const menuRef = useRef<HTMLDivElement>(null);
@@ -213,8 +221,14 @@ export const PanelContextMenu: React.FC<PanelContextMenuProps> = ({
   const handleAction = useCallback(
     (action: ContextMenuAction) => {
       const panelIds = selectedPanels.map(p => p.id);
-      onAction(action, panelIds);
+      // The lock shortcut toggles
+      const resolved =
+        action === 'lock' && selectedPanels.length > 0 && selectedPanels.every(p => p.locked)
+          ? 'unlock'
+          : action;
+      // Close first so prompts opened by the action are not covered
       onClose();
+      onAction(resolved, panelIds);
     },
     [selectedPanels, onAction, onClose]
   );
@@ -331,9 +345,9 @@ export const PanelContextMenu: React.FC<PanelContextMenuProps> = ({
           },
           {
             id: 'lock',
-            label: selectedPanel?.metadata?.locked ? 'Unlock' : 'Lock',
-            icon: selectedPanel?.metadata?.locked ? '🔓' : '🔒',
-            action: selectedPanel?.metadata?.locked ? 'unlock' : 'lock',
+            label: selectedPanel?.locked ? 'Unlock' : 'Lock',
+            icon: selectedPanel?.locked ? '🔓' : '🔒',
+            action: selectedPanel?.locked ? 'unlock' : 'lock',
             shortcut: 'Ctrl+L',
             disabled: disabledActions.includes('lock') && disabledActions.includes('unlock'),
           },
@@ -382,8 +396,8 @@ export const PanelContextMenu: React.FC<PanelContextMenuProps> = ({
           },
           {
             id: 'settings',
-            label: 'Panel Settings',
-            icon: '⚙️',
+            label: 'Rename Panel',
+            icon: '✏️',
             action: 'settings',
             shortcut: 'Ctrl+,',
             disabled: !isSingleSelect || disabledActions.includes('settings'),
@@ -0,0 +1,185 @@
+/**
+ * QRCodeModal Component
+ * Shows a locally generated QR code for any text or link, with download and copy actions
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { getPlatformAPI } from '@/platform';
+import { saveBlobFile, saveTextFile } from '@/utils/fileTransfer';
+import { encodeQRCode, qrCodeToPNG, qrCodeToPath, qrCodeToSVG } from '@/utils/qrCode';
+
+export interface QRCodeModalProps {
+  value: string;
+  title?: string;
+  onClose: () => void;
+}
+
+const QR_MARGIN = 4;
+
+// File name for downloads, derived from the title
+const toFilename = (title: string) =>
+  title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'qr-code';
+
+export const QRCodeModal: React.FC<QRCodeModalProps> = ({ value, title = 'QR Code', onClose }) => {
+  const [feedback, setFeedback] = useState<string | null>(null);
+  const feedbackTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  const qr = useMemo(() => {
+    try {
+      return encodeQRCode(value);
+    } catch (error) {
+      console.error('Failed to encode QR code:', error);
+      return null;
+    }
+  }, [value]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      clearTimeout(feedbackTimer.current);
+    };
+  }, [onClose]);
+
+  const showFeedback = useCallback((message: string) => {
+    setFeedback(message);
+    clearTimeout(feedbackTimer.current);
+    feedbackTimer.current = setTimeout(() => setFeedback(null), 1500);
+  }, []);
+
+  const downloadPNG = useCallback(async () => {
+    if (!qr) return;
+    try {
+      saveBlobFile(`${toFilename(title)}.png`, await qrCodeToPNG(qr, { margin: QR_MARGIN }));
+    } catch (error) {
+      console.error('Failed to save QR code:', error);
+      alert('Failed to save QR code');
+    }
+  }, [qr, title]);
+
+  const downloadSVG = useCallback(async () => {
+    if (!qr) return;
+    try {
+      await saveTextFile(
+        `${toFilename(title)}.svg`,
+        qrCodeToSVG(qr, { margin: QR_MARGIN }),
+        'image/svg+xml',
+        [{ name: 'SVG Image', extensions: ['svg'] }]
+      );
+    } catch (error) {
+      console.error('Failed to save QR code:', error);
+      alert('Failed to save QR code');
+    }
+  }, [qr, title]);
+
+  const copyImage = useCallback(async () => {
+    if (!qr) return;
+    try {
+      const api = await getPlatformAPI();
+      await api.system.clipboard.writeImage(await qrCodeToPNG(qr, { margin: QR_MARGIN }));
+      showFeedback('✓ Image copied');
+    } catch (error) {
+      console.error('Failed to copy QR code:', error);
+      showFeedback('Copy failed');
+    }
+  }, [qr, showFeedback]);
+
+  const copyText = useCallback(async () => {
+    try {
+      const api = await getPlatformAPI();
+      await api.system.clipboard.write(value);
+      showFeedback('✓ Text copied');
+    } catch (error) {
+      console.error('Failed to copy text:', error);
+      showFeedback('Copy failed');
+    }
+  }, [value, showFeedback]);
+
+  const extent = qr ? qr.size + QR_MARGIN * 2 : 0;
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={title}
+        className="bg-gray-800 p-6 rounded-lg max-w-sm w-full mx-4"
+        onClick={e => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-bold text-white mb-1 truncate">{title}</h3>
+        <div className="text-white text-opacity-60 text-xs mb-4 truncate" title={value}>
+          {value}
+        </div>
+
+        {qr ? (
+          <svg
+            viewBox={`0 0 ${extent} ${extent}`}
+            shapeRendering="crispEdges"
+            className="w-56 h-56 mx-auto mb-4 rounded"
+            role="img"
+            aria-label={`QR code for ${value}`}
+          >
+            <rect width={extent} height={extent} fill="#ffffff" />
+            <path d={qrCodeToPath(qr, QR_MARGIN)} fill="#000000" />
+          </svg>
+        ) : (
+          <div className="text-red-300 text-sm text-center mb-4">
+            This is too long to fit in a QR code
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2 text-sm">
+          <button
+            onClick={downloadPNG}
+            disabled={!qr}
+            className="px-3 py-1 rounded bg-white bg-opacity-10 text-white hover:bg-opacity-20 disabled:opacity-40"
+          >
+            ⬇️ PNG
+          </button>
+          <button
+            onClick={downloadSVG}
+            disabled={!qr}
+            className="px-3 py-1 rounded bg-white bg-opacity-10 text-white hover:bg-opacity-20 disabled:opacity-40"
+          >
+            ⬇️ SVG
+          </button>
+          <button
+            onClick={copyImage}
+            disabled={!qr}
+            className="px-3 py-1 rounded bg-white bg-opacity-10 text-white hover:bg-opacity-20 disabled:opacity-40"
+          >
+            📋 Copy image
+          </button>
+          <button
+            onClick={copyText}
+            className="px-3 py-1 rounded bg-white bg-opacity-10 text-white hover:bg-opacity-20"
+          >
+            📄 Copy text
+          </button>
+          <button
+            onClick={onClose}
+            className="ml-auto px-3 py-1 rounded bg-gray-500 text-white hover:bg-gray-600"
+          >
+            Close
+          </button>
+        </div>
+
+        {feedback && <div className="mt-3 text-xs text-white text-opacity-60">{feedback}</div>}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default QRCodeModal;
@@ -0,0 +1,162 @@
+/**
+ * TaskBoard Component
+ * Kanban columns of tasks; dragging a card into another column moves the task there
+ */
+
+import React, { useCallback } from 'react';
+import {
+  DndContext,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from '@dnd-kit/core';
+import { CSS } from '@dnd-kit/utilities';
+import type { Task } from '@/types/tasks';
+import type { BoardColumn } from '@/features/task-manager/taskViews';
+
+export interface TaskBoardProps {
+  columns: BoardColumn[];
+  selectedTaskId: number | null;
+  // Badges under the task text, e.g. priority, category and due date
+  renderMeta: (task: Task) => React.ReactNode;
+  // Tasks waiting on open tasks cannot be ticked off
+  isTaskBlocked: (task: Task) => boolean;
+  onMoveTask: (taskId: number, columnId: string) => void;
+  onToggleTask: (taskId: number) => void;
+  onSelectTask: (taskId: number | null) => void;
+  onEditTask: (task: Task) => void;
+}
+
+interface BoardCardProps extends Pick<
+  TaskBoardProps,
+  'renderMeta' | 'onToggleTask' | 'onEditTask'
+> {
+  task: Task;
+  isSelected: boolean;
+  isBlocked: boolean;
+  onSelect: () => void;
+}
+
+const BoardCard: React.FC<BoardCardProps> = ({
+  task,
+  isSelected,
+  isBlocked,
+  renderMeta,
+  onSelect,
+  onToggleTask,
+  onEditTask,
+}) => {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: task.id,
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Translate.toString(transform) }}
+      {...attributes}
+      {...listeners}
+      onClick={onSelect}
+      onDoubleClick={() => onEditTask(task)}
+      className={`glass-panel p-2 rounded cursor-grab hover:bg-white hover:bg-opacity-5 ${
+        isSelected ? 'ring-2 ring-blue-400' : ''
+      } ${task.completed ? 'opacity-50' : ''} ${isDragging ? 'relative z-20 shadow-lg' : ''}`}
+    >
+      <div className="flex items-start space-x-2">
+        <button
+          onPointerDown={e => e.stopPropagation()}
+          onClick={e => {
+            e.stopPropagation();
+            onToggleTask(task.id);
+          }}
+          disabled={isBlocked}
+          className={`mt-0.5 w-4 h-4 flex-shrink-0 border-2 rounded flex items-center justify-center text-xs transition-colors ${
+            task.completed
+              ? 'bg-green-500 border-green-500 text-white'
+              : isBlocked
+                ? 'border-orange-400 border-opacity-60 cursor-not-allowed'
+                : 'border-white border-opacity-40 hover:border-opacity-60'
+          }`}
+          title={isBlocked ? 'Blocked' : undefined}
+        >
+          {task.completed ? '✓' : isBlocked && '🔒'}
+        </button>
+        <span className={`text-white text-sm ${task.completed ? 'line-through' : ''}`}>
+          {task.text}
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-1 mt-1">{renderMeta(task)}</div>
+    </div>
+  );
+};
+
+const BoardColumnView: React.FC<{ column: BoardColumn; children: React.ReactNode }> = ({
+  column,
+  children,
+}) => {
+  const { setNodeRef, isOver } = useDroppable({ id: column.id });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`flex flex-col w-48 flex-shrink-0 rounded-lg bg-white bg-opacity-5 transition-colors ${
+        isOver ? 'ring-2 ring-blue-400 bg-opacity-10' : ''
+      }`}
+    >
+      <div className="flex items-center justify-between px-3 py-2 text-white text-sm font-medium">
+        <span className="truncate">{column.title}</span>
+        <span className="text-white text-opacity-50 text-xs">{column.tasks.length}</span>
+      </div>
+      <div className="flex-1 overflow-auto px-2 pb-2 space-y-2">{children}</div>
+    </div>
+  );
+};
+
+export const TaskBoard: React.FC<TaskBoardProps> = ({
+  columns,
+  selectedTaskId,
+  renderMeta,
+  isTaskBlocked,
+  onMoveTask,
+  onToggleTask,
+  onSelectTask,
+  onEditTask,
+}) => {
+  // A small threshold keeps clicks and double-clicks working on cards
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 5 } }));
+
+  const handleDragEnd = useCallback(
+    ({ active, over }: DragEndEvent) => {
+      if (over) onMoveTask(Number(active.id), String(over.id));
+    },
+    [onMoveTask]
+  );
+
+  return (
+    <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+      <div className="flex h-full space-x-3 overflow-x-auto">
+        {columns.map(column => (
+          <BoardColumnView key={column.id} column={column}>
+            {column.tasks.map(task => (
+              <BoardCard
+                key={task.id}
+                task={task}
+                isSelected={selectedTaskId === task.id}
+                isBlocked={!task.completed && isTaskBlocked(task)}
+                renderMeta={renderMeta}
+                onSelect={() => onSelectTask(selectedTaskId === task.id ? null : task.id)}
+                onToggleTask={onToggleTask}
+                onEditTask={onEditTask}
+              />
+            ))}
+          </BoardColumnView>
+        ))}
+      </div>
+    </DndContext>
+  );
+};
+
+export default TaskBoard;
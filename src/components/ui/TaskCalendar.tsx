@@ -0,0 +1,171 @@
+/**
+ * TaskCalendar Component
+ * Week and month grids placing tasks on their due dates
+ */
+
+import React, { useMemo } from 'react';
+import type { Task } from '@/types/tasks';
+import {
+  PRIORITY_INFO,
+  formatCalendarTitle,
+  getCalendarDays,
+  groupTasksByDay,
+  shiftCalendar,
+  startOfDay,
+  type CalendarRange,
+} from '@/features/task-manager/taskViews';
+
+export interface TaskCalendarProps {
+  tasks: Task[];
+  range: CalendarRange;
+  // Any time inside the shown week or month
+  anchor: number;
+  now: number;
+  selectedTaskId: number | null;
+  onRangeChange: (range: CalendarRange) => void;
+  onAnchorChange: (anchor: number) => void;
+  onToggleTask: (taskId: number) => void;
+  onSelectTask: (taskId: number | null) => void;
+  onEditTask: (task: Task) => void;
+}
+
+// Month cells only have room for a few tasks
+const MONTH_CELL_LIMIT = 3;
+
+const WEEKDAY_HEADINGS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const TaskCalendar: React.FC<TaskCalendarProps> = ({
+  tasks,
+  range,
+  anchor,
+  now,
+  selectedTaskId,
+  onRangeChange,
+  onAnchorChange,
+  onToggleTask,
+  onSelectTask,
+  onEditTask,
+}) => {
+  const days = useMemo(() => getCalendarDays(anchor, range), [anchor, range]);
+  const tasksByDay = useMemo(() => groupTasksByDay(tasks), [tasks]);
+  const today = startOfDay(now);
+  const shownMonth = new Date(anchor).getMonth();
+  const undatedCount = tasks.filter(task => task.dueDate === undefined).length;
+
+  const renderTask = (task: Task) => (
+    <div
+      key={task.id}
+      onClick={() => onSelectTask(selectedTaskId === task.id ? null : task.id)}
+      onDoubleClick={() => onEditTask(task)}
+      title={task.text}
+      className={`flex items-center space-x-1 px-1 py-0.5 rounded text-xs cursor-pointer ${
+        PRIORITY_INFO[task.priority].class
+      } ${selectedTaskId === task.id ? 'ring-1 ring-blue-400' : ''} ${
+        task.completed ? 'opacity-50 line-through' : ''
+      }`}
+    >
+      <input
+        type="checkbox"
+        checked={task.completed}
+        onClick={e => e.stopPropagation()}
+        onChange={() => onToggleTask(task.id)}
+        className="w-3 h-3 flex-shrink-0"
+      />
+      {range === 'week' && (
+        <span className="flex-shrink-0 text-white text-opacity-60">
+          {new Date(task.dueDate!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </span>
+      )}
+      <span className="truncate text-white">{task.text}</span>
+    </div>
+  );
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Navigation */}
+      <div className="flex items-center space-x-2 mb-3">
+        <button
+          onClick={() => onAnchorChange(shiftCalendar(anchor, range, -1))}
+          className="px-2 py-1 bg-white bg-opacity-10 text-white rounded text-xs hover:bg-opacity-20"
+          title={`Previous ${range}`}
+        >
+          ‹
+        </button>
+        <button
+          onClick={() => onAnchorChange(now)}
+          className="px-2 py-1 bg-white bg-opacity-10 text-white rounded text-xs hover:bg-opacity-20"
+        >
+          Today
+        </button>
+        <button
+          onClick={() => onAnchorChange(shiftCalendar(anchor, range, 1))}
+          className="px-2 py-1 bg-white bg-opacity-10 text-white rounded text-xs hover:bg-opacity-20"
+          title={`Next ${range}`}
+        >
+          ›
+        </button>
+        <span className="flex-1 text-white text-sm font-medium">
+          {formatCalendarTitle(anchor, range)}
+        </span>
+        {(['week', 'month'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => onRangeChange(option)}
+            className={`px-2 py-1 rounded text-xs capitalize transition-colors ${
+              range === option
+                ? 'bg-blue-500 bg-opacity-30 text-blue-200'
+                : 'bg-white bg-opacity-10 text-white text-opacity-60'
+            }`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+
+      {/* Day grid */}
+      <div className="grid grid-cols-7 gap-1 text-center text-white text-opacity-50 text-xs mb-1">
+        {WEEKDAY_HEADINGS.map(day => (
+          <div key={day}>{day}</div>
+        ))}
+      </div>
+      <div className={`flex-1 grid grid-cols-7 gap-1 ${range === 'week' ? '' : 'auto-rows-fr'}`}>
+        {days.map(day => {
+          const dayTasks = tasksByDay.get(day) ?? [];
+          const shown = range === 'month' ? dayTasks.slice(0, MONTH_CELL_LIMIT) : dayTasks;
+          const isOutsideMonth = range === 'month' && new Date(day).getMonth() !== shownMonth;
+
+          return (
+            <div
+              key={day}
+              className={`flex flex-col min-h-0 overflow-hidden rounded p-1 bg-white bg-opacity-5 ${
+                day === today ? 'ring-1 ring-blue-400' : ''
+              } ${isOutsideMonth ? 'opacity-40' : ''}`}
+            >
+              <div
+                className={`text-xs mb-1 ${day === today ? 'text-blue-300 font-bold' : 'text-white text-opacity-60'}`}
+              >
+                {new Date(day).getDate()}
+              </div>
+              <div className="space-y-1 overflow-auto">
+                {shown.map(renderTask)}
+                {dayTasks.length > shown.length && (
+                  <div className="text-white text-opacity-50 text-xs">
+                    +{dayTasks.length - shown.length} more
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {undatedCount > 0 && (
+        <div className="mt-2 text-white text-opacity-50 text-xs">
+          {undatedCount} task{undatedCount === 1 ? '' : 's'} without a due date not shown
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskCalendar;
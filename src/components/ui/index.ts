@@ -26,6 +26,31 @@ export type { PanelGroupProps } from './PanelGroup';
 export { PanelContextMenu, useContextMenu } from './PanelContextMenu';
 export type { PanelContextMenuProps } from './PanelContextMenu';
 
+// Content components
+export { MarkdownContent } from './MarkdownContent';
+export type { MarkdownContentProps } from './MarkdownContent';
+
+export { QRCodeModal } from './QRCodeModal';
+export type { QRCodeModalProps } from './QRCodeModal';
+
+export { TaskBoard } from './TaskBoard';
+export type { TaskBoardProps } from './TaskBoard';
+
+export { TaskCalendar } from './TaskCalendar';
+export type { TaskCalendarProps } from './TaskCalendar';
+
+export { FocusStats } from './FocusStats';
+export type { FocusStatsProps } from './FocusStats';
+
+export { FocusTemplateManager } from './FocusTemplateManager';
+export type { FocusTemplateManagerProps } from './FocusTemplateManager';
+
+export { NotesManager } from './NotesManager';
+export type { NotesManagerProps } from './NotesManager';
+
+export { DistractionBlocklist } from './DistractionBlocklist';
+export type { DistractionBlocklistProps } from './DistractionBlocklist';
+
 // Test components (development only)
 export { UnifiedTestSuite, PanelSystemTests, InteractionTests } from '../__tests__';
 
@@ -8,6 +8,12 @@ let isInitialized = false;
 let extensionAPI: any = null;
 let pageContext: any = {};
 
+// Focus block interstitial: countdown interval, the session the user let this page
+// through for, and the page's own overflow style while it is covered
+let focusBlockInterval: number | null = null;
+let allowedFocusSessionId: string | null = null;
+let pageOverflow = '';
+
 // Initialize content script
 async function initializeContentScript(): Promise<void> {
   if (isInitialized) return;
@@ -35,6 +41,9 @@ async function initializeContentScript(): Promise<void> {
     // Setup context menu enhancements
     setupContextMenus();
 
+    // Cover distracting sites during Productivity work sessions
+    checkFocusBlock();
+
     isInitialized = true;
     console.log('Content script initialized successfully');
   } catch (error) {
@@ -82,6 +91,11 @@ function handleMessage(message: any, sender: any, sendResponse: Function): boole
       sendResponse({ success: true });
       break;
 
+    case 'focusBlockChanged':
+      checkFocusBlock();
+      sendResponse({ success: true });
+      break;
+
     default:
       console.warn('Unknown message action:', message.action);
       sendResponse({ success: false, error: 'Unknown action' });
@@ -470,6 +484,137 @@ function injectQuickBookmarkButton(): void {
   }, 10000);
 }
 
+/**
+ * Ask the background whether a running work session blocks this site,
+ * and show or lift the interstitial to match
+ */
+async function checkFocusBlock(): Promise<void> {
+  try {
+    const response = await chrome.runtime.sendMessage({
+      action: 'getFocusBlock',
+      data: { url: window.location.href },
+    });
+    const block = response?.success ? response.data : null;
+
+    if (block && block.sessionId !== allowedFocusSessionId) {
+      showFocusInterstitial(block);
+    } else {
+      removeFocusInterstitial();
+    }
+  } catch {
+    // Ignore errors if background is not available
+  }
+}
+
+/**
+ * Cover the page with the time left in the work session and an allow-once override
+ */
+function showFocusInterstitial(block: { site: string; sessionId: string; endsAt: number }): void {
+  removeFocusInterstitial();
+
+  const overlay = document.createElement('div');
+  overlay.id = 'lucaverse-focus-block';
+  overlay.innerHTML = `
+    <div style="
+      position: fixed;
+      inset: 0;
+      z-index: 2147483647;
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      justify-content: center;
+      gap: 16px;
+      background: linear-gradient(135deg, #0f172a, #1e1b4b);
+      color: white;
+      font-family: system-ui, sans-serif;
+      text-align: center;
+    ">
+      <div style="font-size: 48px;">🎯</div>
+      <div style="font-size: 24px; font-weight: 600;">Focus session in progress</div>
+      <div data-site style="opacity: 0.7;"></div>
+      <div data-remaining style="font-size: 56px; font-family: monospace;"></div>
+      <div style="display: flex; gap: 12px;">
+        <button data-back style="
+          padding: 10px 20px;
+          border: none;
+          border-radius: 8px;
+          background: #3B82F6;
+          color: white;
+          font-size: 14px;
+          cursor: pointer;
+        ">Back to work</button>
+        <button data-allow style="
+          padding: 10px 20px;
+          border: 1px solid rgba(255, 255, 255, 0.3);
+          border-radius: 8px;
+          background: transparent;
+          color: white;
+          font-size: 14px;
+          cursor: pointer;
+        ">Allow once</button>
+      </div>
+    </div>
+  `;
+
+  overlay.querySelector('[data-site]')!.textContent =
+    `${block.site} is blocked until your break starts`;
+  const remaining = overlay.querySelector<HTMLElement>('[data-remaining]')!;
+
+  const updateRemaining = () => {
+    const seconds = Math.max(0, Math.ceil((block.endsAt - Date.now()) / 1000));
+    remaining.textContent = `${Math.floor(seconds / 60)
+      .toString()
+      .padStart(2, '0')}:${(seconds % 60).toString().padStart(2, '0')}`;
+    // The session is over; the break may already be on
+    if (seconds === 0) checkFocusBlock();
+  };
+  updateRemaining();
+  focusBlockInterval = window.setInterval(updateRemaining, 1000);
+
+  overlay.querySelector('[data-back]')!.addEventListener('click', () => {
+    if (window.history.length > 1) {
+      window.history.back();
+    } else {
+      window.location.href = 'about:blank';
+    }
+  });
+
+  overlay.querySelector('[data-allow]')!.addEventListener('click', async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: 'allowBlockedSite',
+        data: { url: window.location.href },
+      });
+      if (!response?.success) return;
+    } catch (error) {
+      console.error('Failed to allow blocked site:', error);
+      return;
+    }
+    allowedFocusSessionId = block.sessionId;
+    removeFocusInterstitial();
+  });
+
+  pageOverflow = document.documentElement.style.overflow;
+  document.documentElement.style.overflow = 'hidden';
+  document.documentElement.appendChild(overlay);
+}
+
+/**
+ * Remove the focus block interstitial, if shown
+ */
+function removeFocusInterstitial(): void {
+  if (focusBlockInterval !== null) {
+    window.clearInterval(focusBlockInterval);
+    focusBlockInterval = null;
+  }
+
+  const overlay = document.getElementById('lucaverse-focus-block');
+  if (overlay) {
+    overlay.remove();
+    document.documentElement.style.overflow = pageOverflow;
+  }
+}
+
 /**
  * Detect and handle special page types
  */
@@ -0,0 +1,170 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Chat Repository Test Suite
+ * Verifies paged session storage and the legacy localStorage migration
+ */
+
+import { ChatRepository, MESSAGES_PER_PAGE } from '../chatRepository';
+import { createMemoryStorage } from '@/__tests__/utils/memoryStorage';
+import type { ChatMessage, ChatSession } from '@/types/chat';
+
+// Mock localStorage
+const legacyStore: Record<string, string> = {};
+(global as any).localStorage = {
+  getItem: (key: string) => legacyStore[key] ?? null,
+  setItem: (key: string, value: string) => {
+    legacyStore[key] = value;
+  },
+  removeItem: (key: string) => {
+    delete legacyStore[key];
+  },
+};
+
+const createMessages = (count: number): ChatMessage[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `msg_${i}`,
+    type: i % 2 === 0 ? 'user' : 'assistant',
+    content: `Message ${i}`,
+    timestamp: 1000 + i,
+  }));
+
+const createSession = (id: string, messageCount: number, updatedAt = 1): ChatSession => ({
+  id,
+  title: `Chat ${id}`,
+  messages: createMessages(messageCount),
+  createdAt: 1,
+  updatedAt,
+});
+
+describe('ChatRepository', () => {
+  beforeEach(() => {
+    Object.keys(legacyStore).forEach(key => delete legacyStore[key]);
+  });
+
+  test('stores sessions as an index plus message pages', async () => {
+    const { storage, store } = createMemoryStorage();
+    const repository = new ChatRepository(storage);
+
+    await repository.saveSession(createSession('a', MESSAGES_PER_PAGE + 5));
+
+    expect(store.get('chat_index')).toEqual([
+      expect.objectContaining({ id: 'a', messageCount: MESSAGES_PER_PAGE + 5 }),
+    ]);
+    expect(store.get('chat_messages_a_0')).toHaveLength(MESSAGES_PER_PAGE);
+    expect(store.get('chat_messages_a_1')).toHaveLength(5);
+  });
+
+  test('loads recent pages and pages in older messages on demand', async () => {
+    const { storage } = createMemoryStorage();
+    await new ChatRepository(storage).saveSession(createSession('a', MESSAGES_PER_PAGE * 3 + 1));
+
+    const repository = new ChatRepository(storage);
+    const session = await repository.loadSession('a', 1);
+
+    expect(session?.messages).toHaveLength(1);
+    expect(session?.olderMessageCount).toBe(MESSAGES_PER_PAGE * 3);
+
+    const expanded = await repository.loadOlderMessages(session!);
+    expect(expanded.messages).toHaveLength(MESSAGES_PER_PAGE + 1);
+    expect(expanded.messages[0]?.id).toBe(`msg_${MESSAGES_PER_PAGE * 2}`);
+    expect(expanded.olderMessageCount).toBe(MESSAGES_PER_PAGE * 2);
+  });
+
+  test('saving a partially loaded session keeps older pages and rewrites only changes', async () => {
+    const { storage, store, writes } = createMemoryStorage();
+    await new ChatRepository(storage).saveSession(createSession('a', MESSAGES_PER_PAGE * 2 + 2));
+
+    const repository = new ChatRepository(storage);
+    const session = (await repository.loadSession('a', 1))!;
+    writes.length = 0;
+
+    await repository.saveSession({
+      ...session,
+      messages: [...session.messages, { id: 'new', type: 'user', content: 'Hi', timestamp: 9 }],
+    });
+
+    expect(writes).toEqual(['chat_messages_a_2', 'chat_index']);
+    expect(store.get('chat_messages_a_0')).toHaveLength(MESSAGES_PER_PAGE);
+    expect(store.get('chat_messages_a_2')).toHaveLength(3);
+  });
+
+  test('saveSessions removes sessions missing from the map', async () => {
+    const { storage, store } = createMemoryStorage();
+    const repository = new ChatRepository(storage);
+    const a = createSession('a', 3);
+    const b = createSession('b', 3);
+
+    await repository.saveSessions({ a, b });
+    await repository.saveSessions({ b });
+
+    expect(store.has('chat_messages_a_0')).toBe(false);
+    expect((await repository.listSessions()).map(summary => summary.id)).toEqual(['b']);
+  });
+
+  test('removes trailing pages when a session shrinks', async () => {
+    const { storage, store } = createMemoryStorage();
+    const repository = new ChatRepository(storage);
+    const session = createSession('a', MESSAGES_PER_PAGE + 1);
+
+    await repository.saveSession(session);
+    await repository.saveSession({ ...session, messages: session.messages.slice(0, -1) });
+
+    expect(store.has('chat_messages_a_1')).toBe(false);
+  });
+
+  test('migrates the legacy localStorage blob once', async () => {
+    const { storage } = createMemoryStorage();
+    legacyStore.lucaverse_chat_sessions = JSON.stringify({
+      old: createSession('old', 4, 5),
+      older: createSession('older', 2, 3),
+    });
+
+    const repository = new ChatRepository(storage);
+    expect(await repository.migrateLegacySessions()).toBe(2);
+    expect(legacyStore.lucaverse_chat_sessions).toBeUndefined();
+
+    const sessions = await repository.loadSessions();
+    expect(Object.keys(sessions)).toEqual(['old', 'older']);
+    expect(sessions.old?.messages).toHaveLength(4);
+
+    legacyStore.lucaverse_chat_sessions = JSON.stringify({ again: createSession('again', 1) });
+    expect(await repository.migrateLegacySessions()).toBe(0);
+    expect(legacyStore.lucaverse_chat_sessions).toBeDefined();
+  });
+
+  test('searches messages that are not loaded and keeps pinned state and context', async () => {
+    const { storage } = createMemoryStorage();
+    const repository = new ChatRepository(storage);
+    const session = createSession('a', MESSAGES_PER_PAGE * 3);
+    session.messages[0] = { ...session.messages[0]!, content: 'The quarterly budget review' };
+
+    await repository.saveSession({
+      ...session,
+      pinned: true,
+      context: {
+        kind: 'page',
+        url: 'https://example.com',
+        title: 'Example',
+        domain: 'example.com',
+        content: 'Page text',
+        truncated: false,
+        capturedAt: 1,
+      },
+    });
+
+    const results = await repository.searchMessages('BUDGET');
+    expect(results).toEqual([
+      expect.objectContaining({
+        sessionId: 'a',
+        messageId: 'msg_0',
+        snippet: 'The quarterly budget review',
+      }),
+    ]);
+    expect((await repository.loadSession('a'))?.pinned).toBe(true);
+    expect((await repository.loadSession('a'))?.context?.title).toBe('Example');
+    expect((await repository.loadFullSession('a'))?.messages).toHaveLength(MESSAGES_PER_PAGE * 3);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Page Context Test Suite
+ * Verifies tab selection, content capture and the grounding prompt
+ */
+
+import { buildContextPrompt, capturePageContext, MAX_CONTEXT_CHARS } from '../pageContext';
+
+const pageResponses: Record<string, any> = {};
+const sentMessages: Array<{ tabId: number; action: string }> = [];
+
+jest.mock('@/platform', () => ({
+  getPlatformAPI: async () => ({ type: 'chrome' }),
+}));
+
+jest.mock('@/utils/extension', () => ({
+  extensionMessaging: {
+    sendToContent: async (tabId: number, action: string) => {
+      sentMessages.push({ tabId, action });
+      return pageResponses[action];
+    },
+  },
+}));
+
+const tabs = [
+  { id: 1, url: 'chrome://newtab/', title: 'Lucaverse', active: true, lastAccessed: 300 },
+  { id: 2, url: 'https://docs.example.com/guide', title: 'Guide', lastAccessed: 200 },
+  { id: 3, url: 'https://old.example.com/', title: 'Old', lastAccessed: 100 },
+];
+
+(global as any).chrome = {
+  tabs: {
+    query: async (query: chrome.tabs.QueryInfo) => (query.active ? [tabs[0]] : tabs),
+  },
+};
+
+describe('capturePageContext', () => {
+  beforeEach(() => {
+    sentMessages.length = 0;
+    pageResponses.getPageContext = {
+      success: true,
+      data: {
+        url: 'https://docs.example.com/guide',
+        title: 'Guide',
+        domain: 'docs.example.com',
+        selectedText: '  chosen \n\n\n\n text ',
+      },
+    };
+    pageResponses.extractContent = { success: true, data: { content: 'Body   text' } };
+  });
+
+  test('reads the most recent web page when the dashboard tab is active', async () => {
+    const context = await capturePageContext('page');
+
+    expect(sentMessages).toEqual([
+      { tabId: 2, action: 'getPageContext' },
+      { tabId: 2, action: 'extractContent' },
+    ]);
+    expect(context).toMatchObject({
+      kind: 'page',
+      url: 'https://docs.example.com/guide',
+      title: 'Guide',
+      domain: 'docs.example.com',
+      content: 'Body text',
+      truncated: false,
+    });
+  });
+
+  test('captures the selection and rejects an empty one', async () => {
+    expect((await capturePageContext('selection')).content).toBe('chosen\n\ntext');
+
+    pageResponses.getPageContext.data.selectedText = '';
+    await expect(capturePageContext('selection')).rejects.toThrow('Select some text');
+  });
+
+  test('truncates long pages and reports unreachable content scripts', async () => {
+    pageResponses.extractContent.data.content = 'x'.repeat(MAX_CONTEXT_CHARS + 10);
+    const context = await capturePageContext('page');
+    expect(context.content).toHaveLength(MAX_CONTEXT_CHARS);
+    expect(context.truncated).toBe(true);
+
+    pageResponses.getPageContext = { success: false, error: 'No receiver' };
+    await expect(capturePageContext('page')).rejects.toThrow('Reload the page');
+  });
+
+  test('builds a grounding prompt with the page source', async () => {
+    const prompt = buildContextPrompt(await capturePageContext('page'));
+
+    expect(prompt).toContain('URL: https://docs.example.com/guide');
+    expect(prompt).toContain('<page_content>\nBody text\n</page_content>');
+  });
+});
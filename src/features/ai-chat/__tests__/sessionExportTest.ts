@@ -0,0 +1,63 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Session Export Test Suite
+ * Verifies Markdown rendering and the JSON export/import round trip
+ */
+
+import {
+  getExportFileName,
+  parseSessionJSON,
+  sessionToJSON,
+  sessionToMarkdown,
+} from '../sessionExport';
+import type { ChatSession } from '@/types/chat';
+
+const session: ChatSession = {
+  id: 'chat_1',
+  title: 'Release Plan: Q3!',
+  messages: [
+    { id: 'm1', type: 'user', content: 'What ships in Q3?', timestamp: 1 },
+    { id: 'm2', type: 'assistant', content: 'The **sync** feature.', timestamp: 2, partial: true },
+  ],
+  createdAt: 1,
+  updatedAt: Date.UTC(2024, 6, 1),
+  pinned: true,
+  olderMessageCount: 0,
+};
+
+describe('sessionExport', () => {
+  test('renders a Markdown transcript', () => {
+    const markdown = sessionToMarkdown(session);
+
+    expect(markdown.startsWith('# Release Plan: Q3!')).toBe(true);
+    expect(markdown).toContain('## You');
+    expect(markdown).toContain('The **sync** feature.');
+    expect(markdown).toContain('(stopped)');
+  });
+
+  test('round-trips through JSON without paging state', () => {
+    const json = sessionToJSON(session);
+
+    expect(JSON.parse(json).session.olderMessageCount).toBeUndefined();
+    expect(parseSessionJSON(json)).toEqual({
+      id: 'chat_1',
+      title: 'Release Plan: Q3!',
+      messages: session.messages,
+      createdAt: 1,
+      updatedAt: session.updatedAt,
+      pinned: true,
+    });
+  });
+
+  test('rejects files that are not chat exports', () => {
+    expect(() => parseSessionJSON('not json')).toThrow('not valid JSON');
+    expect(() => parseSessionJSON('{"foo": 1}')).toThrow('not a Lucaverse chat export');
+  });
+
+  test('builds safe file names', () => {
+    expect(getExportFileName(session, 'md')).toBe('release-plan-q3-2024-07-01.md');
+  });
+});
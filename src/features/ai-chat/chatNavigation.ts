@@ -0,0 +1,29 @@
+/**
+ * Chat Navigation
+ * Lets other parts of the app open a chat session in the AI Chat panel
+ */
+
+// Window event carrying a session id; the AI Chat panel claims it with preventDefault()
+export const OPEN_CHAT_EVENT = 'lucaverse:open-chat';
+
+// Session requested while no AI Chat panel was listening, opened on its next load
+let pendingSessionId: string | null = null;
+
+/**
+ * Show a chat session. An open AI Chat panel switches to it directly;
+ * otherwise the next panel to load starts on it.
+ */
+export const openChatSession = (sessionId: string): void => {
+  const event = new CustomEvent<string>(OPEN_CHAT_EVENT, { detail: sessionId, cancelable: true });
+  const unclaimed = window.dispatchEvent(event);
+  pendingSessionId = unclaimed ? sessionId : null;
+};
+
+/**
+ * The session waiting to be opened, if any. Clears the request.
+ */
+export const takePendingChatSession = (): string | null => {
+  const sessionId = pendingSessionId;
+  pendingSessionId = null;
+  return sessionId;
+};
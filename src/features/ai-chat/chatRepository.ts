@@ -0,0 +1,393 @@
+/**
+ * Chat Repository
+ * Persists chat sessions through the platform StorageAPI as an index plus paged message records
+ */
+
+import { getPlatformAPI, IndexedDBStorageAPI, type StorageAPI } from '@/platform';
+import type {
+  ChatContext,
+  ChatMessage,
+  ChatSearchResult,
+  ChatSession,
+  ChatSessionSummary,
+} from '@/types/chat';
+
+// Messages stored per page record
+export const MESSAGES_PER_PAGE = 50;
+
+// Pages loaded when a session is first opened
+const INITIAL_PAGES = 2;
+
+const INDEX_KEY = 'chat_index';
+const MIGRATION_KEY = 'chat_legacy_migrated';
+const LEGACY_SESSIONS_KEY = 'lucaverse_chat_sessions';
+
+// Characters of context kept on each side of a search match
+const SNIPPET_CONTEXT = 40;
+
+const pageKey = (sessionId: string, page: number) => `chat_messages_${sessionId}_${page}`;
+const contextKey = (sessionId: string) => `chat_context_${sessionId}`;
+const pageCountFor = (messageCount: number) => Math.ceil(messageCount / MESSAGES_PER_PAGE);
+
+const createSnippet = (content: string, position: number, length: number): string => {
+  const start = Math.max(0, position - SNIPPET_CONTEXT);
+  const end = Math.min(content.length, position + length + SNIPPET_CONTEXT);
+  const snippet = content.slice(start, end).replace(/\s+/g, ' ');
+  return `${start > 0 ? '…' : ''}${snippet}${end < content.length ? '…' : ''}`;
+};
+
+/**
+ * Select the storage backend for chat data. Web builds use IndexedDB so long
+ * histories are not bound by the localStorage quota.
+ */
+const resolveChatStorage = async (): Promise<StorageAPI> => {
+  const api = await getPlatformAPI();
+  if (api.type === 'web' && IndexedDBStorageAPI.isSupported()) {
+    return new IndexedDBStorageAPI('lucaverse_chat');
+  }
+  return api.storage;
+};
+
+export class ChatRepository {
+  private storagePromise: Promise<StorageAPI> | null = null;
+  private index: Map<string, ChatSessionSummary> | null = null;
+  private writtenRecords: Map<string, string> = new Map();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(storage?: StorageAPI) {
+    if (storage) {
+      this.storagePromise = Promise.resolve(storage);
+    }
+  }
+
+  /**
+   * List session summaries, most recently updated first
+   */
+  async listSessions(): Promise<ChatSessionSummary[]> {
+    const index = await this.getIndex();
+    return Array.from(index.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Load a session with its most recent pages of messages.
+   * Older messages are left in storage and reported via `olderMessageCount`.
+   */
+  async loadSession(sessionId: string, pages: number = INITIAL_PAGES): Promise<ChatSession | null> {
+    const summary = (await this.getIndex()).get(sessionId);
+    if (!summary) {
+      return null;
+    }
+
+    const storage = await this.getStorage();
+    const totalPages = pageCountFor(summary.messageCount);
+    const firstPage = Math.max(0, totalPages - Math.max(1, pages));
+    const messages: ChatMessage[] = [];
+
+    for (let page = firstPage; page < totalPages; page++) {
+      messages.push(...(await this.readPage(storage, pageKey(sessionId, page))));
+    }
+    const context = await this.readRecord<ChatContext>(storage, contextKey(sessionId));
+
+    return {
+      id: summary.id,
+      title: summary.title,
+      messages,
+      createdAt: summary.createdAt,
+      updatedAt: summary.updatedAt,
+      ...(summary.pinned && { pinned: true }),
+      ...(context && { context }),
+      olderMessageCount: firstPage * MESSAGES_PER_PAGE,
+    };
+  }
+
+  /**
+   * Load a session with its complete message history, after pending writes land
+   */
+  async loadFullSession(sessionId: string): Promise<ChatSession | null> {
+    await this.writeQueue;
+    return this.loadSession(sessionId, Number.POSITIVE_INFINITY);
+  }
+
+  /**
+   * Case-insensitive full-text search over session titles and every stored message
+   */
+  async searchMessages(query: string, limit: number = 50): Promise<ChatSearchResult[]> {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+      return [];
+    }
+
+    await this.writeQueue;
+    const storage = await this.getStorage();
+    const results: ChatSearchResult[] = [];
+
+    for (const summary of await this.listSessions()) {
+      const titleMatches = summary.title.toLowerCase().includes(needle);
+      let sessionHits = 0;
+
+      // Newest pages first so recent matches win when the limit is reached
+      for (let page = pageCountFor(summary.messageCount) - 1; page >= 0; page--) {
+        const messages = await this.readPage(storage, pageKey(summary.id, page));
+
+        for (const message of [...messages].reverse()) {
+          const position = message.content.toLowerCase().indexOf(needle);
+          if (position === -1) continue;
+
+          results.push({
+            sessionId: summary.id,
+            sessionTitle: summary.title,
+            messageId: message.id,
+            snippet: createSnippet(message.content, position, needle.length),
+            timestamp: message.timestamp,
+          });
+          sessionHits++;
+
+          if (results.length >= limit) {
+            return results;
+          }
+        }
+      }
+
+      if (titleMatches && sessionHits === 0) {
+        results.push({
+          sessionId: summary.id,
+          sessionTitle: summary.title,
+          messageId: '',
+          snippet: summary.title,
+          timestamp: summary.updatedAt,
+        });
+        if (results.length >= limit) {
+          return results;
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Load every session keyed by id, each with its recent messages
+   */
+  async loadSessions(): Promise<Record<string, ChatSession>> {
+    const sessions: Record<string, ChatSession> = {};
+
+    for (const summary of await this.listSessions()) {
+      const session = await this.loadSession(summary.id);
+      if (session) {
+        sessions[session.id] = session;
+      }
+    }
+
+    return sessions;
+  }
+
+  /**
+   * Prepend the previous page of stored messages to a loaded session
+   */
+  async loadOlderMessages(session: ChatSession): Promise<ChatSession> {
+    const olderCount = session.olderMessageCount ?? 0;
+    if (olderCount <= 0) {
+      return session;
+    }
+
+    const storage = await this.getStorage();
+    const page = Math.ceil(olderCount / MESSAGES_PER_PAGE) - 1;
+    const older = await this.readPage(storage, pageKey(session.id, page));
+
+    return {
+      ...session,
+      messages: [...older, ...session.messages],
+      olderMessageCount: page * MESSAGES_PER_PAGE,
+    };
+  }
+
+  /**
+   * Persist a single session. Only pages whose contents changed are written.
+   */
+  saveSession(session: ChatSession): Promise<void> {
+    return this.enqueue(async storage => {
+      await this.writeSession(storage, session);
+      await this.writeIndex(storage);
+    });
+  }
+
+  /**
+   * Persist a full sessions map. Stored sessions missing from the map are deleted.
+   */
+  saveSessions(sessions: Record<string, ChatSession>): Promise<void> {
+    return this.enqueue(async storage => {
+      const index = await this.getIndex();
+
+      for (const sessionId of Array.from(index.keys())) {
+        if (!sessions[sessionId]) {
+          await this.removeSession(storage, sessionId);
+        }
+      }
+      for (const session of Object.values(sessions)) {
+        await this.writeSession(storage, session);
+      }
+
+      await this.writeIndex(storage);
+    });
+  }
+
+  /**
+   * Delete a session and all of its message pages
+   */
+  deleteSession(sessionId: string): Promise<void> {
+    return this.enqueue(async storage => {
+      await this.removeSession(storage, sessionId);
+      await this.writeIndex(storage);
+    });
+  }
+
+  /**
+   * Move sessions from the legacy localStorage blob into the repository.
+   * Runs once; returns the number of sessions migrated.
+   */
+  async migrateLegacySessions(): Promise<number> {
+    if (typeof localStorage === 'undefined') {
+      return 0;
+    }
+
+    const storage = await this.getStorage();
+    if (await storage.get(MIGRATION_KEY)) {
+      return 0;
+    }
+
+    let legacySessions: ChatSession[] = [];
+    try {
+      const stored = localStorage.getItem(LEGACY_SESSIONS_KEY);
+      if (stored) {
+        legacySessions = Object.values(JSON.parse(stored) as Record<string, ChatSession>).filter(
+          session => session && session.id && Array.isArray(session.messages)
+        );
+      }
+    } catch (error) {
+      console.error('Failed to read legacy chat sessions:', error);
+    }
+
+    await this.enqueue(async storage => {
+      for (const session of legacySessions) {
+        await this.writeSession(storage, { ...session, olderMessageCount: 0 });
+      }
+      await this.writeIndex(storage);
+      await storage.set(MIGRATION_KEY, {
+        migratedAt: Date.now(),
+        sessionCount: legacySessions.length,
+      });
+    });
+
+    localStorage.removeItem(LEGACY_SESSIONS_KEY);
+    return legacySessions.length;
+  }
+
+  private getStorage(): Promise<StorageAPI> {
+    if (!this.storagePromise) {
+      this.storagePromise = resolveChatStorage();
+    }
+    return this.storagePromise;
+  }
+
+  private async getIndex(): Promise<Map<string, ChatSessionSummary>> {
+    if (!this.index) {
+      const storage = await this.getStorage();
+      const stored = (await storage.get<ChatSessionSummary[]>(INDEX_KEY)) || [];
+      this.index = new Map(stored.map(summary => [summary.id, summary]));
+    }
+    return this.index;
+  }
+
+  // Serialize writes so overlapping saves cannot interleave page updates
+  private enqueue(task: (storage: StorageAPI) => Promise<void>): Promise<void> {
+    const run = this.writeQueue.then(async () => task(await this.getStorage()));
+    this.writeQueue = run.catch(error => {
+      console.error('Chat repository write failed:', error);
+    });
+    return run;
+  }
+
+  private async readPage(storage: StorageAPI, key: string): Promise<ChatMessage[]> {
+    return (await this.readRecord<ChatMessage[]>(storage, key)) || [];
+  }
+
+  private async readRecord<T>(storage: StorageAPI, key: string): Promise<T | null> {
+    const value = await storage.get<T>(key);
+    this.writtenRecords.set(key, JSON.stringify(value ?? null));
+    return value ?? null;
+  }
+
+  // Write a record unless it is unchanged since the last read or write; null removes it
+  private async writeRecord(storage: StorageAPI, key: string, value: unknown) {
+    const serialized = JSON.stringify(value ?? null);
+    if (this.writtenRecords.get(key) === serialized) {
+      return;
+    }
+
+    if (value === null || value === undefined) {
+      await storage.remove(key);
+    } else {
+      await storage.set(key, value);
+    }
+    this.writtenRecords.set(key, serialized);
+  }
+
+  private async removeRecord(storage: StorageAPI, key: string) {
+    await storage.remove(key);
+    this.writtenRecords.delete(key);
+  }
+
+  private async writeSession(storage: StorageAPI, session: ChatSession) {
+    const index = await this.getIndex();
+    const previousCount = index.get(session.id)?.messageCount ?? 0;
+
+    // Loaded messages always start on a page boundary, so pages before it are untouched
+    const offset = session.olderMessageCount ?? 0;
+    const messageCount = offset + session.messages.length;
+    const totalPages = pageCountFor(messageCount);
+
+    for (let page = Math.floor(offset / MESSAGES_PER_PAGE); page < totalPages; page++) {
+      const start = page * MESSAGES_PER_PAGE - offset;
+      await this.writeRecord(
+        storage,
+        pageKey(session.id, page),
+        session.messages.slice(start, start + MESSAGES_PER_PAGE)
+      );
+    }
+    for (let page = totalPages; page < pageCountFor(previousCount); page++) {
+      await this.removeRecord(storage, pageKey(session.id, page));
+    }
+    await this.writeRecord(storage, contextKey(session.id), session.context ?? null);
+
+    index.set(session.id, {
+      id: session.id,
+      title: session.title,
+      messageCount,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      ...(session.pinned && { pinned: true }),
+    });
+  }
+
+  private async removeSession(storage: StorageAPI, sessionId: string) {
+    const index = await this.getIndex();
+    const summary = index.get(sessionId);
+    if (!summary) {
+      return;
+    }
+
+    for (let page = 0; page < pageCountFor(summary.messageCount); page++) {
+      await this.removeRecord(storage, pageKey(sessionId, page));
+    }
+    await this.removeRecord(storage, contextKey(sessionId));
+    index.delete(sessionId);
+  }
+
+  private async writeIndex(storage: StorageAPI) {
+    const index = await this.getIndex();
+    await storage.set(INDEX_KEY, Array.from(index.values()));
+  }
+}
+
+// Shared repository instance used by the AI chat panel
+export const chatRepository = new ChatRepository();
@@ -0,0 +1,116 @@
+/**
+ * Page Context Capture
+ * Pulls the active tab's content or selection from the content script to ground a chat
+ */
+
+import { getPlatformAPI } from '@/platform';
+import { extensionMessaging } from '@/utils/extension';
+import type { ChatContext } from '@/types/chat';
+
+// Characters of page text sent with each request
+export const MAX_CONTEXT_CHARS = 12000;
+
+const isWebPage = (url?: string) => !!url && /^https?:/i.test(url);
+
+// Chrome 121+ reports when a tab was last active; older type definitions lack it
+type RecentTab = chrome.tabs.Tab & { lastAccessed?: number };
+
+/**
+ * Find the tab to read from. From the new-tab dashboard the active tab is the
+ * dashboard itself, so fall back to the most recently used web page.
+ */
+const findSourceTab = async (): Promise<chrome.tabs.Tab | null> => {
+  const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (activeTab?.id !== undefined && isWebPage(activeTab.url)) {
+    return activeTab;
+  }
+
+  const tabs: RecentTab[] = await chrome.tabs.query({});
+  return (
+    tabs
+      .filter(tab => tab.id !== undefined && isWebPage(tab.url))
+      .sort((a, b) => (b.lastAccessed ?? 0) - (a.lastAccessed ?? 0))[0] || null
+  );
+};
+
+const normalizeText = (text: string) =>
+  text
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * Capture the current page (main content) or the text selected on it
+ */
+export const capturePageContext = async (kind: ChatContext['kind']): Promise<ChatContext> => {
+  const api = await getPlatformAPI();
+  if (api.type !== 'chrome') {
+    throw new Error('Page context is only available in the browser extension');
+  }
+
+  const tab = await findSourceTab();
+  if (!tab?.id) {
+    throw new Error('No web page is open to read from');
+  }
+
+  const pageResponse = await extensionMessaging.sendToContent(tab.id, 'getPageContext');
+  if (!pageResponse.success) {
+    throw new Error(`Could not read "${tab.title || tab.url}". Reload the page and try again.`);
+  }
+
+  const page = pageResponse.data || {};
+  let content: string;
+
+  if (kind === 'selection') {
+    content = normalizeText(page.selectedText || '');
+    if (!content) {
+      throw new Error('Select some text on the page first');
+    }
+  } else {
+    const extractResponse = await extensionMessaging.sendToContent(tab.id, 'extractContent');
+    content = normalizeText(extractResponse.success ? extractResponse.data?.content || '' : '');
+    if (!content) {
+      content = normalizeText(page.metadata?.description || '');
+    }
+    if (!content) {
+      throw new Error('No readable content found on the page');
+    }
+  }
+
+  const url: string = page.url || tab.url || '';
+
+  return {
+    kind,
+    url,
+    title: page.title || tab.title || url,
+    domain: page.domain || (url ? new URL(url).hostname : ''),
+    content: content.slice(0, MAX_CONTEXT_CHARS),
+    truncated: content.length > MAX_CONTEXT_CHARS,
+    capturedAt: Date.now(),
+  };
+};
+
+/**
+ * Build the system prompt that grounds replies on captured page content
+ */
+export const buildContextPrompt = (context: ChatContext): string => {
+  const source = context.kind === 'selection' ? 'text selected on a web page' : 'a web page';
+
+  const lines = [
+    `The user is asking about ${source}. Use it as the primary source for your answers and say so when it does not contain the answer.`,
+    '',
+    `Title: ${context.title}`,
+    `URL: ${context.url}`,
+    '',
+    '<page_content>',
+    context.content,
+  ];
+
+  if (context.truncated) {
+    lines.push('[content truncated]');
+  }
+  lines.push('</page_content>');
+
+  return lines.join('\n');
+};
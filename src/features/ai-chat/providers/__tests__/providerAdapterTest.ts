@@ -0,0 +1,321 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Provider Adapter Test Suite
+ * Verifies request shapes and response parsing against a local HTTP stub
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  createProviderAdapter,
+  getProviderModels,
+  toProviderMessages,
+  type ProviderRequest,
+} from '../index';
+import type { ChatMessage } from '@/types/chat';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+// Canned provider responses keyed by path prefix
+const stubResponses: Record<string, any> = {
+  '/v1/messages': {
+    model: 'claude-3-5-sonnet-latest',
+    content: [{ type: 'text', text: 'Hello from Claude' }],
+    stop_reason: 'end_turn',
+    usage: { input_tokens: 12, output_tokens: 4 },
+  },
+  '/v1/chat/completions': {
+    model: 'gpt-4',
+    choices: [
+      { message: { role: 'assistant', content: 'Hello from OpenAI' }, finish_reason: 'stop' },
+    ],
+    usage: { prompt_tokens: 10, completion_tokens: 3 },
+  },
+  '/v1beta/models/': {
+    candidates: [
+      { content: { parts: [{ text: 'Hello ' }, { text: 'from Gemini' }] }, finishReason: 'STOP' },
+    ],
+    usageMetadata: { promptTokenCount: 8, candidatesTokenCount: 3 },
+  },
+};
+
+// Streamed events keyed by path prefix, sent when the request asks for a stream
+const stubStreams: Record<string, string[]> = {
+  '/v1/messages': [
+    'event: message_start\ndata: {"type":"message_start"}',
+    'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hel"}}',
+    'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"lo"}}',
+    'event: message_stop\ndata: {"type":"message_stop"}',
+  ],
+  '/v1/chat/completions': [
+    'data: {"choices":[{"delta":{"role":"assistant"}}]}',
+    'data: {"choices":[{"delta":{"content":"Hi "}}]}',
+    'data: {"choices":[{"delta":{"content":"there"}}]}',
+    'data: [DONE]',
+  ],
+};
+
+let server: http.Server;
+let baseUrl: string;
+let recorded: RecordedRequest[] = [];
+let failNext: { status: number; body: any } | null = null;
+// Events streamed in place of stubStreams for the next streaming request
+let streamNext: string[] | null = null;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => (raw += chunk));
+    req.on('end', () => {
+      recorded.push({
+        method: req.method || '',
+        url: req.url || '',
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : null,
+      });
+
+      res.setHeader('Content-Type', 'application/json');
+
+      if (failNext) {
+        res.statusCode = failNext.status;
+        res.end(JSON.stringify(failNext.body));
+        failNext = null;
+        return;
+      }
+
+      const streamMatch = Object.keys(stubStreams).find(path => req.url?.startsWith(path));
+      const body = raw ? JSON.parse(raw) : {};
+      if (streamMatch && body.stream) {
+        res.setHeader('Content-Type', 'text/event-stream');
+        // Split events across writes to exercise buffering
+        const payload = (streamNext || stubStreams[streamMatch]!).join('\n\n') + '\n\n';
+        streamNext = null;
+        const middle = Math.floor(payload.length / 2);
+        res.write(payload.slice(0, middle));
+        res.end(payload.slice(middle));
+        return;
+      }
+
+      const match = Object.keys(stubResponses).find(path => req.url?.startsWith(path));
+      res.statusCode = match ? 200 : 404;
+      res.end(JSON.stringify(match ? stubResponses[match] : { error: { message: 'not found' } }));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  recorded = [];
+  failNext = null;
+  streamNext = null;
+});
+
+const request: ProviderRequest = {
+  model: 'test-model',
+  systemPrompt: 'Be brief.',
+  temperature: 0.2,
+  maxTokens: 256,
+  messages: [
+    { role: 'user', content: 'Hi' },
+    { role: 'assistant', content: 'Hello!' },
+    { role: 'user', content: 'How are you?' },
+  ],
+};
+
+describe('Provider Adapters', () => {
+  describe('Claude', () => {
+    test('sends a Messages API request', async () => {
+      const adapter = createProviderAdapter('claude', { apiKey: 'sk-ant-test', baseUrl });
+      const response = await adapter.complete(request);
+
+      const sent = recorded[0]!;
+      expect(sent.method).toBe('POST');
+      expect(sent.url).toBe('/v1/messages');
+      expect(sent.headers['x-api-key']).toBe('sk-ant-test');
+      expect(sent.headers['anthropic-version']).toBe('2023-06-01');
+      expect(sent.body).toEqual({
+        model: 'test-model',
+        max_tokens: 256,
+        temperature: 0.2,
+        system: 'Be brief.',
+        messages: request.messages,
+      });
+
+      expect(response.content).toBe('Hello from Claude');
+      expect(response.finishReason).toBe('end_turn');
+      expect(response.usage).toEqual({ inputTokens: 12, outputTokens: 4 });
+    });
+
+    test('refuses to send without an API key', async () => {
+      const adapter = createProviderAdapter('claude', { baseUrl });
+      await expect(adapter.complete(request)).rejects.toThrow('API key is not configured');
+      expect(recorded).toHaveLength(0);
+    });
+  });
+
+  describe('OpenAI', () => {
+    test('sends a Chat Completions request with the system prompt first', async () => {
+      const adapter = createProviderAdapter('gpt4', { apiKey: 'sk-test', baseUrl });
+      const response = await adapter.complete(request);
+
+      const sent = recorded[0]!;
+      expect(sent.url).toBe('/v1/chat/completions');
+      expect(sent.headers.authorization).toBe('Bearer sk-test');
+      expect(sent.body.messages[0]).toEqual({ role: 'system', content: 'Be brief.' });
+      expect(sent.body.messages.slice(1)).toEqual(request.messages);
+      expect(sent.body.max_tokens).toBe(256);
+
+      expect(response.content).toBe('Hello from OpenAI');
+      expect(response.usage).toEqual({ inputTokens: 10, outputTokens: 3 });
+    });
+
+    test('surfaces API error messages', async () => {
+      failNext = { status: 401, body: { error: { message: 'Invalid API key' } } };
+      const adapter = createProviderAdapter('gpt4', { apiKey: 'bad', baseUrl });
+      await expect(adapter.complete(request)).rejects.toThrow('(401): Invalid API key');
+    });
+  });
+
+  describe('Gemini', () => {
+    test('maps roles and system instruction', async () => {
+      const adapter = createProviderAdapter('gemini', { apiKey: 'g-test', baseUrl });
+      const response = await adapter.complete({ ...request, model: 'gemini-1.5-pro' });
+
+      const sent = recorded[0]!;
+      expect(sent.url).toBe('/v1beta/models/gemini-1.5-pro:generateContent');
+      expect(sent.headers['x-goog-api-key']).toBe('g-test');
+      expect(sent.body.contents.map((c: any) => c.role)).toEqual(['user', 'model', 'user']);
+      expect(sent.body.systemInstruction).toEqual({ parts: [{ text: 'Be brief.' }] });
+      expect(sent.body.generationConfig).toEqual({ temperature: 0.2, maxOutputTokens: 256 });
+
+      expect(response.content).toBe('Hello from Gemini');
+    });
+  });
+
+  describe('Local', () => {
+    test('uses the OpenAI-compatible endpoint without requiring a key', async () => {
+      const adapter = createProviderAdapter('local', { baseUrl: `${baseUrl}/` });
+      const response = await adapter.complete({ ...request, model: 'mistral' });
+
+      const sent = recorded[0]!;
+      expect(sent.url).toBe('/v1/chat/completions');
+      expect(sent.headers.authorization).toBeUndefined();
+      expect(sent.body.model).toBe('mistral');
+      expect(response.content).toBe('Hello from OpenAI');
+    });
+  });
+
+  describe('Streaming', () => {
+    test('streams Claude text deltas', async () => {
+      const adapter = createProviderAdapter('claude', { apiKey: 'sk-ant-test', baseUrl });
+      const tokens: string[] = [];
+      const response = await adapter.stream(request, token => tokens.push(token));
+
+      expect(recorded[0]!.body.stream).toBe(true);
+      expect(tokens).toEqual(['Hel', 'lo']);
+      expect(response.content).toBe('Hello');
+    });
+
+    test('streams OpenAI deltas and stops at [DONE]', async () => {
+      const adapter = createProviderAdapter('gpt4', { apiKey: 'sk-test', baseUrl });
+      const tokens: string[] = [];
+      const response = await adapter.stream(request, token => tokens.push(token));
+
+      expect(tokens).toEqual(['Hi ', 'there']);
+      expect(response.content).toBe('Hi there');
+    });
+
+    test('rejects on error events sent mid-stream', async () => {
+      const claude = createProviderAdapter('claude', { apiKey: 'sk-ant-test', baseUrl });
+      const tokens: string[] = [];
+      streamNext = [
+        'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hel"}}',
+        'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}',
+      ];
+      await expect(claude.stream(request, token => tokens.push(token))).rejects.toThrow(
+        'Claude stream failed: Overloaded'
+      );
+      expect(tokens).toEqual(['Hel']);
+
+      const openai = createProviderAdapter('gpt4', { apiKey: 'sk-test', baseUrl });
+      streamNext = [
+        'data: {"choices":[{"delta":{"content":"Hi "}}]}',
+        'data: {"error":{"message":"Model crashed","type":"server_error"}}',
+      ];
+      await expect(openai.stream(request, () => {})).rejects.toThrow('Model crashed');
+    });
+
+    test('rejects when the token handler throws', async () => {
+      const adapter = createProviderAdapter('gpt4', { apiKey: 'sk-test', baseUrl });
+      await expect(
+        adapter.stream(request, () => {
+          throw new Error('render failed');
+        })
+      ).rejects.toThrow('render failed');
+    });
+
+    test('falls back to a complete body when the server does not stream', async () => {
+      const adapter = createProviderAdapter('gemini', { apiKey: 'g-test', baseUrl });
+      const tokens: string[] = [];
+      await adapter.stream({ ...request, model: 'gemini-1.5-pro' }, token => tokens.push(token));
+
+      expect(recorded[0]!.url).toBe('/v1beta/models/gemini-1.5-pro:streamGenerateContent?alt=sse');
+      expect(tokens).toEqual(['Hello from Gemini']);
+    });
+
+    test('rejects when aborted', async () => {
+      const adapter = createProviderAdapter('gpt4', { apiKey: 'sk-test', baseUrl });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        adapter.stream({ ...request, signal: controller.signal }, () => {})
+      ).rejects.toThrow();
+    });
+  });
+
+  test('every provider exposes a model list', () => {
+    (['claude', 'gpt4', 'gemini', 'local'] as const).forEach(provider => {
+      expect(getProviderModels(provider).length).toBeGreaterThan(0);
+    });
+  });
+});
+
+describe('toProviderMessages', () => {
+  const message = (type: ChatMessage['type'], content: string, error?: boolean): ChatMessage => ({
+    id: content,
+    type,
+    content,
+    timestamp: 0,
+    ...(error && { error }),
+  });
+
+  test('drops greetings and failed replies, merges same-role runs', () => {
+    const result = toProviderMessages([
+      message('assistant', 'Welcome'),
+      message('user', 'First'),
+      message('assistant', 'Oops', true),
+      message('user', 'Second'),
+      message('assistant', 'Answer'),
+    ]);
+
+    expect(result).toEqual([
+      { role: 'user', content: 'First\n\nSecond' },
+      { role: 'assistant', content: 'Answer' },
+    ]);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Claude Provider Adapter
+ * Talks to the Anthropic Messages API
+ */
+
+import {
+  BaseProviderAdapter,
+  DEFAULT_MAX_TOKENS,
+  DEFAULT_TEMPERATURE,
+  type HttpRequest,
+  type ModelOption,
+  type ProviderRequest,
+  type ProviderResponse,
+} from './base';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export class ClaudeAdapter extends BaseProviderAdapter {
+  readonly id = 'claude' as const;
+  readonly name = 'Claude';
+  readonly defaultBaseUrl = 'https://api.anthropic.com';
+  readonly models: ModelOption[] = [
+    { value: 'claude-3-5-sonnet-latest', label: 'Claude 3.5 Sonnet' },
+    { value: 'claude-3-5-haiku-latest', label: 'Claude 3.5 Haiku' },
+    { value: 'claude-3-opus-latest', label: 'Claude 3 Opus' },
+  ];
+
+  buildRequest(request: ProviderRequest): HttpRequest {
+    const body: Record<string, unknown> = {
+      model: request.model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      messages: request.messages.map(message => ({
+        role: message.role,
+        content: message.content,
+      })),
+    };
+
+    if (request.systemPrompt) {
+      body.system = request.systemPrompt;
+    }
+    if (request.stream) {
+      body.stream = true;
+    }
+
+    return {
+      url: `${this.baseUrl}/v1/messages`,
+      init: this.jsonInit(
+        {
+          'x-api-key': this.config.apiKey || '',
+          'anthropic-version': ANTHROPIC_VERSION,
+          // Required for calls made directly from extension and web pages
+          'anthropic-dangerous-direct-browser-access': 'true',
+        },
+        body,
+        request.signal
+      ),
+    };
+  }
+
+  protected parseResponse(body: any, request: ProviderRequest): ProviderResponse {
+    const content = Array.isArray(body?.content)
+      ? body.content
+          .filter((block: any) => block?.type === 'text')
+          .map((block: any) => block.text)
+          .join('')
+      : '';
+
+    const response: ProviderResponse = {
+      content,
+      model: body?.model || request.model,
+    };
+
+    if (body?.stop_reason) {
+      response.finishReason = body.stop_reason;
+    }
+    if (body?.usage) {
+      response.usage = {
+        inputTokens: body.usage.input_tokens ?? 0,
+        outputTokens: body.usage.output_tokens ?? 0,
+      };
+    }
+
+    return response;
+  }
+
+  protected parseStreamEvent(event: any): string | null {
+    if (event?.type === 'error') {
+      throw this.streamError(event.error);
+    }
+    if (event?.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      return event.delta.text || null;
+    }
+    return null;
+  }
+}
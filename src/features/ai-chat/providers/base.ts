@@ -0,0 +1,251 @@
+/**
+ * AI Provider Adapter Base
+ * Defines the adapter contract shared by every chat provider and the HTTP plumbing they reuse
+ */
+
+import type { AIProvider, ChatMessage } from '@/types/chat';
+
+// Model option shown in the model selector
+export interface ModelOption {
+  value: string;
+  label: string;
+}
+
+// User-supplied connection settings for a provider
+export interface ProviderConfig {
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+// Provider-neutral chat message
+export interface ProviderMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Provider-neutral completion request
+export interface ProviderRequest {
+  model: string;
+  messages: ProviderMessage[];
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
+  stream?: boolean;
+  signal?: AbortSignal;
+}
+
+// Provider-neutral completion response
+export interface ProviderResponse {
+  content: string;
+  model: string;
+  finishReason?: string;
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+}
+
+// Receives each text delta as it arrives from a streaming response
+export type TokenHandler = (token: string) => void;
+
+// Fully built HTTP request, exposed so request shapes can be inspected
+export interface HttpRequest {
+  url: string;
+  init: RequestInit;
+}
+
+// Adapter interface implemented by every provider
+export interface AIProviderAdapter {
+  readonly id: AIProvider;
+  readonly name: string;
+  readonly models: ModelOption[];
+  readonly requiresApiKey: boolean;
+
+  buildRequest(request: ProviderRequest): HttpRequest;
+  complete(request: ProviderRequest): Promise<ProviderResponse>;
+  stream(request: ProviderRequest, onToken: TokenHandler): Promise<ProviderResponse>;
+}
+
+export const DEFAULT_MAX_TOKENS = 2000;
+export const DEFAULT_TEMPERATURE = 0.7;
+
+/**
+ * Shared request/response handling for HTTP-based providers
+ */
+export abstract class BaseProviderAdapter implements AIProviderAdapter {
+  abstract readonly id: AIProvider;
+  abstract readonly name: string;
+  abstract readonly models: ModelOption[];
+  abstract readonly defaultBaseUrl: string;
+  readonly requiresApiKey: boolean = true;
+
+  protected config: ProviderConfig;
+
+  constructor(config: ProviderConfig = {}) {
+    this.config = config;
+  }
+
+  abstract buildRequest(request: ProviderRequest): HttpRequest;
+  protected abstract parseResponse(body: any, request: ProviderRequest): ProviderResponse;
+  // Extract the text delta from one streamed event; null when the event carries no text.
+  // Throws when the event reports an error, e.g. the server overloaded mid-reply.
+  protected abstract parseStreamEvent(event: any): string | null;
+
+  async complete(request: ProviderRequest): Promise<ProviderResponse> {
+    const response = await this.send({ ...request, stream: false });
+    return this.parseResponse(await response.json(), request);
+  }
+
+  async stream(request: ProviderRequest, onToken: TokenHandler): Promise<ProviderResponse> {
+    const response = await this.send({ ...request, stream: true });
+
+    // Servers that ignore the stream flag still answer with a complete body
+    const contentType = response.headers.get('content-type') || '';
+    if (!response.body || contentType.includes('application/json')) {
+      const result = this.parseResponse(await response.json(), request);
+      if (result.content) onToken(result.content);
+      return result;
+    }
+
+    let content = '';
+    await readEventStream(response.body, event => {
+      const token = this.parseStreamEvent(event);
+      if (token) {
+        content += token;
+        onToken(token);
+      }
+    });
+
+    return { content, model: request.model };
+  }
+
+  private async send(request: ProviderRequest): Promise<Response> {
+    if (this.requiresApiKey && !this.config.apiKey) {
+      throw new Error(`${this.name} API key is not configured`);
+    }
+
+    const { url, init } = this.buildRequest(request);
+    const response = await fetch(url, init);
+
+    if (!response.ok) {
+      throw new Error(
+        `${this.name} request failed (${response.status}): ${await this.readErrorMessage(response)}`
+      );
+    }
+
+    return response;
+  }
+
+  protected get baseUrl(): string {
+    return (this.config.baseUrl || this.defaultBaseUrl).replace(/\/+$/, '');
+  }
+
+  protected jsonInit(headers: Record<string, string>, body: unknown, signal?: AbortSignal) {
+    const init: RequestInit = {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    };
+    if (signal) {
+      init.signal = signal;
+    }
+    return init;
+  }
+
+  // Error for an error event sent in place of the rest of a streamed reply
+  protected streamError(error: any): Error {
+    const message = typeof error === 'string' ? error : error?.message || error?.type;
+    return new Error(`${this.name} stream failed: ${message || 'unknown error'}`);
+  }
+
+  private async readErrorMessage(response: Response): Promise<string> {
+    try {
+      const text = await response.text();
+      try {
+        const body = JSON.parse(text);
+        return body?.error?.message || body?.message || text || response.statusText;
+      } catch {
+        return text || response.statusText;
+      }
+    } catch {
+      return response.statusText;
+    }
+  }
+}
+
+/**
+ * Read a server-sent event stream (or newline-delimited JSON) and hand each
+ * parsed JSON payload to the callback. An error thrown by the callback stops
+ * reading and rejects.
+ */
+export const readEventStream = async (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: any) => void
+): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const handleLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith(':') || trimmed.startsWith('event:')) return;
+
+    const payload = trimmed.startsWith('data:') ? trimmed.slice(5).trim() : trimmed;
+    if (payload === '[DONE]') return;
+
+    let event: unknown;
+    try {
+      event = JSON.parse(payload);
+    } catch {
+      // Ignore keep-alives and partial garbage between events
+      return;
+    }
+    onEvent(event);
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(handleLine);
+    }
+
+    buffer += decoder.decode();
+    handleLine(buffer);
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+};
+
+/**
+ * Convert chat session messages into the provider-neutral format.
+ * Greetings before the first user message and failed replies are dropped,
+ * and consecutive messages from the same role are merged so every provider
+ * receives a strictly alternating conversation.
+ */
+export const toProviderMessages = (messages: ChatMessage[]): ProviderMessage[] => {
+  const result: ProviderMessage[] = [];
+
+  for (const message of messages) {
+    if (message.error) continue;
+
+    const role = message.type;
+    if (result.length === 0 && role === 'assistant') continue;
+
+    const previous = result[result.length - 1];
+    if (previous && previous.role === role) {
+      previous.content = `${previous.content}\n\n${message.content}`;
+    } else {
+      result.push({ role, content: message.content });
+    }
+  }
+
+  return result;
+};
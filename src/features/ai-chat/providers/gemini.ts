@@ -0,0 +1,80 @@
+/**
+ * Gemini Provider Adapter
+ * Talks to the Google Generative Language API
+ */
+
+import {
+  BaseProviderAdapter,
+  DEFAULT_MAX_TOKENS,
+  DEFAULT_TEMPERATURE,
+  type HttpRequest,
+  type ModelOption,
+  type ProviderRequest,
+  type ProviderResponse,
+} from './base';
+
+export class GeminiAdapter extends BaseProviderAdapter {
+  readonly id = 'gemini' as const;
+  readonly name = 'Gemini';
+  readonly defaultBaseUrl = 'https://generativelanguage.googleapis.com';
+  readonly models: ModelOption[] = [
+    { value: 'gemini-1.5-pro', label: 'Gemini 1.5 Pro' },
+    { value: 'gemini-1.5-flash', label: 'Gemini 1.5 Flash' },
+  ];
+
+  buildRequest(request: ProviderRequest): HttpRequest {
+    const body: Record<string, unknown> = {
+      contents: request.messages.map(message => ({
+        // Gemini calls the assistant role "model"
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }],
+      })),
+      generationConfig: {
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        maxOutputTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      },
+    };
+
+    if (request.systemPrompt) {
+      body.systemInstruction = { parts: [{ text: request.systemPrompt }] };
+    }
+
+    const model = encodeURIComponent(request.model);
+    const method = request.stream ? 'streamGenerateContent?alt=sse' : 'generateContent';
+
+    return {
+      url: `${this.baseUrl}/v1beta/models/${model}:${method}`,
+      init: this.jsonInit({ 'x-goog-api-key': this.config.apiKey || '' }, body, request.signal),
+    };
+  }
+
+  protected parseResponse(body: any, request: ProviderRequest): ProviderResponse {
+    const candidate = body?.candidates?.[0];
+    const parts: any[] = candidate?.content?.parts || [];
+
+    const response: ProviderResponse = {
+      content: parts.map(part => part?.text || '').join(''),
+      model: body?.modelVersion || request.model,
+    };
+
+    if (candidate?.finishReason) {
+      response.finishReason = candidate.finishReason;
+    }
+    if (body?.usageMetadata) {
+      response.usage = {
+        inputTokens: body.usageMetadata.promptTokenCount ?? 0,
+        outputTokens: body.usageMetadata.candidatesTokenCount ?? 0,
+      };
+    }
+
+    return response;
+  }
+
+  protected parseStreamEvent(event: any): string | null {
+    if (event?.error) {
+      throw this.streamError(event.error);
+    }
+    const parts: any[] = event?.candidates?.[0]?.content?.parts || [];
+    return parts.map(part => part?.text || '').join('') || null;
+  }
+}
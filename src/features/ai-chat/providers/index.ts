@@ -0,0 +1,88 @@
+/**
+ * AI Provider Registry
+ * Creates provider adapters and persists per-provider connection settings
+ */
+
+import { getPlatformAPI } from '@/platform';
+import type { AIProvider } from '@/types/chat';
+import type { AIProviderAdapter, ModelOption, ProviderConfig } from './base';
+import { ClaudeAdapter } from './anthropic';
+import { OpenAIAdapter } from './openai';
+import { GeminiAdapter } from './gemini';
+import { LocalModelAdapter } from './local';
+
+// Per-provider connection settings as stored on the platform
+export type ProviderSettings = Partial<Record<AIProvider, ProviderConfig>>;
+
+const PROVIDER_SETTINGS_KEY = 'ai_provider_settings';
+
+const adapterFactories: Record<AIProvider, (config: ProviderConfig) => AIProviderAdapter> = {
+  claude: config => new ClaudeAdapter(config),
+  gpt4: config => new OpenAIAdapter(config),
+  gemini: config => new GeminiAdapter(config),
+  local: config => new LocalModelAdapter(config),
+};
+
+// Provider options for selectors, in display order
+export const PROVIDER_OPTIONS: Array<{ value: AIProvider; label: string }> = [
+  { value: 'claude', label: 'Claude' },
+  { value: 'gpt4', label: 'GPT-4' },
+  { value: 'gemini', label: 'Gemini' },
+  { value: 'local', label: 'Local Models' },
+];
+
+/**
+ * Create an adapter for the given provider
+ */
+export const createProviderAdapter = (
+  provider: AIProvider,
+  config: ProviderConfig = {}
+): AIProviderAdapter => {
+  const factory = adapterFactories[provider] || adapterFactories.claude;
+  return factory(config);
+};
+
+/**
+ * Get the models offered by a provider
+ */
+export const getProviderModels = (provider: AIProvider): ModelOption[] => {
+  return createProviderAdapter(provider).models;
+};
+
+/**
+ * Load saved provider settings
+ */
+export const loadProviderSettings = async (): Promise<ProviderSettings> => {
+  try {
+    const api = await getPlatformAPI();
+    return (await api.storage.get<ProviderSettings>(PROVIDER_SETTINGS_KEY)) || {};
+  } catch (error) {
+    console.error('Failed to load provider settings:', error);
+    return {};
+  }
+};
+
+/**
+ * Persist provider settings
+ */
+export const saveProviderSettings = async (settings: ProviderSettings): Promise<void> => {
+  try {
+    const api = await getPlatformAPI();
+    await api.storage.set(PROVIDER_SETTINGS_KEY, settings);
+  } catch (error) {
+    console.error('Failed to save provider settings:', error);
+  }
+};
+
+export { ClaudeAdapter, OpenAIAdapter, GeminiAdapter, LocalModelAdapter };
+export { BaseProviderAdapter, readEventStream, toProviderMessages } from './base';
+export type {
+  AIProviderAdapter,
+  ModelOption,
+  ProviderConfig,
+  ProviderMessage,
+  ProviderRequest,
+  ProviderResponse,
+  HttpRequest,
+  TokenHandler,
+} from './base';
@@ -0,0 +1,21 @@
+/**
+ * Local Model Provider Adapter
+ * OpenAI-compatible adapter for self-hosted llama/mistral endpoints (Ollama, llama.cpp, LM Studio)
+ */
+
+import { OpenAIAdapter } from './openai';
+import type { ModelOption } from './base';
+import type { AIProvider } from '@/types/chat';
+
+export class LocalModelAdapter extends OpenAIAdapter {
+  override readonly id: AIProvider = 'local';
+  override readonly name: string = 'Local Models';
+  // Ollama's default port; any OpenAI-compatible server works via baseUrl
+  override readonly defaultBaseUrl: string = 'http://localhost:11434';
+  override readonly requiresApiKey: boolean = false;
+  override readonly models: ModelOption[] = [
+    { value: 'llama2', label: 'Llama 2' },
+    { value: 'codellama', label: 'Code Llama' },
+    { value: 'mistral', label: 'Mistral 7B' },
+  ];
+}
@@ -0,0 +1,85 @@
+/**
+ * OpenAI Provider Adapter
+ * Talks to the Chat Completions API; also the base for OpenAI-compatible endpoints
+ */
+
+import {
+  BaseProviderAdapter,
+  DEFAULT_MAX_TOKENS,
+  DEFAULT_TEMPERATURE,
+  type HttpRequest,
+  type ModelOption,
+  type ProviderRequest,
+  type ProviderResponse,
+} from './base';
+import type { AIProvider } from '@/types/chat';
+
+export class OpenAIAdapter extends BaseProviderAdapter {
+  readonly id: AIProvider = 'gpt4';
+  readonly name: string = 'OpenAI';
+  readonly defaultBaseUrl: string = 'https://api.openai.com';
+  readonly models: ModelOption[] = [
+    { value: 'gpt-4-turbo', label: 'GPT-4 Turbo' },
+    { value: 'gpt-4', label: 'GPT-4' },
+    { value: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo' },
+  ];
+
+  buildRequest(request: ProviderRequest): HttpRequest {
+    const messages: Array<{ role: string; content: string }> = request.messages.map(message => ({
+      role: message.role,
+      content: message.content,
+    }));
+
+    if (request.systemPrompt) {
+      messages.unshift({ role: 'system', content: request.systemPrompt });
+    }
+
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    return {
+      url: `${this.baseUrl}/v1/chat/completions`,
+      init: this.jsonInit(
+        headers,
+        {
+          model: request.model,
+          messages,
+          temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          ...(request.stream && { stream: true }),
+        },
+        request.signal
+      ),
+    };
+  }
+
+  protected parseResponse(body: any, request: ProviderRequest): ProviderResponse {
+    const choice = body?.choices?.[0];
+
+    const response: ProviderResponse = {
+      content: choice?.message?.content ?? '',
+      model: body?.model || request.model,
+    };
+
+    if (choice?.finish_reason) {
+      response.finishReason = choice.finish_reason;
+    }
+    if (body?.usage) {
+      response.usage = {
+        inputTokens: body.usage.prompt_tokens ?? 0,
+        outputTokens: body.usage.completion_tokens ?? 0,
+      };
+    }
+
+    return response;
+  }
+
+  protected parseStreamEvent(event: any): string | null {
+    if (event?.error) {
+      throw this.streamError(event.error);
+    }
+    return event?.choices?.[0]?.delta?.content || null;
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Chat Session Export
+ * Converts chat sessions to Markdown and JSON archives, and reads JSON archives back
+ */
+
+import type { ChatContext, ChatMessage, ChatSession } from '@/types/chat';
+
+const EXPORT_FORMAT = 'lucaverse-chat';
+const EXPORT_VERSION = 1;
+
+// JSON archive layout
+export interface ChatSessionArchive {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: ChatSession;
+}
+
+/**
+ * Build a filesystem-safe file name for a session export
+ */
+export const getExportFileName = (session: ChatSession, extension: 'md' | 'json'): string => {
+  const slug =
+    session.title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 50) || 'chat';
+  const date = new Date(session.updatedAt).toISOString().split('T')[0];
+  return `${slug}-${date}.${extension}`;
+};
+
+/**
+ * Render a session as a Markdown transcript
+ */
+export const sessionToMarkdown = (session: ChatSession): string => {
+  const lines = [
+    `# ${session.title}`,
+    '',
+    `_Created ${new Date(session.createdAt).toLocaleString()} · Updated ${new Date(
+      session.updatedAt
+    ).toLocaleString()}_`,
+    '',
+  ];
+
+  if (session.context) {
+    const source = session.context.kind === 'selection' ? 'Selection from' : 'Grounded on';
+    lines.push(`> ${source} [${session.context.title}](${session.context.url})`, '');
+  }
+
+  for (const message of session.messages) {
+    const speaker = message.type === 'user' ? 'You' : 'Assistant';
+    const details = [new Date(message.timestamp).toLocaleString(), message.model]
+      .filter(Boolean)
+      .join(' · ');
+    const flags = [message.partial && 'stopped', message.error && 'error'].filter(Boolean);
+
+    lines.push(
+      `## ${speaker}`,
+      '',
+      `_${details}${flags.length ? ` (${flags.join(', ')})` : ''}_`,
+      '',
+      message.content,
+      ''
+    );
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * Serialize a session as a JSON archive that can be imported again
+ */
+export const sessionToJSON = (session: ChatSession): string => {
+  const { olderMessageCount: _olderMessageCount, ...stored } = session;
+  const archive: ChatSessionArchive = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: stored,
+  };
+  return JSON.stringify(archive, null, 2);
+};
+
+const isChatMessage = (value: any): value is ChatMessage =>
+  !!value &&
+  typeof value.id === 'string' &&
+  (value.type === 'user' || value.type === 'assistant') &&
+  typeof value.content === 'string' &&
+  typeof value.timestamp === 'number';
+
+const isChatContext = (value: any): value is ChatContext =>
+  !!value &&
+  (value.kind === 'page' || value.kind === 'selection') &&
+  typeof value.url === 'string' &&
+  typeof value.title === 'string' &&
+  typeof value.content === 'string';
+
+/**
+ * Parse a JSON archive produced by `sessionToJSON`.
+ * Throws when the content is not a valid chat archive.
+ */
+export const parseSessionJSON = (content: string): ChatSession => {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error('Chat import is not valid JSON');
+  }
+
+  const session = data?.format === EXPORT_FORMAT ? data.session : null;
+  if (!session || !Array.isArray(session.messages)) {
+    throw new Error('File is not a Lucaverse chat export');
+  }
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new Error(`Unsupported chat export version: ${data.version}`);
+  }
+
+  const messages = (session.messages as unknown[]).filter(isChatMessage);
+  const now = Date.now();
+
+  return {
+    id: typeof session.id === 'string' ? session.id : `chat_${now}`,
+    title: typeof session.title === 'string' && session.title ? session.title : 'Imported Chat',
+    messages,
+    createdAt: typeof session.createdAt === 'number' ? session.createdAt : now,
+    updatedAt: typeof session.updatedAt === 'number' ? session.updatedAt : now,
+    ...(session.pinned === true && { pinned: true }),
+    ...(isChatContext(session.context) && {
+      context: {
+        kind: session.context.kind,
+        url: session.context.url,
+        title: session.context.title,
+        domain: typeof session.context.domain === 'string' ? session.context.domain : '',
+        content: session.context.content,
+        truncated: session.context.truncated === true,
+        capturedAt:
+          typeof session.context.capturedAt === 'number' ? session.context.capturedAt : now,
+      },
+    }),
+  };
+};
@@ -0,0 +1,98 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Command Index Test Suite
+ * Verifies palette ranking, action filtering and shortcut formatting
+ */
+
+import {
+  formatShortcut,
+  rankCommands,
+  shortcutToHotkeys,
+  type PaletteCommand,
+} from '../commandIndex';
+import type { KeyboardShortcut } from '@/stores/appStore';
+
+const command = (
+  id: string,
+  group: PaletteCommand['group'],
+  title: string,
+  extra: Partial<PaletteCommand> = {}
+): PaletteCommand => ({
+  id,
+  group,
+  title,
+  icon: '•',
+  run: () => {},
+  ...extra,
+});
+
+const commands = [
+  command('chat-old', 'chat', 'Refactor ideas', { weight: 1 }),
+  command('chat-new', 'chat', 'Release notes', { weight: 2 }),
+  command('bookmark', 'bookmark', 'GitHub', { subtitle: 'https://github.com', keywords: ['code'] }),
+  command('task', 'task', 'Review pull request', { keywords: ['github'] }),
+  command('open', 'action', 'Open Smart Access Hub', { keywords: ['bookmarks'] }),
+  command('duplicate', 'panel', 'Duplicate Panel'),
+];
+
+const ids = (results: PaletteCommand[]) => results.map(result => result.id);
+
+const shortcut = (key: string, modifiers: KeyboardShortcut['modifiers']): KeyboardShortcut => ({
+  key,
+  modifiers,
+  action: 'test',
+  description: 'Test',
+  enabled: true,
+});
+
+describe('rankCommands', () => {
+  test('lists everything by group and weight for an empty query', () => {
+    expect(ids(rankCommands(commands, '  '))).toEqual([
+      'open',
+      'duplicate',
+      'bookmark',
+      'task',
+      'chat-new',
+      'chat-old',
+    ]);
+  });
+
+  test('prefers title matches and tolerates typos', () => {
+    expect(ids(rankCommands(commands, 'github'))).toEqual(['bookmark', 'task']);
+    expect(ids(rankCommands(commands, 'relase'))).toEqual(['chat-new']);
+  });
+
+  test('requires every word to match', () => {
+    expect(ids(rankCommands(commands, 'review request'))).toEqual(['task']);
+    expect(rankCommands(commands, 'review python')).toEqual([]);
+  });
+
+  test('limits results to actions after a leading >', () => {
+    expect(ids(rankCommands(commands, '>'))).toEqual(['open', 'duplicate']);
+    expect(ids(rankCommands(commands, '> bookmarks'))).toEqual(['open']);
+  });
+
+  test('caps the number of results', () => {
+    expect(rankCommands(commands, '', 2)).toHaveLength(2);
+  });
+});
+
+describe('shortcuts', () => {
+  test('formats shortcuts for each platform', () => {
+    expect(formatShortcut(shortcut('k', { ctrl: true }))).toBe('Ctrl+K');
+    expect(formatShortcut(shortcut('k', { ctrl: true }), true)).toBe('⌘K');
+    expect(formatShortcut(shortcut('Delete', {}))).toBe('Del');
+    expect(formatShortcut(shortcut('p', { ctrl: true, shift: true }))).toBe('Ctrl+Shift+P');
+  });
+
+  test('binds Ctrl shortcuts to Cmd as well', () => {
+    expect(shortcutToHotkeys(shortcut('K', { ctrl: true }))).toBe('ctrl+k, meta+k');
+    expect(shortcutToHotkeys(shortcut('p', { ctrl: true, shift: true }))).toBe(
+      'ctrl+shift+p, meta+shift+p'
+    );
+    expect(shortcutToHotkeys(shortcut('F12', {}))).toBe('f12');
+  });
+});
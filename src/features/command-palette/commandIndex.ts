@@ -0,0 +1,140 @@
+/**
+ * Command Index
+ * Ranks launcher commands against a typed query and formats their keyboard shortcuts
+ */
+
+import { fuzzyScore } from '@/features/smart-hub/bookmarkSearch';
+import type { KeyboardShortcut } from '@/stores/appStore';
+
+export type PaletteCommandGroup =
+  'action' | 'panel' | 'bookmark' | 'task' | 'chat' | 'workspace' | 'template';
+
+export interface PaletteCommand {
+  id: string;
+  group: PaletteCommandGroup;
+  title: string;
+  subtitle?: string;
+  icon: string;
+  keywords?: string[];
+  shortcut?: string;
+  disabled?: boolean;
+  // Higher comes first when the query is empty or scores tie, e.g. recency
+  weight?: number;
+  run: () => void | Promise<void>;
+}
+
+export const PALETTE_GROUP_LABELS: Record<PaletteCommandGroup, string> = {
+  action: 'Actions',
+  panel: 'Panel actions',
+  bookmark: 'Bookmarks',
+  task: 'Tasks',
+  chat: 'Chats',
+  workspace: 'Workspaces',
+  template: 'Templates',
+};
+
+// Order of groups when the query is empty
+const GROUP_ORDER: PaletteCommandGroup[] = [
+  'action',
+  'panel',
+  'workspace',
+  'template',
+  'bookmark',
+  'task',
+  'chat',
+];
+
+// How much each field counts towards a match
+const FIELD_WEIGHTS = { title: 1, keywords: 0.8, subtitle: 0.6 } as const;
+
+// Leading `>` limits results to actions, as in most editors
+const ACTIONS_PREFIX = '>';
+
+const commandScore = (term: string, command: PaletteCommand): number =>
+  Math.max(
+    FIELD_WEIGHTS.title * fuzzyScore(term, command.title),
+    FIELD_WEIGHTS.keywords *
+      Math.max(0, ...(command.keywords || []).map(keyword => fuzzyScore(term, keyword))),
+    FIELD_WEIGHTS.subtitle * fuzzyScore(term, command.subtitle || '')
+  );
+
+/**
+ * Commands matching a query, best first. Every word must match; an empty
+ * query lists commands by group and weight.
+ */
+export const rankCommands = (
+  commands: PaletteCommand[],
+  query: string,
+  limit: number = 50
+): PaletteCommand[] => {
+  let text = query.trim();
+  let candidates = commands;
+  if (text.startsWith(ACTIONS_PREFIX)) {
+    text = text.slice(ACTIONS_PREFIX.length).trim();
+    candidates = commands.filter(
+      command => command.group === 'action' || command.group === 'panel'
+    );
+  }
+
+  const terms = text.split(/\s+/).filter(Boolean);
+  const byWeight = (a: PaletteCommand, b: PaletteCommand) => (b.weight ?? 0) - (a.weight ?? 0);
+
+  if (terms.length === 0) {
+    return [...candidates]
+      .sort((a, b) => GROUP_ORDER.indexOf(a.group) - GROUP_ORDER.indexOf(b.group) || byWeight(a, b))
+      .slice(0, limit);
+  }
+
+  const ranked = candidates.flatMap(command => {
+    let total = 0;
+    for (const term of terms) {
+      const score = commandScore(term, command);
+      if (score === 0) return [];
+      total += score;
+    }
+    return [{ command, score: total / terms.length }];
+  });
+
+  return ranked
+    .sort((a, b) => b.score - a.score || byWeight(a.command, b.command))
+    .slice(0, limit)
+    .map(({ command }) => command);
+};
+
+const KEY_LABELS: Record<string, string> = {
+  Delete: 'Del',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+};
+
+/**
+ * Human-readable label for a shortcut, e.g. `Ctrl+K`, or `⌘K` on macOS
+ */
+export const formatShortcut = (shortcut: KeyboardShortcut, isMac: boolean = false): string => {
+  const { ctrl, shift, alt, meta } = shortcut.modifiers;
+  const key =
+    KEY_LABELS[shortcut.key] ??
+    (shortcut.key.length === 1 ? shortcut.key.toUpperCase() : shortcut.key);
+
+  if (isMac) {
+    return [ctrl || meta ? '⌘' : '', alt ? '⌥' : '', shift ? '⇧' : '', key].join('');
+  }
+  return [ctrl && 'Ctrl', meta && 'Meta', alt && 'Alt', shift && 'Shift', key]
+    .filter(Boolean)
+    .join('+');
+};
+
+/**
+ * Key combination for react-hotkeys-hook. Ctrl shortcuts also answer to Cmd
+ * so the same binding works on macOS.
+ */
+export const shortcutToHotkeys = (shortcut: KeyboardShortcut): string => {
+  const { ctrl, shift, alt, meta } = shortcut.modifiers;
+  const combo = (primary: 'ctrl' | 'meta' | null) =>
+    [primary, alt && 'alt', shift && 'shift', shortcut.key.toLowerCase()].filter(Boolean).join('+');
+
+  if (ctrl && !meta) return `${combo('ctrl')}, ${combo('meta')}`;
+  return combo(meta ? 'meta' : null);
+};
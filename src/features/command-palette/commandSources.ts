@@ -0,0 +1,251 @@
+/**
+ * Command Sources
+ * Collects launcher commands from panels, bookmarks, tasks, chats, workspaces and templates
+ */
+
+import { useLayoutStore } from '@/stores/layoutStore';
+import { useTemplateStore } from '@/stores/templateStore';
+import { PANEL_COMPONENTS } from '@/components/panels';
+import { chatRepository } from '@/features/ai-chat/chatRepository';
+import { openChatSession } from '@/features/ai-chat/chatNavigation';
+import { popularityScore } from '@/features/smart-hub/bookmarkSearch';
+import { TASKS_STORAGE_KEY, focusTaskInTaskManager } from '@/features/task-manager/taskInbox';
+import { PANEL_ACTIONS, hasCopiedPanels, runPanelAction, showPanel } from '@/utils/panelActions';
+import { workspaceManager } from '@/utils/workspaceManager';
+import type { Bookmark } from '@/types/bookmarks';
+import type { PanelLayout } from '@/types/panel';
+import { PanelComponent } from '@/types/panel';
+import type { Task } from '@/types/tasks';
+import type { PaletteCommand } from './commandIndex';
+
+const BOOKMARKS_STORAGE_KEY = 'lucaverse_bookmarks';
+
+const readStoredList = <T>(key: string): T[] => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error(`Failed to read ${key}:`, error);
+    return [];
+  }
+};
+
+// Loading a saved layout discards the current panels, so ask first if there are any
+const confirmReplaceLayout = (name: string): boolean =>
+  useLayoutStore.getState().panels.length === 0 ||
+  confirm(`Replace the current layout with "${name}"?`);
+
+const setLayoutPanels = (panels: PanelLayout[]) => {
+  const store = useLayoutStore.getState();
+  store.resetLayout();
+  panels.forEach(({ id: _, ...panel }) => store.addPanel(panel));
+};
+
+const actionCommands = (): PaletteCommand[] => {
+  const store = useLayoutStore.getState();
+
+  const openPanels: PaletteCommand[] = Object.values(PANEL_COMPONENTS).map(metadata => ({
+    id: `open:${metadata.id}`,
+    group: 'action',
+    title: `Open ${metadata.name}`,
+    subtitle: metadata.description,
+    icon: metadata.icon,
+    keywords: metadata.keywords ?? [],
+    ...(metadata.shortcuts?.[0] && { shortcut: metadata.shortcuts[0] }),
+    run: () => {
+      showPanel(metadata.id as PanelComponent);
+    },
+  }));
+
+  return [
+    ...openPanels,
+    {
+      id: 'layout:save',
+      group: 'action',
+      title: 'Save layout',
+      icon: '💾',
+      keywords: ['workspace'],
+      shortcut: 'Ctrl+S',
+      run: () => {
+        const name = prompt('Layout name:', `Layout ${new Date().toLocaleString()}`);
+        if (name?.trim()) store.saveWorkspace(name.trim());
+      },
+    },
+    {
+      id: 'layout:reset',
+      group: 'action',
+      title: 'Reset layout',
+      subtitle: 'Remove all panels',
+      icon: '🧹',
+      shortcut: 'Ctrl+Shift+R',
+      run: () => {
+        if (confirm('Reset layout? This will remove all panels.')) store.resetLayout();
+      },
+    },
+    {
+      id: 'grid:snap',
+      group: 'action',
+      title: store.gridSettings.enabled ? 'Turn off grid snapping' : 'Turn on grid snapping',
+      icon: '🧲',
+      shortcut: 'Ctrl+G',
+      run: () => store.setGridSnap(!store.gridSettings.enabled),
+    },
+    {
+      id: 'grid:visible',
+      group: 'action',
+      title: store.gridSettings.visible ? 'Hide grid' : 'Show grid',
+      icon: '#️⃣',
+      shortcut: 'Ctrl+Shift+G',
+      run: () => store.updateGridSettings({ visible: !store.gridSettings.visible }),
+    },
+  ];
+};
+
+const panelActionCommands = (): PaletteCommand[] => {
+  const { selectedPanelIds } = useLayoutStore.getState();
+  const count = selectedPanelIds.length;
+
+  return PANEL_ACTIONS.map(info => {
+    const isPaste = info.action === 'paste';
+    const minPanels = info.minPanels ?? 1;
+    const unavailable = isPaste
+      ? !hasCopiedPanels() && 'Copy a panel first'
+      : count < minPanels &&
+        (minPanels === 1 ? 'Select a panel first' : `Select ${minPanels} or more panels`);
+
+    return {
+      id: `panel:${info.action}`,
+      group: 'panel',
+      title: info.label,
+      subtitle: unavailable || (isPaste ? 'Paste copied panels' : `${count} selected`),
+      icon: info.icon,
+      ...(info.shortcut && { shortcut: info.shortcut }),
+      disabled: Boolean(unavailable),
+      run: () => runPanelAction(info.action, selectedPanelIds),
+    };
+  });
+};
+
+const bookmarkCommands = (now: number): PaletteCommand[] =>
+  readStoredList<Bookmark>(BOOKMARKS_STORAGE_KEY).map(bookmark => ({
+    id: `bookmark:${bookmark.id}`,
+    group: 'bookmark',
+    title: bookmark.title,
+    subtitle: bookmark.url,
+    icon: bookmark.favicon || '🔖',
+    keywords: bookmark.tags ?? [],
+    weight: popularityScore(bookmark, now),
+    run: () => {
+      window.open(bookmark.url, '_blank');
+    },
+  }));
+
+const taskCommands = (): PaletteCommand[] =>
+  readStoredList<Task>(TASKS_STORAGE_KEY).map(task => ({
+    id: `task:${task.id}`,
+    group: 'task',
+    title: task.text,
+    subtitle: [task.completed ? '✓ Done' : `P${task.priority}`, task.category]
+      .filter(Boolean)
+      .join(' · '),
+    icon: task.completed ? '✅' : '📋',
+    keywords: task.tags ?? [],
+    // Open tasks first, most urgent on top
+    weight: task.completed ? 0 : 6 - task.priority,
+    run: () => {
+      showPanel(PanelComponent.TaskManager);
+      focusTaskInTaskManager(task.id);
+    },
+  }));
+
+const chatCommands = async (): Promise<PaletteCommand[]> => {
+  try {
+    const sessions = await chatRepository.listSessions();
+    return sessions.map(session => ({
+      id: `chat:${session.id}`,
+      group: 'chat',
+      title: session.title,
+      subtitle: `${session.messageCount} messages`,
+      icon: session.pinned ? '📌' : '💬',
+      weight: session.updatedAt,
+      run: () => {
+        showPanel(PanelComponent.AIChat);
+        openChatSession(session.id);
+      },
+    }));
+  } catch (error) {
+    console.error('Failed to list chat sessions:', error);
+    return [];
+  }
+};
+
+const workspaceCommands = (): PaletteCommand[] => {
+  const saved: PaletteCommand[] = workspaceManager.getWorkspaces().map(workspace => ({
+    id: `workspace:${workspace.id}`,
+    group: 'workspace',
+    title: workspace.name,
+    subtitle: workspace.description || `${workspace.panels.length} panels`,
+    icon: '🗂️',
+    keywords: workspace.metadata.tags,
+    weight: workspace.metadata.lastAccessed,
+    run: async () => {
+      if (!confirmReplaceLayout(workspace.name)) return;
+
+      const loaded = await workspaceManager.loadWorkspace(workspace.id);
+      if (!loaded) {
+        alert(`Failed to load workspace "${workspace.name}"`);
+        return;
+      }
+      setLayoutPanels(loaded.panels);
+      useLayoutStore.getState().updateGridSettings(loaded.gridSettings);
+    },
+  }));
+
+  // Quick saves made with Ctrl+S live in the layout store
+  const { workspaces, loadWorkspace } = useLayoutStore.getState();
+  const quickSaves: PaletteCommand[] = Object.values(workspaces).map(workspace => ({
+    id: `layout:${workspace.id}`,
+    group: 'workspace',
+    title: workspace.name,
+    subtitle: workspace.description || `${workspace.panels.length} panels`,
+    icon: '💾',
+    weight: workspace.updatedAt,
+    run: () => {
+      if (confirmReplaceLayout(workspace.name)) loadWorkspace(workspace.id);
+    },
+  }));
+
+  return [...saved, ...quickSaves];
+};
+
+const templateCommands = (): PaletteCommand[] => {
+  const { templates, applyTemplate } = useTemplateStore.getState();
+
+  return templates.map(template => ({
+    id: `template:${template.id}`,
+    group: 'template',
+    title: template.name,
+    subtitle: template.description,
+    icon: '🧩',
+    keywords: [template.category, ...template.tags],
+    weight: template.metadata.usageCount,
+    run: () => {
+      if (confirmReplaceLayout(template.name)) setLayoutPanels(applyTemplate(template.id));
+    },
+  }));
+};
+
+/**
+ * Gather every command the palette can offer, read fresh each time it opens
+ */
+export const collectPaletteCommands = async (
+  now: number = Date.now()
+): Promise<PaletteCommand[]> => [
+  ...actionCommands(),
+  ...panelActionCommands(),
+  ...workspaceCommands(),
+  ...templateCommands(),
+  ...bookmarkCommands(now),
+  ...taskCommands(),
+  ...(await chatCommands()),
+];
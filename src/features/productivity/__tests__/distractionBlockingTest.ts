@@ -0,0 +1,78 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Distraction Blocking Test Suite
+ * Verifies blocklist entries, site matching and when a work session blocks a page
+ */
+
+import {
+  addFocusOverride,
+  getFocusBlock,
+  matchBlockedSite,
+  normalizeSite,
+  parseBlockedSites,
+  type Blocklist,
+} from '../distractionBlocking';
+import { beginCountdown, createTimerState, pauseCountdown } from '../timerEngine';
+
+const START = 1_000_000;
+const blocklist: Blocklist = { enabled: true, sites: ['reddit.com', 'x.com'] };
+const work = beginCountdown(createTimerState('work', 25 * 60), 'session_1', START);
+
+describe('blocklist entries', () => {
+  test('reduces URLs and domains to hostnames', () => {
+    expect(normalizeSite(' https://www.Reddit.com/r/all?top ')).toBe('reddit.com');
+    expect(normalizeSite('news.ycombinator.com:443')).toBe('news.ycombinator.com');
+    expect(() => normalizeSite('reddit')).toThrow('not a website');
+  });
+
+  test('reads one site per line or comma separated, without duplicates', () => {
+    expect(parseBlockedSites('reddit.com\n\nwww.reddit.com, x.com\n')).toEqual([
+      'reddit.com',
+      'x.com',
+    ]);
+  });
+
+  test('matches subdomains but not lookalike domains', () => {
+    expect(matchBlockedSite('old.reddit.com', blocklist.sites)).toBe('reddit.com');
+    expect(matchBlockedSite('WWW.X.COM', blocklist.sites)).toBe('x.com');
+    expect(matchBlockedSite('notreddit.com', blocklist.sites)).toBeNull();
+  });
+});
+
+describe('getFocusBlock', () => {
+  test('blocks listed sites while a work session counts down', () => {
+    expect(getFocusBlock('https://www.reddit.com/', work, blocklist, START + 1000)).toEqual({
+      site: 'reddit.com',
+      sessionId: 'session_1',
+      endsAt: work.endsAt,
+    });
+    expect(getFocusBlock('https://docs.dev/', work, blocklist, START)).toBeNull();
+    expect(getFocusBlock('chrome://extensions', work, blocklist, START)).toBeNull();
+  });
+
+  test('lifts the block on breaks, pauses, once time is up and when disabled', () => {
+    const url = 'https://reddit.com/';
+    const onBreak = beginCountdown(createTimerState('break', 5 * 60, 1), 'session_2', START);
+    expect(getFocusBlock(url, onBreak, blocklist, START)).toBeNull();
+    expect(getFocusBlock(url, pauseCountdown(work, START), blocklist, START)).toBeNull();
+    expect(getFocusBlock(url, work, blocklist, work.endsAt!)).toBeNull();
+    expect(getFocusBlock(url, work, { ...blocklist, enabled: false }, START)).toBeNull();
+    expect(getFocusBlock(url, null, blocklist, START)).toBeNull();
+  });
+});
+
+test('caps the override log, dropping the oldest', () => {
+  const overrides = Array.from({ length: 500 }, (_, index) => ({
+    sessionId: 'session_1',
+    site: 'x.com',
+    url: 'https://x.com/',
+    at: START + index,
+  }));
+  const logged = addFocusOverride(overrides, { ...overrides[0]!, at: START + 500 });
+  expect(logged).toHaveLength(500);
+  expect(logged[0]!.at).toBe(START + 1);
+  expect(logged[499]!.at).toBe(START + 500);
+});
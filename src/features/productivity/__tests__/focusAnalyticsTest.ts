@@ -0,0 +1,144 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Focus Analytics Test Suite
+ * Verifies focus totals, completion rate, streaks, heatmap, template comparison and CSV export
+ */
+
+import {
+  compareTemplates,
+  getBestFocusSlot,
+  getCompletionRate,
+  getDailyFocus,
+  getHourHeatmap,
+  getStreaks,
+  getWeeklyFocus,
+  sessionsToCSV,
+  type AnalyticsSession,
+} from '../focusAnalytics';
+
+// Wednesday 2024-05-15, 15:00 local time
+const NOW = new Date(2024, 4, 15, 15).getTime();
+
+const at = (day: number, hour: number) => new Date(2024, 4, day, hour).getTime();
+
+let nextId = 0;
+const session = (fields: Partial<AnalyticsSession> = {}): AnalyticsSession => ({
+  id: `session_${++nextId}`,
+  type: 'work',
+  duration: 25,
+  completed: true,
+  startTime: at(15, 9),
+  ...fields,
+});
+
+describe('focus totals', () => {
+  const sessions = [
+    session({ startTime: at(15, 9) }),
+    session({ startTime: at(15, 10), completed: false }),
+    session({ startTime: at(15, 11), type: 'break', duration: 5 }),
+    session({ startTime: at(14, 9), duration: 50 }),
+    session({ startTime: at(12, 9) }), // Sunday of the previous week
+  ];
+
+  test('sums completed focus per day, oldest first', () => {
+    const daily = getDailyFocus(sessions, 4, NOW);
+    expect(daily.map(d => d.minutes)).toEqual([25, 0, 50, 25]);
+    expect(daily[3]!.start).toBe(at(15, 0));
+  });
+
+  test('sums completed focus per Monday-based week', () => {
+    const weekly = getWeeklyFocus(sessions, 2, NOW);
+    expect(weekly.map(w => w.minutes)).toEqual([25, 75]);
+    expect(weekly[1]!.start).toBe(at(13, 0));
+  });
+
+  test('computes the completion rate of focus sessions', () => {
+    expect(getCompletionRate(sessions)).toBe(0.75);
+    expect(getCompletionRate([session({ type: 'break' })])).toBeNull();
+  });
+});
+
+describe('streaks', () => {
+  test('counts consecutive days and keeps the current streak alive until today ends', () => {
+    const sessions = [at(8, 9), at(9, 9), at(10, 9), at(13, 9), at(14, 9)].map(startTime =>
+      session({ startTime })
+    );
+    expect(getStreaks(sessions, NOW)).toEqual({ current: 2, longest: 3 });
+    expect(getStreaks(sessions, at(16, 9))).toEqual({ current: 0, longest: 3 });
+  });
+
+  test('ignores unfinished sessions and breaks', () => {
+    const sessions = [
+      session({ startTime: at(14, 9), completed: false }),
+      session({ startTime: at(15, 9), type: 'break' }),
+    ];
+    expect(getStreaks(sessions, NOW)).toEqual({ current: 0, longest: 0 });
+  });
+});
+
+describe('heatmap', () => {
+  test('buckets focus by weekday and hour and finds the best slot', () => {
+    const heatmap = getHourHeatmap([
+      session({ startTime: at(15, 9) }),
+      session({ startTime: at(15, 9), duration: 15 }),
+      session({ startTime: at(14, 20) }),
+    ]);
+    expect(heatmap[3]![9]).toBe(40);
+    expect(heatmap[2]![20]).toBe(25);
+    expect(getBestFocusSlot(heatmap)).toEqual({ day: 3, hour: 9 });
+    expect(getBestFocusSlot(getHourHeatmap([]))).toBeNull();
+  });
+});
+
+describe('compareTemplates', () => {
+  test('groups focus sessions by template, most used first', () => {
+    const stats = compareTemplates([
+      session({ templateId: 'default' }),
+      session({ templateId: 'extended', duration: 45 }),
+      session({ templateId: 'extended', duration: 45, completed: false }),
+      session({ templateId: 'extended', type: 'break' }),
+      session(),
+    ]);
+    expect(stats).toEqual([
+      {
+        templateId: 'extended',
+        started: 2,
+        completed: 1,
+        completionRate: 0.5,
+        minutes: 45,
+        averageMinutes: 45,
+      },
+      {
+        templateId: 'default',
+        started: 1,
+        completed: 1,
+        completionRate: 1,
+        minutes: 25,
+        averageMinutes: 25,
+      },
+    ]);
+  });
+});
+
+describe('sessionsToCSV', () => {
+  test('writes a header and one row per session in start order', () => {
+    const csv = sessionsToCSV([
+      session({ id: 'b', startTime: Date.UTC(2024, 4, 15, 10), templateId: 'sprint' }),
+      session({
+        id: 'a,1',
+        startTime: Date.UTC(2024, 4, 15, 9),
+        endTime: Date.UTC(2024, 4, 15, 9, 25),
+        taskId: 7,
+      }),
+    ]);
+    expect(csv.split('\n')).toEqual([
+      'id,type,template,task,start,end,duration_minutes,completed',
+      '"a,1",work,,7,2024-05-15T09:00:00.000Z,2024-05-15T09:25:00.000Z,25,true',
+      'b,work,sprint,,2024-05-15T10:00:00.000Z,,25,true',
+      '',
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Focus Templates Test Suite
+ * Verifies timer cycles, cycle shorthand and template sharing files
+ */
+
+import {
+  BUILT_IN_TEMPLATES,
+  createCustomTemplate,
+  focusTemplatesToJSON,
+  formatCycle,
+  getBreakAfter,
+  getTemplateCycle,
+  getWorkMinutes,
+  parseCycle,
+  parseFocusTemplatesFile,
+} from '../focusTemplates';
+
+const classic = BUILT_IN_TEMPLATES[0]!;
+
+describe('cycles', () => {
+  test('uniform templates end their cycle with the long break', () => {
+    expect(formatCycle(getTemplateCycle(classic))).toBe('25/5 x3, 25/15');
+    expect(getBreakAfter(classic, 2)).toEqual({ mode: 'break', minutes: 5 });
+    expect(getBreakAfter(classic, 3)).toEqual({ mode: 'longBreak', minutes: 15 });
+    expect(getBreakAfter(classic, 7)).toEqual({ mode: 'longBreak', minutes: 15 });
+  });
+
+  test('custom cycles set each session and break length and repeat', () => {
+    const template = createCustomTemplate({ name: 'Deep', cycle: parseCycle('50/10 x2, 25/30') });
+    expect([0, 1, 2, 3].map(count => getWorkMinutes(template, count))).toEqual([50, 50, 25, 50]);
+    expect(getBreakAfter(template, 1)).toEqual({ mode: 'break', minutes: 10 });
+    expect(getBreakAfter(template, 2)).toEqual({ mode: 'longBreak', minutes: 30 });
+    expect(template).toMatchObject({ work: 50, break: 10, longBreak: 30, sessions: 3 });
+  });
+
+  test('a single-step cycle only has short breaks', () => {
+    const template = createCustomTemplate({ name: 'Steady', cycle: parseCycle('50/10') });
+    expect(getBreakAfter(template, 0)).toEqual({ mode: 'break', minutes: 10 });
+  });
+});
+
+describe('parseCycle', () => {
+  test('reads pairs with optional repeats', () => {
+    expect(parseCycle(' 50 / 10, 50/10 ,25/30')).toEqual([
+      { work: 50, break: 10 },
+      { work: 50, break: 10 },
+      { work: 25, break: 30 },
+    ]);
+    expect(parseCycle('25/5 ×2')).toHaveLength(2);
+  });
+
+  test('rejects malformed and out-of-range cycles', () => {
+    expect(() => parseCycle('')).toThrow('at least one');
+    expect(() => parseCycle('25-5')).toThrow('not a work/break pair');
+    expect(() => parseCycle('0/5')).toThrow('between 1 and');
+    expect(() => parseCycle('25/5 x20')).toThrow('at most');
+  });
+});
+
+describe('sharing', () => {
+  test('round-trips templates as new custom templates', () => {
+    const shared = createCustomTemplate({
+      id: 'custom_1',
+      name: 'Deep',
+      cycle: parseCycle('50/10 x2, 25/30'),
+      sound: 'bell',
+    });
+    const [imported] = parseFocusTemplatesFile(focusTemplatesToJSON([shared, classic]));
+    expect(imported).toMatchObject({
+      name: 'Deep',
+      cycle: shared.cycle,
+      sound: 'bell',
+      custom: true,
+    });
+    expect(imported!.id).not.toBe('custom_1');
+  });
+
+  test('imports built-in style templates through their uniform fields', () => {
+    const [, copied] = parseFocusTemplatesFile(focusTemplatesToJSON([classic, classic]));
+    expect(copied).toMatchObject({ name: 'Classic Pomodoro', sound: 'chime', custom: true });
+    expect(getTemplateCycle(copied!)).toEqual(getTemplateCycle(classic));
+  });
+
+  test('rejects files that are not template exports', () => {
+    expect(() => parseFocusTemplatesFile('nope')).toThrow('not valid JSON');
+    expect(() => parseFocusTemplatesFile('{"templates": []}')).toThrow('does not contain');
+    expect(() =>
+      parseFocusTemplatesFile(
+        JSON.stringify({
+          format: 'lucaverse-focus-templates',
+          version: 1,
+          templates: [{ name: 'Broken', cycle: [{ work: 0, break: 5 }] }],
+        })
+      )
+    ).toThrow('invalid cycle');
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Productivity Notes Test Suite
+ * Verifies note titles, tags, search ranking, legacy migration and Markdown export
+ */
+
+import {
+  NOTES_STORAGE_KEY,
+  createNote,
+  getNoteTitle,
+  getTagCounts,
+  loadNotes,
+  noteToMarkdown,
+  notesToMarkdown,
+  parseTags,
+  searchNotes,
+  updateNote,
+  type ProductivityNote,
+} from '../notes';
+
+const note = (id: string, fields: Partial<ProductivityNote>): ProductivityNote => ({
+  ...createNote(),
+  id,
+  createdAt: 0,
+  updatedAt: 0,
+  ...fields,
+});
+
+describe('titles and tags', () => {
+  test('untitled notes use their first line without Markdown markers', () => {
+    expect(getNoteTitle(note('a', { content: '\n## Sprint review\nbody' }))).toBe('Sprint review');
+    expect(getNoteTitle(note('a', { title: ' Plan ', content: '# Other' }))).toBe('Plan');
+    expect(getNoteTitle(note('a', {}))).toBe('Untitled note');
+  });
+
+  test('tags are normalized and deduplicated', () => {
+    expect(parseTags('Work, #ideas  reading #Work')).toEqual(['work', 'ideas', 'reading']);
+    const [updated] = updateNote([note('a', {})], 'a', { tags: ['#Deep Work', 'deep-work'] });
+    expect(updated!.tags).toEqual(['deep-work']);
+    expect(updated!.updatedAt).toBeGreaterThan(0);
+  });
+
+  test('counts tag use across notes', () => {
+    const notes = [note('a', { tags: ['ideas', 'work'] }), note('b', { tags: ['work'] })];
+    expect(getTagCounts(notes)).toEqual([
+      { tag: 'work', count: 2 },
+      { tag: 'ideas', count: 1 },
+    ]);
+  });
+});
+
+describe('searchNotes', () => {
+  const notes = [
+    note('old', { content: 'Refactor the timer', updatedAt: 1 }),
+    note('title', { title: 'Timer ideas', content: 'later', updatedAt: 2 }),
+    note('pinned', { content: 'timer bug', pinned: true, tags: ['bugs'], updatedAt: 0 }),
+    note('other', { content: 'groceries', tags: ['home'], updatedAt: 3 }),
+  ];
+  const ids = (results: ProductivityNote[]) => results.map(result => result.id);
+
+  test('lists pinned notes first, then the most recent, without a query', () => {
+    expect(ids(searchNotes(notes, ' '))).toEqual(['pinned', 'other', 'title', 'old']);
+  });
+
+  test('requires every word and ranks title matches above content', () => {
+    expect(ids(searchNotes(notes, 'timer'))).toEqual(['pinned', 'title', 'old']);
+    expect(ids(searchNotes(notes, 'timer refactor'))).toEqual(['old']);
+  });
+
+  test('filters by tag', () => {
+    expect(ids(searchNotes(notes, '#bugs'))).toEqual(['pinned']);
+    expect(ids(searchNotes(notes, 'tag:home groceries'))).toEqual(['other']);
+    expect(ids(searchNotes(notes, '#home timer'))).toEqual([]);
+  });
+});
+
+describe('storage', () => {
+  const store: Record<string, string> = {};
+
+  beforeAll(() => {
+    (global as any).localStorage = {
+      getItem: (key: string) => store[key] ?? null,
+      setItem: (key: string, value: string) => {
+        store[key] = value;
+      },
+    };
+  });
+
+  afterAll(() => {
+    delete (global as any).localStorage;
+  });
+
+  test('migrates notes saved before titles and tags', () => {
+    store[NOTES_STORAGE_KEY] = JSON.stringify([
+      { id: 'note_1', content: 'Old note', timestamp: 1000, sessionId: 'session_1' },
+      { content: 'missing id' },
+    ]);
+    expect(loadNotes()).toEqual([
+      {
+        id: 'note_1',
+        title: '',
+        content: 'Old note',
+        tags: [],
+        pinned: false,
+        createdAt: 1000,
+        updatedAt: 1000,
+        sessionId: 'session_1',
+        taskIds: [],
+        chatSessionIds: [],
+      },
+    ]);
+  });
+});
+
+describe('Markdown export', () => {
+  const exported = note('a', {
+    title: 'Plan "Q3"',
+    content: '- ship notes\n',
+    tags: ['work'],
+    taskIds: [7],
+    chatSessionIds: ['chat_1'],
+  });
+
+  test('writes a single note with front matter', () => {
+    expect(noteToMarkdown(exported)).toBe(
+      [
+        '---',
+        'title: "Plan \\"Q3\\""',
+        'tags: [work]',
+        'created: 1970-01-01T00:00:00.000Z',
+        'updated: 1970-01-01T00:00:00.000Z',
+        'tasks: [7]',
+        'chats: ["chat_1"]',
+        '---',
+        '',
+        '- ship notes',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('writes several notes as sections of one document', () => {
+    const document = notesToMarkdown([exported, note('b', { content: 'Second' })]);
+    expect(document).toContain('## Plan "Q3"\n\n_Updated 1970-01-01 · #work_\n\n- ship notes\n');
+    expect(document).toContain('\n---\n\n## Second');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Timer Engine Test Suite
+ * Verifies timestamp-based countdowns, the scheduled completion notification and
+ * that only one tab completes a finished countdown
+ */
+
+import {
+  TIMER_NOTIFICATION_ID,
+  TIMER_STORAGE_KEY,
+  beginCountdown,
+  claimFinishedCountdown,
+  createTimerState,
+  getRemainingSeconds,
+  isCountdownFinished,
+  pauseCountdown,
+  resumeCountdown,
+  saveTimerState,
+} from '../timerEngine';
+
+const stored: Record<string, unknown> = {};
+const calls: string[] = [];
+
+jest.mock('@/platform', () => ({
+  getPlatformAPI: async () => ({
+    storage: {
+      get: async (key: string) => stored[key] ?? null,
+      set: async (key: string, value: unknown) => {
+        stored[key] = value;
+      },
+    },
+    notifications: {
+      schedule: async (id: string, _options: unknown, when: number) => {
+        calls.push(`schedule ${id} ${when}`);
+        return true;
+      },
+      cancelScheduled: async (id: string) => {
+        calls.push(`cancel ${id}`);
+        return true;
+      },
+    },
+  }),
+}));
+
+const START = 1_000_000;
+
+describe('countdown', () => {
+  const idle = createTimerState('work', 25 * 60, 2);
+  const running = beginCountdown(idle, 'session_1', START);
+
+  test('counts down from the end time, however rarely it is checked', () => {
+    expect(running.endsAt).toBe(START + 25 * 60 * 1000);
+    expect(getRemainingSeconds(running, START + 500)).toBe(25 * 60);
+    expect(getRemainingSeconds(running, START + 10 * 60 * 1000)).toBe(15 * 60);
+    expect(getRemainingSeconds(running, START + 60 * 60 * 1000)).toBe(0);
+  });
+
+  test('finishes once the end time passes', () => {
+    expect(isCountdownFinished(running, START + 25 * 60 * 1000 - 1)).toBe(false);
+    expect(isCountdownFinished(running, START + 25 * 60 * 1000)).toBe(true);
+    expect(isCountdownFinished(idle, START + 60 * 60 * 1000)).toBe(false);
+  });
+
+  test('pausing keeps the time left and resuming moves the end time', () => {
+    const paused = pauseCountdown(running, START + 5 * 60 * 1000);
+    expect(paused).toMatchObject({ status: 'paused', remaining: 20 * 60, endsAt: null });
+    expect(getRemainingSeconds(paused, START + 60 * 60 * 1000)).toBe(20 * 60);
+
+    const resumed = resumeCountdown(paused, START + 30 * 60 * 1000);
+    expect(resumed.endsAt).toBe(START + 50 * 60 * 1000);
+    expect(resumed).toMatchObject({ status: 'running', sessionId: 'session_1', sessionCount: 2 });
+  });
+});
+
+describe('saveTimerState', () => {
+  const idle = createTimerState('work', 25 * 60);
+  const running = beginCountdown(idle, 'session_1', START);
+  const endsAt = START + 25 * 60 * 1000;
+
+  beforeEach(() => {
+    calls.length = 0;
+  });
+
+  test('stores the timer and schedules its completion notification', async () => {
+    await saveTimerState(running, idle, START);
+    expect(stored[TIMER_STORAGE_KEY]).toEqual(running);
+    expect(calls).toEqual([`schedule ${TIMER_NOTIFICATION_ID} ${endsAt}`]);
+  });
+
+  test('cancels the notification when the countdown stops early', async () => {
+    await saveTimerState(pauseCountdown(running, START + 1000), running, START + 1000);
+    expect(calls).toEqual([`cancel ${TIMER_NOTIFICATION_ID}`]);
+  });
+
+  test('keeps the notification of a countdown that ran out', async () => {
+    await saveTimerState(createTimerState('break', 5 * 60, 1), running, endsAt + 1000);
+    expect(calls).toEqual([]);
+  });
+});
+
+describe('claimFinishedCountdown', () => {
+  const running = beginCountdown(createTimerState('work', 25 * 60), 'session_1', START);
+  const endsAt = START + 25 * 60 * 1000;
+  const next = createTimerState('break', 5 * 60, 1);
+
+  beforeEach(() => {
+    stored[TIMER_STORAGE_KEY] = running;
+  });
+
+  test('lets only one of several tabs complete the countdown', async () => {
+    const claims = await Promise.all([
+      claimFinishedCountdown(running, next, endsAt),
+      claimFinishedCountdown(running, next, endsAt),
+      claimFinishedCountdown(running, next, endsAt + 1000),
+    ]);
+    expect(claims.filter(Boolean)).toHaveLength(1);
+    expect(stored[TIMER_STORAGE_KEY]).toEqual(next);
+  });
+
+  test('leaves a countdown that is still running or was replaced', async () => {
+    expect(await claimFinishedCountdown(running, next, endsAt - 1)).toBe(false);
+
+    const restarted = beginCountdown(createTimerState('work', 25 * 60), 'session_2', endsAt);
+    stored[TIMER_STORAGE_KEY] = restarted;
+    expect(await claimFinishedCountdown(running, next, endsAt)).toBe(false);
+    expect(stored[TIMER_STORAGE_KEY]).toEqual(restarted);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Distraction Blocking
+ * Sites the extension blocks while a work session runs, and the allow-once
+ * overrides logged against each session
+ */
+
+import { getPlatformAPI } from '@/platform';
+import type { TimerState } from './timerEngine';
+
+export interface Blocklist {
+  enabled: boolean;
+  sites: string[]; // Hostnames; subdomains are blocked too
+}
+
+// A blocked page the user chose to open anyway
+export interface FocusOverride {
+  sessionId: string;
+  site: string; // Blocklist entry that matched
+  url: string;
+  at: number;
+}
+
+// What a page needs to show the block interstitial
+export interface FocusBlock {
+  site: string;
+  sessionId: string;
+  endsAt: number;
+}
+
+export const BLOCKLIST_STORAGE_KEY = 'lucaverse_focus_blocklist';
+export const FOCUS_OVERRIDES_STORAGE_KEY = 'lucaverse_focus_overrides';
+
+export const DEFAULT_BLOCKLIST: Blocklist = {
+  enabled: false,
+  sites: [
+    'facebook.com',
+    'instagram.com',
+    'reddit.com',
+    'tiktok.com',
+    'twitter.com',
+    'x.com',
+    'youtube.com',
+  ],
+};
+
+// Oldest overrides are dropped beyond this
+const MAX_OVERRIDES = 500;
+
+/**
+ * Hostname for a blocklist entry typed as a URL or domain, e.g. "https://www.Reddit.com/r/x"
+ */
+export const normalizeSite = (input: string): string => {
+  const host = input
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .replace(/[/?#:].*$/, '')
+    .replace(/^www\./, '');
+
+  if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(host)) {
+    throw new Error(`"${input.trim()}" is not a website like reddit.com`);
+  }
+  return host;
+};
+
+/**
+ * Blocklist entries typed one per line or separated by commas, duplicates removed
+ */
+export const parseBlockedSites = (text: string): string[] =>
+  Array.from(
+    new Set(
+      text
+        .split(/[\n,]+/)
+        .filter(line => line.trim())
+        .map(normalizeSite)
+    )
+  );
+
+/**
+ * The blocklist entry covering `hostname`, if any
+ */
+export const matchBlockedSite = (hostname: string, sites: string[]): string | null => {
+  const host = hostname.toLowerCase().replace(/^www\./, '');
+  return sites.find(site => host === site || host.endsWith(`.${site}`)) ?? null;
+};
+
+/**
+ * The block to show for `url`: only while a work session is counting down.
+ * Paused sessions and breaks lift it.
+ */
+export const getFocusBlock = (
+  url: string,
+  timer: TimerState | null,
+  blocklist: Blocklist,
+  now: number
+): FocusBlock | null => {
+  if (!blocklist.enabled || !timer || timer.mode !== 'work' || timer.status !== 'running') {
+    return null;
+  }
+  if (timer.endsAt === null || timer.endsAt <= now || !timer.sessionId) return null;
+
+  let hostname: string;
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+    hostname = parsed.hostname;
+  } catch {
+    return null;
+  }
+
+  const site = matchBlockedSite(hostname, blocklist.sites);
+  return site ? { site, sessionId: timer.sessionId, endsAt: timer.endsAt } : null;
+};
+
+export const addFocusOverride = (
+  overrides: FocusOverride[],
+  override: FocusOverride
+): FocusOverride[] => [...overrides, override].slice(-MAX_OVERRIDES);
+
+/**
+ * Blocklist from platform storage, which the extension's background worker enforces
+ */
+export const loadBlocklist = async (): Promise<Blocklist> => {
+  const { storage } = await getPlatformAPI();
+  return { ...DEFAULT_BLOCKLIST, ...((await storage.get<Blocklist>(BLOCKLIST_STORAGE_KEY)) || {}) };
+};
+
+export const saveBlocklist = async (blocklist: Blocklist): Promise<void> => {
+  const { storage } = await getPlatformAPI();
+  await storage.set(BLOCKLIST_STORAGE_KEY, blocklist);
+};
+
+export const loadFocusOverrides = async (): Promise<FocusOverride[]> => {
+  const { storage } = await getPlatformAPI();
+  const stored = await storage.get<FocusOverride[]>(FOCUS_OVERRIDES_STORAGE_KEY);
+  return Array.isArray(stored) ? stored : [];
+};
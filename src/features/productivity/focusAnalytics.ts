@@ -0,0 +1,235 @@
+/**
+ * Focus Analytics
+ * Statistics over Pomodoro session history: focus minutes, completion, streaks and best hours
+ */
+
+import { saveTextFile } from '@/utils/fileTransfer';
+
+// The parts of a stored Pomodoro session the statistics use
+export interface AnalyticsSession {
+  id: string;
+  type: string; // 'work' for focus sessions, otherwise a break
+  duration: number; // Planned minutes
+  completed: boolean;
+  startTime: number;
+  endTime?: number;
+  templateId?: string;
+  taskId?: number;
+}
+
+export interface FocusPeriod {
+  start: number; // Local midnight the day or week starts at
+  minutes: number;
+  sessions: number;
+}
+
+export interface FocusStreaks {
+  current: number; // Days up to today, or yesterday while today has none yet
+  longest: number;
+}
+
+export interface TemplateStats {
+  templateId: string;
+  started: number;
+  completed: number;
+  completionRate: number; // 0-1
+  minutes: number;
+  averageMinutes: number; // Per completed session
+}
+
+const startOfDay = (time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const addDays = (time: number, days: number): number => {
+  const date = new Date(time);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+// Weeks start on Monday
+const startOfWeek = (time: number): number =>
+  addDays(startOfDay(time), -((new Date(time).getDay() + 6) % 7));
+
+const isWork = (session: AnalyticsSession) => session.type === 'work';
+
+const completedWork = (sessions: AnalyticsSession[]) =>
+  sessions.filter(session => isWork(session) && session.completed);
+
+const totals = (sessions: AnalyticsSession[], start: number, end: number): FocusPeriod => {
+  const inRange = sessions.filter(s => s.startTime >= start && s.startTime < end);
+  return {
+    start,
+    minutes: inRange.reduce((sum, session) => sum + session.duration, 0),
+    sessions: inRange.length,
+  };
+};
+
+/**
+ * Completed focus per day for the last `days` days, oldest first, ending today
+ */
+export const getDailyFocus = (
+  sessions: AnalyticsSession[],
+  days: number,
+  now: number = Date.now()
+): FocusPeriod[] => {
+  const work = completedWork(sessions);
+  const today = startOfDay(now);
+  return Array.from({ length: days }, (_, index) => {
+    const start = addDays(today, index - days + 1);
+    return totals(work, start, addDays(start, 1));
+  });
+};
+
+/**
+ * Completed focus per Monday-to-Sunday week for the last `weeks` weeks, oldest first
+ */
+export const getWeeklyFocus = (
+  sessions: AnalyticsSession[],
+  weeks: number,
+  now: number = Date.now()
+): FocusPeriod[] => {
+  const work = completedWork(sessions);
+  const thisWeek = startOfWeek(now);
+  return Array.from({ length: weeks }, (_, index) => {
+    const start = addDays(thisWeek, (index - weeks + 1) * 7);
+    return totals(work, start, addDays(start, 7));
+  });
+};
+
+/**
+ * Share of started focus sessions that ran to the end, or null with none started
+ */
+export const getCompletionRate = (sessions: AnalyticsSession[]): number | null => {
+  const started = sessions.filter(isWork);
+  return started.length > 0 ? completedWork(started).length / started.length : null;
+};
+
+/**
+ * Runs of consecutive days with at least one completed focus session
+ */
+export const getStreaks = (
+  sessions: AnalyticsSession[],
+  now: number = Date.now()
+): FocusStreaks => {
+  const days = Array.from(new Set(completedWork(sessions).map(s => startOfDay(s.startTime)))).sort(
+    (a, b) => a - b
+  );
+
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    // Compare calendar days rather than 24 hours, which breaks across DST changes
+    run = index > 0 && addDays(days[index - 1]!, 1) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const today = startOfDay(now);
+  const last = days[days.length - 1];
+  const current = last === today || last === addDays(today, -1) ? run : 0;
+
+  return { current, longest };
+};
+
+/**
+ * Completed focus minutes by weekday (0 = Sunday) and starting hour
+ */
+export const getHourHeatmap = (sessions: AnalyticsSession[]): number[][] => {
+  const grid = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  completedWork(sessions).forEach(session => {
+    const start = new Date(session.startTime);
+    grid[start.getDay()]![start.getHours()]! += session.duration;
+  });
+  return grid;
+};
+
+/**
+ * Weekday and hour with the most completed focus, or null without any
+ */
+export const getBestFocusSlot = (heatmap: number[][]): { day: number; hour: number } | null => {
+  let best: { day: number; hour: number } | null = null;
+  let most = 0;
+  for (const [day, hours] of heatmap.entries()) {
+    for (const [hour, minutes] of hours.entries()) {
+      if (minutes > most) {
+        most = minutes;
+        best = { day, hour };
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Focus sessions grouped by the template they were run with, most used first.
+ * Sessions recorded before templates were tracked are left out.
+ */
+export const compareTemplates = (sessions: AnalyticsSession[]): TemplateStats[] => {
+  const byTemplate = new Map<string, AnalyticsSession[]>();
+  sessions.filter(isWork).forEach(session => {
+    if (!session.templateId) return;
+    byTemplate.set(session.templateId, [...(byTemplate.get(session.templateId) ?? []), session]);
+  });
+
+  return Array.from(byTemplate, ([templateId, started]) => {
+    const completed = completedWork(started);
+    const minutes = completed.reduce((sum, session) => sum + session.duration, 0);
+    return {
+      templateId,
+      started: started.length,
+      completed: completed.length,
+      completionRate: completed.length / started.length,
+      minutes,
+      averageMinutes: completed.length > 0 ? minutes / completed.length : 0,
+    };
+  }).sort((a, b) => b.started - a.started);
+};
+
+const CSV_COLUMNS = [
+  'id',
+  'type',
+  'template',
+  'task',
+  'start',
+  'end',
+  'duration_minutes',
+  'completed',
+] as const;
+
+const escapeCSV = (value: string) =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * One row per session, oldest first, with ISO 8601 times
+ */
+export const sessionsToCSV = (sessions: AnalyticsSession[]): string => {
+  const rows = [...sessions]
+    .sort((a, b) => a.startTime - b.startTime)
+    .map(session =>
+      [
+        session.id,
+        session.type,
+        session.templateId ?? '',
+        session.taskId === undefined ? '' : String(session.taskId),
+        new Date(session.startTime).toISOString(),
+        session.endTime === undefined ? '' : new Date(session.endTime).toISOString(),
+        String(session.duration),
+        session.completed ? 'true' : 'false',
+      ]
+        .map(escapeCSV)
+        .join(',')
+    );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+};
+
+/**
+ * Save the session history as CSV through the platform save dialog. Returns false when cancelled.
+ */
+export const exportSessionsCSV = (sessions: AnalyticsSession[]): Promise<boolean> => {
+  const date = new Date().toISOString().split('T')[0];
+  return saveTextFile(`lucaverse-focus-sessions-${date}.csv`, sessionsToCSV(sessions), 'text/csv', [
+    { name: 'CSV', extensions: ['csv'] },
+  ]);
+};
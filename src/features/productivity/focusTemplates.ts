@@ -0,0 +1,344 @@
+/**
+ * Focus Templates
+ * Built-in and user-defined Pomodoro templates, their timer cycles, sounds and sharing files
+ */
+
+import { getPlatformAPI } from '@/platform';
+import { saveTextFile, type TextFileFilter } from '@/utils/fileTransfer';
+import type { FocusMode } from './timerEngine';
+
+export type TimerSound = 'chime' | 'bell' | 'digital' | 'none';
+
+// One work session and the break after it, in minutes
+export interface CycleStep {
+  work: number;
+  break: number;
+}
+
+export interface FocusTemplate {
+  id: string;
+  name: string;
+  work: number;
+  break: number;
+  longBreak: number;
+  sessions: number; // Work sessions per cycle
+  description: string;
+  // Steps of a non-uniform cycle, repeated once finished; overrides the fields above
+  cycle?: CycleStep[];
+  sound?: TimerSound;
+  custom?: boolean; // Created by the user, so it can be edited and deleted
+}
+
+export const BUILT_IN_TEMPLATES: FocusTemplate[] = [
+  {
+    id: 'default',
+    name: 'Classic Pomodoro',
+    work: 25,
+    break: 5,
+    longBreak: 15,
+    sessions: 4,
+    description: 'Traditional 25/5 technique',
+  },
+  {
+    id: 'extended',
+    name: 'Extended Focus',
+    work: 45,
+    break: 15,
+    longBreak: 30,
+    sessions: 3,
+    description: 'Longer work sessions for deep work',
+  },
+  {
+    id: 'sprint',
+    name: 'Sprint Mode',
+    work: 15,
+    break: 3,
+    longBreak: 10,
+    sessions: 6,
+    description: 'Quick bursts for urgent tasks',
+  },
+  {
+    id: 'flow',
+    name: 'Flow State',
+    work: 90,
+    break: 20,
+    longBreak: 45,
+    sessions: 2,
+    description: 'Long sessions for creative work',
+  },
+];
+
+// Tones played when a phase ends: frequency in Hz and start offset in ms
+export const TIMER_SOUNDS: Record<
+  TimerSound,
+  { label: string; notes: Array<{ frequency: number; delay: number }> }
+> = {
+  chime: {
+    label: 'Chime',
+    notes: [
+      { frequency: 800, delay: 0 },
+      { frequency: 600, delay: 200 },
+      { frequency: 800, delay: 400 },
+    ],
+  },
+  bell: {
+    label: 'Bell',
+    notes: [
+      { frequency: 660, delay: 0 },
+      { frequency: 880, delay: 300 },
+    ],
+  },
+  digital: {
+    label: 'Digital',
+    notes: [0, 150, 300, 450].map(delay => ({ frequency: 1000, delay })),
+  },
+  none: { label: 'Silent', notes: [] },
+};
+
+export const DEFAULT_TIMER_SOUND: TimerSound = 'chime';
+
+export const FOCUS_TEMPLATES_STORAGE_KEY = 'lucaverse_focus_templates';
+
+const EXPORT_FORMAT = 'lucaverse-focus-templates';
+const EXPORT_VERSION = 1;
+
+export const FOCUS_TEMPLATE_FILE_FILTERS: TextFileFilter[] = [
+  { name: 'Focus templates', extensions: ['json'] },
+];
+
+// Limits that keep a mistyped cycle from producing a day-long session
+const MAX_PHASE_MINUTES = 240;
+const MAX_CYCLE_STEPS = 12;
+
+// JSON file layout for sharing templates
+export interface FocusTemplateArchive {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  templates: FocusTemplate[];
+}
+
+/**
+ * The steps a template runs through before starting over
+ */
+export const getTemplateCycle = (template: FocusTemplate): CycleStep[] => {
+  if (template.cycle && template.cycle.length > 0) return template.cycle;
+  const sessions = Math.max(1, template.sessions);
+  return Array.from({ length: sessions }, (_, index) => ({
+    work: template.work,
+    break: index === sessions - 1 ? template.longBreak : template.break,
+  }));
+};
+
+const stepAt = (template: FocusTemplate, sessionCount: number): CycleStep => {
+  const cycle = getTemplateCycle(template);
+  return cycle[sessionCount % cycle.length]!;
+};
+
+/**
+ * Minutes of the work session after `sessionCount` completed ones
+ */
+export const getWorkMinutes = (template: FocusTemplate, sessionCount: number): number =>
+  stepAt(template, sessionCount).work;
+
+/**
+ * The break after the work session at `sessionIndex` (0-based). Breaks longer
+ * than the shortest one in the cycle count as long breaks.
+ */
+export const getBreakAfter = (
+  template: FocusTemplate,
+  sessionIndex: number
+): { mode: Exclude<FocusMode, 'work'>; minutes: number } => {
+  const shortest = Math.min(...getTemplateCycle(template).map(step => step.break));
+  const minutes = stepAt(template, sessionIndex).break;
+  return { mode: minutes > shortest ? 'longBreak' : 'break', minutes };
+};
+
+const isPhaseLength = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0 && value <= MAX_PHASE_MINUTES;
+
+/**
+ * Parse cycle shorthand such as "50/10, 50/10, 25/30" or "25/5 x3, 25/15"
+ */
+export const parseCycle = (text: string): CycleStep[] => {
+  const steps: CycleStep[] = [];
+
+  for (const part of text
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean)) {
+    const match = part.match(/^(\d+)\s*\/\s*(\d+)(?:\s*[x×*]\s*(\d+))?$/i);
+    if (!match) {
+      throw new Error(`"${part}" is not a work/break pair like 25/5`);
+    }
+
+    const step = { work: Number(match[1]), break: Number(match[2]) };
+    if (!isPhaseLength(step.work) || !isPhaseLength(step.break)) {
+      throw new Error(`Work and break lengths must be between 1 and ${MAX_PHASE_MINUTES} minutes`);
+    }
+    steps.push(...Array.from({ length: Number(match[3] ?? 1) }, () => ({ ...step })));
+  }
+
+  if (steps.length === 0) {
+    throw new Error('Enter at least one work/break pair');
+  }
+  if (steps.length > MAX_CYCLE_STEPS) {
+    throw new Error(`A cycle can have at most ${MAX_CYCLE_STEPS} sessions`);
+  }
+  return steps;
+};
+
+/**
+ * Cycle shorthand with repeated steps folded, e.g. "25/5 x3, 25/15"
+ */
+export const formatCycle = (steps: CycleStep[]): string => {
+  const parts: string[] = [];
+  let index = 0;
+  while (index < steps.length) {
+    const step = steps[index]!;
+    let count = 1;
+    while (steps[index + count]?.work === step.work && steps[index + count]?.break === step.break) {
+      count++;
+    }
+    parts.push(`${step.work}/${step.break}${count > 1 ? ` x${count}` : ''}`);
+    index += count;
+  }
+  return parts.join(', ');
+};
+
+/**
+ * User template running through `cycle`. The uniform fields are filled in from
+ * the cycle so code that only knows work/break/longBreak still gets sensible values.
+ */
+export const createCustomTemplate = (fields: {
+  id?: string;
+  name: string;
+  description?: string;
+  cycle: CycleStep[];
+  sound?: TimerSound;
+}): FocusTemplate => {
+  const name = fields.name.trim();
+  if (!name) {
+    throw new Error('Template name is required');
+  }
+  const breaks = fields.cycle.map(step => step.break);
+
+  return {
+    id: fields.id ?? `custom_${Date.now()}`,
+    name,
+    description: fields.description?.trim() || formatCycle(fields.cycle),
+    work: fields.cycle[0]!.work,
+    break: Math.min(...breaks),
+    longBreak: Math.max(...breaks),
+    sessions: fields.cycle.length,
+    cycle: fields.cycle,
+    sound: fields.sound ?? DEFAULT_TIMER_SOUND,
+    custom: true,
+  };
+};
+
+const isTimerSound = (value: unknown): value is TimerSound =>
+  typeof value === 'string' && value in TIMER_SOUNDS;
+
+/**
+ * Rebuild a template read from a file or storage, or throw when it is unusable
+ */
+const normalizeTemplate = (item: any, id?: string): FocusTemplate => {
+  if (typeof item?.name !== 'string') {
+    throw new Error('Template is missing a name');
+  }
+
+  const cycle: CycleStep[] = Array.isArray(item.cycle)
+    ? item.cycle.map((step: any) => ({ work: step?.work, break: step?.break }))
+    : getTemplateCycle({ ...item, cycle: undefined });
+  if (
+    cycle.length === 0 ||
+    cycle.length > MAX_CYCLE_STEPS ||
+    !cycle.every(step => isPhaseLength(step.work) && isPhaseLength(step.break))
+  ) {
+    throw new Error(`Template "${item.name}" has an invalid cycle`);
+  }
+
+  const templateId = id ?? (typeof item.id === 'string' ? item.id : undefined);
+  return createCustomTemplate({
+    ...(templateId && { id: templateId }),
+    name: item.name,
+    ...(typeof item.description === 'string' && { description: item.description }),
+    cycle,
+    ...(isTimerSound(item.sound) && { sound: item.sound }),
+  });
+};
+
+export const focusTemplatesToJSON = (templates: FocusTemplate[]): string => {
+  const archive: FocusTemplateArchive = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    templates,
+  };
+  return JSON.stringify(archive, null, 2);
+};
+
+/**
+ * Read shared templates as new custom templates with fresh ids
+ */
+export const parseFocusTemplatesFile = (content: string): FocusTemplate[] => {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error('Template file is not valid JSON');
+  }
+
+  if (data?.format !== EXPORT_FORMAT || !Array.isArray(data.templates)) {
+    throw new Error('File does not contain focus templates');
+  }
+  if (data.version > EXPORT_VERSION) {
+    throw new Error(`Unsupported focus template version: ${data.version}`);
+  }
+
+  const now = Date.now();
+  return data.templates.map((item: unknown, index: number) =>
+    normalizeTemplate(item, `custom_${now}_${index}`)
+  );
+};
+
+/**
+ * Save templates to a file others can import. Returns false when cancelled.
+ */
+export const exportFocusTemplatesFile = (templates: FocusTemplate[]): Promise<boolean> => {
+  const name =
+    templates.length === 1
+      ? templates[0]!.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')
+      : 'focus-templates';
+  return saveTextFile(
+    `lucaverse-${name}.json`,
+    focusTemplatesToJSON(templates),
+    'application/json',
+    FOCUS_TEMPLATE_FILE_FILTERS
+  );
+};
+
+/**
+ * User templates from platform storage, which in the extension is included in
+ * the Options page data export. Unusable entries are dropped.
+ */
+export const loadCustomTemplates = async (): Promise<FocusTemplate[]> => {
+  const { storage } = await getPlatformAPI();
+  const stored = await storage.get<unknown[]>(FOCUS_TEMPLATES_STORAGE_KEY);
+  if (!Array.isArray(stored)) return [];
+
+  return stored.flatMap(item => {
+    try {
+      return [normalizeTemplate(item)];
+    } catch (error) {
+      console.error('Skipping stored focus template:', error);
+      return [];
+    }
+  });
+};
+
+export const saveCustomTemplates = async (templates: FocusTemplate[]): Promise<void> => {
+  const { storage } = await getPlatformAPI();
+  await storage.set(FOCUS_TEMPLATES_STORAGE_KEY, templates);
+};
@@ -15,6 +15,7 @@ export interface PomodoroSession {
   startTime: number;
   endTime?: number;
   completed: boolean;
+  taskId?: number; // Task the session was spent on
 }
 
 export interface PomodoroConfig {
@@ -0,0 +1,274 @@
+/**
+ * Productivity Notes
+ * Markdown notes with titles, tags and pinning, linked to tasks and chat sessions,
+ * plus full-text search and Markdown file export
+ */
+
+import { saveTextFile, type TextFileFilter } from '@/utils/fileTransfer';
+
+export interface ProductivityNote {
+  id: string;
+  title: string; // Empty to fall back to the first line of the content
+  content: string; // Markdown
+  tags: string[];
+  pinned: boolean;
+  createdAt: number;
+  updatedAt: number;
+  sessionId?: string; // Pomodoro session the note was started in
+  taskIds: number[];
+  chatSessionIds: string[];
+}
+
+export type NoteChanges = Partial<
+  Pick<ProductivityNote, 'title' | 'content' | 'tags' | 'pinned' | 'taskIds' | 'chatSessionIds'>
+>;
+
+// Something a note can link to, with the label shown for it
+export interface NoteLinkTarget<T> {
+  id: T;
+  title: string;
+}
+
+export const NOTES_STORAGE_KEY = 'lucaverse_productivity_notes';
+
+export const NOTE_FILE_FILTERS: TextFileFilter[] = [{ name: 'Markdown', extensions: ['md'] }];
+
+const UNTITLED = 'Untitled note';
+const MAX_DERIVED_TITLE = 60;
+
+export const createNote = (
+  fields: { content?: string; sessionId?: string } = {}
+): ProductivityNote => {
+  const now = Date.now();
+  return {
+    id: `note_${now}`,
+    title: '',
+    content: fields.content ?? '',
+    tags: [],
+    pinned: false,
+    createdAt: now,
+    updatedAt: now,
+    ...(fields.sessionId && { sessionId: fields.sessionId }),
+    taskIds: [],
+    chatSessionIds: [],
+  };
+};
+
+export const updateNote = (
+  notes: ProductivityNote[],
+  noteId: string,
+  changes: NoteChanges
+): ProductivityNote[] =>
+  notes.map(note =>
+    note.id === noteId
+      ? {
+          ...note,
+          ...changes,
+          ...(changes.tags && { tags: normalizeTags(changes.tags) }),
+          updatedAt: Date.now(),
+        }
+      : note
+  );
+
+export const isNoteEmpty = (note: ProductivityNote): boolean =>
+  !note.title.trim() && !note.content.trim();
+
+/**
+ * The note's title, or its first line with Markdown markers stripped
+ */
+export const getNoteTitle = (note: ProductivityNote): string => {
+  if (note.title.trim()) return note.title.trim();
+
+  const firstLine = note.content
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:#+|[-*+>]|\d+\.)\s*/, '').trim())
+    .find(Boolean);
+  if (!firstLine) return UNTITLED;
+  return firstLine.length > MAX_DERIVED_TITLE
+    ? `${firstLine.slice(0, MAX_DERIVED_TITLE - 1)}…`
+    : firstLine;
+};
+
+/**
+ * Lowercase, hyphenated tags without a leading '#', duplicates removed
+ */
+export const normalizeTags = (tags: string[]): string[] =>
+  Array.from(
+    new Set(
+      tags
+        .map(tag => tag.trim().replace(/^#+/, '').toLowerCase().replace(/\s+/g, '-'))
+        .filter(Boolean)
+    )
+  );
+
+/**
+ * Tags typed as "work, #ideas  reading"
+ */
+export const parseTags = (text: string): string[] => normalizeTags(text.split(/[,\s]+/));
+
+/**
+ * Every tag in use with how many notes carry it, most used first
+ */
+export const getTagCounts = (notes: ProductivityNote[]): Array<{ tag: string; count: number }> => {
+  const counts = new Map<string, number>();
+  notes.forEach(note => note.tags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+  );
+};
+
+/**
+ * Pinned notes first, then the most recently edited
+ */
+export const sortNotes = (notes: ProductivityNote[]): ProductivityNote[] =>
+  [...notes].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.updatedAt - a.updatedAt);
+
+const countOccurrences = (text: string, term: string): number => {
+  let count = 0;
+  let index = text.indexOf(term);
+  while (index !== -1) {
+    count++;
+    index = text.indexOf(term, index + term.length);
+  }
+  return count;
+};
+
+/**
+ * Notes matching every word of `query`, best matches first. Words written as
+ * "#tag" or "tag:name" only match tags; the rest search titles, tags and content.
+ */
+export const searchNotes = (notes: ProductivityNote[], query: string): ProductivityNote[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return sortNotes(notes);
+
+  const tagFilters = normalizeTags(
+    words.filter(word => /^(#|tag:)./.test(word)).map(word => word.replace(/^tag:/, ''))
+  );
+  const terms = words.filter(word => !/^(#|tag:)./.test(word));
+
+  const scored = notes.flatMap(note => {
+    if (!tagFilters.every(tag => note.tags.includes(tag))) return [];
+
+    // Only explicit titles: a derived one is already part of the content
+    const title = note.title.toLowerCase();
+    const content = note.content.toLowerCase();
+    let score = 0;
+    for (const term of terms) {
+      const termScore =
+        countOccurrences(title, term) * 5 +
+        note.tags.filter(tag => tag.includes(term)).length * 3 +
+        countOccurrences(content, term);
+      if (termScore === 0) return [];
+      score += termScore;
+    }
+    return [{ note, score }];
+  });
+
+  return scored
+    .sort(
+      (a, b) =>
+        Number(b.note.pinned) - Number(a.note.pinned) ||
+        b.score - a.score ||
+        b.note.updatedAt - a.note.updatedAt
+    )
+    .map(({ note }) => note);
+};
+
+/**
+ * Rebuild a stored note, including the plain `{content, timestamp}` entries
+ * saved before notes had titles and tags. Returns null when it is unusable.
+ */
+const normalizeNote = (item: any): ProductivityNote | null => {
+  if (typeof item?.id !== 'string' || typeof item.content !== 'string') return null;
+
+  const createdAt = Number(item.createdAt ?? item.timestamp) || Date.now();
+  return {
+    id: item.id,
+    title: typeof item.title === 'string' ? item.title : '',
+    content: item.content,
+    tags: Array.isArray(item.tags) ? normalizeTags(item.tags.map(String)) : [],
+    pinned: item.pinned === true,
+    createdAt,
+    updatedAt: Number(item.updatedAt) || createdAt,
+    ...(typeof item.sessionId === 'string' && { sessionId: item.sessionId }),
+    taskIds: Array.isArray(item.taskIds) ? item.taskIds.filter(Number.isInteger) : [],
+    chatSessionIds: Array.isArray(item.chatSessionIds)
+      ? item.chatSessionIds.filter((id: unknown) => typeof id === 'string')
+      : [],
+  };
+};
+
+export const loadNotes = (): ProductivityNote[] => {
+  try {
+    const stored = localStorage.getItem(NOTES_STORAGE_KEY);
+    if (!stored) return [];
+    const items = JSON.parse(stored);
+    return Array.isArray(items)
+      ? items.map(normalizeNote).filter((note): note is ProductivityNote => note !== null)
+      : [];
+  } catch (error) {
+    console.error('Failed to load notes:', error);
+    return [];
+  }
+};
+
+export const saveNotes = (notes: ProductivityNote[]): void => {
+  try {
+    localStorage.setItem(NOTES_STORAGE_KEY, JSON.stringify(notes));
+  } catch (error) {
+    console.error('Failed to save notes:', error);
+  }
+};
+
+const yamlString = (value: string): string => JSON.stringify(value);
+
+/**
+ * A note as a Markdown file with its metadata in YAML front matter
+ */
+export const noteToMarkdown = (note: ProductivityNote): string => {
+  const frontMatter = [
+    `title: ${yamlString(getNoteTitle(note))}`,
+    `tags: [${note.tags.join(', ')}]`,
+    `created: ${new Date(note.createdAt).toISOString()}`,
+    `updated: ${new Date(note.updatedAt).toISOString()}`,
+    ...(note.pinned ? ['pinned: true'] : []),
+    ...(note.taskIds.length > 0 ? [`tasks: [${note.taskIds.join(', ')}]`] : []),
+    ...(note.chatSessionIds.length > 0
+      ? [`chats: [${note.chatSessionIds.map(yamlString).join(', ')}]`]
+      : []),
+  ];
+  return `---\n${frontMatter.join('\n')}\n---\n\n${note.content.trim()}\n`;
+};
+
+/**
+ * Several notes in one Markdown document, a section per note
+ */
+export const notesToMarkdown = (notes: ProductivityNote[]): string => {
+  const sections = notes.map(note => {
+    const details = [
+      `Updated ${new Date(note.updatedAt).toISOString().slice(0, 10)}`,
+      ...(note.tags.length > 0 ? [note.tags.map(tag => `#${tag}`).join(' ')] : []),
+    ];
+    return `## ${getNoteTitle(note)}\n\n_${details.join(' · ')}_\n\n${note.content.trim()}\n`;
+  });
+  return `# Notes\n\n${sections.join('\n---\n\n')}`;
+};
+
+const slugify = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '') || 'note';
+
+/**
+ * Save one note, or several as a single document, to a Markdown file.
+ * Returns false when cancelled.
+ */
+export const exportNotesFile = (notes: ProductivityNote[]): Promise<boolean> => {
+  const [single] = notes;
+  const [name, content] =
+    notes.length === 1 && single
+      ? [slugify(getNoteTitle(single)), noteToMarkdown(single)]
+      : [`lucaverse-notes-${new Date().toISOString().slice(0, 10)}`, notesToMarkdown(notes)];
+  return saveTextFile(`${name}.md`, content, 'text/markdown', NOTE_FILE_FILTERS);
+};
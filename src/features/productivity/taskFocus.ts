@@ -0,0 +1,45 @@
+/**
+ * Task Focus
+ * Lets the Task Manager start a Pomodoro focus session on a task
+ */
+
+import { PanelComponent } from '@/types/panel';
+
+// Window event carrying a FocusTask; the Productivity panel claims it with preventDefault()
+export const START_TASK_FOCUS_EVENT = 'lucaverse:start-task-focus';
+
+export interface FocusTask {
+  id: number;
+  text: string;
+}
+
+// Task requested while no Productivity panel was listening, started on its next load
+let pendingFocusTask: FocusTask | null = null;
+
+/**
+ * Start a focus session on a task. An open Productivity panel starts it
+ * directly; otherwise one is opened and starts it once loaded.
+ */
+export const startTaskFocus = (task: FocusTask): void => {
+  const event = new CustomEvent<FocusTask>(START_TASK_FOCUS_EVENT, {
+    detail: task,
+    cancelable: true,
+  });
+  const unclaimed = window.dispatchEvent(event);
+  pendingFocusTask = unclaimed ? task : null;
+  if (!unclaimed) return;
+
+  // Loaded lazily: panel actions import the panel registry, which imports the panels
+  import('@/utils/panelActions')
+    .then(({ showPanel }) => showPanel(PanelComponent.Productivity))
+    .catch(error => console.error('Failed to open Productivity panel:', error));
+};
+
+/**
+ * The task waiting for a focus session, if any. Clears the request.
+ */
+export const takePendingFocusTask = (): FocusTask | null => {
+  const task = pendingFocusTask;
+  pendingFocusTask = null;
+  return task;
+};
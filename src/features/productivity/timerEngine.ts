@@ -0,0 +1,185 @@
+/**
+ * Pomodoro Timer Engine
+ * Timestamp-based timer state kept in platform storage, so a running session
+ * keeps its end time while the panel is closed or the tab is throttled.
+ *
+ * Only the platform's completion notification fires on its own. Completing the
+ * session (recording it, moving to the next phase) is done by an open
+ * Productivity panel, on the next one opened if none is open when time runs out.
+ */
+
+import { getPlatformAPI } from '@/platform';
+
+export type FocusMode = 'work' | 'break' | 'longBreak';
+export type TimerStatus = 'idle' | 'running' | 'paused';
+
+export interface TimerState {
+  status: TimerStatus;
+  mode: FocusMode;
+  duration: number; // Seconds the current phase lasts
+  remaining: number; // Seconds left while idle or paused
+  endsAt: number | null; // Epoch ms the phase ends at while running
+  sessionId: string | null; // Stored PomodoroSession being timed
+  sessionCount: number; // Work sessions completed in this cycle
+}
+
+export const TIMER_STORAGE_KEY = 'lucaverse_pomodoro_timer';
+
+// "productivity:" routes notification clicks to the Productivity panel
+export const TIMER_NOTIFICATION_ID = 'productivity:pomodoro';
+
+/**
+ * Idle timer at the start of a phase
+ */
+export const createTimerState = (
+  mode: FocusMode,
+  seconds: number,
+  sessionCount: number = 0
+): TimerState => ({
+  status: 'idle',
+  mode,
+  duration: seconds,
+  remaining: seconds,
+  endsAt: null,
+  sessionId: null,
+  sessionCount,
+});
+
+/**
+ * Start counting down what is left of the phase
+ */
+export const beginCountdown = (state: TimerState, sessionId: string, now: number): TimerState => ({
+  ...state,
+  status: 'running',
+  sessionId,
+  endsAt: now + state.remaining * 1000,
+});
+
+/**
+ * Whole seconds left, rounded up so the display reaches 00:00 as the phase ends
+ */
+export const getRemainingSeconds = (state: TimerState, now: number): number =>
+  state.status === 'running' && state.endsAt !== null
+    ? Math.max(0, Math.ceil((state.endsAt - now) / 1000))
+    : state.remaining;
+
+export const pauseCountdown = (state: TimerState, now: number): TimerState =>
+  state.status === 'running'
+    ? { ...state, status: 'paused', remaining: getRemainingSeconds(state, now), endsAt: null }
+    : state;
+
+export const resumeCountdown = (state: TimerState, now: number): TimerState =>
+  state.status === 'paused'
+    ? { ...state, status: 'running', endsAt: now + state.remaining * 1000 }
+    : state;
+
+/**
+ * Whether a running phase has reached its end time
+ */
+export const isCountdownFinished = (state: TimerState, now: number): boolean =>
+  state.status === 'running' && state.endsAt !== null && state.endsAt <= now;
+
+/**
+ * The stored timer, or null when none was saved yet
+ */
+export const loadTimerState = async (): Promise<TimerState | null> => {
+  const { storage } = await getPlatformAPI();
+  return storage.get<TimerState>(TIMER_STORAGE_KEY);
+};
+
+/**
+ * Store the timer and keep its completion notification in step with `previous`,
+ * the state stored before. The notification is shown by the platform (a Chrome
+ * alarm in the background worker, the Electron main process), so it arrives even
+ * when no dashboard is open.
+ */
+export const saveTimerState = async (
+  state: TimerState,
+  previous: TimerState | null,
+  now: number = Date.now()
+): Promise<void> => {
+  const { storage, notifications } = await getPlatformAPI();
+  await storage.set(TIMER_STORAGE_KEY, state);
+
+  if (state.endsAt === previous?.endsAt) return;
+
+  // Paused or reset early; a countdown that ran out keeps its notification
+  if (previous?.status === 'running' && previous.endsAt !== null && previous.endsAt > now) {
+    await notifications.cancelScheduled(TIMER_NOTIFICATION_ID);
+  }
+
+  if (state.status !== 'running' || state.endsAt === null) return;
+
+  await notifications.schedule(
+    TIMER_NOTIFICATION_ID,
+    {
+      title: 'Lucaverse Productivity',
+      message:
+        state.mode === 'work'
+          ? 'Work session completed! Time for a break.'
+          : 'Break time completed! Ready to focus?',
+    },
+    state.endsAt
+  );
+};
+
+// Web Lock held while a finished countdown is claimed, shared by every tab and window
+const COMPLETION_LOCK = 'lucaverse_pomodoro_completion';
+
+// Claims in this page when Web Locks are unavailable
+let pendingClaim: Promise<unknown> = Promise.resolve();
+
+/**
+ * Replace the finished countdown `finished` with `next`, unless another tab or
+ * window already has. Returns true only for the caller that made the change,
+ * which is the one to record the session.
+ */
+export const claimFinishedCountdown = async (
+  finished: TimerState,
+  next: TimerState,
+  now: number = Date.now()
+): Promise<boolean> => {
+  const claim = async (): Promise<boolean> => {
+    const stored = await loadTimerState();
+    if (
+      !stored ||
+      !finished.sessionId ||
+      stored.sessionId !== finished.sessionId ||
+      !isCountdownFinished(stored, now)
+    ) {
+      return false;
+    }
+    await saveTimerState(next, stored, now);
+    return true;
+  };
+
+  const locks = typeof navigator === 'undefined' ? undefined : navigator.locks;
+  if (locks) return locks.request(COMPLETION_LOCK, claim);
+
+  const result = pendingClaim.then(claim);
+  pendingClaim = result.catch(() => undefined);
+  return result;
+};
+
+/**
+ * Follow timer changes made in other tabs and windows. Returns an unsubscribe function.
+ */
+export const watchTimerState = (callback: (state: TimerState) => void): (() => void) => {
+  let unwatch: (() => void) | null = null;
+  let cancelled = false;
+
+  getPlatformAPI()
+    .then(({ storage }) => {
+      if (cancelled) return;
+      unwatch = storage.watch(changes => {
+        const change = changes.find(item => item.key === TIMER_STORAGE_KEY);
+        if (change?.newValue) callback(change.newValue);
+      });
+    })
+    .catch(error => console.error('Failed to watch timer state:', error));
+
+  return () => {
+    cancelled = true;
+    unwatch?.();
+  };
+};
@@ -0,0 +1,171 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Bookmark Search Test Suite
+ * Verifies query parsing, typo tolerance, ranking and smart collections
+ */
+
+import {
+  fuzzyScore,
+  getQueryTags,
+  parseBookmarkQuery,
+  searchBookmarks,
+  toggleQueryTag,
+} from '../bookmarkSearch';
+import { addSmartCollection } from '../smartCollections';
+import type { Bookmark } from '@/types/bookmarks';
+
+const NOW = 1700000000000;
+const DAY = 86400000;
+
+const bookmark = (
+  id: number,
+  title: string,
+  url: string,
+  extra: Partial<Bookmark> = {}
+): Bookmark => ({
+  id,
+  title,
+  url,
+  favicon: '🔖',
+  visits: 0,
+  isPinned: false,
+  createdAt: NOW - 100 * DAY,
+  updatedAt: NOW - 100 * DAY,
+  ...extra,
+});
+
+const bookmarks = [
+  bookmark(1, 'GitHub', 'https://github.com', { tags: ['dev', 'code'], visits: 25 }),
+  bookmark(2, 'MDN Web Docs', 'https://developer.mozilla.org', { tags: ['dev', 'docs'] }),
+  bookmark(3, 'Old Wiki', 'https://wiki.example.com', { tags: ['dev', 'old'] }),
+  bookmark(4, 'Recipes', 'https://cooking.example.com', { tags: ['home'], isPinned: true }),
+  bookmark(5, 'GitLab', 'https://gitlab.com', { tags: ['Read Later'] }),
+];
+
+const ids = (results: Bookmark[]) => results.map(b => b.id);
+
+describe('parseBookmarkQuery', () => {
+  test('builds boolean trees with implicit AND, OR, NOT and groups', () => {
+    expect(parseBookmarkQuery('tag:dev AND -tag:old')).toEqual({
+      type: 'and',
+      nodes: [
+        { type: 'tag', value: 'dev' },
+        { type: 'not', node: { type: 'tag', value: 'old' } },
+      ],
+    });
+    expect(parseBookmarkQuery('git (tag:code OR tag:"read later")')).toEqual({
+      type: 'and',
+      nodes: [
+        { type: 'text', value: 'git' },
+        {
+          type: 'or',
+          nodes: [
+            { type: 'tag', value: 'code' },
+            { type: 'tag', value: 'read later' },
+          ],
+        },
+      ],
+    });
+    expect(parseBookmarkQuery('NOT is:pinned')).toEqual({
+      type: 'not',
+      node: { type: 'is', value: 'pinned' },
+    });
+  });
+
+  test('tolerates half-typed queries', () => {
+    expect(parseBookmarkQuery('')).toBeNull();
+    expect(parseBookmarkQuery('docs AND')).toEqual({ type: 'text', value: 'docs' });
+    expect(parseBookmarkQuery('(docs OR')).toEqual({ type: 'text', value: 'docs' });
+    expect(parseBookmarkQuery('docs) -')).toEqual({ type: 'text', value: 'docs' });
+  });
+});
+
+describe('fuzzyScore', () => {
+  test('prefers substrings, then typos, then scattered letters', () => {
+    const exact = fuzzyScore('hub', 'github hub');
+    const inner = fuzzyScore('hub', 'github');
+    const typo = fuzzyScore('githib', 'github');
+    const transposed = fuzzyScore('gihtub', 'github');
+    const scattered = fuzzyScore('gthb', 'github');
+
+    expect(exact).toBe(1);
+    expect(inner).toBeLessThan(exact);
+    expect(typo).toBeGreaterThan(0);
+    expect(typo).toBeLessThan(inner);
+    expect(transposed).toBe(typo);
+    expect(scattered).toBeGreaterThan(0);
+    expect(scattered).toBeLessThan(typo);
+    expect(fuzzyScore('python', 'github')).toBe(0);
+  });
+});
+
+describe('searchBookmarks', () => {
+  test('finds bookmarks despite typos', () => {
+    expect(ids(searchBookmarks(bookmarks, 'githib', NOW))).toContain(1);
+    expect(ids(searchBookmarks(bookmarks, 'mozila', NOW))).toEqual([2]);
+  });
+
+  test('applies boolean tag filters', () => {
+    expect(ids(searchBookmarks(bookmarks, 'tag:dev AND -tag:old', NOW)).sort()).toEqual([1, 2]);
+    expect(ids(searchBookmarks(bookmarks, 'tag:home OR tag:"read later"', NOW)).sort()).toEqual([
+      4, 5,
+    ]);
+    expect(ids(searchBookmarks(bookmarks, 'tag:d*', NOW)).sort()).toEqual([1, 2, 3]);
+    expect(ids(searchBookmarks(bookmarks, 'site:example.com -is:pinned', NOW))).toEqual([3]);
+  });
+
+  test('ranks equally relevant matches by visits, pins and recency', () => {
+    const ranked = searchBookmarks(
+      [
+        bookmark(1, 'Docs A', 'https://a.dev'),
+        bookmark(2, 'Docs B', 'https://b.dev', { visits: 40 }),
+        bookmark(3, 'Docs C', 'https://c.dev', { updatedAt: NOW - DAY }),
+        bookmark(4, 'Docs D', 'https://d.dev', { isPinned: true, visits: 40 }),
+      ],
+      'docs',
+      NOW
+    );
+
+    expect(ids(ranked)).toEqual([4, 2, 3, 1]);
+  });
+
+  test('lets a strong title match beat a popular weak match', () => {
+    const ranked = searchBookmarks(
+      [
+        bookmark(1, 'Unrelated', 'https://react.dev/some-path', { visits: 50, isPinned: true }),
+        bookmark(2, 'React', 'https://react.dev'),
+      ],
+      'react',
+      NOW
+    );
+
+    expect(ids(ranked)).toEqual([2, 1]);
+  });
+});
+
+describe('query tags', () => {
+  test('toggles tag terms in a query', () => {
+    expect(toggleQueryTag('react', 'dev')).toBe('react tag:dev');
+    expect(toggleQueryTag('react tag:dev -tag:old', 'dev')).toBe('react -tag:old');
+    expect(toggleQueryTag('', 'read later')).toBe('tag:"read later"');
+    expect(getQueryTags('tag:dev OR (tag:"read later" -tag:old)')).toEqual(['dev', 'read later']);
+  });
+});
+
+describe('addSmartCollection', () => {
+  test('saves new queries and renames existing ones', () => {
+    const first = addSmartCollection([], 'Dev docs', ' tag:dev tag:docs ', NOW);
+    expect(first).toEqual([
+      { id: `collection_${NOW}`, name: 'Dev docs', query: 'tag:dev tag:docs', createdAt: NOW },
+    ]);
+
+    const renamed = addSmartCollection(first, 'Documentation', 'tag:dev tag:docs', NOW + 1);
+    expect(renamed).toHaveLength(1);
+    expect(renamed[0]!.name).toBe('Documentation');
+
+    expect(() => addSmartCollection(first, ' ', 'tag:x')).toThrow();
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Bookmark Sync Test Suite
+ * Verifies two-way reconciliation, file import merging and Netscape parsing
+ */
+
+import { mergeImportedBookmarks, reconcileBookmarks } from '../bookmarkSync';
+import { parseNetscapeBookmarks } from '../netscapeBookmarks';
+import type { Bookmark, BookmarkSyncState, ExternalBookmark } from '@/types/bookmarks';
+
+const LAST_SYNC = 1000;
+
+const bookmark = (id: number, url: string, updatedAt: number, title = url): Bookmark => ({
+  id,
+  title,
+  url,
+  favicon: '🔖',
+  visits: 3,
+  isPinned: false,
+  createdAt: 1,
+  updatedAt,
+});
+
+const external = (
+  nativeId: string,
+  url: string,
+  updatedAt: number,
+  title = url
+): ExternalBookmark => ({ nativeId, title, url, folders: [], createdAt: 1, updatedAt });
+
+const state = (links: Record<number, string>): BookmarkSyncState => ({
+  folderId: 'f1',
+  lastSyncAt: LAST_SYNC,
+  links,
+});
+
+describe('reconcileBookmarks', () => {
+  test('links by URL on first sync and creates the rest on both sides', () => {
+    const plan = reconcileBookmarks(
+      [bookmark(1, 'https://a.dev', 500), bookmark(2, 'https://b.dev', 500)],
+      [external('n1', 'https://a.dev', 100), external('n3', 'https://c.dev', 100)],
+      { folderId: 'f1', lastSyncAt: 0, links: {} },
+      5000
+    );
+
+    expect(plan.links[1]).toBe('n1');
+    expect(plan.operations).toEqual([
+      { type: 'create', localId: 2, title: 'https://b.dev', url: 'https://b.dev' },
+    ]);
+    expect(plan.bookmarks.map(b => b.url)).toEqual([
+      'https://a.dev',
+      'https://b.dev',
+      'https://c.dev',
+    ]);
+    expect(plan.links[plan.bookmarks[2]!.id]).toBe('n3');
+  });
+
+  test('resolves edits on both sides by the newer updatedAt', () => {
+    const plan = reconcileBookmarks(
+      [
+        bookmark(1, 'https://a.dev', 2000, 'Local A'),
+        bookmark(2, 'https://b.dev', 1500, 'Local B'),
+      ],
+      [
+        external('n1', 'https://a.dev', 1500, 'Remote A'),
+        external('n2', 'https://b.dev', 2500, 'Remote B'),
+      ],
+      state({ 1: 'n1', 2: 'n2' })
+    );
+
+    expect(plan.operations).toEqual([
+      { type: 'update', nativeId: 'n1', title: 'Local A', url: 'https://a.dev' },
+    ]);
+    expect(plan.bookmarks[1]).toMatchObject({ title: 'Remote B', visits: 3, updatedAt: 2500 });
+  });
+
+  test('propagates deletions unless the other side edited since the last sync', () => {
+    const plan = reconcileBookmarks(
+      [bookmark(1, 'https://a.dev', 500), bookmark(2, 'https://b.dev', 2000)],
+      [external('n3', 'https://c.dev', 500), external('n4', 'https://d.dev', 2000)],
+      state({ 1: 'n1', 2: 'n2', 3: 'n3', 4: 'n4' })
+    );
+
+    // 1: removed in browser, untouched locally -> dropped
+    // 2: removed in browser, edited locally -> recreated
+    // 3: removed locally, untouched in browser -> removed from browser
+    // 4: removed locally, edited in browser -> restored locally
+    expect(plan.bookmarks.map(b => b.url)).toEqual(['https://b.dev', 'https://d.dev']);
+    expect(plan.operations).toEqual([
+      { type: 'create', localId: 2, title: 'https://b.dev', url: 'https://b.dev' },
+      { type: 'remove', nativeId: 'n3' },
+    ]);
+  });
+});
+
+describe('bookmark files', () => {
+  test('parses folders, dates and entities from a Netscape export', () => {
+    const html = `<!DOCTYPE NETSCAPE-Bookmark-file-1>
+<H1>Bookmarks</H1>
+<DL><p>
+  <DT><H3 ADD_DATE="1">Bookmarks bar</H3>
+  <DL><p>
+    <DT><A HREF="https://a.dev/?x=1&amp;y=2" ADD_DATE="1700000000">A &amp; B</A>
+    <DT><H3>Dev</H3>
+    <DL><p>
+      <DT><A HREF="https://b.dev" ADD_DATE="1700000000" LAST_MODIFIED="1700000100">B</A>
+    </DL><p>
+  </DL><p>
+  <DT><A HREF="javascript:void(0)">Bookmarklet</A>
+  <DT><A HREF="https://c.dev">C</A>
+</DL><p>`;
+
+    const bookmarks = parseNetscapeBookmarks(html);
+
+    expect(bookmarks).toHaveLength(3);
+    expect(bookmarks[0]).toMatchObject({
+      title: 'A & B',
+      url: 'https://a.dev/?x=1&y=2',
+      folders: ['Bookmarks bar'],
+      createdAt: 1700000000000,
+    });
+    expect(bookmarks[1]).toMatchObject({
+      folders: ['Bookmarks bar', 'Dev'],
+      updatedAt: 1700000100000,
+    });
+    expect(bookmarks[2]!.folders).toEqual([]);
+    expect(() => parseNetscapeBookmarks('<p>hello</p>')).toThrow('not a bookmarks HTML export');
+  });
+
+  test('merges imported bookmarks by URL, keeping newer local edits and adding tags', () => {
+    const local = [
+      bookmark(1, 'https://a.dev', 3000, 'Local A'),
+      bookmark(2, 'https://b.dev', 100),
+    ];
+    const imported = [
+      { ...external('x', 'https://a.dev', 2000, 'Old A'), folders: ['Dev'] },
+      { ...external('x', 'https://b.dev', 2000, 'New B') },
+      { ...external('x', 'https://c.dev', 2000), folders: ['Dev'] },
+    ];
+
+    const result = mergeImportedBookmarks(local, imported, 5000);
+
+    expect(result).toMatchObject({ added: 1, updated: 2, duplicates: 2 });
+    expect(result.bookmarks.map(b => b.title)).toEqual(['Local A', 'New B', 'https://c.dev']);
+    expect(result.bookmarks[0]!.tags).toEqual(['Dev']);
+    expect(result.bookmarks[2]).toMatchObject({ id: 5000, tags: ['Dev'], visits: 0 });
+  });
+});
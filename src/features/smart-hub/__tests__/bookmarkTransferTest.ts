@@ -0,0 +1,111 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Bookmark Transfer Test Suite
+ * Verifies HTML, JSON and CSV round trips and duplicate detection on import
+ */
+
+import { mergeImportedBookmarks, normalizeBookmarkUrl } from '../bookmarkSync';
+import {
+  bookmarksToCSV,
+  detectBookmarkFileFormat,
+  parseBookmarkFile,
+  parseBookmarksCSV,
+  serializeBookmarks,
+} from '../bookmarkTransfer';
+import type { Bookmark } from '@/types/bookmarks';
+
+const bookmarks: Bookmark[] = [
+  {
+    id: 1,
+    title: 'Docs, "quoted"',
+    url: 'https://docs.dev/guide?a=1&b=2',
+    favicon: '📚',
+    visits: 7,
+    isPinned: true,
+    tags: ['reference', 'web'],
+    createdAt: 1700000000000,
+    updatedAt: 1700000500000,
+  },
+  {
+    id: 2,
+    title: 'Untagged',
+    url: 'https://plain.dev',
+    favicon: '🔖',
+    visits: 0,
+    isPinned: false,
+    createdAt: 1700000000000,
+    updatedAt: 1700000000000,
+  },
+];
+
+describe('bookmarkTransfer', () => {
+  test.each(['html', 'json', 'csv'] as const)('round trips bookmarks through %s', format => {
+    const parsed = parseBookmarkFile(`export.${format}`, serializeBookmarks(bookmarks, format));
+    const { bookmarks: imported } = mergeImportedBookmarks([], parsed, 5000);
+
+    expect(imported.map(b => [b.title, b.url, b.tags])).toEqual([
+      ['Docs, "quoted"', 'https://docs.dev/guide?a=1&b=2', ['reference', 'web']],
+      ['Untagged', 'https://plain.dev', undefined],
+    ]);
+    if (format !== 'html') {
+      expect(imported[0]).toMatchObject({ isPinned: true, visits: 7 });
+    }
+  });
+
+  test('reads CSV columns in any order and rejects files without a url column', () => {
+    const csv = 'URL,Title,Pinned\r\n"https://a.dev","Line\nbreak",yes\r\nnot-a-url,Skip,no\r\n';
+
+    expect(parseBookmarksCSV(csv)).toEqual([
+      expect.objectContaining({ title: 'Line\nbreak', url: 'https://a.dev', isPinned: true }),
+    ]);
+    expect(() => parseBookmarksCSV('title,link\nA,https://a.dev')).toThrow('"url" column');
+    expect(bookmarksToCSV([]).trim()).toBe('title,url,tags,pinned,visits');
+  });
+
+  test('exports formula-like cells as text and reads them back unchanged', () => {
+    const csv = bookmarksToCSV([
+      { ...bookmarks[1]!, title: '=HYPERLINK("https://evil.dev","x")', tags: ['@home', '-1'] },
+    ]);
+    expect(csv.split('\n')[1]).toBe(
+      `"'=HYPERLINK(""https://evil.dev"",""x"")",https://plain.dev,'@home;-1,false,0`
+    );
+    expect(parseBookmarksCSV(csv)[0]).toMatchObject({
+      title: '=HYPERLINK("https://evil.dev","x")',
+      tags: ['@home', '-1'],
+    });
+  });
+
+  test('detects the format from the extension or the content', () => {
+    expect(detectBookmarkFileFormat('bookmarks.HTM', '')).toBe('html');
+    expect(detectBookmarkFileFormat('export', '  [{"url": "x"}]')).toBe('json');
+    expect(detectBookmarkFileFormat('export', '<!DOCTYPE NETSCAPE-Bookmark-file-1>')).toBe('html');
+    expect(detectBookmarkFileFormat('export', 'title,url')).toBe('csv');
+  });
+
+  test('detects duplicate URLs and adds folder tags to existing bookmarks', () => {
+    expect(normalizeBookmarkUrl('HTTPS://WWW.Docs.dev/guide/?a=1#top')).toBe(
+      'https://docs.dev/guide?a=1'
+    );
+
+    const result = mergeImportedBookmarks(bookmarks, [
+      {
+        title: 'Docs again',
+        url: 'https://www.docs.dev/guide/?a=1&b=2',
+        folders: ['Work'],
+        createdAt: 1,
+        updatedAt: 1,
+      },
+      { title: 'New', url: 'https://new.dev', folders: [], createdAt: 1, updatedAt: 1 },
+      { title: 'New copy', url: 'https://new.dev/', folders: [], createdAt: 1, updatedAt: 1 },
+    ]);
+
+    expect(result).toMatchObject({ added: 1, updated: 1, duplicates: 2 });
+    expect(result.bookmarks[0]).toMatchObject({
+      title: 'Docs, "quoted"',
+      tags: ['reference', 'web', 'Work'],
+    });
+  });
+});
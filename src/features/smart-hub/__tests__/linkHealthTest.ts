@@ -0,0 +1,228 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Link Health Test Suite
+ * Verifies link checking, favicon cache expiry and the bookmark clean-up helpers
+ */
+
+import { FAVICON_TTL, FaviconCache } from '../faviconCache';
+import { checkLink, checkLinks } from '../linkChecker';
+import {
+  applyLinkHealth,
+  applyRedirects,
+  canApplyRedirect,
+  isLinkCheckDue,
+  removeBrokenBookmarks,
+} from '../linkHealth';
+import { createMemoryStorage } from '@/__tests__/utils/memoryStorage';
+import type { Bookmark } from '@/types/bookmarks';
+
+jest.mock('@/utils/extension', () => ({ extensionMessaging: {} }));
+jest.mock('@/platform', () => ({ getPlatformAPI: async () => ({ type: 'web' }) }));
+
+const mockResponse = (status: number, url: string, redirected = false) =>
+  ({ ok: status >= 200 && status < 300, status, url, redirected }) as Response;
+
+const bookmark = (id: number, url: string, health?: Bookmark['health']): Bookmark => ({
+  id,
+  title: `Bookmark ${id}`,
+  url,
+  favicon: '🔖',
+  visits: 0,
+  isPinned: false,
+  ...(health && { health }),
+  createdAt: 1700000000000,
+  updatedAt: 1700000000000,
+});
+
+describe('checkLink', () => {
+  it('classifies ok, redirected, broken and unreachable links', async () => {
+    const fetchImpl = jest.fn(async (url: string) => {
+      if (url.includes('moved')) return mockResponse(200, 'https://new.dev/page', true);
+      if (url.includes('gone')) return mockResponse(404, url);
+      if (url.includes('down')) throw new TypeError('Failed to fetch');
+      return mockResponse(200, url);
+    });
+
+    expect(await checkLink('https://ok.dev', fetchImpl)).toMatchObject({ status: 'ok' });
+    expect(await checkLink('https://moved.dev', fetchImpl)).toMatchObject({
+      status: 'redirect',
+      finalUrl: 'https://new.dev/page',
+    });
+    expect(await checkLink('https://gone.dev', fetchImpl)).toMatchObject({
+      status: 'broken',
+      httpStatus: 404,
+    });
+    expect(await checkLink('https://down.dev', fetchImpl)).toMatchObject({
+      status: 'unreachable',
+    });
+  });
+
+  it('only treats missing pages as dead', async () => {
+    const fetchImpl = jest.fn(async (url: string) =>
+      mockResponse(Number(new URL(url).pathname.slice(1)), url)
+    );
+
+    for (const status of [404, 410]) {
+      expect(await checkLink(`https://site.dev/${status}`, fetchImpl)).toMatchObject({
+        status: 'broken',
+      });
+    }
+    for (const status of [401, 403, 429, 500, 503]) {
+      expect(await checkLink(`https://site.dev/${status}`, fetchImpl)).toMatchObject({
+        status: 'unreachable',
+        httpStatus: status,
+      });
+    }
+  });
+
+  it('retries with GET when the server rejects HEAD', async () => {
+    const fetchImpl = jest.fn(async (url: string, init?: RequestInit) =>
+      mockResponse(init?.method === 'HEAD' ? 405 : 200, url)
+    );
+
+    expect(await checkLink('https://nohead.dev', fetchImpl)).toMatchObject({ status: 'ok' });
+    expect(fetchImpl.mock.calls.map(([, init]) => init?.method)).toEqual(['HEAD', 'GET']);
+  });
+
+  it('checks each http(s) URL once', async () => {
+    const fetchImpl = jest.fn(async (url: string) => mockResponse(200, url));
+
+    const results = await checkLinks(
+      ['https://a.dev', 'https://b.dev', 'https://a.dev', 'javascript:void(0)'],
+      fetchImpl,
+      2
+    );
+
+    expect(Object.keys(results).sort()).toEqual(['https://a.dev', 'https://b.dev']);
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('FaviconCache', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reuses stored favicons until they expire', async () => {
+    const { storage, store } = createMemoryStorage();
+    const fetcher = jest.fn(async () => 'data:image/png;base64,AAAA');
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+
+    const cache = new FaviconCache(storage, fetcher);
+    await cache.getFavicon('https://site.dev/a');
+    await cache.getFavicon('https://site.dev/b');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(store.get('favicon_site.dev')).toEqual({
+      dataUrl: 'data:image/png;base64,AAAA',
+      expiresAt: 1000 + FAVICON_TTL,
+    });
+
+    // A new cache instance reads the stored copy instead of downloading again
+    const reloaded = new FaviconCache(storage, fetcher);
+    expect(await reloaded.getFavicon('https://site.dev')).toBe('data:image/png;base64,AAAA');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(1000 + FAVICON_TTL + 1);
+    await reloaded.getFavicon('https://site.dev');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the expired copy when a refresh fails', async () => {
+    const { storage, store } = createMemoryStorage();
+    store.set('favicon_site.dev', { dataUrl: 'data:image/png;base64,OLD', expiresAt: 0 });
+    const fetcher = jest.fn(async () => {
+      throw new Error('offline');
+    });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const cache = new FaviconCache(storage, fetcher);
+    expect(await cache.getFavicons(['https://site.dev', 'not a url'])).toEqual({
+      'https://site.dev': 'data:image/png;base64,OLD',
+    });
+  });
+
+  it('sends only the hostname to the favicon service', async () => {
+    const fetchImpl = jest.fn(async () => ({ ok: false, blob: async () => new Blob([]) }));
+    const originalFetch = global.fetch;
+    (global as any).fetch = fetchImpl;
+    (global as any).window = {};
+
+    try {
+      const cache = new FaviconCache(createMemoryStorage().storage);
+      expect(await cache.getFavicon('https://site.dev:8443/private/doc?token=secret')).toBeNull();
+      expect(fetchImpl).toHaveBeenCalledWith(
+        'https://www.google.com/s2/favicons?domain=site.dev&sz=32'
+      );
+    } finally {
+      global.fetch = originalFetch;
+      delete (global as any).window;
+    }
+  });
+});
+
+describe('link health helpers', () => {
+  const checkedAt = 1700001000000;
+  const bookmarks = [
+    bookmark(1, 'https://ok.dev'),
+    bookmark(2, 'https://gone.dev'),
+    bookmark(3, 'https://old.dev'),
+  ];
+  const results = {
+    'https://ok.dev': { status: 'ok' as const, httpStatus: 200, checkedAt },
+    'https://gone.dev': { status: 'broken' as const, httpStatus: 404, checkedAt },
+    'https://old.dev': {
+      status: 'redirect' as const,
+      httpStatus: 200,
+      finalUrl: 'https://new.dev',
+      checkedAt,
+    },
+  };
+
+  it('stores results without marking bookmarks as edited', () => {
+    const checked = applyLinkHealth(bookmarks, results);
+
+    expect(checked.map(b => b.health?.status)).toEqual(['ok', 'broken', 'redirect']);
+    expect(checked.every(b => b.updatedAt === 1700000000000)).toBe(true);
+    expect(isLinkCheckDue(checked, checkedAt + 1000)).toBe(false);
+    expect(isLinkCheckDue(bookmarks, checkedAt)).toBe(true);
+  });
+
+  it('removes broken bookmarks and follows redirects', () => {
+    const checked = applyLinkHealth(bookmarks, results);
+
+    expect(removeBrokenBookmarks(checked).map(b => b.id)).toEqual([1, 3]);
+
+    const redirected = applyRedirects(checked, 1700002000000);
+    expect(redirected[2]).toMatchObject({
+      url: 'https://new.dev',
+      health: { status: 'ok', checkedAt },
+      updatedAt: 1700002000000,
+    });
+    expect(redirected[0]).toBe(checked[0]);
+  });
+
+  it('leaves redirects to sign-in pages for review', () => {
+    const redirect = (url: string, finalUrl: string) =>
+      bookmark(4, url, { status: 'redirect', httpStatus: 200, finalUrl, checkedAt });
+
+    const signIns = [
+      redirect('https://app.dev/dashboard', 'https://app.dev/login?next=%2Fdashboard'),
+      redirect('https://docs.dev/private', 'https://accounts.docs.dev/signin'),
+      redirect('https://wiki.dev/page', 'https://wiki.dev/auth/sso'),
+    ];
+    signIns.forEach(signIn => {
+      expect(canApplyRedirect(signIn)).toBe(false);
+      expect(applyRedirects([signIn])[0]).toBe(signIn);
+    });
+
+    expect(canApplyRedirect(redirect('https://blog.dev/authors', 'https://blog.dev/author/'))).toBe(
+      true
+    );
+    expect(canApplyRedirect(redirect('https://app.dev/login', 'https://app.dev/sign-in'))).toBe(
+      true
+    );
+  });
+});
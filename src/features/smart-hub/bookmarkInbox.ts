@@ -0,0 +1,36 @@
+/**
+ * SmartHub Bookmark Inbox
+ * Pages saved through the extension's context menu, popup or content script,
+ * queued by the background worker until SmartHub next loads
+ */
+
+import { getPlatformAPI } from '@/platform';
+import type { ExternalBookmark } from '@/types/bookmarks';
+import type { SmartBookmark } from '@/types/extension';
+
+// chrome.storage.local queue the background worker fills
+export const EXTENSION_BOOKMARKS_STORAGE_KEY = 'extension_bookmarks';
+
+/**
+ * A captured page in the shape SmartHub merges imported bookmarks from
+ */
+export const externalFromSmartBookmark = (captured: SmartBookmark): ExternalBookmark => ({
+  title: captured.title || captured.url,
+  url: captured.url,
+  folders: [],
+  ...(captured.tags?.length && { tags: captured.tags }),
+  createdAt: captured.createdAt,
+  updatedAt: captured.updatedAt,
+});
+
+/**
+ * Empty the extension's bookmark queue and return its pages for mergeImportedBookmarks
+ */
+export const takeExtensionBookmarks = async (): Promise<ExternalBookmark[]> => {
+  const { storage } = await getPlatformAPI();
+  const queued = await storage.get<SmartBookmark[]>(EXTENSION_BOOKMARKS_STORAGE_KEY);
+  if (!Array.isArray(queued) || queued.length === 0) return [];
+
+  await storage.remove(EXTENSION_BOOKMARKS_STORAGE_KEY);
+  return queued.filter(bookmark => bookmark.url).map(externalFromSmartBookmark);
+};
@@ -0,0 +1,315 @@
+/**
+ * Bookmark Search
+ * Typo-tolerant ranked search with boolean filters, e.g. `react hooks tag:dev AND -tag:old`
+ *
+ * Supported terms:
+ *   text, "quoted phrase"   fuzzy match against title, tags and URL
+ *   tag:name, tag:prefix*   bookmark has the tag
+ *   site:host               URL host contains host
+ *   is:pinned|broken|redirect
+ * Terms are combined with AND (implicit), OR, NOT or a leading `-`, and grouped with parentheses.
+ */
+
+import type { Bookmark } from '@/types/bookmarks';
+
+export type BookmarkQueryNode =
+  | { type: 'text'; value: string }
+  | { type: 'tag'; value: string }
+  | { type: 'site'; value: string }
+  | { type: 'is'; value: string }
+  | { type: 'not'; node: BookmarkQueryNode }
+  | { type: 'and'; nodes: BookmarkQueryNode[] }
+  | { type: 'or'; nodes: BookmarkQueryNode[] };
+
+// How much each field counts towards a text match
+const FIELD_WEIGHTS = { title: 1, tags: 0.9, url: 0.7 } as const;
+
+// Ranking boosts, each scaled to 0..1 before weighting
+const PIN_WEIGHT = 0.3;
+const VISITS_WEIGHT = 0.4;
+const RECENCY_WEIGHT = 0.3;
+const VISITS_SATURATION = 50;
+// Share of the score usage can add on top of text relevance
+const POPULARITY_INFLUENCE = 0.5;
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+// Parentheses, optionally prefixed quoted terms (tag:"read later", -"exact phrase"), or words
+const TOKEN_PATTERN = /\s*(\(|\)|-?(?:\w+:)?"[^"]*"?|[^\s()]+)/g;
+
+const tokenize = (query: string): string[] =>
+  Array.from(query.matchAll(TOKEN_PATTERN), match => match[1]!).filter(Boolean);
+
+const parseTerm = (token: string): BookmarkQueryNode | null => {
+  if (token.startsWith('-') && token.length > 1) {
+    const node = parseTerm(token.slice(1));
+    return node && { type: 'not', node };
+  }
+
+  const unquote = (value: string) => value.replace(/^"|"$/g, '').trim().toLowerCase();
+
+  const match = token.match(/^(tag|site|is):(.+)$/i);
+  if (match) {
+    const value = unquote(match[2]!);
+    return value ? { type: match[1]!.toLowerCase() as 'tag' | 'site' | 'is', value } : null;
+  }
+
+  const value = unquote(token);
+  return value ? { type: 'text', value } : null;
+};
+
+/**
+ * Parse a search query. Stray parentheses and dangling operators are ignored
+ * so a half-typed query still searches. Returns null for an empty query.
+ */
+export const parseBookmarkQuery = (query: string): BookmarkQueryNode | null => {
+  const tokens = tokenize(query);
+  let position = 0;
+
+  const parseOr = (): BookmarkQueryNode | null => {
+    const nodes: BookmarkQueryNode[] = [];
+    do {
+      const node = parseAnd();
+      if (node) nodes.push(node);
+    } while (tokens[position] === 'OR' && ++position);
+    return nodes.length > 1 ? { type: 'or', nodes } : (nodes[0] ?? null);
+  };
+
+  const parseAnd = (): BookmarkQueryNode | null => {
+    const nodes: BookmarkQueryNode[] = [];
+    while (position < tokens.length && tokens[position] !== ')' && tokens[position] !== 'OR') {
+      if (tokens[position] === 'AND') {
+        position++;
+        continue;
+      }
+      const node = parseUnary();
+      if (node) nodes.push(node);
+    }
+    return nodes.length > 1 ? { type: 'and', nodes } : (nodes[0] ?? null);
+  };
+
+  const parseUnary = (): BookmarkQueryNode | null => {
+    const token = tokens[position++]!;
+    if (token === 'NOT' || token === '-') {
+      const next = tokens[position];
+      const node = next && next !== ')' ? parseUnary() : null;
+      return node && { type: 'not', node };
+    }
+    if (token === '(') {
+      const node = parseOr();
+      if (tokens[position] === ')') position++;
+      return node;
+    }
+    return parseTerm(token);
+  };
+
+  let root: BookmarkQueryNode | null = null;
+  while (position < tokens.length) {
+    const node = parseOr();
+    if (node) root = root ? { type: 'and', nodes: [root, node] } : node;
+    // Skip an unmatched closing parenthesis
+    if (tokens[position] === ')') position++;
+  }
+  return root;
+};
+
+/**
+ * Edit distance counting adjacent transpositions as one edit
+ */
+const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let best = Math.min(rows[i - 1]![j]! + 1, rows[i]![j - 1]! + 1, rows[i - 1]![j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        best = Math.min(best, rows[i - 2]![j - 2]! + 1);
+      }
+      rows[i]![j] = best;
+    }
+  }
+  return rows[a.length]![b.length]!;
+};
+
+/**
+ * Score how well a search term matches some text, from 0 (no match) to 1.
+ * Substrings score highest, then words within a typo or two, then scattered letters.
+ */
+export const fuzzyScore = (term: string, text: string): number => {
+  const needle = term.toLowerCase();
+  const haystack = text.toLowerCase();
+  if (!needle || !haystack) return 0;
+
+  if (haystack.includes(needle)) {
+    for (
+      let index = haystack.indexOf(needle);
+      index >= 0;
+      index = haystack.indexOf(needle, index + 1)
+    ) {
+      if (index === 0 || !/[a-z0-9]/.test(haystack[index - 1]!)) return 1;
+    }
+    return 0.8;
+  }
+
+  if (needle.length >= 3) {
+    const allowed = needle.length <= 4 ? 1 : 2;
+    const distance = Math.min(
+      ...haystack
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean)
+        .map(word =>
+          Math.min(editDistance(needle, word), editDistance(needle, word.slice(0, needle.length)))
+        )
+    );
+    if (distance <= allowed) {
+      return 0.6 * (1 - distance / (allowed + 1));
+    }
+  }
+
+  // Letters in order within a short span, e.g. "gthb" in "github"
+  if (needle.length >= 2) {
+    let start = -1;
+    let cursor = 0;
+    for (const char of needle) {
+      const found = haystack.indexOf(char, cursor);
+      if (found < 0) return 0;
+      if (start < 0) start = found;
+      cursor = found + 1;
+    }
+    const span = cursor - start;
+    if (span <= needle.length * 2) return 0.3 * (needle.length / span);
+  }
+
+  return 0;
+};
+
+const textScore = (term: string, bookmark: Bookmark): number =>
+  Math.max(
+    FIELD_WEIGHTS.title * fuzzyScore(term, bookmark.title),
+    FIELD_WEIGHTS.tags * Math.max(0, ...(bookmark.tags || []).map(tag => fuzzyScore(term, tag))),
+    FIELD_WEIGHTS.url * fuzzyScore(term, bookmark.url.replace(/^https?:\/\/(www\.)?/i, ''))
+  );
+
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Evaluate a query against a bookmark. Returns null when it does not match,
+ * otherwise the text relevance (0 for pure filters).
+ */
+const evaluate = (node: BookmarkQueryNode, bookmark: Bookmark): number | null => {
+  switch (node.type) {
+    case 'text': {
+      const score = textScore(node.value, bookmark);
+      return score > 0 ? score : null;
+    }
+    case 'tag': {
+      const tags = (bookmark.tags || []).map(tag => tag.toLowerCase());
+      const matches = node.value.endsWith('*')
+        ? tags.some(tag => tag.startsWith(node.value.slice(0, -1)))
+        : tags.includes(node.value);
+      return matches ? 0 : null;
+    }
+    case 'site':
+      return hostOf(bookmark.url).includes(node.value) ? 0 : null;
+    case 'is': {
+      const matches =
+        node.value === 'pinned' ? bookmark.isPinned : bookmark.health?.status === node.value;
+      return matches ? 0 : null;
+    }
+    case 'not':
+      return evaluate(node.node, bookmark) === null ? 0 : null;
+    case 'and': {
+      let total = 0;
+      for (const child of node.nodes) {
+        const score = evaluate(child, bookmark);
+        if (score === null) return null;
+        total += score;
+      }
+      return total;
+    }
+    case 'or': {
+      const scores = node.nodes
+        .map(child => evaluate(child, bookmark))
+        .filter((score): score is number => score !== null);
+      return scores.length > 0 ? Math.max(...scores) : null;
+    }
+  }
+};
+
+const hasTextTerms = (node: BookmarkQueryNode): boolean => {
+  switch (node.type) {
+    case 'text':
+      return true;
+    case 'and':
+    case 'or':
+      return node.nodes.some(hasTextTerms);
+    default:
+      return false;
+  }
+};
+
+/**
+ * How much a bookmark is used, from 0 to 1: pinned, often visited and recently touched
+ */
+export const popularityScore = (bookmark: Bookmark, now: number = Date.now()): number => {
+  const visits = Math.min(1, Math.log1p(bookmark.visits || 0) / Math.log1p(VISITS_SATURATION));
+  const ageDays = Math.max(0, now - bookmark.updatedAt) / 86400000;
+  const recency = Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+  return (bookmark.isPinned ? PIN_WEIGHT : 0) + visits * VISITS_WEIGHT + recency * RECENCY_WEIGHT;
+};
+
+/**
+ * Bookmarks matching a query, best first. Text relevance dominates and usage
+ * breaks ties; filter-only queries are ordered by usage alone.
+ */
+export const searchBookmarks = (
+  bookmarks: Bookmark[],
+  query: string,
+  now: number = Date.now()
+): Bookmark[] => {
+  const root = parseBookmarkQuery(query);
+  const ranked = bookmarks.flatMap(bookmark => {
+    const relevance = root ? evaluate(root, bookmark) : 0;
+    if (relevance === null) return [];
+    const popularity = popularityScore(bookmark, now);
+    const score =
+      root && hasTextTerms(root) ? relevance * (1 + popularity * POPULARITY_INFLUENCE) : popularity;
+    return [{ bookmark, score }];
+  });
+
+  return ranked.sort((a, b) => b.score - a.score).map(({ bookmark }) => bookmark);
+};
+
+/**
+ * The tags a query requires, e.g. to highlight them in the tag bar
+ */
+export const getQueryTags = (query: string): string[] => {
+  const tags: string[] = [];
+  const collect = (node: BookmarkQueryNode | null) => {
+    if (!node) return;
+    if (node.type === 'tag') tags.push(node.value);
+    if (node.type === 'and' || node.type === 'or') node.nodes.forEach(collect);
+  };
+  collect(parseBookmarkQuery(query));
+  return tags;
+};
+
+/**
+ * Add `tag:name` to a query, or remove it if the query already has it
+ */
+export const toggleQueryTag = (query: string, tag: string): string => {
+  const term = /[\s()"]/.test(tag) ? `tag:"${tag}"` : `tag:${tag}`;
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const existing = new RegExp(`(^|\\s)${escaped}(?=\\s|$)`, 'gi');
+
+  return existing.test(query)
+    ? query.replace(existing, '').replace(/\s+/g, ' ').trim()
+    : `${query.trim()} ${term}`.trim();
+};
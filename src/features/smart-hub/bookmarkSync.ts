@@ -0,0 +1,306 @@
+/**
+ * SmartHub Bookmark Sync
+ * Two-way sync between SmartHub bookmarks and a browser bookmark folder, and
+ * merging of imported bookmark files. When both sides changed, the newer updatedAt wins.
+ */
+
+import type { Bookmark, BookmarkSyncState, ExternalBookmark } from '@/types/bookmarks';
+import {
+  createNativeBookmark,
+  readBookmarkFolder,
+  removeNativeBookmark,
+  updateNativeBookmark,
+} from './chromeBookmarks';
+
+export const BOOKMARK_SYNC_STORAGE_KEY = 'lucaverse_bookmark_sync';
+
+export type BookmarkSyncOperation =
+  | { type: 'create'; localId: number; title: string; url: string }
+  | { type: 'update'; nativeId: string; title: string; url: string }
+  | { type: 'remove'; nativeId: string };
+
+export interface BookmarkSyncPlan {
+  bookmarks: Bookmark[];
+  links: Record<number, string>;
+  operations: BookmarkSyncOperation[];
+}
+
+export interface BookmarkSyncResult {
+  bookmarks: Bookmark[];
+  state: BookmarkSyncState;
+  created: number;
+  updated: number;
+  removed: number;
+}
+
+export const createSyncState = (): BookmarkSyncState => ({
+  folderId: null,
+  lastSyncAt: 0,
+  links: {},
+});
+
+export const loadSyncState = (): BookmarkSyncState => {
+  try {
+    const stored = localStorage.getItem(BOOKMARK_SYNC_STORAGE_KEY);
+    return stored ? { ...createSyncState(), ...JSON.parse(stored) } : createSyncState();
+  } catch (error) {
+    console.error('Failed to load bookmark sync state:', error);
+    return createSyncState();
+  }
+};
+
+export const saveSyncState = (state: BookmarkSyncState): void => {
+  try {
+    localStorage.setItem(BOOKMARK_SYNC_STORAGE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.error('Failed to save bookmark sync state:', error);
+  }
+};
+
+const sameContent = (bookmark: Bookmark, external: ExternalBookmark) =>
+  bookmark.title === external.title && bookmark.url === external.url;
+
+const applyExternal = (bookmark: Bookmark, external: ExternalBookmark): Bookmark => ({
+  ...bookmark,
+  title: external.title,
+  url: external.url,
+  updatedAt: Math.max(bookmark.updatedAt, external.updatedAt),
+});
+
+// Folder names double as tags
+const externalTags = (external: ExternalBookmark): string[] =>
+  Array.from(new Set([...external.folders, ...(external.tags || [])].filter(Boolean)));
+
+/**
+ * Build a SmartHub bookmark for an entry that only exists outside SmartHub
+ */
+export const bookmarkFromExternal = (external: ExternalBookmark, id: number): Bookmark => {
+  const tags = externalTags(external);
+  return {
+    id,
+    title: external.title,
+    url: external.url,
+    favicon: '🔖',
+    visits: external.visits || 0,
+    isPinned: external.isPinned === true,
+    ...(tags.length > 0 && { tags }),
+    createdAt: external.createdAt,
+    updatedAt: external.updatedAt,
+  };
+};
+
+/**
+ * Normalize a URL for duplicate detection: lowercase scheme and host, no
+ * fragment, no trailing slash and no "www." prefix
+ */
+export const normalizeBookmarkUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url.trim());
+    const host = parsed.host.toLowerCase().replace(/^www\./, '');
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${parsed.protocol}//${host}${path}${parsed.search}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+};
+
+const createIdGenerator = (bookmarks: Bookmark[], now: number) => {
+  let nextId = Math.max(now, ...bookmarks.map(bookmark => bookmark.id + 1));
+  return () => nextId++;
+};
+
+/**
+ * Work out how to bring SmartHub and the browser folder back in line.
+ *
+ * A side "changed" when its updatedAt is after the last sync. Deleting a bookmark
+ * on one side deletes it on the other, unless the other side edited it since.
+ */
+export const reconcileBookmarks = (
+  local: Bookmark[],
+  remote: ExternalBookmark[],
+  state: BookmarkSyncState,
+  now: number = Date.now()
+): BookmarkSyncPlan => {
+  const remoteById = new Map(
+    remote.filter(item => item.nativeId).map(item => [item.nativeId as string, item])
+  );
+  const previouslyLinked = new Set(Object.values(state.links));
+  const claimed = new Set<string>();
+  const nextId = createIdGenerator(local, now);
+
+  const bookmarks: Bookmark[] = [];
+  const links: Record<number, string> = {};
+  const operations: BookmarkSyncOperation[] = [];
+
+  const changedSinceSync = (updatedAt: number) => updatedAt > state.lastSyncAt;
+
+  const link = (bookmark: Bookmark, external: ExternalBookmark, localWins: boolean) => {
+    const nativeId = external.nativeId as string;
+    claimed.add(nativeId);
+    links[bookmark.id] = nativeId;
+
+    if (sameContent(bookmark, external)) {
+      bookmarks.push(bookmark);
+    } else if (localWins) {
+      operations.push({ type: 'update', nativeId, title: bookmark.title, url: bookmark.url });
+      bookmarks.push(bookmark);
+    } else {
+      bookmarks.push(applyExternal(bookmark, external));
+    }
+  };
+
+  for (const bookmark of local) {
+    const nativeId = state.links[bookmark.id];
+    const linked = nativeId ? remoteById.get(nativeId) : undefined;
+
+    if (linked) {
+      const localChanged = changedSinceSync(bookmark.updatedAt);
+      const remoteChanged = changedSinceSync(linked.updatedAt);
+      link(
+        bookmark,
+        linked,
+        localChanged && (!remoteChanged || bookmark.updatedAt >= linked.updatedAt)
+      );
+      continue;
+    }
+
+    if (nativeId && !changedSinceSync(bookmark.updatedAt)) {
+      // Deleted in the browser and untouched here
+      continue;
+    }
+
+    // Never synced, or deleted in the browser after a local edit: match by URL first
+    const match = remote.find(
+      item =>
+        item.url === bookmark.url &&
+        !claimed.has(item.nativeId as string) &&
+        !previouslyLinked.has(item.nativeId as string)
+    );
+    if (match) {
+      link(bookmark, match, bookmark.updatedAt >= match.updatedAt);
+    } else {
+      operations.push({
+        type: 'create',
+        localId: bookmark.id,
+        title: bookmark.title,
+        url: bookmark.url,
+      });
+      bookmarks.push(bookmark);
+    }
+  }
+
+  for (const external of remote) {
+    const nativeId = external.nativeId as string;
+    if (claimed.has(nativeId)) continue;
+
+    if (previouslyLinked.has(nativeId) && !changedSinceSync(external.updatedAt)) {
+      // Deleted in SmartHub and untouched in the browser
+      operations.push({ type: 'remove', nativeId });
+      continue;
+    }
+
+    const bookmark = bookmarkFromExternal(external, nextId());
+    links[bookmark.id] = nativeId;
+    bookmarks.push(bookmark);
+  }
+
+  return { bookmarks, links, operations };
+};
+
+/**
+ * Run a two-way sync against the browser folder recorded in the sync state
+ */
+export const syncWithBrowserFolder = async (
+  local: Bookmark[],
+  state: BookmarkSyncState
+): Promise<BookmarkSyncResult> => {
+  const { folderId } = state;
+  if (!folderId) {
+    throw new Error('Choose a bookmark folder to sync with first');
+  }
+
+  const remote = await readBookmarkFolder(folderId);
+  const plan = reconcileBookmarks(local, remote, state);
+  const links = { ...plan.links };
+  const counts = { created: 0, updated: 0, removed: 0 };
+
+  for (const operation of plan.operations) {
+    switch (operation.type) {
+      case 'create':
+        links[operation.localId] = await createNativeBookmark(folderId, operation);
+        counts.created++;
+        break;
+      case 'update':
+        await updateNativeBookmark(operation.nativeId, operation);
+        counts.updated++;
+        break;
+      case 'remove':
+        await removeNativeBookmark(operation.nativeId);
+        counts.removed++;
+        break;
+    }
+  }
+
+  return {
+    bookmarks: plan.bookmarks,
+    state: { ...state, links, lastSyncAt: Date.now() },
+    ...counts,
+  };
+};
+
+export interface BookmarkImportResult {
+  bookmarks: Bookmark[];
+  added: number;
+  updated: number;
+  duplicates: number; // Imported entries whose URL was already present
+}
+
+/**
+ * Merge bookmarks from an imported file. Entries are matched by normalized URL
+ * and the newer updatedAt wins; visits and pins already in SmartHub are kept,
+ * and tags from the file are added to the existing ones.
+ */
+export const mergeImportedBookmarks = (
+  local: Bookmark[],
+  imported: ExternalBookmark[],
+  now: number = Date.now()
+): BookmarkImportResult => {
+  const nextId = createIdGenerator(local, now);
+  const byUrl = new Map(local.map(bookmark => [normalizeBookmarkUrl(bookmark.url), bookmark]));
+  const updatedUrls = new Set<string>();
+  let added = 0;
+  let duplicates = 0;
+
+  for (const external of imported) {
+    const key = normalizeBookmarkUrl(external.url);
+    const existing = byUrl.get(key);
+    if (!existing) {
+      byUrl.set(key, bookmarkFromExternal(external, nextId()));
+      added++;
+      continue;
+    }
+
+    duplicates++;
+    let merged =
+      external.updatedAt > existing.updatedAt && !sameContent(existing, external)
+        ? applyExternal(existing, external)
+        : existing;
+
+    const tags = Array.from(new Set([...(existing.tags || []), ...externalTags(external)]));
+    if (tags.length > (existing.tags?.length || 0)) {
+      merged = { ...merged, tags };
+    }
+
+    if (merged !== existing) {
+      byUrl.set(key, merged);
+      updatedUrls.add(key);
+    }
+  }
+
+  return {
+    bookmarks: Array.from(byUrl.values()),
+    added,
+    updated: updatedUrls.size,
+    duplicates,
+  };
+};
@@ -0,0 +1,252 @@
+/**
+ * SmartHub Bookmark Import/Export
+ * Converts bookmarks to and from Netscape HTML, JSON and CSV files
+ */
+
+import type { Bookmark, ExternalBookmark } from '@/types/bookmarks';
+import { saveTextFile, type TextFileFilter } from '@/utils/fileTransfer';
+import { bookmarksToNetscape, parseNetscapeBookmarks } from './netscapeBookmarks';
+
+export type BookmarkFileFormat = 'html' | 'json' | 'csv';
+
+const EXPORT_FORMAT = 'lucaverse-bookmarks';
+const EXPORT_VERSION = 1;
+const CSV_COLUMNS = ['title', 'url', 'tags', 'pinned', 'visits'] as const;
+
+const MIME_TYPES: Record<BookmarkFileFormat, string> = {
+  html: 'text/html',
+  json: 'application/json',
+  csv: 'text/csv',
+};
+
+export const BOOKMARK_FILE_FILTERS: TextFileFilter[] = [
+  { name: 'Bookmark files', extensions: ['html', 'htm', 'json', 'csv'] },
+  { name: 'Bookmarks HTML', extensions: ['html', 'htm'] },
+  { name: 'JSON', extensions: ['json'] },
+  { name: 'CSV', extensions: ['csv'] },
+];
+
+// JSON archive layout
+export interface BookmarkArchive {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  bookmarks: Bookmark[];
+}
+
+const isWebUrl = (url: unknown): url is string => typeof url === 'string' && /^https?:/i.test(url);
+
+export const bookmarksToJSON = (bookmarks: Bookmark[]): string => {
+  const archive: BookmarkArchive = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    bookmarks,
+  };
+  return JSON.stringify(archive, null, 2);
+};
+
+/**
+ * Read a JSON archive, or a plain array of bookmark-like objects
+ */
+export const parseBookmarksJSON = (content: string): ExternalBookmark[] => {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error('Bookmark import is not valid JSON');
+  }
+
+  const items = Array.isArray(data) ? data : data?.bookmarks;
+  if (!Array.isArray(items)) {
+    throw new Error('File does not contain a bookmark list');
+  }
+  if (data?.format === EXPORT_FORMAT && data.version > EXPORT_VERSION) {
+    throw new Error(`Unsupported bookmark export version: ${data.version}`);
+  }
+
+  const now = Date.now();
+  return items
+    .filter(item => isWebUrl(item?.url))
+    .map(item => {
+      const createdAt = typeof item.createdAt === 'number' ? item.createdAt : now;
+      return {
+        title: typeof item.title === 'string' && item.title ? item.title : item.url,
+        url: item.url,
+        folders: [],
+        ...(Array.isArray(item.tags) && {
+          tags: item.tags.filter((tag: unknown) => typeof tag === 'string'),
+        }),
+        isPinned: item.isPinned === true,
+        visits: typeof item.visits === 'number' ? item.visits : 0,
+        createdAt,
+        updatedAt: typeof item.updatedAt === 'number' ? item.updatedAt : createdAt,
+      };
+    });
+};
+
+// Cells a spreadsheet would run as a formula; exported with a leading apostrophe
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const escapeCSV = (value: string) => {
+  const safe = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * Write bookmarks as CSV with the columns title, url, tags, pinned, visits.
+ * Tags are separated by semicolons.
+ */
+export const bookmarksToCSV = (bookmarks: Bookmark[]): string => {
+  const rows = bookmarks.map(bookmark =>
+    [
+      bookmark.title,
+      bookmark.url,
+      (bookmark.tags || []).join(';'),
+      bookmark.isPinned ? 'true' : 'false',
+      String(bookmark.visits || 0),
+    ]
+      .map(escapeCSV)
+      .join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+};
+
+/**
+ * Split CSV text into rows of fields, honouring quoted fields with commas,
+ * escaped quotes and line breaks
+ */
+const parseCSVRows = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+/**
+ * Read CSV with a header row. Only the url column is required; columns may be in any order.
+ */
+export const parseBookmarksCSV = (content: string): ExternalBookmark[] => {
+  const [header, ...rows] = parseCSVRows(content.replace(/^\uFEFF/, ''));
+  const columns = (header || []).map(name => name.trim().toLowerCase());
+  const column = (name: string) => columns.indexOf(name);
+
+  if (column('url') === -1) {
+    throw new Error('CSV needs a header row with a "url" column');
+  }
+
+  const now = Date.now();
+  const cell = (cells: string[], name: string) =>
+    (cells[column(name)] || '').replace(/^'(?=[=+\-@\t\r])/, '').trim();
+
+  return rows
+    .filter(cells => isWebUrl(cell(cells, 'url')))
+    .map(cells => {
+      const url = cell(cells, 'url');
+      const tags = cell(cells, 'tags')
+        .split(/[;|]/)
+        .map(tag => tag.trim())
+        .filter(Boolean);
+      const visits = parseInt(cell(cells, 'visits'), 10);
+
+      return {
+        title: cell(cells, 'title') || url,
+        url,
+        folders: [],
+        ...(tags.length > 0 && { tags }),
+        isPinned: /^(true|yes|1)$/i.test(cell(cells, 'pinned')),
+        visits: Number.isFinite(visits) && visits > 0 ? visits : 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+    });
+};
+
+/**
+ * Work out a file's format from its extension, falling back to its content
+ */
+export const detectBookmarkFileFormat = (name: string, content: string): BookmarkFileFormat => {
+  const extension = name.split('.').pop()?.toLowerCase();
+  if (extension === 'htm' || extension === 'html') return 'html';
+  if (extension === 'json' || extension === 'csv') return extension;
+
+  const start = content.trimStart();
+  if (start.startsWith('{') || start.startsWith('[')) return 'json';
+  if (/^<!doctype netscape|<dl/i.test(start)) return 'html';
+  return 'csv';
+};
+
+/**
+ * Parse a bookmark file in any supported format
+ */
+export const parseBookmarkFile = (name: string, content: string): ExternalBookmark[] => {
+  switch (detectBookmarkFileFormat(name, content)) {
+    case 'html':
+      return parseNetscapeBookmarks(content);
+    case 'json':
+      return parseBookmarksJSON(content);
+    case 'csv':
+      return parseBookmarksCSV(content);
+  }
+};
+
+export const serializeBookmarks = (bookmarks: Bookmark[], format: BookmarkFileFormat): string => {
+  switch (format) {
+    case 'html':
+      return bookmarksToNetscape(bookmarks);
+    case 'json':
+      return bookmarksToJSON(bookmarks);
+    case 'csv':
+      return bookmarksToCSV(bookmarks);
+  }
+};
+
+/**
+ * Save bookmarks to a file through the platform save dialog. Returns false when cancelled.
+ */
+export const exportBookmarksFile = (
+  bookmarks: Bookmark[],
+  format: BookmarkFileFormat
+): Promise<boolean> => {
+  const date = new Date().toISOString().split('T')[0];
+  return saveTextFile(
+    `lucaverse-bookmarks-${date}.${format}`,
+    serializeBookmarks(bookmarks, format),
+    MIME_TYPES[format],
+    [{ name: format.toUpperCase(), extensions: [format] }]
+  );
+};
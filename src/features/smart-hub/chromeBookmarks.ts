@@ -0,0 +1,155 @@
+/**
+ * Chrome Bookmarks Adapter
+ * Reads and writes a chrome.bookmarks folder for SmartHub sync
+ */
+
+import type { ExternalBookmark } from '@/types/bookmarks';
+
+// chrome.storage.local key holding the last change time of each bookmark node
+export const BOOKMARK_CHANGES_KEY = 'bookmark_changes';
+
+const SYNC_FOLDER_TITLE = 'Lucaverse Hub';
+// Change times older than this no longer matter for conflict resolution
+const CHANGE_LOG_MAX_AGE = 90 * 24 * 60 * 60 * 1000;
+// "Other bookmarks" in Chrome's bookmark tree
+const OTHER_BOOKMARKS_ID = '2';
+
+export interface BookmarkFolder {
+  id: string;
+  title: string; // Full path, e.g. "Bookmarks bar / Dev"
+}
+
+type BookmarkNode = chrome.bookmarks.BookmarkTreeNode;
+
+let changeLogQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Whether the chrome.bookmarks API is available in this context
+ */
+export const isBookmarksAPIAvailable = (): boolean =>
+  typeof chrome !== 'undefined' && !!chrome.bookmarks?.getTree;
+
+/**
+ * Remember when a bookmark node changed. chrome.bookmarks has no per-bookmark
+ * modification time, so the background worker calls this from bookmark events.
+ */
+export const recordBookmarkChange = (nativeId: string): Promise<void> => {
+  const changedAt = Date.now();
+
+  // Events arrive in bursts (e.g. a sync creating many bookmarks), so writes are serialized
+  changeLogQueue = changeLogQueue
+    .catch(() => undefined)
+    .then(async () => {
+      const result = await chrome.storage.local.get(BOOKMARK_CHANGES_KEY);
+      const changes: Record<string, number> = result?.[BOOKMARK_CHANGES_KEY] || {};
+
+      const recent = Object.fromEntries(
+        Object.entries(changes).filter(([, time]) => changedAt - time < CHANGE_LOG_MAX_AGE)
+      );
+      await chrome.storage.local.set({
+        [BOOKMARK_CHANGES_KEY]: { ...recent, [nativeId]: changedAt },
+      });
+    });
+  return changeLogQueue;
+};
+
+/**
+ * List every bookmark folder with its full path
+ */
+export const getBookmarkFolders = async (): Promise<BookmarkFolder[]> => {
+  const folders: BookmarkFolder[] = [];
+
+  const visit = (node: BookmarkNode, path: string[]) => {
+    if (node.url) return;
+    const nodePath = node.title ? [...path, node.title] : path;
+    if (node.title) {
+      folders.push({ id: node.id, title: nodePath.join(' / ') });
+    }
+    node.children?.forEach(child => visit(child, nodePath));
+  };
+
+  (await chrome.bookmarks.getTree()).forEach(root => visit(root, []));
+  return folders;
+};
+
+/**
+ * Find or create the default "Lucaverse Hub" folder under Other bookmarks
+ */
+export const getOrCreateSyncFolder = async (): Promise<BookmarkFolder> => {
+  const [root] = await chrome.bookmarks.getTree();
+  const parent =
+    root?.children?.find(child => child.id === OTHER_BOOKMARKS_ID) ||
+    root?.children?.[root.children.length - 1];
+  if (!parent) {
+    throw new Error('Browser bookmark tree is not available');
+  }
+
+  const existing = (await chrome.bookmarks.getChildren(parent.id)).find(
+    child => !child.url && child.title === SYNC_FOLDER_TITLE
+  );
+  const folder =
+    existing || (await chrome.bookmarks.create({ parentId: parent.id, title: SYNC_FOLDER_TITLE }));
+
+  return { id: folder.id, title: `${parent.title} / ${folder.title}` };
+};
+
+/**
+ * Read all bookmarks inside a folder, including subfolders
+ */
+export const readBookmarkFolder = async (folderId: string): Promise<ExternalBookmark[]> => {
+  const [folder] = await chrome.bookmarks.getSubTree(folderId);
+  if (!folder) {
+    throw new Error('The synced bookmark folder no longer exists');
+  }
+
+  const result = await chrome.storage.local.get(BOOKMARK_CHANGES_KEY);
+  const changes: Record<string, number> = result?.[BOOKMARK_CHANGES_KEY] || {};
+  const bookmarks: ExternalBookmark[] = [];
+
+  const visit = (node: BookmarkNode, folders: string[]) => {
+    if (node.url) {
+      const createdAt = node.dateAdded || 0;
+      bookmarks.push({
+        nativeId: node.id,
+        title: node.title || node.url,
+        url: node.url,
+        folders,
+        createdAt,
+        updatedAt: Math.max(createdAt, changes[node.id] || 0),
+      });
+      return;
+    }
+    node.children?.forEach(child =>
+      visit(child, node.id === folder.id ? folders : [...folders, node.title])
+    );
+  };
+
+  visit(folder, []);
+  return bookmarks;
+};
+
+/**
+ * Create a bookmark in the folder and return its node id
+ */
+export const createNativeBookmark = async (
+  folderId: string,
+  bookmark: { title: string; url: string }
+): Promise<string> => {
+  const node = await chrome.bookmarks.create({
+    parentId: folderId,
+    title: bookmark.title,
+    url: bookmark.url,
+  });
+  return node.id;
+};
+
+export const updateNativeBookmark = async (
+  nativeId: string,
+  bookmark: { title: string; url: string }
+): Promise<void> => {
+  await chrome.bookmarks.update(nativeId, { title: bookmark.title, url: bookmark.url });
+};
+
+export const removeNativeBookmark = async (nativeId: string): Promise<void> => {
+  await chrome.bookmarks.remove(nativeId);
+};
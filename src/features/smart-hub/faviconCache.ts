@@ -0,0 +1,182 @@
+/**
+ * Favicon Cache
+ * Stores bookmark favicons as data URLs through the platform StorageAPI so they show offline
+ */
+
+import { getPlatformAPI, type StorageAPI } from '@/platform';
+
+// How long a downloaded favicon is used before it is fetched again
+export const FAVICON_TTL = 7 * 24 * 60 * 60 * 1000;
+// Sites without a favicon are retried sooner
+const MISSING_FAVICON_TTL = 24 * 60 * 60 * 1000;
+const FAVICON_SIZE = 32;
+
+interface FaviconEntry {
+  dataUrl: string | null;
+  expiresAt: number;
+}
+
+// Downloads the favicon for a page and returns it as a data URL, or null
+export type FaviconFetcher = (pageUrl: string) => Promise<string | null>;
+
+const faviconKey = (host: string) => `favicon_${host}`;
+
+const getHost = (url: string): string | null => {
+  try {
+    return new URL(url).host.toLowerCase() || null;
+  } catch {
+    return null;
+  }
+};
+
+// Only the hostname goes to the favicon service, never the bookmarked page's path or query
+const serviceUrl = (pageUrl: string) =>
+  `https://www.google.com/s2/favicons?domain=${encodeURIComponent(new URL(pageUrl).hostname)}&sz=${FAVICON_SIZE}`;
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const fetchImage = async (url: string): Promise<string | null> => {
+  const response = await fetch(url);
+  const blob = await response.blob();
+  return response.ok && blob.size > 0 && blob.type.startsWith('image/')
+    ? blobToDataUrl(blob)
+    : null;
+};
+
+/**
+ * Pick how favicons are downloaded on this platform: Chrome's built-in favicon
+ * endpoint in the extension, the main process on Electron, a favicon service on the web.
+ */
+const resolveFaviconFetcher = async (): Promise<FaviconFetcher> => {
+  const api = await getPlatformAPI();
+
+  if (api.type === 'chrome') {
+    return pageUrl =>
+      fetchImage(
+        chrome.runtime.getURL(
+          `/_favicon/?pageUrl=${encodeURIComponent(pageUrl)}&size=${FAVICON_SIZE}`
+        )
+      );
+  }
+
+  const electronAPI = (window as any).electronAPI;
+  if (api.type === 'electron' && electronAPI?.network) {
+    return pageUrl => electronAPI.network.fetchDataUrl(serviceUrl(pageUrl));
+  }
+
+  return pageUrl => fetchImage(serviceUrl(pageUrl));
+};
+
+export class FaviconCache {
+  private storagePromise: Promise<StorageAPI> | null = null;
+  private fetcherPromise: Promise<FaviconFetcher> | null = null;
+  private memory: Map<string, FaviconEntry> = new Map();
+  private pending: Map<string, Promise<string | null>> = new Map();
+
+  constructor(storage?: StorageAPI, fetcher?: FaviconFetcher) {
+    if (storage) {
+      this.storagePromise = Promise.resolve(storage);
+    }
+    if (fetcher) {
+      this.fetcherPromise = Promise.resolve(fetcher);
+    }
+  }
+
+  /**
+   * Get the favicon for a page as a data URL, downloading it when the cached copy
+   * is missing or expired. Resolves null when the site has no usable favicon.
+   */
+  async getFavicon(pageUrl: string): Promise<string | null> {
+    const host = getHost(pageUrl);
+    if (!host) {
+      return null;
+    }
+
+    const cached = this.memory.get(host) || (await this.readEntry(host));
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.dataUrl;
+    }
+
+    // Several bookmarks on one site share a single download
+    let request = this.pending.get(host);
+    if (!request) {
+      request = this.download(host, pageUrl, cached?.dataUrl ?? null).finally(() =>
+        this.pending.delete(host)
+      );
+      this.pending.set(host, request);
+    }
+    return request;
+  }
+
+  /**
+   * Get favicons for several pages. The result only contains pages that have one.
+   */
+  async getFavicons(pageUrls: string[]): Promise<Record<string, string>> {
+    const entries = await Promise.all(
+      pageUrls.map(async url => [url, await this.getFavicon(url)] as const)
+    );
+    return Object.fromEntries(entries.filter((entry): entry is [string, string] => !!entry[1]));
+  }
+
+  private async download(
+    host: string,
+    pageUrl: string,
+    previous: string | null
+  ): Promise<string | null> {
+    let dataUrl: string | null = null;
+    try {
+      dataUrl = await (await this.getFetcher())(pageUrl);
+    } catch (error) {
+      // Offline or blocked: keep showing the expired copy and try again next time
+      console.warn(`Failed to download favicon for ${host}:`, error);
+      return previous;
+    }
+
+    const entry: FaviconEntry = {
+      dataUrl,
+      expiresAt: Date.now() + (dataUrl ? FAVICON_TTL : MISSING_FAVICON_TTL),
+    };
+    this.memory.set(host, entry);
+    try {
+      await (await this.getStorage()).set(faviconKey(host), entry);
+    } catch (error) {
+      console.error('Failed to cache favicon:', error);
+    }
+    return dataUrl;
+  }
+
+  private async readEntry(host: string): Promise<FaviconEntry | null> {
+    try {
+      const entry = await (await this.getStorage()).get<FaviconEntry>(faviconKey(host));
+      if (entry) {
+        this.memory.set(host, entry);
+      }
+      return entry;
+    } catch (error) {
+      console.error('Failed to read cached favicon:', error);
+      return null;
+    }
+  }
+
+  private getStorage(): Promise<StorageAPI> {
+    if (!this.storagePromise) {
+      this.storagePromise = getPlatformAPI().then(api => api.storage);
+    }
+    return this.storagePromise;
+  }
+
+  private getFetcher(): Promise<FaviconFetcher> {
+    if (!this.fetcherPromise) {
+      this.fetcherPromise = resolveFaviconFetcher();
+    }
+    return this.fetcherPromise;
+  }
+}
+
+export const faviconCache = new FaviconCache();
@@ -0,0 +1,110 @@
+/**
+ * Link Checker
+ * Checks bookmark URLs for redirects and dead links. Runs where cross-origin
+ * requests are allowed: the extension background worker and the Electron main process.
+ */
+
+import type { LinkHealth } from '@/types/bookmarks';
+
+type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+// chrome.storage.local key for the URLs the background worker re-checks and its results
+export const LINK_HEALTH_STORAGE_KEY = 'link_health';
+
+export interface StoredLinkHealth {
+  urls: string[];
+  results: Record<string, LinkHealth>;
+  lastRunAt: number;
+}
+
+// Host access the extension needs before it can see other sites' responses
+export const LINK_CHECK_ORIGINS = ['http://*/*', 'https://*/*'];
+
+// Links checked more recently than this are skipped by periodic checks
+export const LINK_RECHECK_AGE = 7 * 24 * 60 * 60 * 1000;
+export const LINK_CHECK_TIMEOUT = 10000;
+const LINK_CHECK_CONCURRENCY = 4;
+
+// Servers that reject HEAD are retried with GET
+const HEAD_NOT_SUPPORTED = new Set([403, 405, 501]);
+
+// Responses that mean the page is gone for good
+const DEAD_LINK_STATUSES = new Set([404, 410]);
+
+const sameUrl = (a: string, b: string) => a.replace(/\/+$/, '') === b.replace(/\/+$/, '');
+
+const request = async (
+  url: string,
+  method: 'HEAD' | 'GET',
+  fetchImpl: FetchLike,
+  timeout: number
+): Promise<Response> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  try {
+    return await fetchImpl(url, {
+      method,
+      redirect: 'follow',
+      credentials: 'omit',
+      cache: 'no-store',
+      signal: controller.signal,
+    });
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Check one URL. Only 404/410 count as broken. Other error responses (sign-in
+ * required, rate limits, server errors), network failures and timeouts count
+ * as unreachable, since the page may well still exist.
+ */
+export const checkLink = async (
+  url: string,
+  fetchImpl: FetchLike = fetch,
+  timeout: number = LINK_CHECK_TIMEOUT
+): Promise<LinkHealth> => {
+  const checkedAt = Date.now();
+
+  try {
+    let response = await request(url, 'HEAD', fetchImpl, timeout);
+    if (HEAD_NOT_SUPPORTED.has(response.status)) {
+      response = await request(url, 'GET', fetchImpl, timeout);
+    }
+
+    if (!response.ok) {
+      return {
+        status: DEAD_LINK_STATUSES.has(response.status) ? 'broken' : 'unreachable',
+        httpStatus: response.status,
+        checkedAt,
+      };
+    }
+    if (response.redirected && response.url && !sameUrl(response.url, url)) {
+      return { status: 'redirect', httpStatus: response.status, finalUrl: response.url, checkedAt };
+    }
+    return { status: 'ok', httpStatus: response.status, checkedAt };
+  } catch {
+    return { status: 'unreachable', checkedAt };
+  }
+};
+
+/**
+ * Check several URLs, a few at a time. Results are keyed by URL.
+ */
+export const checkLinks = async (
+  urls: string[],
+  fetchImpl: FetchLike = fetch,
+  concurrency: number = LINK_CHECK_CONCURRENCY
+): Promise<Record<string, LinkHealth>> => {
+  const queue = Array.from(new Set(urls.filter(url => /^https?:/i.test(url))));
+  const results: Record<string, LinkHealth> = {};
+
+  const worker = async () => {
+    for (let url = queue.shift(); url; url = queue.shift()) {
+      results[url] = await checkLink(url, fetchImpl);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+  return results;
+};
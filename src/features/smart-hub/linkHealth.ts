@@ -0,0 +1,142 @@
+/**
+ * Link Health
+ * Runs bookmark link checks where the platform allows it and applies the results to SmartHub
+ */
+
+import { extensionMessaging } from '@/utils/extension';
+import type { PlatformType } from '@/platform';
+import type { Bookmark, LinkHealth } from '@/types/bookmarks';
+import {
+  LINK_CHECK_ORIGINS,
+  LINK_HEALTH_STORAGE_KEY,
+  LINK_RECHECK_AGE,
+  type StoredLinkHealth,
+} from './linkChecker';
+
+/**
+ * Browsers block cross-origin responses in a plain web page, so only the
+ * extension and the desktop app can check links.
+ */
+export const isLinkCheckAvailable = (platform: PlatformType): boolean =>
+  platform === 'chrome' || platform === 'electron';
+
+/**
+ * Check links now. In the extension this asks for site access first and must be
+ * called from a user gesture.
+ */
+export const requestLinkCheck = async (
+  platform: PlatformType,
+  urls: string[]
+): Promise<Record<string, LinkHealth>> => {
+  if (platform === 'electron') {
+    return (window as any).electronAPI.network.checkLinks(urls);
+  }
+
+  if (platform !== 'chrome') {
+    throw new Error('Link checks are only available in the extension and desktop app');
+  }
+
+  const granted = await chrome.permissions.request({ origins: LINK_CHECK_ORIGINS });
+  if (!granted) {
+    throw new Error('Site access is needed to check bookmark links');
+  }
+
+  const response = await extensionMessaging.sendToBackground('checkLinks', { urls, force: true });
+  if (!response.success) {
+    throw new Error(response.error || 'Link check failed');
+  }
+  return response.data;
+};
+
+/**
+ * Read the results the background worker stored from its periodic checks
+ */
+export const getStoredLinkHealth = async (): Promise<StoredLinkHealth | null> => {
+  const result = await chrome.storage.local.get(LINK_HEALTH_STORAGE_KEY);
+  return result?.[LINK_HEALTH_STORAGE_KEY] ?? null;
+};
+
+/**
+ * Tell the background worker which URLs its periodic checks should cover
+ */
+export const trackLinksForHealthCheck = async (urls: string[]): Promise<void> => {
+  const stored = await getStoredLinkHealth();
+  await chrome.storage.local.set({
+    [LINK_HEALTH_STORAGE_KEY]: {
+      results: {},
+      lastRunAt: 0,
+      ...stored,
+      urls: Array.from(new Set(urls)),
+    } satisfies StoredLinkHealth,
+  });
+};
+
+/**
+ * Whether any bookmark has not been checked within LINK_RECHECK_AGE
+ */
+export const isLinkCheckDue = (bookmarks: Bookmark[], now: number = Date.now()): boolean =>
+  bookmarks.some(bookmark => now - (bookmark.health?.checkedAt || 0) > LINK_RECHECK_AGE);
+
+/**
+ * Copy check results onto bookmarks. A check is not an edit, so updatedAt is kept.
+ */
+export const applyLinkHealth = (
+  bookmarks: Bookmark[],
+  results: Record<string, LinkHealth>
+): Bookmark[] =>
+  bookmarks.map(bookmark => {
+    const health = results[bookmark.url];
+    return health && health.checkedAt !== bookmark.health?.checkedAt
+      ? { ...bookmark, health }
+      : bookmark;
+  });
+
+// Where sites send visitors who are not signed in
+const SIGN_IN_HOST = /^(login|auth|accounts?|sso|signin|id)\./i;
+const SIGN_IN_PATH = /(^|[/._-])(log-?in|sign-?in|sign_in|auth|oauth2?|sso|saml)([/._?-]|$)/i;
+
+const isSignInPage = (url: string): boolean => {
+  try {
+    const { hostname, pathname } = new URL(url);
+    return SIGN_IN_HOST.test(hostname) || SIGN_IN_PATH.test(pathname);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Whether a redirect can be applied in bulk. One that lands on a sign-in page
+ * only means the check was not signed in, so the bookmark is left for review.
+ */
+export const canApplyRedirect = (bookmark: Bookmark): boolean => {
+  const { health } = bookmark;
+  return (
+    health?.status === 'redirect' &&
+    !!health.finalUrl &&
+    (isSignInPage(bookmark.url) || !isSignInPage(health.finalUrl))
+  );
+};
+
+/**
+ * Remove bookmarks whose last check found a dead link
+ */
+export const removeBrokenBookmarks = (bookmarks: Bookmark[]): Bookmark[] =>
+  bookmarks.filter(bookmark => bookmark.health?.status !== 'broken');
+
+/**
+ * Point redirected bookmarks at the address they redirect to, except those
+ * sent to a sign-in page
+ */
+export const applyRedirects = (bookmarks: Bookmark[], now: number = Date.now()): Bookmark[] =>
+  bookmarks.map(bookmark => {
+    const { health } = bookmark;
+    if (!health?.finalUrl || !canApplyRedirect(bookmark)) {
+      return bookmark;
+    }
+    return {
+      ...bookmark,
+      url: health.finalUrl,
+      health: { status: 'ok', checkedAt: health.checkedAt },
+      updatedAt: now,
+    };
+  });
@@ -0,0 +1,145 @@
+/**
+ * Netscape Bookmark Files
+ * Reads and writes the bookmarks.html format every browser imports and exports
+ */
+
+import type { Bookmark, ExternalBookmark } from '@/types/bookmarks';
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value =
+        code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : +code.slice(1);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+const getAttribute = (attributes: string, name: string): string | undefined => {
+  const match = attributes.match(
+    new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i')
+  );
+  return match ? decodeEntities(match[2] ?? match[3] ?? match[4] ?? '') : undefined;
+};
+
+// ADD_DATE and LAST_MODIFIED are Unix seconds
+const getTimestamp = (attributes: string, name: string): number | undefined => {
+  const seconds = Number(getAttribute(attributes, name));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+};
+
+const stripTags = (html: string) => decodeEntities(html.replace(/<[^>]*>/g, '')).trim();
+
+/**
+ * Parse a Netscape bookmark file. Folder names become the `folders` path of each bookmark.
+ */
+export const parseNetscapeBookmarks = (html: string): ExternalBookmark[] => {
+  if (!/<dl/i.test(html) || !/<a\s/i.test(html)) {
+    throw new Error('File is not a bookmarks HTML export');
+  }
+
+  const bookmarks: ExternalBookmark[] = [];
+  const folders: string[] = [];
+  let pendingFolder: string | null = null;
+  let depth = 0; // <DL> nesting, the outermost list is the root
+  const folderDepths: number[] = [];
+
+  const tokens = /<h3([^>]*)>([\s\S]*?)<\/h3>|<a\s([^>]*)>([\s\S]*?)<\/a>|<dl[^>]*>|<\/dl>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokens.exec(html))) {
+    const token = match[0].toLowerCase();
+
+    if (token.startsWith('<h3')) {
+      pendingFolder = stripTags(match[2] || '') || 'Untitled folder';
+    } else if (token.startsWith('<a')) {
+      const attributes = match[3] || '';
+      const url = getAttribute(attributes, 'href');
+      if (!url || !/^https?:/i.test(url)) continue;
+
+      const createdAt = getTimestamp(attributes, 'add_date') || Date.now();
+      // Firefox stores tags as a comma-separated TAGS attribute
+      const tags = (getAttribute(attributes, 'tags') || '')
+        .split(',')
+        .map(tag => tag.trim())
+        .filter(Boolean);
+
+      bookmarks.push({
+        title: stripTags(match[4] || '') || url,
+        url,
+        folders: [...folders],
+        ...(tags.length > 0 && { tags }),
+        createdAt,
+        updatedAt: getTimestamp(attributes, 'last_modified') || createdAt,
+      });
+    } else if (token.startsWith('<dl')) {
+      depth++;
+      if (pendingFolder !== null) {
+        folders.push(pendingFolder);
+        folderDepths.push(depth);
+        pendingFolder = null;
+      }
+    } else {
+      if (folderDepths[folderDepths.length - 1] === depth) {
+        folders.pop();
+        folderDepths.pop();
+      }
+      depth = Math.max(0, depth - 1);
+    }
+  }
+
+  return bookmarks;
+};
+
+const escapeHTML = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toSeconds = (timestamp: number) => Math.floor(timestamp / 1000);
+
+const renderLink = (bookmark: Bookmark, indent: string) => {
+  const tags = bookmark.tags?.length ? ` TAGS="${escapeHTML(bookmark.tags.join(','))}"` : '';
+  return `${indent}<DT><A HREF="${escapeHTML(bookmark.url)}" ADD_DATE="${toSeconds(
+    bookmark.createdAt
+  )}" LAST_MODIFIED="${toSeconds(bookmark.updatedAt)}"${tags}>${escapeHTML(bookmark.title)}</A>`;
+};
+
+/**
+ * Write bookmarks as a Netscape bookmark file. Each bookmark is placed in a
+ * folder named after its first tag, so importing the file restores that tag.
+ */
+export const bookmarksToNetscape = (bookmarks: Bookmark[]): string => {
+  const lines = [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file. It will be read and overwritten. DO NOT EDIT! -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>',
+    '<DL><p>',
+  ];
+
+  const byFolder = new Map<string, Bookmark[]>();
+  for (const bookmark of bookmarks) {
+    const folder = bookmark.tags?.[0] || '';
+    byFolder.set(folder, [...(byFolder.get(folder) || []), bookmark]);
+  }
+
+  for (const [folder, items] of byFolder) {
+    if (!folder) continue;
+    lines.push(`    <DT><H3>${escapeHTML(folder)}</H3>`, '    <DL><p>');
+    items.forEach(bookmark => lines.push(renderLink(bookmark, '        ')));
+    lines.push('    </DL><p>');
+  }
+  (byFolder.get('') || []).forEach(bookmark => lines.push(renderLink(bookmark, '    ')));
+
+  lines.push('</DL><p>', '');
+  return lines.join('\n');
+};
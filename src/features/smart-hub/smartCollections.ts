@@ -0,0 +1,54 @@
+/**
+ * Smart Collections
+ * Saved bookmark searches that SmartHub shows alongside its built-in sections
+ */
+
+import type { SmartCollection } from '@/types/bookmarks';
+
+export const SMART_COLLECTIONS_STORAGE_KEY = 'lucaverse_smart_collections';
+
+export const loadSmartCollections = (): SmartCollection[] => {
+  try {
+    const stored = localStorage.getItem(SMART_COLLECTIONS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Failed to load smart collections:', error);
+    return [];
+  }
+};
+
+export const saveSmartCollections = (collections: SmartCollection[]): void => {
+  try {
+    localStorage.setItem(SMART_COLLECTIONS_STORAGE_KEY, JSON.stringify(collections));
+  } catch (error) {
+    console.error('Failed to save smart collections:', error);
+  }
+};
+
+/**
+ * Save a query as a collection. Saving the same query again renames the existing one.
+ */
+export const addSmartCollection = (
+  collections: SmartCollection[],
+  name: string,
+  query: string,
+  now: number = Date.now()
+): SmartCollection[] => {
+  const trimmedName = name.trim();
+  const trimmedQuery = query.trim();
+  if (!trimmedName || !trimmedQuery) {
+    throw new Error('A smart collection needs a name and a search query');
+  }
+
+  const existing = collections.find(collection => collection.query === trimmedQuery);
+  if (existing) {
+    return collections.map(collection =>
+      collection === existing ? { ...collection, name: trimmedName } : collection
+    );
+  }
+
+  return [
+    ...collections,
+    { id: `collection_${now}`, name: trimmedName, query: trimmedQuery, createdAt: now },
+  ];
+};
@@ -0,0 +1,73 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Quick Add Test Suite
+ * Verifies extraction of priority, category, tags and due dates from task shorthand
+ */
+
+import { parseQuickAdd } from '../quickAdd';
+
+// Monday 19 October 2026, 10:00 local time
+const now = new Date(2026, 9, 19, 10, 0).getTime();
+const at = (month: number, day: number, hours: number, minutes: number = 0, year = 2026) =>
+  new Date(year, month, day, hours, minutes).getTime();
+
+describe('parseQuickAdd', () => {
+  test('extracts priority, category and tags', () => {
+    expect(parseQuickAdd('Ship release notes !1 #Work +docs +release +docs', now)).toEqual({
+      text: 'Ship release notes',
+      priority: 1,
+      category: 'Work',
+      tags: ['docs', 'release'],
+    });
+  });
+
+  test('leaves plain text and look-alikes alone', () => {
+    expect(parseQuickAdd('Buy 3 apples for C++ night at home!', now)).toEqual({
+      text: 'Buy 3 apples for C++ night at home!',
+      tags: [],
+    });
+    expect(parseQuickAdd('Ask the mayor 5 questions !6', now).dueDate).toBeUndefined();
+    expect(parseQuickAdd('Buy sun cream', now)).toMatchObject({ text: 'Buy sun cream' });
+    expect(parseQuickAdd('Buy sun cream', now).dueDate).toBeUndefined();
+    expect(parseQuickAdd('Sat exam prep', now).dueDate).toBeUndefined();
+    expect(parseQuickAdd('Sat exam prep on sat', now)).toMatchObject({
+      text: 'Sat exam prep',
+      dueDate: at(9, 24, 9),
+    });
+    expect(parseQuickAdd('Water plants next sun', now).dueDate).toBe(at(9, 25, 9));
+  });
+
+  test('understands relative days and times', () => {
+    expect(parseQuickAdd('Call Sam tomorrow 3pm', now)).toMatchObject({
+      text: 'Call Sam',
+      dueDate: at(9, 20, 15),
+    });
+    expect(parseQuickAdd('Pay rent next fri', now).dueDate).toBe(at(9, 23, 9));
+    expect(parseQuickAdd('Standup on mon at 9:30 am', now)).toMatchObject({
+      text: 'Standup',
+      dueDate: at(9, 26, 9, 30),
+    });
+    expect(parseQuickAdd('Review in 2 weeks', now).dueDate).toBe(at(10, 2, 9));
+    expect(parseQuickAdd('Movie tonight', now).dueDate).toBe(at(9, 19, 20));
+  });
+
+  test('rolls a time that has passed to tomorrow', () => {
+    expect(parseQuickAdd('Stretch 8am', now).dueDate).toBe(at(9, 20, 8));
+    expect(parseQuickAdd('Lunch at noon', now)).toMatchObject({
+      text: 'Lunch',
+      dueDate: at(9, 19, 12),
+    });
+  });
+
+  test('reads calendar dates', () => {
+    expect(parseQuickAdd('Taxes due 2027-04-15', now)).toMatchObject({
+      text: 'Taxes',
+      dueDate: at(3, 15, 9, 0, 2027),
+    });
+    expect(parseQuickAdd('Party oct 31st 18:00', now).dueDate).toBe(at(9, 31, 18));
+    expect(parseQuickAdd('Renew 3 march', now).dueDate).toBe(at(2, 3, 9, 0, 2027));
+  });
+});
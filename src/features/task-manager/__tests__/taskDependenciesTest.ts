@@ -0,0 +1,86 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Task Dependencies Test Suite
+ * Verifies blocked state, cycle detection, cleanup of dangling links and progress roll-up
+ */
+
+import type { Task } from '@/types/tasks';
+import {
+  addDependency,
+  getBlockers,
+  isBlocked,
+  pruneDependencies,
+  removeDependency,
+  rollUpProgress,
+  wouldCreateCycle,
+} from '../taskDependencies';
+
+const task = (id: number, fields: Partial<Task> = {}): Task => ({
+  id,
+  text: `Task ${id}`,
+  completed: false,
+  priority: 3,
+  progress: 0,
+  createdAt: 0,
+  updatedAt: 0,
+  ...fields,
+});
+
+describe('dependencies', () => {
+  // 3 waits on 2, which waits on 1
+  const chain = [task(1), task(2, { blockedBy: [1] }), task(3, { blockedBy: [2] })];
+
+  test('tasks are blocked until their blockers are done', () => {
+    expect(getBlockers(chain[2]!, chain).map(t => t.id)).toEqual([2]);
+    expect(isBlocked(chain[0]!, chain)).toBe(false);
+
+    const done = chain.map(t => (t.id === 2 ? { ...t, completed: true } : t));
+    expect(isBlocked(done[2]!, done)).toBe(false);
+  });
+
+  test('detects direct and indirect cycles', () => {
+    expect(wouldCreateCycle(chain, 1, 3)).toBe(true);
+    expect(wouldCreateCycle(chain, 1, 1)).toBe(true);
+    expect(wouldCreateCycle(chain, 3, 1)).toBe(false);
+    expect(() => addDependency(chain, 1, 3)).toThrow('cycle');
+  });
+
+  test('adds and removes links without duplicates', () => {
+    const linked = addDependency(addDependency(chain, 3, 1), 3, 1);
+    expect(linked[2]!.blockedBy).toEqual([2, 1]);
+
+    const unlinked = removeDependency(removeDependency(linked, 3, 1), 3, 2);
+    expect(unlinked[2]).not.toHaveProperty('blockedBy');
+  });
+
+  test('drops links to deleted tasks', () => {
+    const pruned = pruneDependencies(chain.filter(t => t.id !== 2));
+    expect(pruned[1]).not.toHaveProperty('blockedBy');
+    expect(pruned[0]).toBe(chain[0]);
+  });
+});
+
+describe('rollUpProgress', () => {
+  test('averages subtasks recursively, counting completed ones as done', () => {
+    const rolled = rollUpProgress([
+      task(1, { progress: 90 }),
+      task(2, { parentId: 1, completed: true, progress: 100 }),
+      task(3, { parentId: 1 }),
+      task(4, { parentId: 3, progress: 50 }),
+      task(5, { parentId: 3, progress: 0 }),
+    ]);
+    expect(rolled.map(t => t.progress)).toEqual([63, 100, 25, 50, 0]);
+  });
+
+  test('keeps completed parents at 100% and returns the same array when unchanged', () => {
+    const tasks = [
+      task(1, { completed: true, progress: 100 }),
+      task(2, { parentId: 1 }),
+      task(3, { progress: 30 }),
+    ];
+    expect(rollUpProgress(tasks)).toBe(tasks);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Task Recurrence Test Suite
+ * Verifies occurrence stepping, completion of repeating tasks and RRULE conversion
+ */
+
+import {
+  completeRecurringTask,
+  describeRecurrence,
+  formatRRule,
+  nextOccurrence,
+  parseRRule,
+  previewOccurrences,
+} from '../taskRecurrence';
+import type { Task, TaskRecurrence } from '@/types/tasks';
+
+// Monday 19 October 2026, 09:00 local time
+const monday = new Date(2026, 9, 19, 9, 0).getTime();
+const at = (month: number, day: number, hours: number = 9) =>
+  new Date(2026, month, day, hours, 0).getTime();
+
+const task = (id: number, extra: Partial<Task> = {}): Task => ({
+  id,
+  text: `Task ${id}`,
+  completed: false,
+  priority: 3,
+  progress: 0,
+  createdAt: monday,
+  updatedAt: monday,
+  ...extra,
+});
+
+describe('nextOccurrence', () => {
+  test('steps daily schedules by the interval', () => {
+    expect(nextOccurrence({ frequency: 'daily', interval: 1 }, monday)).toBe(at(9, 20));
+    expect(nextOccurrence({ frequency: 'daily', interval: 3 }, monday)).toBe(at(9, 22));
+  });
+
+  test('walks weekly schedules through their weekdays', () => {
+    const weekdays: TaskRecurrence = {
+      frequency: 'weekly',
+      interval: 1,
+      weekdays: [1, 2, 3, 4, 5],
+    };
+    expect(nextOccurrence(weekdays, at(9, 23))).toBe(at(9, 26));
+
+    const biweekly: TaskRecurrence = { frequency: 'weekly', interval: 2, weekdays: [1, 4] };
+    expect(previewOccurrences(biweekly, monday, 4)).toEqual([
+      monday,
+      at(9, 22),
+      at(10, 2),
+      at(10, 5),
+    ]);
+  });
+
+  test('clamps monthly schedules to short months without drifting', () => {
+    const monthly: TaskRecurrence = { frequency: 'monthly', interval: 1, monthDay: 31 };
+    expect(previewOccurrences(monthly, at(0, 31), 3)).toEqual([at(0, 31), at(1, 28), at(2, 31)]);
+  });
+
+  test('stops at until and count', () => {
+    const daily: TaskRecurrence = { frequency: 'daily', interval: 1 };
+    expect(nextOccurrence({ ...daily, until: at(9, 20, 0) }, monday)).toBeNull();
+    expect(previewOccurrences({ ...daily, count: 2 }, monday)).toHaveLength(2);
+  });
+});
+
+describe('completeRecurringTask', () => {
+  const recurrence: TaskRecurrence = { frequency: 'daily', interval: 1 };
+
+  test('moves the schedule to a fresh next instance with its subtasks', () => {
+    const tasks = [
+      task(1, { completed: true, progress: 100, dueDate: monday, recurrence }),
+      task(2, { parentId: 1, completed: true, progress: 100 }),
+    ];
+    const result = completeRecurringTask(tasks, 1, monday - 60000);
+
+    expect(result).toHaveLength(4);
+    expect(result[0]).not.toHaveProperty('recurrence');
+    const next = result[2]!;
+    expect(next).toMatchObject({ completed: false, progress: 0, dueDate: at(9, 20), recurrence });
+    expect(result[3]).toMatchObject({ parentId: next.id, completed: false, progress: 0 });
+
+    // Undoing and redoing the old instance adds nothing more
+    expect(completeRecurringTask(result, 1, monday)).toBe(result);
+  });
+
+  test('starts the next instance and its subtasks without tracked time', () => {
+    const tasks = [
+      task(1, { completed: true, dueDate: monday, recurrence, timeSpent: 120, estimate: 30 }),
+      task(2, { parentId: 1, completed: true, timeSpent: 45 }),
+    ];
+    const [done, subtask, next, nextSubtask] = completeRecurringTask(tasks, 1, monday);
+
+    expect(done).toMatchObject({ timeSpent: 120 });
+    expect(subtask).toMatchObject({ timeSpent: 45 });
+    expect(next).toMatchObject({ estimate: 30 });
+    expect(next).not.toHaveProperty('timeSpent');
+    expect(nextSubtask).not.toHaveProperty('timeSpent');
+  });
+
+  test('skips occurrences missed by a late completion', () => {
+    const tasks = [task(1, { completed: true, dueDate: monday, recurrence })];
+    const result = completeRecurringTask(tasks, 1, at(9, 22, 12));
+    expect(result[1]!.dueDate).toBe(at(9, 23));
+  });
+
+  test('ends the series when no occurrences are left', () => {
+    const tasks = [
+      task(1, { completed: true, dueDate: monday, recurrence: { ...recurrence, count: 2 } }),
+    ];
+    const second = completeRecurringTask(tasks, 1, monday);
+    expect(second[1]!.recurrence).toMatchObject({ count: 1 });
+
+    const last = completeRecurringTask(
+      [{ ...second[1]!, completed: true }],
+      second[1]!.id,
+      at(9, 20)
+    );
+    expect(last).toHaveLength(1);
+    expect(last[0]).not.toHaveProperty('recurrence');
+  });
+});
+
+describe('RRULE', () => {
+  test('round-trips supported rules', () => {
+    const rule = 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10';
+    expect(formatRRule(parseRRule(`RRULE:${rule}`)!)).toBe(rule);
+    expect(parseRRule('FREQ=MONTHLY;BYMONTHDAY=15;UNTIL=20261231T120000Z')).toEqual({
+      frequency: 'monthly',
+      interval: 1,
+      monthDay: 15,
+      until: Date.UTC(2026, 11, 31, 12, 0, 0),
+    });
+  });
+
+  test('rejects rules the model cannot represent', () => {
+    expect(parseRRule('FREQ=YEARLY')).toBeNull();
+    expect(parseRRule('FREQ=MONTHLY;BYDAY=1MO')).toBeNull();
+    expect(parseRRule('INTERVAL=2')).toBeNull();
+  });
+
+  test('describes schedules', () => {
+    expect(
+      describeRecurrence({ frequency: 'weekly', interval: 1, weekdays: [5, 1, 2, 3, 4] })
+    ).toBe('Weekdays');
+    expect(describeRecurrence({ frequency: 'weekly', interval: 2, weekdays: [4, 1] })).toBe(
+      'Every 2 weeks on Mon, Thu'
+    );
+    expect(describeRecurrence({ frequency: 'monthly', interval: 1, monthDay: 3, count: 4 })).toBe(
+      'Monthly on day 3 (4 left)'
+    );
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Task Reminders Test Suite
+ * Verifies due-date views, reminder times, the reminder sync plan and that
+ * reminders are scheduled again wherever a reload drops them
+ */
+
+import {
+  getDueStatus,
+  getReminderTime,
+  matchesDueView,
+  parseDateTimeInput,
+  planReminders,
+  reminderId,
+  toDateTimeInputValue,
+  withDueDate,
+} from '../taskReminders';
+import type { Task } from '@/types/tasks';
+
+const mockPlatform = { type: 'chrome' };
+const mockScheduled: string[] = [];
+
+jest.mock('@/platform', () => ({
+  getCurrentPlatformType: () => mockPlatform.type,
+  getPlatformAPI: async () => ({
+    notifications: {
+      schedule: async (id: string) => {
+        mockScheduled.push(id);
+        return true;
+      },
+      cancelScheduled: async () => true,
+    },
+  }),
+}));
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Mid-morning, so "today" has room on both sides
+const now = new Date(2026, 9, 19, 10, 0).getTime();
+
+const task = (id: number, extra: Partial<Task> = {}): Task => ({
+  id,
+  text: `Task ${id}`,
+  completed: false,
+  priority: 3,
+  progress: 0,
+  createdAt: now,
+  updatedAt: now,
+  ...extra,
+});
+
+describe('due views', () => {
+  test('classifies open tasks by due date', () => {
+    expect(getDueStatus(task(1, { dueDate: now - MINUTE }), now)).toBe('overdue');
+    expect(getDueStatus(task(2, { dueDate: now + 2 * HOUR }), now)).toBe('today');
+    expect(getDueStatus(task(3, { dueDate: now + 24 * HOUR }), now)).toBe('upcoming');
+    expect(getDueStatus(task(4, { dueDate: now + 30 * 24 * HOUR }), now)).toBeNull();
+    expect(getDueStatus(task(5), now)).toBeNull();
+  });
+
+  test('leaves completed tasks out of every due view', () => {
+    const done = task(1, { dueDate: now - HOUR, completed: true });
+    expect(matchesDueView(done, 'overdue', now)).toBe(false);
+    expect(matchesDueView(done, 'all', now)).toBe(true);
+  });
+});
+
+describe('due dates', () => {
+  test('round-trips datetime-local values in local time', () => {
+    const due = new Date(2026, 9, 21, 9, 5).getTime();
+    expect(toDateTimeInputValue(due)).toBe('2026-10-21T09:05');
+    expect(parseDateTimeInput('2026-10-21T09:05')).toBe(due);
+    expect(parseDateTimeInput('')).toBeNull();
+    expect(parseDateTimeInput('not a date')).toBeNull();
+  });
+
+  test('drops the reminder along with the due date', () => {
+    const scheduled = withDueDate(task(1), now + HOUR, 15);
+    expect(scheduled).toMatchObject({ dueDate: now + HOUR, reminderOffset: 15 });
+    expect(getReminderTime(scheduled)).toBe(now + 45 * MINUTE);
+
+    const cleared = withDueDate(scheduled, null, 15);
+    expect(cleared).not.toHaveProperty('dueDate');
+    expect(cleared).not.toHaveProperty('reminderOffset');
+  });
+});
+
+describe('planReminders', () => {
+  const reminding = (id: number, extra: Partial<Task> = {}) =>
+    task(id, { dueDate: now + HOUR, reminderOffset: 0, ...extra });
+
+  test('schedules new reminders and skips ones already scheduled', () => {
+    const plan = planReminders(
+      [reminding(1), reminding(2), task(3)],
+      { [reminderId(2)]: { when: now + HOUR, text: 'Task 2' } },
+      now
+    );
+
+    expect(plan.schedule.map(({ id }) => id)).toEqual([reminderId(1)]);
+    expect(plan.cancel).toEqual([]);
+    expect(Object.keys(plan.index)).toEqual([reminderId(1), reminderId(2)]);
+  });
+
+  test('reschedules moved or renamed tasks', () => {
+    const plan = planReminders(
+      [reminding(1, { dueDate: now + 2 * HOUR }), reminding(2, { text: 'Renamed' })],
+      {
+        [reminderId(1)]: { when: now + HOUR, text: 'Task 1' },
+        [reminderId(2)]: { when: now + HOUR, text: 'Task 2' },
+      },
+      now
+    );
+
+    expect(plan.schedule.map(({ id }) => id)).toEqual([reminderId(1), reminderId(2)]);
+  });
+
+  test('cancels reminders for completed or deleted tasks, but not fired ones', () => {
+    const plan = planReminders(
+      [reminding(1, { completed: true })],
+      {
+        [reminderId(1)]: { when: now + HOUR, text: 'Task 1' },
+        [reminderId(2)]: { when: now + HOUR, text: 'Task 2' },
+        [reminderId(3)]: { when: now - HOUR, text: 'Task 3' },
+      },
+      now
+    );
+
+    expect(plan.schedule).toEqual([]);
+    expect(plan.cancel).toEqual([reminderId(1), reminderId(2)]);
+    expect(plan.index).toEqual({});
+  });
+});
+
+describe('syncTaskReminders', () => {
+  const store: Record<string, string> = {};
+  const tasks = [task(1, { dueDate: now + HOUR, reminderOffset: 0 })];
+
+  // A fresh copy of the module, as after a page reload
+  const reload = (): typeof import('../taskReminders').syncTaskReminders => {
+    let module: typeof import('../taskReminders') | undefined;
+    jest.isolateModules(() => {
+      module = require('../taskReminders');
+    });
+    return module!.syncTaskReminders;
+  };
+
+  beforeAll(() => {
+    (global as any).localStorage = {
+      getItem: (key: string) => store[key] ?? null,
+      setItem: (key: string, value: string) => {
+        store[key] = value;
+      },
+    };
+  });
+
+  afterAll(() => {
+    delete (global as any).localStorage;
+  });
+
+  beforeEach(() => {
+    Object.keys(store).forEach(key => delete store[key]);
+    mockScheduled.length = 0;
+  });
+
+  test('remembers reminders the platform keeps across reloads', async () => {
+    mockPlatform.type = 'chrome';
+    await reload()(tasks, now);
+    await reload()(tasks, now);
+    expect(mockScheduled).toEqual([reminderId(1)]);
+  });
+
+  test('schedules web reminders again after a reload', async () => {
+    mockPlatform.type = 'web';
+    const sync = reload();
+    await sync(tasks, now);
+    await sync(tasks, now);
+    expect(mockScheduled).toEqual([reminderId(1)]);
+
+    await reload()(tasks, now);
+    expect(mockScheduled).toEqual([reminderId(1), reminderId(1)]);
+    expect(store).toEqual({});
+  });
+});
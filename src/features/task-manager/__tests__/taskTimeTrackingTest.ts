@@ -0,0 +1,49 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Task Time Tracking Test Suite
+ * Verifies accumulated focus time, estimates and duration formatting
+ */
+
+import type { Task } from '@/types/tasks';
+import { addTrackedTime, formatMinutes, getTimeStatus, withEstimate } from '../taskTimeTracking';
+
+const task = (id: number, fields: Partial<Task> = {}): Task => ({
+  id,
+  text: `Task ${id}`,
+  completed: false,
+  priority: 3,
+  progress: 0,
+  createdAt: 0,
+  updatedAt: 0,
+  ...fields,
+});
+
+describe('task time tracking', () => {
+  test('accumulates tracked minutes on one task', () => {
+    const tasks = addTrackedTime(addTrackedTime([task(1), task(2)], 1, 25), 1, 10);
+    expect(tasks.map(t => t.timeSpent)).toEqual([35, undefined]);
+  });
+
+  test('sets and clears estimates', () => {
+    expect(withEstimate(task(1), 90).estimate).toBe(90);
+    expect(withEstimate(task(1, { estimate: 90 }), null)).not.toHaveProperty('estimate');
+    expect(withEstimate(task(1, { estimate: 90 }), 0)).not.toHaveProperty('estimate');
+  });
+
+  test('compares tracked time with the estimate', () => {
+    expect(getTimeStatus(task(1, { timeSpent: 50 }))).toBeNull();
+    expect(getTimeStatus(task(1, { estimate: 60 }))).toBe('under');
+    expect(getTimeStatus(task(1, { estimate: 60, timeSpent: 50 }))).toBe('near');
+    expect(getTimeStatus(task(1, { estimate: 60, timeSpent: 61 }))).toBe('over');
+  });
+
+  test('formats durations', () => {
+    expect(formatMinutes(0)).toBe('0m');
+    expect(formatMinutes(45)).toBe('45m');
+    expect(formatMinutes(120)).toBe('2h');
+    expect(formatMinutes(95)).toBe('1h 35m');
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Task Transfer Test Suite
+ * Verifies todo.txt, Markdown checklist and iCalendar round trips and duplicate handling on import
+ */
+
+import type { Task } from '@/types/tasks';
+import {
+  detectTaskFileFormat,
+  mergeImportedTasks,
+  parseICS,
+  parseMarkdownChecklist,
+  parseTaskFile,
+  parseTodoTxt,
+  serializeTasks,
+  tasksToICS,
+  type TaskFileFormat,
+} from '../taskTransfer';
+
+// Monday 19 October 2026, 10:00 local time
+const now = new Date(2026, 9, 19, 10, 0).getTime();
+const at = (month: number, day: number, hours: number, minutes: number = 0) =>
+  new Date(2026, month, day, hours, minutes).getTime();
+
+const tasks: Task[] = [
+  {
+    id: 1,
+    text: 'Ship release',
+    completed: false,
+    priority: 1,
+    progress: 40,
+    category: 'Work',
+    tags: ['launch'],
+    notes: 'Changelog first\nthen tag',
+    dueDate: at(9, 23, 15, 30),
+    reminderOffset: 15,
+    recurrence: { frequency: 'weekly', interval: 2 },
+    createdAt: at(9, 1, 8),
+    updatedAt: at(9, 2, 8),
+  },
+  {
+    id: 2,
+    text: 'Write notes',
+    completed: true,
+    priority: 3,
+    parentId: 1,
+    progress: 100,
+    createdAt: at(9, 1, 8),
+    updatedAt: at(9, 3, 8),
+  },
+  {
+    id: 3,
+    text: 'Water plants',
+    completed: false,
+    priority: 4,
+    progress: 0,
+    dueDate: at(9, 20, 9),
+    createdAt: at(9, 5, 8),
+    updatedAt: at(9, 5, 8),
+  },
+];
+
+// Fields each format should carry through a round trip, with ids replaced by texts
+const outline = (list: Task[]) =>
+  list.map(task => ({
+    text: task.text,
+    completed: task.completed,
+    priority: task.priority,
+    parent: list.find(other => other.id === task.parentId)?.text,
+    category: task.category,
+    tags: task.tags,
+    dueDate: task.dueDate,
+  }));
+
+describe('round trips', () => {
+  test.each<TaskFileFormat>(['todotxt', 'markdown', 'ics'])(
+    '%s keeps tasks and nesting',
+    format => {
+      const content = serializeTasks(tasks, format);
+      const name = format === 'todotxt' ? 'todo.txt' : `tasks.${format === 'ics' ? 'ics' : 'md'}`;
+      expect(outline(parseTaskFile(name, content, now))).toEqual(outline(tasks));
+    }
+  );
+
+  test('todo.txt writes standard fields and extensions', () => {
+    expect(serializeTasks(tasks, 'todotxt').split('\n')).toEqual([
+      '(A) 2026-10-01 Ship release +Work @launch due:2026-10-23 time:15:30 remind:15 rec:2w id:1',
+      'x 2026-10-03 2026-10-01 Write notes p:1 pri:C',
+      '(D) 2026-10-05 Water plants due:2026-10-20',
+      '',
+    ]);
+  });
+
+  test('Markdown nests subtasks and quotes notes', () => {
+    expect(serializeTasks(tasks, 'markdown')).toBe(
+      [
+        '- [ ] Ship release <!-- lucaverse {"priority":1,"category":"Work","tags":["launch"],' +
+          '"due":"2026-10-23 15:30","reminder":15,"rrule":"FREQ=WEEKLY;INTERVAL=2"} -->',
+        '  > Changelog first',
+        '  > then tag',
+        '  - [x] Write notes',
+        '- [ ] Water plants <!-- lucaverse {"priority":4,"due":"2026-10-20 09:00"} -->',
+        '',
+      ].join('\n')
+    );
+    expect(parseMarkdownChecklist(serializeTasks(tasks, 'markdown'), now)[0]!.notes).toBe(
+      'Changelog first\nthen tag'
+    );
+  });
+
+  test('Markdown keeps item text that looks like quick-add shorthand', () => {
+    const { dueDate: _dueDate, ...undated } = tasks[2]!;
+    const tricky: Task[] = [
+      { ...undated, id: 4, text: 'Review Friday release notes' },
+      { ...undated, id: 5, text: 'Ship v2 today', category: 'Deep Work' },
+      { ...tasks[2]!, id: 6, text: 'Fix issue #123 !1 +urgent', category: 'Work' },
+      { ...tasks[2]!, id: 7, text: 'Escape --> <!-- safely', tags: ['a-->b'] },
+    ];
+    const imported = parseMarkdownChecklist(serializeTasks(tricky, 'markdown'), now);
+    expect(outline(imported)).toEqual(outline(tricky));
+  });
+
+  test('todo.txt keeps full schedules and reminders', () => {
+    const weekdays: Task = {
+      ...tasks[0]!,
+      recurrence: {
+        frequency: 'weekly',
+        interval: 1,
+        weekdays: [1, 2, 3, 4, 5],
+        count: 10,
+        until: Date.UTC(2026, 11, 31, 23, 59, 59),
+      },
+    };
+    const line = serializeTasks([weekdays], 'todotxt');
+    expect(line).toContain(' remind:15 rec:1w rrule:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;COUNT=10;');
+    expect(parseTodoTxt(line, now)[0]).toMatchObject({
+      reminderOffset: 15,
+      recurrence: weekdays.recurrence,
+    });
+  });
+
+  test('iCalendar keeps notes, progress, schedules and reminders', () => {
+    const [release] = parseICS(tasksToICS(tasks, now), now);
+    expect(release).toMatchObject({
+      notes: 'Changelog first\nthen tag',
+      progress: 40,
+      reminderOffset: 15,
+      recurrence: { frequency: 'weekly', interval: 2 },
+      createdAt: at(9, 1, 8),
+    });
+  });
+});
+
+describe('imports from other apps', () => {
+  test('reads plain todo.txt lines', () => {
+    const [task] = parseTodoTxt('(B) Call Mom +Family +Phone @home https://x.dev due:2026-11-02');
+    expect(task).toMatchObject({
+      text: 'Call Mom https://x.dev',
+      priority: 2,
+      category: 'Family',
+      tags: ['Phone', 'home'],
+      dueDate: at(10, 2, 9),
+    });
+  });
+
+  test('reads GitHub checklists with nested items and other Markdown', () => {
+    const imported = parseMarkdownChecklist(
+      ['# Sprint', '', '* [X] Plan', '1. [ ] Build', '    - [ ] API', 'Some prose'].join('\n'),
+      now
+    );
+    expect(
+      outline(imported).map(({ text, completed, parent }) => [text, completed, parent])
+    ).toEqual([
+      ['Plan', true, undefined],
+      ['Build', false, undefined],
+      ['API', false, 'Build'],
+    ]);
+  });
+
+  test('reads folded and escaped VTODOs and skips cancelled ones', () => {
+    const imported = parseICS(
+      [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VTODO',
+        'UID:a',
+        'SUMMARY:Buy milk\\, eggs',
+        'DUE;VALUE=DATE:20261102',
+        'PRIORITY:2',
+        'DESCRIPTION:long',
+        '  text',
+        'END:VTODO',
+        'BEGIN:VTODO',
+        'SUMMARY:Old',
+        'STATUS:CANCELLED',
+        'END:VTODO',
+        'BEGIN:VEVENT',
+        'SUMMARY:Meeting',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\r\n'),
+      now
+    );
+    expect(imported).toHaveLength(1);
+    expect(imported[0]).toMatchObject({
+      text: 'Buy milk, eggs',
+      priority: 1,
+      notes: 'long text',
+      dueDate: at(10, 2, 9),
+    });
+  });
+
+  test('rejects files that are not iCalendar', () => {
+    expect(() => parseICS('SUMMARY:nope', now)).toThrow('not an iCalendar file');
+  });
+
+  test('detects formats from names and content', () => {
+    expect(detectTaskFileFormat('todo.txt', '(A) Task')).toBe('todotxt');
+    expect(detectTaskFileFormat('notes.txt', '- [ ] Task')).toBe('markdown');
+    expect(detectTaskFileFormat('export', 'BEGIN:VCALENDAR')).toBe('ics');
+    expect(detectTaskFileFormat('list.md', '')).toBe('markdown');
+  });
+});
+
+describe('mergeImportedTasks', () => {
+  test('skips duplicates but adds their new subtasks', () => {
+    const imported = parseMarkdownChecklist(
+      ['- [ ] ship release', '  - [ ] Write notes', '  - [ ] Tweet', '- [ ] New'].join('\n'),
+      now
+    );
+    const result = mergeImportedTasks(tasks, imported);
+
+    expect(result.added).toBe(2);
+    expect(result.duplicates).toBe(2);
+    expect(result.tasks.slice(tasks.length).map(task => [task.text, task.parentId])).toEqual([
+      ['Tweet', 1],
+      ['New', undefined],
+    ]);
+  });
+});
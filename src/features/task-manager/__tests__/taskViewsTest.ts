@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Task Views Test Suite
+ * Verifies Kanban grouping, moves between columns and calendar day grids
+ */
+
+import type { Task } from '@/types/tasks';
+import {
+  NO_CATEGORY_COLUMN,
+  getCalendarDays,
+  groupTasksByDay,
+  groupTasksForBoard,
+  moveTaskToColumn,
+  shiftCalendar,
+} from '../taskViews';
+
+const task = (id: number, fields: Partial<Task> = {}): Task => ({
+  id,
+  text: `Task ${id}`,
+  completed: false,
+  priority: 3,
+  progress: 0,
+  createdAt: 0,
+  updatedAt: 0,
+  ...fields,
+});
+
+// Monday 19 October 2026
+const day = (month: number, date: number, hours: number = 0) =>
+  new Date(2026, month, date, hours).getTime();
+
+describe('groupTasksForBoard', () => {
+  const tasks = [
+    task(1, { priority: 1, category: 'Work' }),
+    task(2, { category: 'Home' }),
+    task(3),
+    task(4, { priority: 1, parentId: 1 }),
+  ];
+
+  test('gives every priority a column of top-level tasks', () => {
+    const columns = groupTasksForBoard(tasks, 'priority', []);
+    expect(columns.map(column => column.id)).toEqual(['1', '2', '3', '4', '5']);
+    expect(columns[0]!.tasks.map(t => t.id)).toEqual([1]);
+    expect(columns[2]!.tasks.map(t => t.id)).toEqual([2, 3]);
+  });
+
+  test('groups by category with a column for uncategorized tasks', () => {
+    const columns = groupTasksForBoard(tasks, 'category', ['Work', 'Home', 'Empty']);
+    expect(columns.map(column => [column.id, column.tasks.map(t => t.id)])).toEqual([
+      [NO_CATEGORY_COLUMN, [3]],
+      ['category:Work', [1]],
+      ['category:Home', [2]],
+      ['category:Empty', []],
+    ]);
+  });
+});
+
+describe('moveTaskToColumn', () => {
+  test('changes priority or category', () => {
+    expect(moveTaskToColumn(task(1), 'priority', '1').priority).toBe(1);
+    expect(moveTaskToColumn(task(1), 'category', 'category:Work').category).toBe('Work');
+    expect(
+      moveTaskToColumn(task(1, { category: 'Work' }), 'category', NO_CATEGORY_COLUMN)
+    ).not.toHaveProperty('category');
+  });
+
+  test('returns the same task when nothing changes', () => {
+    const work = task(1, { category: 'Work' });
+    expect(moveTaskToColumn(work, 'category', 'category:Work')).toBe(work);
+    expect(moveTaskToColumn(work, 'priority', '3')).toBe(work);
+    expect(moveTaskToColumn(work, 'priority', 'bogus')).toBe(work);
+  });
+});
+
+describe('calendar', () => {
+  test('shows the Sunday-to-Saturday week around a date', () => {
+    const days = getCalendarDays(day(9, 21, 15), 'week');
+    expect(days).toHaveLength(7);
+    expect(days[0]).toBe(day(9, 18));
+    expect(days[6]).toBe(day(9, 24));
+  });
+
+  test('pads months to whole weeks', () => {
+    const days = getCalendarDays(day(9, 19), 'month');
+    expect(days).toHaveLength(35);
+    expect(days[0]).toBe(day(8, 27));
+    expect(days[34]).toBe(day(9, 31));
+  });
+
+  test('moves by weeks and months', () => {
+    expect(shiftCalendar(day(9, 19), 'week', -1)).toBe(day(9, 12));
+    expect(shiftCalendar(day(9, 31), 'month', 1)).toBe(day(10, 1));
+  });
+
+  test('places dated tasks on their day, earliest first', () => {
+    const byDay = groupTasksByDay([
+      task(1, { dueDate: day(9, 19, 15) }),
+      task(2),
+      task(3, { dueDate: day(9, 19, 9) }),
+      task(4, { dueDate: day(9, 20, 9) }),
+    ]);
+    expect(byDay.get(day(9, 19))!.map(t => t.id)).toEqual([3, 1]);
+    expect(byDay.get(day(9, 20))!.map(t => t.id)).toEqual([4]);
+    expect(byDay.size).toBe(2);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Quick Add
+ * Parses task shorthand such as "Call Sam tomorrow 3pm !2 #Work +phone" into task fields
+ */
+
+import type { TaskPriority } from '@/types/tasks';
+
+export interface ParsedQuickAdd {
+  text: string;
+  priority?: TaskPriority;
+  category?: string;
+  tags: string[];
+  dueDate?: number;
+}
+
+interface TimeOfDay {
+  hours: number;
+  minutes: number;
+}
+
+interface DateMatch {
+  date: Date; // Midnight of the matched day
+  time?: TimeOfDay;
+  length: number;
+}
+
+interface TimeMatch {
+  time: TimeOfDay;
+  length: number;
+}
+
+// Dates without a time are due at the start of the working day
+const DEFAULT_DUE_TIME: TimeOfDay = { hours: 9, minutes: 0 };
+
+const TONIGHT: TimeOfDay = { hours: 20, minutes: 0 };
+
+// Words that may introduce a date or time and are dropped with it
+const CONNECTORS = new Set(['on', 'at', 'by', 'due']);
+
+const WEEKDAYS: Record<string, number> = {
+  sun: 0,
+  sunday: 0,
+  mon: 1,
+  monday: 1,
+  tue: 2,
+  tues: 2,
+  tuesday: 2,
+  wed: 3,
+  wednesday: 3,
+  thu: 4,
+  thur: 4,
+  thurs: 4,
+  thursday: 4,
+  fri: 5,
+  friday: 5,
+  sat: 6,
+  saturday: 6,
+};
+
+// Abbreviations that are also ordinary words ("sun cream", "sat exam"), only
+// read as days after a connector or "this"/"next"
+const AMBIGUOUS_WEEKDAYS = new Set(['sun', 'sat', 'wed']);
+
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+];
+
+const UNIT_DAYS: Record<string, number> = { day: 1, days: 1, week: 7, weeks: 7 };
+
+const today = (now: number, offsetDays: number = 0): Date => {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + offsetDays);
+  return date;
+};
+
+// Full or three-letter month names, plus "sept"
+const parseMonth = (word: string | undefined): number =>
+  word === 'sept' ? 8 : MONTHS.findIndex(month => word === month || word === month.slice(0, 3));
+
+const parseDayOfMonth = (word: string | undefined): number | null => {
+  const match = word?.match(/^(\d{1,2})(?:st|nd|rd|th)?$/);
+  const day = match ? parseInt(match[1]!, 10) : NaN;
+  return day >= 1 && day <= 31 ? day : null;
+};
+
+// Month and day without a year: this year, or next year once it has passed
+const nextDateFor = (month: number, day: number, now: number): Date => {
+  const date = new Date(today(now).getFullYear(), month, day);
+  if (date < today(now)) date.setFullYear(date.getFullYear() + 1);
+  return date;
+};
+
+const matchDate = (
+  words: string[],
+  i: number,
+  now: number,
+  afterConnector: boolean
+): DateMatch | null => {
+  const [word = '', next, after] = words.slice(i, i + 3);
+
+  if (word === 'today') return { date: today(now), length: 1 };
+  if (word === 'tonight') return { date: today(now), time: TONIGHT, length: 1 };
+  if (['tomorrow', 'tmr', 'tmrw'].includes(word)) return { date: today(now, 1), length: 1 };
+
+  // "fri", "this fri" and "next fri" all mean the coming Friday, never today
+  const isRelative = word === 'next' || word === 'this';
+  const weekday =
+    isRelative || afterConnector || !AMBIGUOUS_WEEKDAYS.has(word)
+      ? WEEKDAYS[isRelative ? (next ?? '') : word]
+      : undefined;
+  if (weekday !== undefined) {
+    const ahead = (weekday - today(now).getDay() + 7) % 7 || 7;
+    return { date: today(now, ahead), length: isRelative ? 2 : 1 };
+  }
+
+  if (word === 'next' && next === 'week') {
+    const toMonday = (8 - today(now).getDay()) % 7 || 7;
+    return { date: today(now, toMonday), length: 2 };
+  }
+
+  if (word === 'in' && next && /^\d{1,3}$/.test(next) && after && UNIT_DAYS[after]) {
+    return { date: today(now, parseInt(next, 10) * UNIT_DAYS[after]!), length: 3 };
+  }
+
+  const iso = word.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) {
+    const date = new Date(+iso[1]!, +iso[2]! - 1, +iso[3]!);
+    return Number.isNaN(date.getTime()) ? null : { date, length: 1 };
+  }
+
+  // "oct 25" or "25 oct"
+  const monthFirst = parseMonth(word);
+  const dayAfter = parseDayOfMonth(next);
+  if (monthFirst !== -1 && dayAfter !== null) {
+    return { date: nextDateFor(monthFirst, dayAfter, now), length: 2 };
+  }
+  const dayFirst = parseDayOfMonth(word);
+  const monthAfter = parseMonth(next);
+  if (dayFirst !== null && monthAfter !== -1) {
+    return { date: nextDateFor(monthAfter, dayFirst, now), length: 2 };
+  }
+
+  return null;
+};
+
+const toTime = (hours: number, minutes: number, meridiem?: string): TimeOfDay | null => {
+  if (minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  return hours <= 23 ? { hours, minutes } : null;
+};
+
+const matchTime = (words: string[], i: number): TimeMatch | null => {
+  const [word = '', next] = words.slice(i, i + 2);
+
+  if (word === 'noon') return { time: { hours: 12, minutes: 0 }, length: 1 };
+
+  // "3pm", "3:30pm", "3 pm"
+  const clock = word.match(/^(\d{1,2})(?::(\d{2}))?(am|pm)?$/);
+  if (clock) {
+    const [, hours, minutes = '0', meridiem] = clock;
+    if (meridiem) {
+      const time = toTime(+hours!, +minutes, meridiem);
+      return time && { time, length: 1 };
+    }
+    if (next === 'am' || next === 'pm') {
+      const time = toTime(+hours!, +minutes, next);
+      return time && { time, length: 2 };
+    }
+    // Bare numbers are too ambiguous; only "15:00" style counts as a time
+    if (word.includes(':')) {
+      const time = toTime(+hours!, +minutes);
+      return time && { time, length: 1 };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Split quick-add input into task fields:
+ *
+ * - `!1`–`!5` priority
+ * - `#category` (the first one wins)
+ * - `+tag`, any number of them
+ * - a date ("today", "tomorrow", "fri", "next fri", "in 3 days", "oct 25",
+ *   "2026-10-25") and/or a time ("3pm", "3:30 pm", "15:00", "noon")
+ *
+ * Whatever is left is the task text. A time alone means today, or tomorrow
+ * once it has passed; a date alone is due at 9:00.
+ */
+export const parseQuickAdd = (input: string, now: number = Date.now()): ParsedQuickAdd => {
+  const words = input.trim().split(/\s+/).filter(Boolean);
+  const lower = words.map(word => word.toLowerCase());
+  const result: ParsedQuickAdd = { text: '', tags: [] };
+  const kept: string[] = [];
+  let date: DateMatch | null = null;
+  let time: TimeMatch | null = null;
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i]!;
+
+    const priority = word.match(/^!([1-5])$/);
+    if (priority) {
+      result.priority = parseInt(priority[1]!, 10) as TaskPriority;
+      continue;
+    }
+
+    const category = word.match(/^#(\S+)$/);
+    if (category) {
+      result.category ??= category[1]!;
+      continue;
+    }
+
+    const tag = word.match(/^\+(\S+)$/);
+    if (tag) {
+      if (!result.tags.includes(tag[1]!)) result.tags.push(tag[1]!);
+      continue;
+    }
+
+    // Try the phrase as is, then after a connector such as "on" or "at"
+    const start = CONNECTORS.has(lower[i]!) ? [i, i + 1] : [i];
+    let consumed = 0;
+    for (const from of start) {
+      const dateMatch: DateMatch | null = date ? null : matchDate(lower, from, now, from > i);
+      const timeMatch: TimeMatch | null = time || dateMatch ? null : matchTime(lower, from);
+      if (dateMatch) date = dateMatch;
+      if (timeMatch) time = timeMatch;
+
+      const length = dateMatch?.length ?? timeMatch?.length;
+      if (length) {
+        consumed = from - i + length;
+        break;
+      }
+    }
+
+    if (consumed > 0) {
+      i += consumed - 1;
+    } else {
+      kept.push(word);
+    }
+  }
+
+  result.text = kept.join(' ');
+
+  if (date || time) {
+    const day = date?.date ?? today(now);
+    const { hours, minutes } = time?.time ?? date?.time ?? DEFAULT_DUE_TIME;
+    day.setHours(hours, minutes, 0, 0);
+    if (!date && day.getTime() <= now) day.setDate(day.getDate() + 1);
+    result.dueDate = day.getTime();
+  }
+
+  return result;
+};
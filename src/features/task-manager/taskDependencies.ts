@@ -0,0 +1,124 @@
+/**
+ * Task Dependencies
+ * "Blocked by" links between tasks and progress rolled up from subtasks
+ */
+
+import type { Task } from '@/types/tasks';
+
+/**
+ * Open tasks the given task is waiting on. Links to deleted or completed
+ * tasks no longer block.
+ */
+export const getBlockers = (task: Task, tasks: Task[]): Task[] => {
+  if (!task.blockedBy?.length) return [];
+  return tasks.filter(other => task.blockedBy!.includes(other.id) && !other.completed);
+};
+
+export const isBlocked = (task: Task, tasks: Task[]): boolean =>
+  getBlockers(task, tasks).length > 0;
+
+/**
+ * Whether making `taskId` wait on `blockerId` would close a loop, i.e. the
+ * blocker already waits on the task, directly or through other tasks
+ */
+export const wouldCreateCycle = (tasks: Task[], taskId: number, blockerId: number): boolean => {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const seen = new Set<number>();
+  const pending = [blockerId];
+
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (id === taskId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    pending.push(...(byId.get(id)?.blockedBy ?? []));
+  }
+
+  return false;
+};
+
+/**
+ * Make a task wait on another. Throws if the link would create a cycle.
+ */
+export const addDependency = (tasks: Task[], taskId: number, blockerId: number): Task[] => {
+  if (wouldCreateCycle(tasks, taskId, blockerId)) {
+    throw new Error('That dependency would create a cycle');
+  }
+
+  return tasks.map(task =>
+    task.id === taskId && !task.blockedBy?.includes(blockerId)
+      ? { ...task, blockedBy: [...(task.blockedBy ?? []), blockerId], updatedAt: Date.now() }
+      : task
+  );
+};
+
+export const removeDependency = (tasks: Task[], taskId: number, blockerId: number): Task[] =>
+  tasks.map(task => {
+    if (task.id !== taskId || !task.blockedBy?.includes(blockerId)) return task;
+
+    const { blockedBy, ...rest } = task;
+    const remaining = blockedBy.filter(id => id !== blockerId);
+    return {
+      ...rest,
+      ...(remaining.length > 0 && { blockedBy: remaining }),
+      updatedAt: Date.now(),
+    };
+  });
+
+/**
+ * Drop links to tasks that no longer exist, e.g. after a delete
+ */
+export const pruneDependencies = (tasks: Task[]): Task[] => {
+  const ids = new Set(tasks.map(task => task.id));
+
+  return tasks.map(task => {
+    if (!task.blockedBy || task.blockedBy.every(id => ids.has(id))) return task;
+
+    const { blockedBy, ...rest } = task;
+    const remaining = blockedBy.filter(id => ids.has(id));
+    return { ...rest, ...(remaining.length > 0 && { blockedBy: remaining }) };
+  });
+};
+
+/**
+ * Set the progress of every task with subtasks to the average of its
+ * subtasks, counting completed ones as 100%, recursively. Completed parents
+ * stay at 100%. Returns the same array when nothing changes.
+ */
+export const rollUpProgress = (tasks: Task[]): Task[] => {
+  const children = new Map<number, Task[]>();
+  tasks.forEach(task => {
+    if (task.parentId !== undefined) {
+      children.set(task.parentId, [...(children.get(task.parentId) ?? []), task]);
+    }
+  });
+  if (children.size === 0) return tasks;
+
+  const progress = new Map<number, number>();
+  const visiting = new Set<number>();
+
+  const computeProgress = (task: Task): number => {
+    if (task.completed) return 100;
+    const subtasks = children.get(task.id);
+    if (!subtasks || visiting.has(task.id)) return task.progress;
+    if (progress.has(task.id)) return progress.get(task.id)!;
+
+    visiting.add(task.id);
+    const total = subtasks.reduce((sum, subtask) => sum + computeProgress(subtask), 0);
+    visiting.delete(task.id);
+
+    const value = Math.round(total / subtasks.length);
+    progress.set(task.id, value);
+    return value;
+  };
+
+  let changed = false;
+  const rolled = tasks.map(task => {
+    const value = computeProgress(task);
+    if (value === task.progress) return task;
+    changed = true;
+    return { ...task, progress: value };
+  });
+
+  return changed ? rolled : tasks;
+};
@@ -0,0 +1,118 @@
+/**
+ * Task Inbox
+ * Lets other panels hand tasks to the Task Manager, live or through storage when it is closed
+ */
+
+import { getPlatformAPI } from '@/platform';
+import type { ExtensionTask } from '@/types/extension';
+import type { Task, TaskPriority } from '@/types/tasks';
+
+export const TASKS_STORAGE_KEY = 'lucaverse_tasks';
+
+// chrome.storage.local queue the background worker fills from context menus and the popup
+export const EXTENSION_TASKS_STORAGE_KEY = 'extension_tasks';
+
+// Window event carrying a TaskDraft; the Task Manager claims it with preventDefault()
+export const ADD_TASK_EVENT = 'lucaverse:add-task';
+
+export interface TaskDraft {
+  text: string;
+  priority?: TaskPriority;
+  category?: string;
+  tags?: string[];
+  notes?: string;
+}
+
+/**
+ * Build a new root-level task from a draft
+ */
+export const createTaskFromDraft = (draft: TaskDraft): Task => {
+  const now = Date.now();
+
+  return {
+    id: now + Math.random(),
+    text: draft.text.trim(),
+    completed: false,
+    priority: draft.priority ?? 3,
+    progress: 0,
+    ...(draft.category && { category: draft.category }),
+    ...(draft.tags?.length && { tags: draft.tags }),
+    ...(draft.notes && { notes: draft.notes }),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Send a task to the Task Manager. An open Task Manager adds it directly;
+ * otherwise the task is appended to stored tasks and picked up on next load.
+ */
+export const sendTaskToTaskManager = (draft: TaskDraft): void => {
+  const event = new CustomEvent<TaskDraft>(ADD_TASK_EVENT, { detail: draft, cancelable: true });
+  const unclaimed = window.dispatchEvent(event);
+  if (!unclaimed) return;
+
+  try {
+    const stored = localStorage.getItem(TASKS_STORAGE_KEY);
+    const tasks: Task[] = stored ? JSON.parse(stored) : [];
+    localStorage.setItem(TASKS_STORAGE_KEY, JSON.stringify([...tasks, createTaskFromDraft(draft)]));
+  } catch (error) {
+    console.error('Failed to store task:', error);
+    throw new Error('Failed to send task to Task Manager');
+  }
+};
+
+/**
+ * A task captured by the extension as a new Task Manager task
+ */
+export const taskFromExtensionTask = (captured: ExtensionTask): Task => {
+  const notes = [captured.description, captured.url].filter(Boolean).join('\n\n');
+  return {
+    ...createTaskFromDraft({
+      text: captured.title,
+      priority: captured.priority,
+      ...(captured.category && { category: captured.category }),
+      ...(captured.tags && { tags: captured.tags }),
+      ...(notes && { notes }),
+    }),
+    ...(captured.dueDate && { dueDate: captured.dueDate }),
+    createdAt: captured.createdAt,
+  };
+};
+
+/**
+ * Empty the extension's task queue and return its tasks as new Task Manager tasks
+ */
+export const takeExtensionTasks = async (): Promise<Task[]> => {
+  const { storage } = await getPlatformAPI();
+  const queued = await storage.get<ExtensionTask[]>(EXTENSION_TASKS_STORAGE_KEY);
+  if (!Array.isArray(queued) || queued.length === 0) return [];
+
+  await storage.remove(EXTENSION_TASKS_STORAGE_KEY);
+  return queued.filter(task => task.title?.trim()).map(taskFromExtensionTask);
+};
+
+// Window event carrying a task id; the Task Manager claims it with preventDefault()
+export const FOCUS_TASK_EVENT = 'lucaverse:focus-task';
+
+// Task requested while no Task Manager was listening, selected on its next load
+let pendingFocusTaskId: number | null = null;
+
+/**
+ * Select and reveal a task. An open Task Manager shows it directly;
+ * otherwise the next Task Manager to load selects it.
+ */
+export const focusTaskInTaskManager = (taskId: number): void => {
+  const event = new CustomEvent<number>(FOCUS_TASK_EVENT, { detail: taskId, cancelable: true });
+  const unclaimed = window.dispatchEvent(event);
+  pendingFocusTaskId = unclaimed ? taskId : null;
+};
+
+/**
+ * The task waiting to be focused, if any. Clears the request.
+ */
+export const takePendingTaskFocus = (): number | null => {
+  const taskId = pendingFocusTaskId;
+  pendingFocusTaskId = null;
+  return taskId;
+};
@@ -0,0 +1,339 @@
+/**
+ * Task Recurrence
+ * Repeat schedules for tasks: next occurrences, previews and iCalendar RRULE conversion
+ */
+
+import type { RecurrenceFrequency, Task, TaskRecurrence } from '@/types/tasks';
+
+export type RecurrencePreset = 'none' | 'daily' | 'weekdays' | 'weekly' | 'monthly';
+
+export const RECURRENCE_PRESETS: Array<{ preset: RecurrencePreset; label: string }> = [
+  { preset: 'none', label: 'Does not repeat' },
+  { preset: 'daily', label: 'Daily' },
+  { preset: 'weekdays', label: 'Weekdays' },
+  { preset: 'weekly', label: 'Weekly' },
+  { preset: 'monthly', label: 'Monthly' },
+];
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const WORK_WEEK = [1, 2, 3, 4, 5];
+
+// iCalendar BYDAY codes, indexed like Date.getDay()
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const RRULE_FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Stops runaway loops when catching a long-overdue series up to today
+const MAX_CATCH_UP_STEPS = 1000;
+
+const isWorkWeek = (weekdays: number[] = []): boolean =>
+  weekdays.length === WORK_WEEK.length && WORK_WEEK.every(day => weekdays.includes(day));
+
+const startOfWeek = (time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - date.getDay());
+  return date.getTime();
+};
+
+const daysInMonth = (year: number, month: number): number => new Date(year, month + 1, 0).getDate();
+
+/**
+ * Which preset a schedule matches, for the repeat picker
+ */
+export const getRecurrencePreset = (recurrence: TaskRecurrence | undefined): RecurrencePreset => {
+  if (!recurrence) return 'none';
+  if (
+    recurrence.frequency === 'weekly' &&
+    recurrence.interval === 1 &&
+    isWorkWeek(recurrence.weekdays)
+  ) {
+    return 'weekdays';
+  }
+  return recurrence.frequency;
+};
+
+/**
+ * Schedule for a preset, anchored on the task's due date (or now) for the
+ * weekday and day of month
+ */
+export const recurrenceFromPreset = (
+  preset: RecurrencePreset,
+  anchor: number
+): TaskRecurrence | null => {
+  const date = new Date(anchor);
+
+  switch (preset) {
+    case 'daily':
+      return { frequency: 'daily', interval: 1 };
+    case 'weekdays':
+      return { frequency: 'weekly', interval: 1, weekdays: [...WORK_WEEK] };
+    case 'weekly':
+      return { frequency: 'weekly', interval: 1, weekdays: [date.getDay()] };
+    case 'monthly':
+      return { frequency: 'monthly', interval: 1, monthDay: date.getDate() };
+    default:
+      return null;
+  }
+};
+
+/**
+ * The occurrence after `from`, which is itself an occurrence. Keeps the time
+ * of day. Returns null once the schedule passes its `until` time.
+ */
+export const nextOccurrence = (recurrence: TaskRecurrence, from: number): number | null => {
+  const interval = Math.max(1, Math.floor(recurrence.interval));
+  const date = new Date(from);
+  let next: number | null = null;
+
+  switch (recurrence.frequency) {
+    case 'daily':
+      date.setDate(date.getDate() + interval);
+      next = date.getTime();
+      break;
+
+    case 'weekly': {
+      const weekdays = recurrence.weekdays?.length ? recurrence.weekdays : [date.getDay()];
+      // Later days this week, then the same days every `interval` weeks
+      for (let offset = 1; offset <= 7 * (interval + 1) && next === null; offset++) {
+        const candidate = new Date(from);
+        candidate.setDate(candidate.getDate() + offset);
+        const weeks = Math.round(
+          (startOfWeek(candidate.getTime()) - startOfWeek(from)) / (7 * DAY)
+        );
+        if (weeks % interval === 0 && weekdays.includes(candidate.getDay())) {
+          next = candidate.getTime();
+        }
+      }
+      break;
+    }
+
+    case 'monthly': {
+      const monthDay = recurrence.monthDay ?? date.getDate();
+      date.setDate(1);
+      date.setMonth(date.getMonth() + interval);
+      date.setDate(Math.min(monthDay, daysInMonth(date.getFullYear(), date.getMonth())));
+      next = date.getTime();
+      break;
+    }
+  }
+
+  if (next === null || (recurrence.until !== undefined && next > recurrence.until)) return null;
+  return next;
+};
+
+/**
+ * Upcoming occurrences starting with `start`, respecting `count` and `until`
+ */
+export const previewOccurrences = (
+  recurrence: TaskRecurrence,
+  start: number,
+  limit: number = 5
+): number[] => {
+  const total = Math.min(limit, recurrence.count ?? limit);
+  const occurrences: number[] = [];
+  let current: number | null = start;
+
+  while (current !== null && occurrences.length < total) {
+    if (recurrence.until !== undefined && current > recurrence.until) break;
+    occurrences.push(current);
+    current = nextOccurrence(recurrence, current);
+  }
+  return occurrences;
+};
+
+/**
+ * Short description of a schedule, e.g. "Weekdays" or "Every 2 weeks on Mon, Thu"
+ */
+export const describeRecurrence = (recurrence: TaskRecurrence): string => {
+  const { frequency, interval } = recurrence;
+  let text: string;
+
+  switch (frequency) {
+    case 'daily':
+      text = interval === 1 ? 'Daily' : `Every ${interval} days`;
+      break;
+    case 'weekly': {
+      if (interval === 1 && isWorkWeek(recurrence.weekdays)) {
+        text = 'Weekdays';
+        break;
+      }
+      const days = [...(recurrence.weekdays ?? [])]
+        .sort((a, b) => a - b)
+        .map(day => WEEKDAY_LABELS[day])
+        .join(', ');
+      text = `${interval === 1 ? 'Weekly' : `Every ${interval} weeks`}${days ? ` on ${days}` : ''}`;
+      break;
+    }
+    case 'monthly':
+      text = `${interval === 1 ? 'Monthly' : `Every ${interval} months`}${
+        recurrence.monthDay ? ` on day ${recurrence.monthDay}` : ''
+      }`;
+      break;
+  }
+
+  return recurrence.count !== undefined ? `${text} (${recurrence.count} left)` : text;
+};
+
+/**
+ * Mark a task done and, if it repeats, add its next occurrence with fresh
+ * copies of its subtasks. The schedule moves to the new instance, so undoing
+ * and redoing the completion does not create duplicates.
+ */
+export const completeRecurringTask = (tasks: Task[], taskId: number, now: number): Task[] => {
+  const task = tasks.find(t => t.id === taskId);
+  if (!task?.completed || !task.recurrence || task.parentId) return tasks;
+
+  const { recurrence, ...completed } = task;
+  const remaining = recurrence.count === undefined ? undefined : recurrence.count - 1;
+
+  // Late completions skip the occurrences that were missed
+  let next = nextOccurrence(recurrence, task.dueDate ?? now);
+  for (let step = 0; next !== null && next <= now && step < MAX_CATCH_UP_STEPS; step++) {
+    next = nextOccurrence(recurrence, next);
+  }
+
+  const updated = tasks.map(t => (t.id === taskId ? completed : t));
+  if (next === null || next <= now || remaining === 0) return updated;
+
+  // Time tracked on this instance stays with it; estimates carry over
+  const { timeSpent: _timeSpent, ...template } = completed;
+  const nextId = now + Math.random();
+  const nextTask: Task = {
+    ...template,
+    id: nextId,
+    completed: false,
+    progress: 0,
+    dueDate: next,
+    recurrence: {
+      ...recurrence,
+      // Pin the day so a 31st does not drift to the 28th after February
+      ...(recurrence.frequency === 'monthly' && {
+        monthDay: recurrence.monthDay ?? new Date(task.dueDate ?? now).getDate(),
+      }),
+      ...(remaining !== undefined && { count: remaining }),
+    },
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const subtasks: Task[] = tasks
+    .filter(t => t.parentId === taskId)
+    .map(({ timeSpent: _subtaskTimeSpent, ...subtask }) => ({
+      ...subtask,
+      id: now + Math.random(),
+      parentId: nextId,
+      completed: false,
+      progress: 0,
+      createdAt: now,
+      updatedAt: now,
+    }));
+
+  return [...updated, nextTask, ...subtasks];
+};
+
+/**
+ * Copy of a task with a new schedule; null stops it repeating
+ */
+export const withRecurrence = (task: Task, recurrence: TaskRecurrence | null): Task => {
+  const { recurrence: _recurrence, ...rest } = task;
+  return { ...rest, ...(recurrence && { recurrence }), updatedAt: Date.now() };
+};
+
+const formatRRuleDate = (time: number): string =>
+  new Date(time)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+const parseRRuleDate = (value: string): number | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours = '23', minutes = '59', seconds = '59', utc] = match;
+  const parts = [+year!, +month! - 1, +day!, +hours, +minutes, +seconds] as const;
+  return utc ? Date.UTC(...parts) : new Date(...parts).getTime();
+};
+
+/**
+ * iCalendar RRULE value for a schedule, e.g. `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH`
+ */
+export const formatRRule = (recurrence: TaskRecurrence): string => {
+  const parts = [`FREQ=${recurrence.frequency.toUpperCase()}`];
+  if (recurrence.interval > 1) parts.push(`INTERVAL=${recurrence.interval}`);
+  if (recurrence.frequency === 'weekly' && recurrence.weekdays?.length) {
+    parts.push(
+      `BYDAY=${[...recurrence.weekdays]
+        .sort((a, b) => a - b)
+        .map(day => RRULE_DAYS[day])
+        .join(',')}`
+    );
+  }
+  if (recurrence.frequency === 'monthly' && recurrence.monthDay) {
+    parts.push(`BYMONTHDAY=${recurrence.monthDay}`);
+  }
+  if (recurrence.count !== undefined) parts.push(`COUNT=${recurrence.count}`);
+  if (recurrence.until !== undefined) parts.push(`UNTIL=${formatRRuleDate(recurrence.until)}`);
+  return parts.join(';');
+};
+
+/**
+ * Schedule from an iCalendar RRULE value, with or without the `RRULE:`
+ * prefix. Returns null for rules this model cannot represent, such as
+ * yearly rules or "first Monday of the month".
+ */
+export const parseRRule = (rule: string): TaskRecurrence | null => {
+  const fields = new Map(
+    rule
+      .trim()
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .map(part => part.split('=') as [string, string | undefined])
+      .map(([key, value]) => [key.toUpperCase(), (value ?? '').toUpperCase()])
+  );
+
+  const frequency = RRULE_FREQUENCIES[fields.get('FREQ') ?? ''];
+  if (!frequency) return null;
+
+  const interval = fields.has('INTERVAL') ? parseInt(fields.get('INTERVAL')!, 10) : 1;
+  if (!(interval >= 1)) return null;
+
+  const recurrence: TaskRecurrence = { frequency, interval };
+
+  const byDay = fields.get('BYDAY');
+  if (byDay) {
+    const weekdays = byDay.split(',').map(code => RRULE_DAYS.indexOf(code));
+    if (frequency !== 'weekly' || weekdays.includes(-1)) return null;
+    recurrence.weekdays = weekdays;
+  }
+
+  const byMonthDay = fields.get('BYMONTHDAY');
+  if (byMonthDay) {
+    const monthDay = parseInt(byMonthDay, 10);
+    if (frequency !== 'monthly' || !(monthDay >= 1 && monthDay <= 31)) return null;
+    recurrence.monthDay = monthDay;
+  }
+
+  const count = fields.get('COUNT');
+  if (count) {
+    const value = parseInt(count, 10);
+    if (!(value >= 1)) return null;
+    recurrence.count = value;
+  }
+
+  const until = fields.get('UNTIL');
+  if (until) {
+    const value = parseRRuleDate(until);
+    if (value === null) return null;
+    recurrence.until = value;
+  }
+
+  return recurrence;
+};
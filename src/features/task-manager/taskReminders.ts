@@ -0,0 +1,227 @@
+/**
+ * Task Reminders
+ * Due-date views for the Task Manager and reminders scheduled through the platform notifications
+ */
+
+import { getCurrentPlatformType, getPlatformAPI } from '@/platform';
+import type { Task } from '@/types/tasks';
+
+export type DueView = 'all' | 'overdue' | 'today' | 'upcoming';
+export type DueStatus = Exclude<DueView, 'all'>;
+
+// Reminder choices in the task editor, in minutes before the due time
+export const REMINDER_OFFSETS: Array<{ minutes: number; label: string }> = [
+  { minutes: 0, label: 'At due time' },
+  { minutes: 5, label: '5 minutes before' },
+  { minutes: 15, label: '15 minutes before' },
+  { minutes: 60, label: '1 hour before' },
+  { minutes: 24 * 60, label: '1 day before' },
+];
+
+// How far ahead the upcoming view looks, after today
+const UPCOMING_DAYS = 7;
+
+const MINUTE = 60 * 1000;
+
+// Reminders handed to the platform, so later syncs only send what changed
+const REMINDERS_STORAGE_KEY = 'lucaverse_task_reminders';
+
+interface ScheduledReminder {
+  when: number;
+  text: string;
+}
+
+export type ReminderIndex = Record<string, ScheduledReminder>;
+
+// A web page's reminders are timers that a reload clears, so there the index
+// only lasts as long as the page and the first sync schedules them all again
+let pageReminderIndex: ReminderIndex = {};
+
+const remindersOutlivePage = (): boolean => getCurrentPlatformType() !== 'web';
+
+export interface ReminderPlan {
+  schedule: Array<{ id: string; task: Task; when: number }>;
+  cancel: string[];
+  index: ReminderIndex;
+}
+
+// "tasks:" routes notification clicks to the Task Manager
+export const reminderId = (taskId: number): string => `tasks:reminder-${taskId}`;
+
+const startOfDay = (time: number, offsetDays: number = 0): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() + offsetDays);
+  return date.getTime();
+};
+
+/**
+ * Where an open task with a due date falls relative to now, or null when it
+ * is done, has no due date or is due after the upcoming window
+ */
+export const getDueStatus = (task: Task, now: number): DueStatus | null => {
+  if (task.completed || task.dueDate === undefined) return null;
+  if (task.dueDate < now) return 'overdue';
+  if (task.dueDate < startOfDay(now, 1)) return 'today';
+  if (task.dueDate < startOfDay(now, 1 + UPCOMING_DAYS)) return 'upcoming';
+  return null;
+};
+
+export const matchesDueView = (task: Task, view: DueView, now: number): boolean =>
+  view === 'all' || getDueStatus(task, now) === view;
+
+/**
+ * Short label for a due date, e.g. "Today 14:30", "Tomorrow 09:00" or "Mon, Oct 26"
+ */
+export const formatDueDate = (dueDate: number, now: number): string => {
+  const time = new Date(dueDate).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const dayOffset = Math.round((startOfDay(dueDate) - startOfDay(now)) / (24 * 60 * MINUTE));
+
+  if (dayOffset === 0) return `Today ${time}`;
+  if (dayOffset === 1) return `Tomorrow ${time}`;
+  if (dayOffset === -1) return `Yesterday ${time}`;
+  return new Date(dueDate).toLocaleDateString([], {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    ...(new Date(dueDate).getFullYear() !== new Date(now).getFullYear() && { year: 'numeric' }),
+  });
+};
+
+/**
+ * Value for an `<input type="datetime-local">`, in local time
+ */
+export const toDateTimeInputValue = (time: number): string => {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+};
+
+/**
+ * Timestamp from an `<input type="datetime-local">` value, or null when empty or invalid
+ */
+export const parseDateTimeInput = (value: string): number | null => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * Copy of a task with a new due date and reminder; null clears them.
+ * A task without a due date cannot keep a reminder.
+ */
+export const withDueDate = (
+  task: Task,
+  dueDate: number | null,
+  reminderOffset: number | null
+): Task => {
+  const { dueDate: _dueDate, reminderOffset: _reminderOffset, ...rest } = task;
+  return {
+    ...rest,
+    ...(dueDate !== null && { dueDate }),
+    ...(dueDate !== null && reminderOffset !== null && { reminderOffset }),
+    updatedAt: Date.now(),
+  };
+};
+
+/**
+ * When the reminder for a task should fire, or null if it has none
+ */
+export const getReminderTime = (task: Task): number | null =>
+  task.completed || task.dueDate === undefined || task.reminderOffset === undefined
+    ? null
+    : task.dueDate - task.reminderOffset * MINUTE;
+
+/**
+ * Work out which reminders to schedule and cancel so the platform matches
+ * the tasks. Reminders that already fired drop out of the index.
+ */
+export const planReminders = (
+  tasks: Task[],
+  scheduled: ReminderIndex,
+  now: number
+): ReminderPlan => {
+  const plan: ReminderPlan = { schedule: [], cancel: [], index: {} };
+
+  tasks.forEach(task => {
+    const when = getReminderTime(task);
+    if (when === null || when <= now) return;
+
+    const id = reminderId(task.id);
+    const current = scheduled[id];
+    if (!current || current.when !== when || current.text !== task.text) {
+      plan.schedule.push({ id, task, when });
+    }
+    plan.index[id] = { when, text: task.text };
+  });
+
+  Object.entries(scheduled).forEach(([id, reminder]) => {
+    if (!plan.index[id] && reminder.when > now) plan.cancel.push(id);
+  });
+
+  return plan;
+};
+
+const loadReminderIndex = (): ReminderIndex => {
+  if (!remindersOutlivePage()) return pageReminderIndex;
+  try {
+    const stored = localStorage.getItem(REMINDERS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Failed to load task reminders:', error);
+    return {};
+  }
+};
+
+const saveReminderIndex = (index: ReminderIndex): void => {
+  if (!remindersOutlivePage()) {
+    pageReminderIndex = index;
+    return;
+  }
+  try {
+    localStorage.setItem(REMINDERS_STORAGE_KEY, JSON.stringify(index));
+  } catch (error) {
+    console.error('Failed to save task reminders:', error);
+  }
+};
+
+/**
+ * Schedule, move or cancel reminders after tasks change. Reminders are kept by
+ * the platform (Chrome alarms, the Electron main process), so they fire even
+ * when the Task Manager is closed. On the web they fire only while the page is open.
+ */
+export const syncTaskReminders = async (tasks: Task[], now: number = Date.now()): Promise<void> => {
+  const plan = planReminders(tasks, loadReminderIndex(), now);
+  if (plan.schedule.length === 0 && plan.cancel.length === 0) {
+    saveReminderIndex(plan.index);
+    return;
+  }
+
+  const { notifications } = await getPlatformAPI();
+
+  await Promise.all(plan.cancel.map(id => notifications.cancelScheduled(id)));
+  await Promise.all(
+    plan.schedule.map(async ({ id, task, when }) => {
+      const scheduled = await notifications.schedule(
+        id,
+        {
+          title: task.text,
+          message: `Due ${new Date(task.dueDate!).toLocaleString([], {
+            weekday: 'short',
+            hour: '2-digit',
+            minute: '2-digit',
+          })}`,
+          requireInteraction: true,
+        },
+        when
+      );
+      // Try again on the next sync
+      if (!scheduled) delete plan.index[id];
+    })
+  );
+
+  saveReminderIndex(plan.index);
+};
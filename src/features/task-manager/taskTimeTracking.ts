@@ -0,0 +1,82 @@
+/**
+ * Task Time Tracking
+ * Focus time recorded against tasks, compared with their estimates
+ */
+
+import type { Task } from '@/types/tasks';
+import { TASKS_STORAGE_KEY } from './taskInbox';
+
+// Window event carrying a TrackedTime; the Task Manager claims it with preventDefault()
+export const TRACK_TASK_TIME_EVENT = 'lucaverse:track-task-time';
+
+export interface TrackedTime {
+  taskId: number;
+  minutes: number;
+}
+
+export type TimeStatus = 'under' | 'near' | 'over';
+
+// Share of the estimate after which a task is shown as close to running over
+const NEAR_ESTIMATE_RATIO = 0.8;
+
+/**
+ * Copy of the list with time added to one task
+ */
+export const addTrackedTime = (tasks: Task[], taskId: number, minutes: number): Task[] =>
+  tasks.map(task =>
+    task.id === taskId
+      ? { ...task, timeSpent: (task.timeSpent ?? 0) + minutes, updatedAt: Date.now() }
+      : task
+  );
+
+/**
+ * Copy of a task with a new estimate in minutes; null clears it
+ */
+export const withEstimate = (task: Task, estimate: number | null): Task => {
+  const { estimate: _estimate, ...rest } = task;
+  return { ...rest, ...(estimate !== null && estimate > 0 && { estimate }), updatedAt: Date.now() };
+};
+
+/**
+ * How tracked time compares with the estimate, or null without an estimate
+ */
+export const getTimeStatus = (task: Task): TimeStatus | null => {
+  if (!task.estimate) return null;
+  const spent = task.timeSpent ?? 0;
+  if (spent > task.estimate) return 'over';
+  return spent >= task.estimate * NEAR_ESTIMATE_RATIO ? 'near' : 'under';
+};
+
+/**
+ * Short duration such as "45m", "2h" or "1h 30m"
+ */
+export const formatMinutes = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+/**
+ * Add focus time to a task. An open Task Manager records it directly;
+ * otherwise the stored tasks are updated.
+ */
+export const recordTaskTime = (taskId: number, minutes: number): void => {
+  if (minutes <= 0) return;
+
+  const event = new CustomEvent<TrackedTime>(TRACK_TASK_TIME_EVENT, {
+    detail: { taskId, minutes },
+    cancelable: true,
+  });
+  const unclaimed = window.dispatchEvent(event);
+  if (!unclaimed) return;
+
+  try {
+    const stored = localStorage.getItem(TASKS_STORAGE_KEY);
+    const tasks: Task[] = stored ? JSON.parse(stored) : [];
+    localStorage.setItem(TASKS_STORAGE_KEY, JSON.stringify(addTrackedTime(tasks, taskId, minutes)));
+  } catch (error) {
+    console.error('Failed to record task time:', error);
+  }
+};
@@ -0,0 +1,732 @@
+/**
+ * Task Import/Export
+ * Converts tasks to and from todo.txt, Markdown checklists and iCalendar VTODO files
+ */
+
+import type { RecurrenceFrequency, Task, TaskPriority } from '@/types/tasks';
+import { saveTextFile, type TextFileFilter } from '@/utils/fileTransfer';
+import { formatRRule, parseRRule } from './taskRecurrence';
+
+export type TaskFileFormat = 'todotxt' | 'markdown' | 'ics';
+
+const FILE_TYPES: Record<TaskFileFormat, { extension: string; mimeType: string; name: string }> = {
+  todotxt: { extension: 'txt', mimeType: 'text/plain', name: 'todo.txt' },
+  markdown: { extension: 'md', mimeType: 'text/markdown', name: 'Markdown' },
+  ics: { extension: 'ics', mimeType: 'text/calendar', name: 'iCalendar' },
+};
+
+export const TASK_FILE_FILTERS: TextFileFilter[] = [
+  { name: 'Task files', extensions: ['txt', 'md', 'markdown', 'ics'] },
+  { name: 'todo.txt', extensions: ['txt'] },
+  { name: 'Markdown', extensions: ['md', 'markdown'] },
+  { name: 'iCalendar', extensions: ['ics'] },
+];
+
+export interface TaskImportResult {
+  tasks: Task[];
+  added: number;
+  duplicates: number;
+}
+
+// Dates without a time are due at the start of the working day, as in quick add
+const DEFAULT_DUE_HOURS = 9;
+
+const ICS_UID_DOMAIN = 'lucaverse-hub';
+
+// Fresh ids for imported tasks, unique within one import
+const createIdFactory = (now: number) => {
+  let next = 0;
+  return () => now + next++ + Math.random() / 2;
+};
+
+const createTask = (id: number, text: string, now: number, fields: Partial<Task>): Task => ({
+  id,
+  text,
+  completed: false,
+  priority: 3,
+  progress: 0,
+  createdAt: now,
+  updatedAt: now,
+  ...fields,
+});
+
+// Parents before their subtasks, in the given order
+const inTreeOrder = (tasks: Task[]): Array<{ task: Task; depth: number }> => {
+  const ids = new Set(tasks.map(task => task.id));
+  const ordered: Array<{ task: Task; depth: number }> = [];
+  const visit = (task: Task, depth: number) => {
+    ordered.push({ task, depth });
+    tasks.filter(child => child.parentId === task.id).forEach(child => visit(child, depth + 1));
+  };
+  tasks
+    .filter(task => task.parentId === undefined || !ids.has(task.parentId))
+    .forEach(task => visit(task, 0));
+  return ordered;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatLocalDate = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const formatLocalTime = (time: number): string => {
+  const date = new Date(time);
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const parseLocalDate = (value: string): Date | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  const date = new Date(+match[1]!, +match[2]! - 1, +match[3]!);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Whitespace cannot appear in todo.txt projects and contexts
+const toWord = (value: string) => value.trim().replace(/\s+/g, '_');
+
+/* todo.txt */
+
+const TODO_PRIORITIES = ['A', 'B', 'C', 'D', 'E'];
+
+const TODO_RECURRENCE_UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'd',
+  weekly: 'w',
+  monthly: 'm',
+};
+
+const TODO_RECURRENCE_FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  d: 'daily',
+  w: 'weekly',
+  m: 'monthly',
+};
+
+/**
+ * Write tasks in todo.txt format (http://todotxt.org). Categories become
+ * +projects, tags @contexts, and priorities (A)–(E). Extensions:
+ *
+ * - `due:YYYY-MM-DD` plus `time:HH:MM` unless due at 9:00
+ * - `rec:2w` for every-N-days/weeks/months schedules, plus `rrule:` with the
+ *   full iCalendar rule when the schedule has weekdays, a month day or an end
+ * - `remind:N` for a reminder N minutes before the due time
+ * - `id:N` / `p:N` linking subtasks to their parents, as topydo does
+ * - `pri:X` keeping the priority of completed tasks
+ */
+export const tasksToTodoTxt = (tasks: Task[]): string => {
+  const shortIds = new Map<number, number>();
+  tasks.forEach(task => {
+    if (task.parentId !== undefined && !shortIds.has(task.parentId)) {
+      shortIds.set(task.parentId, shortIds.size + 1);
+    }
+  });
+
+  const lines = inTreeOrder(tasks).map(({ task }) => {
+    const priority = TODO_PRIORITIES[task.priority - 1]!;
+    const parts = task.completed
+      ? ['x', formatLocalDate(task.updatedAt), formatLocalDate(task.createdAt)]
+      : [`(${priority})`, formatLocalDate(task.createdAt)];
+
+    parts.push(task.text);
+    if (task.category) parts.push(`+${toWord(task.category)}`);
+    task.tags?.forEach(tag => parts.push(`@${toWord(tag)}`));
+
+    if (task.dueDate !== undefined) {
+      parts.push(`due:${formatLocalDate(task.dueDate)}`);
+      const time = formatLocalTime(task.dueDate);
+      if (time !== `${pad(DEFAULT_DUE_HOURS)}:00`) parts.push(`time:${time}`);
+    }
+    if (task.reminderOffset !== undefined) parts.push(`remind:${task.reminderOffset}`);
+    if (task.recurrence) {
+      const { interval, frequency, weekdays, monthDay, count, until } = task.recurrence;
+      parts.push(`rec:${interval}${TODO_RECURRENCE_UNITS[frequency]}`);
+      // rec: only holds the interval; other apps ignore the full rule
+      if (weekdays?.length || monthDay || count !== undefined || until !== undefined) {
+        parts.push(`rrule:${formatRRule(task.recurrence)}`);
+      }
+    }
+    if (shortIds.has(task.id)) parts.push(`id:${shortIds.get(task.id)}`);
+    if (task.parentId !== undefined && shortIds.has(task.parentId)) {
+      parts.push(`p:${shortIds.get(task.parentId)}`);
+    }
+    if (task.completed) parts.push(`pri:${priority}`);
+
+    return parts.join(' ');
+  });
+
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+};
+
+const parseTodoPriority = (letter: string | undefined): TaskPriority | undefined => {
+  if (!letter) return undefined;
+  const index = TODO_PRIORITIES.indexOf(letter.toUpperCase());
+  return (index === -1 ? 5 : index + 1) as TaskPriority;
+};
+
+/**
+ * Read todo.txt lines, including the extensions written by tasksToTodoTxt.
+ * Extra +projects beyond the first become tags; unknown key:value pairs stay in the text.
+ */
+export const parseTodoTxt = (content: string, now: number = Date.now()): Task[] => {
+  const nextId = createIdFactory(now);
+  const tasks: Task[] = [];
+  const shortIds = new Map<string, number>();
+  const parentLinks = new Map<Task, string>();
+
+  content.split(/\r?\n/).forEach(line => {
+    let rest = line.trim();
+    if (!rest) return;
+
+    const completed = /^x\s/.test(rest);
+    if (completed) rest = rest.slice(2).trimStart();
+
+    const priorityMatch = rest.match(/^\(([A-Z])\)\s+/);
+    let priority = parseTodoPriority(priorityMatch?.[1]);
+    if (priorityMatch) rest = rest.slice(priorityMatch[0].length);
+
+    // Completed tasks start with their completion date, then the creation date
+    const dates: Date[] = [];
+    let dateMatch = rest.match(/^(\d{4}-\d{2}-\d{2})\s+/);
+    while (dateMatch && dates.length < 2 && parseLocalDate(dateMatch[1]!)) {
+      dates.push(parseLocalDate(dateMatch[1]!)!);
+      rest = rest.slice(dateMatch[0].length);
+      dateMatch = rest.match(/^(\d{4}-\d{2}-\d{2})\s+/);
+    }
+    const createdAt = (completed ? dates[1] : dates[0])?.getTime() ?? now;
+    const completedAt = completed ? dates[0]?.getTime() : undefined;
+
+    const words: string[] = [];
+    const tags: string[] = [];
+    let category: string | undefined;
+    let dueDate: Date | null = null;
+    let time: string | undefined;
+    let recurrence: Task['recurrence'];
+    let rrule: Task['recurrence'] | null = null;
+    let reminderOffset: number | undefined;
+    let shortId: string | undefined;
+    let parentShortId: string | undefined;
+
+    for (const word of rest.split(/\s+/)) {
+      const project = word.match(/^\+(\S+)$/);
+      const context = word.match(/^@(\S+)$/);
+      const [, key, value = ''] = word.match(/^([a-z]+):(\S+)$/i) ?? [];
+
+      if (project) {
+        if (category === undefined) category = project[1]!;
+        else if (!tags.includes(project[1]!)) tags.push(project[1]!);
+      } else if (context) {
+        if (!tags.includes(context[1]!)) tags.push(context[1]!);
+      } else if (key === 'due' && parseLocalDate(value)) {
+        dueDate = parseLocalDate(value);
+      } else if (key === 'time' && /^\d{1,2}:\d{2}$/.test(value)) {
+        time = value;
+      } else if (key === 'rec' && /^\+?\d+[dwm]$/i.test(value)) {
+        // A leading + (repeat from the due date) is how completion already works here
+        const [, interval, unit] = value.match(/^\+?(\d+)([dwm])$/i)!;
+        recurrence = {
+          frequency: TODO_RECURRENCE_FREQUENCIES[unit!.toLowerCase()]!,
+          interval: Math.max(1, parseInt(interval!, 10)),
+        };
+      } else if (key === 'rrule' && parseRRule(value)) {
+        rrule = parseRRule(value);
+      } else if (key === 'remind' && /^\d+$/.test(value)) {
+        reminderOffset = parseInt(value, 10);
+      } else if (key === 'id') {
+        shortId = value;
+      } else if (key === 'p') {
+        parentShortId = value;
+      } else if (key === 'pri') {
+        priority ??= parseTodoPriority(value);
+      } else {
+        words.push(word);
+      }
+    }
+
+    const text = words.join(' ');
+    if (!text) return;
+
+    let due: number | undefined;
+    if (dueDate) {
+      const [hours = DEFAULT_DUE_HOURS, minutes = 0] = time?.split(':').map(Number) ?? [];
+      due = new Date(dueDate).setHours(hours, minutes, 0, 0);
+    }
+
+    // The full rule written next to rec: wins over it
+    recurrence = rrule ?? recurrence;
+
+    const task = createTask(nextId(), text, now, {
+      completed,
+      priority: priority ?? 3,
+      progress: completed ? 100 : 0,
+      ...(category && { category }),
+      ...(tags.length > 0 && { tags }),
+      ...(due !== undefined && { dueDate: due }),
+      ...(due !== undefined && reminderOffset !== undefined && { reminderOffset }),
+      ...(recurrence && !completed && { recurrence }),
+      createdAt,
+      updatedAt: completedAt ?? createdAt,
+    });
+
+    tasks.push(task);
+    if (shortId) shortIds.set(shortId, task.id);
+    if (parentShortId) parentLinks.set(task, parentShortId);
+  });
+
+  parentLinks.forEach((shortId, task) => {
+    const parentId = shortIds.get(shortId);
+    if (parentId !== undefined && parentId !== task.id) task.parentId = parentId;
+  });
+
+  return tasks;
+};
+
+/* Markdown checklists */
+
+// Task fields kept in a trailing `<!-- lucaverse {...} -->` comment, hidden when rendered
+interface MarkdownItemMeta {
+  priority?: TaskPriority;
+  category?: string;
+  tags?: string[];
+  due?: string; // Local "YYYY-MM-DD HH:MM"
+  reminder?: number;
+  rrule?: string;
+}
+
+const MARKDOWN_META = /\s*<!--\s*lucaverse\s+(\{.*\})\s*-->\s*$/;
+
+const formatMarkdownItem = (task: Task): string => {
+  const meta: MarkdownItemMeta = {
+    ...(task.priority !== 3 && { priority: task.priority }),
+    ...(task.category && { category: task.category }),
+    ...(task.tags?.length && { tags: task.tags }),
+    ...(task.dueDate !== undefined && {
+      due: `${formatLocalDate(task.dueDate)} ${formatLocalTime(task.dueDate)}`,
+    }),
+    ...(task.dueDate !== undefined &&
+      task.reminderOffset !== undefined && { reminder: task.reminderOffset }),
+    ...(task.recurrence && { rrule: formatRRule(task.recurrence) }),
+  };
+  if (Object.keys(meta).length === 0) return task.text;
+
+  // Escaped so no value can close the comment early
+  const json = JSON.stringify(meta).replace(/</g, '\\u003c').replace(/>/g, '\\u003e');
+  return `${task.text} <!-- lucaverse ${json} -->`;
+};
+
+// Item text without its metadata comment, and the fields the comment holds
+const parseMarkdownItem = (text: string): { text: string; meta: MarkdownItemMeta } => {
+  const match = text.match(MARKDOWN_META);
+  if (!match) return { text: text.trim(), meta: {} };
+  try {
+    const meta = JSON.parse(match[1]!);
+    return {
+      text: text.slice(0, match.index).trim(),
+      meta: meta && typeof meta === 'object' ? meta : {},
+    };
+  } catch {
+    return { text: text.trim(), meta: {} };
+  }
+};
+
+const parseMarkdownDue = (value: unknown): number | undefined => {
+  const match = typeof value === 'string' && value.match(/^(\S+) (\d{1,2}):(\d{2})$/);
+  const date = match && parseLocalDate(match[1]!);
+  return date ? date.setHours(+match[2]!, +match[3]!, 0, 0) : undefined;
+};
+
+/**
+ * Write a GitHub-style checklist, nesting subtasks under their parents.
+ * Priority, category, tags, due date, reminder and schedule go in an HTML
+ * comment after the item text, and notes follow the item as an indented quote.
+ */
+export const tasksToMarkdown = (tasks: Task[]): string => {
+  const lines: string[] = [];
+
+  inTreeOrder(tasks).forEach(({ task, depth }) => {
+    const indent = '  '.repeat(depth);
+    lines.push(`${indent}- [${task.completed ? 'x' : ' '}] ${formatMarkdownItem(task)}`);
+    task.notes?.split('\n').forEach(line => lines.push(`${indent}  > ${line}`.trimEnd()));
+  });
+
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+};
+
+/**
+ * Read checklist items (`- [ ]`, `* [x]`, `1. [ ]`) from Markdown, nesting
+ * indented items as subtasks. Item text is kept as written; only the metadata
+ * comment written by tasksToMarkdown sets other fields. Other lines are
+ * ignored apart from quotes indented under an item, which become its notes.
+ */
+export const parseMarkdownChecklist = (content: string, now: number = Date.now()): Task[] => {
+  const nextId = createIdFactory(now);
+  const tasks: Task[] = [];
+  const open: Array<{ indent: number; task: Task }> = [];
+  const indentOf = (whitespace: string) => whitespace.replace(/\t/g, '    ').length;
+
+  content.split(/\r?\n/).forEach(line => {
+    const item = line.match(/^(\s*)(?:[-*+]|\d+[.)])\s+\[([ xX])\]\s+(.*)$/);
+
+    if (!item) {
+      const quote = line.match(/^(\s*)>\s?(.*)$/);
+      const owner = open[open.length - 1];
+      if (quote && owner && indentOf(quote[1]!) > owner.indent) {
+        const note = quote[2]!.trimEnd();
+        owner.task.notes = owner.task.notes === undefined ? note : `${owner.task.notes}\n${note}`;
+      }
+      return;
+    }
+
+    const indent = indentOf(item[1]!);
+    while (open.length > 0 && open[open.length - 1]!.indent >= indent) open.pop();
+
+    const { text, meta } = parseMarkdownItem(item[3]!);
+    if (!text) return;
+
+    const completed = item[2] !== ' ';
+    const parent = open[open.length - 1]?.task;
+    const priority = Number(meta.priority);
+    const dueDate = parseMarkdownDue(meta.due);
+    const recurrence = typeof meta.rrule === 'string' ? parseRRule(meta.rrule) : null;
+    const tags = Array.isArray(meta.tags) ? meta.tags.filter(tag => typeof tag === 'string') : [];
+    const task = createTask(nextId(), text, now, {
+      completed,
+      progress: completed ? 100 : 0,
+      ...(parent && { parentId: parent.id }),
+      ...(priority >= 1 && priority <= 5 && { priority: priority as TaskPriority }),
+      ...(typeof meta.category === 'string' && meta.category && { category: meta.category }),
+      ...(tags.length > 0 && { tags }),
+      ...(dueDate !== undefined && { dueDate }),
+      ...(dueDate !== undefined &&
+        Number.isInteger(meta.reminder) &&
+        meta.reminder! >= 0 && { reminderOffset: meta.reminder! }),
+      ...(recurrence && !completed && { recurrence }),
+    });
+
+    tasks.push(task);
+    open.push({ indent, task });
+  });
+
+  return tasks;
+};
+
+/* iCalendar VTODO */
+
+// iCalendar priorities run from 1 (highest) to 9 (lowest); 0 means undefined
+const ICS_PRIORITIES: Record<TaskPriority, number> = { 1: 1, 2: 3, 3: 5, 4: 7, 5: 9 };
+
+const escapeICSText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeICSText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+const formatICSTime = (time: number): string =>
+  new Date(time)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+/**
+ * DATE or DATE-TIME value. UTC times end in Z; others, including those with
+ * a TZID, are read as local time. Dates alone are due at 9:00.
+ */
+const parseICSTime = (value: string): number | null => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes = '0', seconds = '0', utc] = match;
+  if (hours === undefined) {
+    return new Date(+year!, +month! - 1, +day!, DEFAULT_DUE_HOURS).getTime();
+  }
+  const parts = [+year!, +month! - 1, +day!, +hours, +minutes, +seconds] as const;
+  return utc ? Date.UTC(...parts) : new Date(...parts).getTime();
+};
+
+// Minutes before the due time for a TRIGGER such as -PT15M or -P1D
+const parseICSTrigger = (value: string): number | null => {
+  const match = value.match(
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+  );
+  if (!match) return null;
+
+  const [, sign, weeks = 0, days = 0, hours = 0, minutes = 0] = match;
+  const total = ((+weeks * 7 + +days) * 24 + +hours) * 60 + +minutes;
+  return sign === '-' ? total : total === 0 ? 0 : null;
+};
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+const foldICSLine = (line: string): string => {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const code = char.codePointAt(0)!;
+    const size = code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+    const limit = lines.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+
+  lines.push(current);
+  return lines.join('\r\n ');
+};
+
+const taskUID = (id: number) => `${id}@${ICS_UID_DOMAIN}`;
+
+/**
+ * Write tasks as an iCalendar file of VTODOs. Subtasks point at their parent
+ * with RELATED-TO, repeat schedules become RRULEs and reminders VALARMs.
+ */
+export const tasksToICS = (tasks: Task[], now: number = Date.now()): string => {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Lucaverse Hub//Tasks//EN'];
+
+  inTreeOrder(tasks).forEach(({ task }) => {
+    lines.push(
+      'BEGIN:VTODO',
+      `UID:${taskUID(task.id)}`,
+      `DTSTAMP:${formatICSTime(now)}`,
+      `CREATED:${formatICSTime(task.createdAt)}`,
+      `LAST-MODIFIED:${formatICSTime(task.updatedAt)}`,
+      `SUMMARY:${escapeICSText(task.text)}`,
+      `PRIORITY:${ICS_PRIORITIES[task.priority]}`
+    );
+
+    if (task.notes) lines.push(`DESCRIPTION:${escapeICSText(task.notes)}`);
+    if (task.category) lines.push(`CATEGORIES:${escapeICSText(task.category)}`);
+    if (task.tags?.length) lines.push(`X-LUCAVERSE-TAGS:${task.tags.map(escapeICSText).join(',')}`);
+    if (task.parentId !== undefined) lines.push(`RELATED-TO:${taskUID(task.parentId)}`);
+
+    if (task.completed) {
+      lines.push('STATUS:COMPLETED', `COMPLETED:${formatICSTime(task.updatedAt)}`);
+    } else {
+      lines.push(`STATUS:${task.progress > 0 ? 'IN-PROCESS' : 'NEEDS-ACTION'}`);
+    }
+    lines.push(`PERCENT-COMPLETE:${task.completed ? 100 : task.progress}`);
+
+    if (task.dueDate !== undefined) lines.push(`DUE:${formatICSTime(task.dueDate)}`);
+    if (task.recurrence) lines.push(`RRULE:${formatRRule(task.recurrence)}`);
+
+    if (task.dueDate !== undefined && task.reminderOffset !== undefined) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeICSText(task.text)}`,
+        `TRIGGER;RELATED=END:${task.reminderOffset > 0 ? '-' : ''}PT${task.reminderOffset}M`,
+        'END:VALARM'
+      );
+    }
+
+    lines.push('END:VTODO');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldICSLine).join('\r\n') + '\r\n';
+};
+
+interface ICSProperty {
+  params: string;
+  value: string;
+}
+
+/**
+ * Read the VTODOs of an iCalendar file. Cancelled to-dos are skipped and
+ * events are ignored.
+ */
+export const parseICS = (content: string, now: number = Date.now()): Task[] => {
+  const nextId = createIdFactory(now);
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  if (!lines.some(line => /^BEGIN:VCALENDAR$/i.test(line.trim()))) {
+    throw new Error('File is not an iCalendar file');
+  }
+
+  const tasks: Task[] = [];
+  const uids = new Map<string, number>();
+  const parentLinks = new Map<Task, string>();
+  const components: string[] = [];
+  let todo: Map<string, ICSProperty> | null = null;
+  let trigger: ICSProperty | undefined;
+
+  const finishTodo = (properties: Map<string, ICSProperty>) => {
+    const get = (name: string) => properties.get(name)?.value;
+    const text = unescapeICSText(get('SUMMARY') ?? '').trim();
+    const status = get('STATUS')?.toUpperCase();
+    if (!text || status === 'CANCELLED') return;
+
+    const completed = status === 'COMPLETED' || properties.has('COMPLETED');
+    const icsPriority = parseInt(get('PRIORITY') ?? '0', 10);
+    const percent = parseInt(get('PERCENT-COMPLETE') ?? '', 10);
+    const createdAt = parseICSTime(get('CREATED') ?? '') ?? now;
+    const updatedAt =
+      parseICSTime(get('COMPLETED') ?? '') ?? parseICSTime(get('LAST-MODIFIED') ?? '') ?? createdAt;
+    const dueDate = parseICSTime(get('DUE') ?? '');
+    const recurrence = get('RRULE') ? parseRRule(get('RRULE')!) : null;
+    const notes = get('DESCRIPTION') && unescapeICSText(get('DESCRIPTION')!);
+    const category = get('CATEGORIES') && unescapeICSText(get('CATEGORIES')!.split(/(?<!\\),/)[0]!);
+    const tags = (get('X-LUCAVERSE-TAGS') ?? '')
+      .split(/(?<!\\),/)
+      .map(tag => unescapeICSText(tag).trim())
+      .filter(Boolean);
+    const reminderOffset =
+      trigger && !/VALUE=DATE-TIME/i.test(trigger.params) ? parseICSTrigger(trigger.value) : null;
+
+    const task = createTask(nextId(), text, now, {
+      completed,
+      priority: (icsPriority >= 1 && icsPriority <= 9
+        ? Math.ceil(icsPriority / 2)
+        : 3) as TaskPriority,
+      progress: completed ? 100 : percent >= 0 && percent <= 100 ? percent : 0,
+      ...(category && { category }),
+      ...(tags.length > 0 && { tags }),
+      ...(notes && { notes }),
+      ...(dueDate !== null && { dueDate }),
+      ...(dueDate !== null && reminderOffset !== null && { reminderOffset }),
+      ...(recurrence && !completed && { recurrence }),
+      createdAt,
+      updatedAt,
+    });
+
+    tasks.push(task);
+    const uid = get('UID');
+    if (uid) uids.set(uid, task.id);
+
+    const related = properties.get('RELATED-TO');
+    if (related && !/RELTYPE=(?!PARENT)/i.test(related.params))
+      parentLinks.set(task, related.value);
+  };
+
+  lines.forEach(line => {
+    const property = line.match(/^([A-Za-z0-9-]+)((?:;[^:;"]*(?:"[^"]*"[^:;"]*)*)*):(.*)$/);
+    if (!property) return;
+
+    const name = property[1]!.toUpperCase();
+    const params = property[2]!;
+    const value = property[3]!.trim();
+
+    if (name === 'BEGIN') {
+      components.push(value.toUpperCase());
+      if (value.toUpperCase() === 'VTODO') {
+        todo = new Map();
+        trigger = undefined;
+      }
+      return;
+    }
+
+    if (name === 'END') {
+      if (components.pop() === 'VTODO' && todo) {
+        finishTodo(todo);
+        todo = null;
+      }
+      return;
+    }
+
+    const component = components[components.length - 1];
+    if (todo && component === 'VTODO' && !todo.has(name)) {
+      todo.set(name, { params, value });
+    } else if (todo && component === 'VALARM' && name === 'TRIGGER') {
+      // Only the first alarm maps to a reminder
+      trigger ??= { params, value };
+    }
+  });
+
+  parentLinks.forEach((uid, task) => {
+    const parentId = uids.get(uid);
+    if (parentId !== undefined && parentId !== task.id) task.parentId = parentId;
+  });
+
+  return tasks;
+};
+
+/* Files */
+
+/**
+ * Work out a file's format from its extension, falling back to its content
+ */
+export const detectTaskFileFormat = (name: string, content: string): TaskFileFormat => {
+  const extension = name.split('.').pop()?.toLowerCase();
+  if (extension === 'ics') return 'ics';
+  if (extension === 'md' || extension === 'markdown') return 'markdown';
+
+  if (/^BEGIN:VCALENDAR/i.test(content.trimStart())) return 'ics';
+  if (/^\s*(?:[-*+]|\d+[.)])\s+\[[ xX]\]\s/m.test(content)) return 'markdown';
+  return 'todotxt';
+};
+
+/**
+ * Parse a task file in any supported format
+ */
+export const parseTaskFile = (name: string, content: string, now: number = Date.now()): Task[] => {
+  const text = content.replace(/^\uFEFF/, '');
+  switch (detectTaskFileFormat(name, text)) {
+    case 'todotxt':
+      return parseTodoTxt(text, now);
+    case 'markdown':
+      return parseMarkdownChecklist(text, now);
+    case 'ics':
+      return parseICS(text, now);
+  }
+};
+
+export const serializeTasks = (tasks: Task[], format: TaskFileFormat): string => {
+  switch (format) {
+    case 'todotxt':
+      return tasksToTodoTxt(tasks);
+    case 'markdown':
+      return tasksToMarkdown(tasks);
+    case 'ics':
+      return tasksToICS(tasks);
+  }
+};
+
+/**
+ * Add imported tasks after the existing ones. A task with the same text as an
+ * existing task under the same parent counts as a duplicate and is skipped,
+ * but its new subtasks are still added under the existing task.
+ */
+export const mergeImportedTasks = (existing: Task[], imported: Task[]): TaskImportResult => {
+  const key = (parentId: number | undefined, text: string) =>
+    `${parentId ?? ''}\n${text.trim().toLowerCase()}`;
+  const known = new Map(existing.map(task => [key(task.parentId, task.text), task.id]));
+  const added: Task[] = [];
+  let duplicates = 0;
+
+  const visit = (task: Task, parentId: number | undefined) => {
+    let id = known.get(key(parentId, task.text));
+    if (id === undefined) {
+      const { parentId: _parentId, ...rest } = task;
+      added.push({ ...rest, ...(parentId !== undefined && { parentId }) });
+      id = task.id;
+      known.set(key(parentId, task.text), id);
+    } else {
+      duplicates++;
+    }
+    imported.filter(child => child.parentId === task.id).forEach(child => visit(child, id));
+  };
+
+  const importedIds = new Set(imported.map(task => task.id));
+  imported
+    .filter(task => task.parentId === undefined || !importedIds.has(task.parentId))
+    .forEach(task => visit(task, undefined));
+
+  return { tasks: [...existing, ...added], added: added.length, duplicates };
+};
+
+/**
+ * Save tasks to a file through the platform save dialog. Returns false when cancelled.
+ */
+export const exportTasksFile = (tasks: Task[], format: TaskFileFormat): Promise<boolean> => {
+  const date = new Date().toISOString().split('T')[0];
+  const { extension, mimeType, name } = FILE_TYPES[format];
+  return saveTextFile(
+    `lucaverse-tasks-${date}.${extension}`,
+    serializeTasks(tasks, format),
+    mimeType,
+    [{ name, extensions: [extension] }]
+  );
+};
@@ -0,0 +1,157 @@
+/**
+ * Task Views
+ * Grouping for the Task Manager's Kanban board and day grids for its calendar
+ */
+
+import type { Task, TaskPriority } from '@/types/tasks';
+
+export type TaskViewMode = 'list' | 'board' | 'calendar';
+export type BoardGrouping = 'priority' | 'category';
+export type CalendarRange = 'week' | 'month';
+
+export const PRIORITY_INFO: Record<TaskPriority, { text: string; class: string }> = {
+  1: { text: '🔴 Critical', class: 'text-red-400 bg-red-500 bg-opacity-20' },
+  2: { text: '🟠 High', class: 'text-orange-400 bg-orange-500 bg-opacity-20' },
+  3: { text: '🟡 Medium', class: 'text-yellow-400 bg-yellow-500 bg-opacity-20' },
+  4: { text: '🟢 Low', class: 'text-green-400 bg-green-500 bg-opacity-20' },
+  5: { text: '🔵 Optional', class: 'text-blue-400 bg-blue-500 bg-opacity-20' },
+};
+
+export interface BoardColumn {
+  id: string;
+  title: string;
+  tasks: Task[];
+}
+
+// Column for tasks without a category
+export const NO_CATEGORY_COLUMN = 'no-category';
+
+const PRIORITIES: TaskPriority[] = [1, 2, 3, 4, 5];
+
+/**
+ * Board columns for top-level tasks, keeping the given task order within each
+ * column. Every priority and category gets a column, even when empty, so
+ * tasks can be dragged into it.
+ */
+export const groupTasksForBoard = (
+  tasks: Task[],
+  grouping: BoardGrouping,
+  categories: string[]
+): BoardColumn[] => {
+  const roots = tasks.filter(task => !task.parentId);
+
+  if (grouping === 'priority') {
+    return PRIORITIES.map(priority => ({
+      id: String(priority),
+      title: PRIORITY_INFO[priority].text,
+      tasks: roots.filter(task => task.priority === priority),
+    }));
+  }
+
+  return [
+    {
+      id: NO_CATEGORY_COLUMN,
+      title: 'No category',
+      tasks: roots.filter(task => !task.category),
+    },
+    ...categories.map(category => ({
+      id: `category:${category}`,
+      title: category,
+      tasks: roots.filter(task => task.category === category),
+    })),
+  ];
+};
+
+/**
+ * Copy of a task moved into a board column, or the task itself if it is already there
+ */
+export const moveTaskToColumn = (task: Task, grouping: BoardGrouping, columnId: string): Task => {
+  if (grouping === 'priority') {
+    const priority = Number(columnId) as TaskPriority;
+    if (!PRIORITIES.includes(priority) || task.priority === priority) return task;
+    return { ...task, priority, updatedAt: Date.now() };
+  }
+
+  const { category: current, ...rest } = task;
+  const category = columnId.startsWith('category:') ? columnId.slice('category:'.length) : '';
+  if ((current ?? '') === category) return task;
+  return { ...rest, ...(category && { category }), updatedAt: Date.now() };
+};
+
+export const startOfDay = (time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const addDays = (time: number, days: number): number => {
+  const date = new Date(time);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+// Weeks start on Sunday, matching Date.getDay()
+const startOfWeek = (time: number): number => addDays(startOfDay(time), -new Date(time).getDay());
+
+/**
+ * Midnight of each day shown for the week or month around `anchor`. Months
+ * are padded to whole weeks.
+ */
+export const getCalendarDays = (anchor: number, range: CalendarRange): number[] => {
+  let first: number;
+  let count: number;
+
+  if (range === 'week') {
+    first = startOfWeek(anchor);
+    count = 7;
+  } else {
+    const date = new Date(anchor);
+    const monthStart = new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+    const monthEnd = new Date(date.getFullYear(), date.getMonth() + 1, 0).getTime();
+    first = startOfWeek(monthStart);
+    count = Math.round((startOfWeek(monthEnd) - first) / (7 * 24 * 60 * 60 * 1000) + 1) * 7;
+  }
+
+  return Array.from({ length: count }, (_, index) => addDays(first, index));
+};
+
+/**
+ * Move the calendar by whole weeks or months
+ */
+export const shiftCalendar = (anchor: number, range: CalendarRange, step: number): number => {
+  if (range === 'week') return addDays(anchor, 7 * step);
+
+  const date = new Date(anchor);
+  return new Date(date.getFullYear(), date.getMonth() + step, 1).getTime();
+};
+
+/**
+ * Heading for the shown range, e.g. "October 2026" or "Oct 18 – Oct 24"
+ */
+export const formatCalendarTitle = (anchor: number, range: CalendarRange): string => {
+  if (range === 'month') {
+    return new Date(anchor).toLocaleDateString([], { month: 'long', year: 'numeric' });
+  }
+
+  const days = getCalendarDays(anchor, 'week');
+  const format = (time: number) =>
+    new Date(time).toLocaleDateString([], { month: 'short', day: 'numeric' });
+  return `${format(days[0]!)} – ${format(days[days.length - 1]!)}`;
+};
+
+/**
+ * Tasks with a due date keyed by the midnight of that day, earliest first
+ */
+export const groupTasksByDay = (tasks: Task[]): Map<number, Task[]> => {
+  const byDay = new Map<number, Task[]>();
+
+  [...tasks]
+    .filter(task => task.dueDate !== undefined)
+    .sort((a, b) => a.dueDate! - b.dueDate!)
+    .forEach(task => {
+      const day = startOfDay(task.dueDate!);
+      byDay.set(day, [...(byDay.get(day) ?? []), task]);
+    });
+
+  return byDay;
+};
@@ -6,6 +6,8 @@
 import React, { useCallback, useState } from 'react';
 import { useHotkeys } from 'react-hotkeys-hook';
 import { useLayoutStore } from '@/stores/layoutStore';
+import { useAppStore } from '@/stores/appStore';
+import { shortcutToHotkeys } from '@/features/command-palette/commandIndex';
 import { PANEL_COMPONENTS, createPanelComponent } from '@/components/panels';
 import type { Position, Size } from '@/types/panel';
 import { PanelComponent } from '@/types/panel';
@@ -490,6 +492,22 @@ export const useLayoutKeyboard = (config: ShortcutConfig = {}) => {
     [enabled, addPanel, getDefaultPosition]
   );
 
+  // Command palette, bound from the configurable shortcut in the app store
+  const paletteShortcut = useAppStore(state => state.shortcuts['palette.open']);
+  const toggleCommandPalette = useAppStore(state => state.toggleCommandPalette);
+
+  useHotkeys(
+    paletteShortcut ? shortcutToHotkeys(paletteShortcut) : 'ctrl+k, meta+k',
+    () => toggleCommandPalette(),
+    {
+      enabled: enabled && Boolean(paletteShortcut?.enabled),
+      preventDefault: true,
+      // Also works while typing, including in the palette's own search box
+      enableOnFormTags: true,
+    },
+    [toggleCommandPalette]
+  );
+
   // Return current state and methods for external use
   return {
     enabled,
@@ -505,6 +523,7 @@ export const useLayoutKeyboard = (config: ShortcutConfig = {}) => {
       workspace: ['Ctrl+S', 'Ctrl+Shift+R'],
       grid: ['Ctrl+G', 'Ctrl+Shift+G', 'Ctrl+Shift+Plus/Minus'],
       creation: ['Ctrl+1', 'Ctrl+2', 'Ctrl+3', 'Ctrl+4'],
+      palette: ['Ctrl+K'],
     },
   };
 };
@@ -581,6 +600,7 @@ export const useLayoutKeyboardHelp = () => {
         'Creation:',
         'Ctrl+1 (SmartHub), Ctrl+2 (AIChat), Ctrl+3 (TaskManager), Ctrl+4 (Productivity)'
       );
+      console.log('Palette:', 'Ctrl/Cmd+K (command palette)');
       console.groupEnd();
     },
     { preventDefault: true }
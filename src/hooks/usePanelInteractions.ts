@@ -31,7 +31,7 @@ export function usePanelDrag(panelId: string) {
     (event: React.MouseEvent) => {
       event.preventDefault();
       const panel = getPanel(panelId);
-      if (!panel) return;
+      if (!panel || panel.locked) return;
 
       const rect = (event.currentTarget as HTMLElement).getBoundingClientRect();
       const offset = {
@@ -93,8 +93,17 @@ export function usePanelDrag(panelId: string) {
     const panel = getPanel(panelId);
     if (panel && dragState.currentPosition) {
       updatePanel(panelId, { position: dragState.currentPosition });
+
+      // The rest of the group moves by the same amount
+      const dx = dragState.currentPosition.x - dragStartPosition.current.x;
+      const dy = dragState.currentPosition.y - dragStartPosition.current.y;
+      panels
+        .filter(p => panel.groupId && p.groupId === panel.groupId && p.id !== panelId && !p.locked)
+        .forEach(p =>
+          updatePanel(p.id, { position: { x: p.position.x + dx, y: p.position.y + dy } })
+        );
     }
-  }, [isDragging, panelId, endDrag, getPanel, updatePanel, dragState.currentPosition]);
+  }, [isDragging, panelId, endDrag, getPanel, updatePanel, panels, dragState.currentPosition]);
 
   // Attach global mouse event listeners during drag
   useEffect(() => {
@@ -147,7 +156,7 @@ export function usePanelResize(panelId: string) {
       event.stopPropagation();
 
       const panel = getPanel(panelId);
-      if (!panel) return;
+      if (!panel || panel.locked) return;
 
       setIsResizing(true);
       setResizeDirection(direction);
@@ -304,6 +313,22 @@ export function usePanelSelection(panelId: string) {
   };
 }
 
+// Per-instance panel setting, stored on the panel's layout so it travels with saved workspaces
+export function usePanelSetting<T>(panelId: string, key: string, defaultValue: T) {
+  const stored = useLayoutStore(state => state.getPanel(panelId)?.settings?.[key]) as T | undefined;
+  const updatePanel = useLayoutStore(state => state.updatePanel);
+
+  const setValue = useCallback(
+    (value: T) => {
+      const settings = useLayoutStore.getState().getPanel(panelId)?.settings;
+      updatePanel(panelId, { settings: { ...settings, [key]: value } });
+    },
+    [panelId, key, updatePanel]
+  );
+
+  return [stored ?? defaultValue, setValue] as const;
+}
+
 // Grid snapping hook
 export function useGridSnap() {
   const { gridSettings, updateGridSettings } = useLayoutStore();
@@ -372,7 +397,7 @@ export function useKeyboardShortcuts(panelId: string) {
   const handleKeyDown = useCallback(
     (event: KeyboardEvent) => {
       const panel = getPanel(panelId);
-      if (!panel || !selectedPanelIds.includes(panelId)) return;
+      if (!panel || panel.locked || !selectedPanelIds.includes(panelId)) return;
 
       const step = event.shiftKey ? 10 : 1;
       const gridStep = event.ctrlKey ? 20 : step;
@@ -30,6 +30,9 @@ export interface NotificationAPI {
   onClicked(callback: (notificationId: string) => void): () => void;
   onClosed(callback: (notificationId: string, byUser: boolean) => void): () => void;
   requestPermission(): Promise<NotificationPermission>;
+  // Show a notification at `when` (epoch ms), even if the page that scheduled it has closed
+  schedule(id: string, options: NotificationOptions, when: number): Promise<boolean>;
+  cancelScheduled(id: string): Promise<boolean>;
 }
 
 export interface NotificationOptions {
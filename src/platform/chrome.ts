@@ -26,6 +26,10 @@ import {
   PlatformContext,
 } from './base.ts';
 
+// Scheduled notifications are alarms named "<prefix><id>"; the background
+// worker shows them from the options stored under the same key
+export const SCHEDULED_NOTIFICATION_PREFIX = 'notification:';
+
 // Chrome Storage Implementation
 class ChromeStorageAPI implements StorageAPI {
   private listeners: Set<(changes: StorageChange[]) => void> = new Set();
@@ -207,6 +211,29 @@ class ChromeNotificationAPI implements NotificationAPI {
     return chrome?.notifications ? 'granted' : 'denied';
   }
 
+  async schedule(id: string, options: NotificationOptions, when: number): Promise<boolean> {
+    try {
+      const name = SCHEDULED_NOTIFICATION_PREFIX + id;
+      await chrome.storage.local.set({ [name]: options });
+      await chrome.alarms.create(name, { when });
+      return true;
+    } catch (error) {
+      console.error('Chrome notification schedule error:', error);
+      return false;
+    }
+  }
+
+  async cancelScheduled(id: string): Promise<boolean> {
+    try {
+      const name = SCHEDULED_NOTIFICATION_PREFIX + id;
+      await chrome.storage.local.remove(name);
+      return await chrome.alarms.clear(name);
+    } catch (error) {
+      console.error('Chrome notification cancel error:', error);
+      return false;
+    }
+  }
+
   private handleClick(notificationId: string): void {
     this.clickListeners.forEach(callback => callback(notificationId));
   }
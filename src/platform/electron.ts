@@ -176,6 +176,31 @@ class ElectronNotificationAPI implements NotificationAPI {
     // Electron apps have notification permission by default
     return 'granted';
   }
+
+  // Timers run in the main process, so reminders fire with every window closed
+  async schedule(id: string, options: NotificationOptions, when: number): Promise<boolean> {
+    try {
+      await (window as any).electronAPI.notifications.schedule(
+        id,
+        { title: options.title, body: options.message, silent: options.silent },
+        when
+      );
+      return true;
+    } catch (error) {
+      console.error('Electron notification schedule error:', error);
+      return false;
+    }
+  }
+
+  async cancelScheduled(id: string): Promise<boolean> {
+    try {
+      await (window as any).electronAPI.notifications.cancel(id);
+      return true;
+    } catch (error) {
+      console.error('Electron notification cancel error:', error);
+      return false;
+    }
+  }
 }
 
 // Electron Window Implementation
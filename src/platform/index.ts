@@ -362,6 +362,9 @@ export {
   type PlatformDetectionResult,
 } from './detector.ts';
 
+// Standalone storage backends
+export { IndexedDBStorageAPI } from './indexedDB.ts';
+
 // Type exports
 export type {
   PlatformAPI,
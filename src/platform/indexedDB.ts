@@ -0,0 +1,140 @@
+/**
+ * IndexedDB Storage Implementation
+ * StorageAPI backed by IndexedDB for large datasets that outgrow localStorage quotas on the web
+ */
+
+import { StorageAPI, StorageChange } from './base.ts';
+
+const STORE_NAME = 'entries';
+
+export class IndexedDBStorageAPI implements StorageAPI {
+  private listeners: Set<(changes: StorageChange[]) => void> = new Set();
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private databaseName: string;
+
+  constructor(databaseName: string = 'lucaverse_hub') {
+    this.databaseName = databaseName;
+  }
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async get<T = any>(key: string): Promise<T | null> {
+    try {
+      const value = await this.request<T | undefined>('readonly', store => store.get(key));
+      return value ?? null;
+    } catch (error) {
+      console.error('IndexedDB storage get error:', error);
+      return null;
+    }
+  }
+
+  async set<T = any>(key: string, value: T): Promise<void> {
+    try {
+      const oldValue = await this.get(key);
+      await this.request('readwrite', store => store.put(value, key));
+      this.emitStorageChange(key, oldValue ?? undefined, value);
+    } catch (error) {
+      console.error('IndexedDB storage set error:', error);
+      throw new Error(`Failed to set storage key: ${key}`);
+    }
+  }
+
+  async remove(key: string): Promise<void> {
+    try {
+      const oldValue = await this.get(key);
+      await this.request('readwrite', store => store.delete(key));
+      if (oldValue !== null) {
+        this.emitStorageChange(key, oldValue, undefined);
+      }
+    } catch (error) {
+      console.error('IndexedDB storage remove error:', error);
+      throw new Error(`Failed to remove storage key: ${key}`);
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await this.request('readwrite', store => store.clear());
+    } catch (error) {
+      console.error('IndexedDB storage clear error:', error);
+      throw new Error('Failed to clear storage');
+    }
+  }
+
+  watch(callback: (changes: StorageChange[]) => void): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  async getSize(): Promise<number> {
+    try {
+      if ('storage' in navigator && 'estimate' in navigator.storage) {
+        const estimate = await navigator.storage.estimate();
+        return estimate.usage || 0;
+      }
+      return 0;
+    } catch (error) {
+      return 0;
+    }
+  }
+
+  async getQuota(): Promise<number> {
+    try {
+      if ('storage' in navigator && 'estimate' in navigator.storage) {
+        const estimate = await navigator.storage.estimate();
+        return estimate.quota || 0;
+      }
+      return 0;
+    } catch (error) {
+      return 0;
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.openDatabase();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private emitStorageChange(key: string, oldValue: any, newValue: any): void {
+    const change: StorageChange = {
+      key,
+      oldValue,
+      newValue,
+      storageArea: 'indexedDB',
+    };
+
+    this.listeners.forEach(callback => callback([change]));
+  }
+}
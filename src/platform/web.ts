@@ -161,12 +161,16 @@ class WebStorageAPI implements StorageAPI {
   }
 }
 
+// Longest delay setTimeout accepts (2^31 - 1 ms)
+const MAX_TIMER_DELAY = 2147483647;
+
 // Web Notifications Implementation
 class WebNotificationAPI implements NotificationAPI {
   private clickListeners: Set<(notificationId: string) => void> = new Set();
   private closeListeners: Set<(notificationId: string, byUser: boolean) => void> = new Set();
   private notifications: Map<string, Notification> = new Map();
   private notificationCounter = 0;
+  private scheduledTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
 
   async create(options: NotificationOptions): Promise<string | null> {
     try {
@@ -292,6 +296,34 @@ class WebNotificationAPI implements NotificationAPI {
       return 'denied';
     }
   }
+
+  // A plain web page can only notify while it is open
+  async schedule(id: string, options: NotificationOptions, when: number): Promise<boolean> {
+    await this.cancelScheduled(id);
+
+    const delay = when - Date.now();
+    if (delay > MAX_TIMER_DELAY) return false;
+
+    this.scheduledTimers.set(
+      id,
+      setTimeout(
+        () => {
+          this.scheduledTimers.delete(id);
+          this.create(options);
+        },
+        Math.max(0, delay)
+      )
+    );
+    return true;
+  }
+
+  async cancelScheduled(id: string): Promise<boolean> {
+    const timer = this.scheduledTimers.get(id);
+    if (!timer) return false;
+
+    clearTimeout(timer);
+    return this.scheduledTimers.delete(id);
+  }
 }
 
 // Web Window Implementation (Limited)
@@ -71,6 +71,9 @@ interface AppState {
   // Keyboard shortcuts
   shortcuts: Record<string, KeyboardShortcut>;
 
+  // Command palette
+  isCommandPaletteOpen: boolean;
+
   // Notification system
   notifications: AppNotification[];
   notificationQueue: AppNotification[];
@@ -106,6 +109,10 @@ interface AppState {
   removeShortcut: (actionName: string) => void;
   resetShortcutsToDefaults: () => void;
 
+  // Command palette actions
+  setCommandPaletteOpen: (open: boolean) => void;
+  toggleCommandPalette: () => void;
+
   // Notification actions
   addNotification: (notification: Omit<AppNotification, 'id' | 'timestamp'>) => void;
   removeNotification: (id: string) => void;
@@ -187,6 +194,13 @@ const defaultShortcuts: Record<string, KeyboardShortcut> = {
     description: 'Toggle debug mode',
     enabled: true,
   },
+  'palette.open': {
+    key: 'k',
+    modifiers: { ctrl: true },
+    action: 'palette.open',
+    description: 'Open command palette',
+    enabled: true,
+  },
 };
 
 // Default application state
@@ -216,6 +230,8 @@ const defaultAppState: Omit<AppState, keyof AppActions> = {
 
   shortcuts: defaultShortcuts,
 
+  isCommandPaletteOpen: false,
+
   notifications: [],
   notificationQueue: [],
   maxNotifications: 5,
@@ -240,6 +256,8 @@ type AppActions = {
   addShortcut: AppState['addShortcut'];
   removeShortcut: AppState['removeShortcut'];
   resetShortcutsToDefaults: AppState['resetShortcutsToDefaults'];
+  setCommandPaletteOpen: AppState['setCommandPaletteOpen'];
+  toggleCommandPalette: AppState['toggleCommandPalette'];
   addNotification: AppState['addNotification'];
   removeNotification: AppState['removeNotification'];
   markNotificationAsRead: AppState['markNotificationAsRead'];
@@ -254,7 +272,7 @@ type AppActions = {
 
 // Create the application store
 export const useAppStore = create<AppState>()(
-  createDevToolsMiddleware({
+  createDevToolsMiddleware<AppState>({
     name: 'AppStore',
     enabled: defaultDevToolsConfig.enabled,
     serialize: defaultDevToolsConfig.serialize,
@@ -425,6 +443,19 @@ export const useAppStore = create<AppState>()(
       );
     },
 
+    // Command palette actions
+    setCommandPaletteOpen: open => {
+      set({ isCommandPaletteOpen: open }, false, 'setCommandPaletteOpen');
+    },
+
+    toggleCommandPalette: () => {
+      set(
+        state => ({ isCommandPaletteOpen: !state.isCommandPaletteOpen }),
+        false,
+        'toggleCommandPalette'
+      );
+    },
+
     // Notification actions
     addNotification: notification => {
       const id = `notification-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
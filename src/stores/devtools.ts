@@ -15,11 +15,15 @@ export interface DevToolsConfig {
   traceLimit?: number;
 }
 
+// Middlewares the store creator runs under; set takes the devtools action name
+type DevToolsMutators = [['zustand/devtools', never], ['zustand/subscribeWithSelector', never]];
+
 // Enhanced DevTools middleware with time-travel debugging
 export const createDevToolsMiddleware = <T>(config: DevToolsConfig) => {
-  return (f: StateCreator<T>) => {
+  return (f: StateCreator<T, DevToolsMutators>): StateCreator<T, [], DevToolsMutators> => {
     if (typeof window === 'undefined' || !config.enabled) {
-      return f;
+      // Plain set ignores the action name
+      return f as unknown as StateCreator<T, [], DevToolsMutators>;
     }
 
     return devtools(subscribeWithSelector(f), {
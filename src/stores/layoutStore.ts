@@ -28,6 +28,8 @@ interface LayoutState extends Omit<LayoutStateType, 'panels' | 'panelStates'> {
   deselectPanel: (id: string) => void;
   clearSelection: () => void;
   reorderPanels: (sourceIndex: number, destinationIndex: number) => void;
+  groupPanels: (ids: string[]) => void;
+  ungroupPanels: (ids: string[]) => void;
 
   // Grid actions
   setGridSnap: (enabled: boolean) => void;
@@ -121,6 +123,8 @@ type LayoutActions = {
   deselectPanel: LayoutState['deselectPanel'];
   clearSelection: LayoutState['clearSelection'];
   reorderPanels: LayoutState['reorderPanels'];
+  groupPanels: LayoutState['groupPanels'];
+  ungroupPanels: LayoutState['ungroupPanels'];
   setGridSnap: LayoutState['setGridSnap'];
   updateGridSettings: LayoutState['updateGridSettings'];
   startDrag: LayoutState['startDrag'];
@@ -143,9 +147,15 @@ type LayoutActions = {
   centerPanel: LayoutState['centerPanel'];
 };
 
+// A panel's id, or the ids of every panel in its group
+const withGroup = (panels: PanelLayout[], id: string): string[] => {
+  const groupId = panels.find(panel => panel.id === id)?.groupId;
+  return groupId ? panels.filter(panel => panel.groupId === groupId).map(panel => panel.id) : [id];
+};
+
 // Create the layout store
 export const useLayoutStore = create<LayoutState>()(
-  createDevToolsMiddleware({
+  createDevToolsMiddleware<LayoutState>({
     name: 'LayoutStore',
     enabled: defaultDevToolsConfig.enabled,
     serialize: defaultDevToolsConfig.serialize,
@@ -202,16 +212,22 @@ export const useLayoutStore = create<LayoutState>()(
     selectPanel: (id, multiSelect = false) => {
       set(
         state => {
+          // A grouped panel brings the rest of its group along
+          const ids = withGroup(state.panels, id);
+
           if (multiSelect) {
             const isSelected = state.selectedPanelIds.includes(id);
             return {
               selectedPanelIds: isSelected
-                ? state.selectedPanelIds.filter(selectedId => selectedId !== id)
-                : [...state.selectedPanelIds, id],
+                ? state.selectedPanelIds.filter(selectedId => !ids.includes(selectedId))
+                : [
+                    ...state.selectedPanelIds,
+                    ...ids.filter(groupedId => !state.selectedPanelIds.includes(groupedId)),
+                  ],
             };
           } else {
             return {
-              selectedPanelIds: [id],
+              selectedPanelIds: ids,
             };
           }
         },
@@ -247,6 +263,40 @@ export const useLayoutStore = create<LayoutState>()(
       });
     },
 
+    groupPanels: ids => {
+      if (ids.length < 2) return;
+      const groupId = nanoid();
+      set(
+        state => ({
+          panels: state.panels.map(panel =>
+            ids.includes(panel.id) ? { ...panel, groupId } : panel
+          ),
+        }),
+        false,
+        { type: LayoutActionType.GROUP_PANELS, panelIds: ids, groupId }
+      );
+    },
+
+    // Breaks up every group the given panels belong to
+    ungroupPanels: ids => {
+      set(
+        state => {
+          const groupIds = new Set(
+            state.panels.filter(panel => ids.includes(panel.id)).map(panel => panel.groupId)
+          );
+          return {
+            panels: state.panels.map(panel => {
+              if (!panel.groupId || !groupIds.has(panel.groupId)) return panel;
+              const { groupId: _groupId, ...ungrouped } = panel;
+              return ungrouped;
+            }),
+          };
+        },
+        false,
+        { type: LayoutActionType.UNGROUP_PANELS, panelIds: ids }
+      );
+    },
+
     // Grid actions
     setGridSnap: enabled => {
       set(
@@ -566,8 +616,8 @@ export const useLayoutStore = create<LayoutState>()(
         },
       };
 
-      // Remove id so addPanel generates a new one
-      const { id: _, ...panelWithoutId } = duplicatedPanel;
+      // Remove id so addPanel generates a new one; the copy is not part of the group
+      const { id: _, groupId: _groupId, ...panelWithoutId } = duplicatedPanel;
       state.addPanel(panelWithoutId);
     },
 
@@ -0,0 +1,56 @@
+/**
+ * SmartHub Bookmark Types
+ * Shared data structures for SmartHub bookmarks and their browser sync state
+ */
+
+export interface Bookmark {
+  id: number;
+  title: string;
+  url: string;
+  favicon: string; // Emoji shown until a cached favicon image is available
+  visits: number;
+  isPinned: boolean;
+  tags?: string[];
+  health?: LinkHealth;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A saved search shown as its own section in SmartHub
+export interface SmartCollection {
+  id: string;
+  name: string;
+  query: string;
+  createdAt: number;
+}
+
+// Result of the last link-health check
+export type LinkHealthStatus = 'ok' | 'redirect' | 'broken' | 'unreachable';
+
+export interface LinkHealth {
+  status: LinkHealthStatus;
+  httpStatus?: number;
+  finalUrl?: string; // Where a redirect ended up
+  checkedAt: number;
+}
+
+// A bookmark as stored outside SmartHub: the browser's bookmark tree or an imported file
+export interface ExternalBookmark {
+  nativeId?: string; // chrome.bookmarks node id; absent for imported files
+  title: string;
+  url: string;
+  folders: string[]; // Folder path below the synced/imported root
+  tags?: string[];
+  isPinned?: boolean;
+  visits?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Links SmartHub bookmarks to browser bookmark nodes between syncs
+export interface BookmarkSyncState {
+  folderId: string | null;
+  folderTitle?: string;
+  lastSyncAt: number;
+  links: Record<number, string>; // SmartHub bookmark id -> chrome.bookmarks node id
+}
@@ -0,0 +1,60 @@
+/**
+ * AI Chat Types
+ * Shared data structures for chat sessions, messages and provider selection
+ */
+
+// Supported AI providers
+export type AIProvider = 'claude' | 'gpt4' | 'gemini' | 'local';
+
+// A single message in a chat session
+export interface ChatMessage {
+  id: string;
+  type: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+  model?: string;
+  error?: boolean; // Failed replies are shown but never sent back to the provider
+  partial?: boolean; // Reply was stopped or interrupted before the provider finished
+}
+
+// Web page content a conversation is grounded on
+export interface ChatContext {
+  kind: 'page' | 'selection';
+  url: string;
+  title: string;
+  domain: string;
+  content: string;
+  truncated: boolean; // Content was cut to fit the prompt budget
+  capturedAt: number;
+}
+
+// A chat conversation
+export interface ChatSession {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+  pinned?: boolean;
+  context?: ChatContext;
+  olderMessageCount?: number; // Stored messages before `messages` that have not been loaded yet
+}
+
+// Lightweight session entry kept in the chat index
+export interface ChatSessionSummary {
+  id: string;
+  title: string;
+  messageCount: number;
+  createdAt: number;
+  updatedAt: number;
+  pinned?: boolean;
+}
+
+// A message matched by full-text search
+export interface ChatSearchResult {
+  sessionId: string;
+  sessionTitle: string;
+  messageId: string;
+  snippet: string;
+  timestamp: number;
+}
@@ -324,7 +324,11 @@ export type MessageAction =
   | 'extractContent'
   | 'highlightElement'
   | 'injectBookmarkButton'
-  | 'storageChanged';
+  | 'storageChanged'
+  | 'checkLinks'
+  | 'getFocusBlock'
+  | 'allowBlockedSite'
+  | 'focusBlockChanged';
 
 // Storage change event
 export interface StorageChangeEvent {
@@ -105,6 +105,8 @@ export enum LayoutActionType {
   UPDATE_PANEL = 'UPDATE_PANEL',
   MOVE_PANEL = 'MOVE_PANEL',
   RESIZE_PANEL = 'RESIZE_PANEL',
+  GROUP_PANELS = 'GROUP_PANELS',
+  UNGROUP_PANELS = 'UNGROUP_PANELS',
 
   // Selection actions
   SELECT_PANEL = 'SELECT_PANEL',
@@ -150,6 +152,8 @@ export interface LayoutActions {
   [LayoutActionType.UPDATE_PANEL]: { panelId: string; updates: Partial<PanelLayout> };
   [LayoutActionType.MOVE_PANEL]: { panelId: string; position: Position };
   [LayoutActionType.RESIZE_PANEL]: { panelId: string; size: Size };
+  [LayoutActionType.GROUP_PANELS]: { panelIds: string[]; groupId: string };
+  [LayoutActionType.UNGROUP_PANELS]: { panelIds: string[] };
   [LayoutActionType.SELECT_PANEL]: { panelId: string };
   [LayoutActionType.DESELECT_PANEL]: { panelId: string };
   [LayoutActionType.CLEAR_SELECTION]: {};
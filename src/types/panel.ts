@@ -54,6 +54,12 @@ export interface PanelLayout {
     icon?: string;
     color?: string;
   };
+  // Per-instance preferences the panel component keeps, e.g. the TaskManager view
+  settings?: Record<string, unknown>;
+  // Locked panels keep their place and size and cannot be deleted
+  locked?: boolean;
+  // Panels sharing a group id are selected and moved together
+  groupId?: string;
 }
 
 // Panel state for runtime management
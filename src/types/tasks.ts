@@ -0,0 +1,39 @@
+/**
+ * Task Manager Types
+ * Shared data structures for tasks, their priorities and repeat schedules
+ */
+
+// 1 = Critical, 5 = Optional
+export type TaskPriority = 1 | 2 | 3 | 4 | 5;
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+// Repeat schedule modelled on iCalendar RRULE (FREQ, INTERVAL, BYDAY, BYMONTHDAY, COUNT, UNTIL)
+export interface TaskRecurrence {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days, weeks or months
+  weekdays?: number[]; // Weekly only; 0 = Sunday
+  monthDay?: number; // Monthly only; clamped to short months
+  count?: number; // Occurrences left, including the current one
+  until?: number; // No occurrences after this time
+}
+
+export interface Task {
+  id: number;
+  text: string;
+  completed: boolean;
+  priority: TaskPriority;
+  parentId?: number;
+  progress: number;
+  category?: string;
+  tags?: string[];
+  notes?: string; // Free-form details, e.g. code sent from AI Chat
+  dueDate?: number;
+  reminderOffset?: number; // Minutes before dueDate to notify; no reminder when unset
+  recurrence?: TaskRecurrence; // Only on the open instance; completing it creates the next one
+  blockedBy?: number[]; // Ids of tasks that must be completed before this one
+  estimate?: number; // Expected minutes of work
+  timeSpent?: number; // Minutes of focus time tracked in Pomodoro sessions
+  createdAt: number;
+  updatedAt: number;
+}
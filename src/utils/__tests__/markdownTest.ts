@@ -0,0 +1,71 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Markdown Renderer Test Suite
+ * Verifies escaping, block parsing and code highlighting
+ */
+
+import { parseMarkdown, renderInline, renderMarkdown } from '../markdown';
+import { highlightCode, resolveLanguage } from '../syntaxHighlight';
+
+describe('Markdown rendering', () => {
+  test('escapes raw HTML and drops unsafe links', () => {
+    const html = renderMarkdown('<img src=x onerror="alert(1)"> [click](javascript:alert(1))');
+
+    expect(html).not.toContain('<img');
+    expect(html).toContain('&lt;img');
+    expect(html).not.toContain('href="javascript:');
+    expect(html).toContain('click');
+  });
+
+  test('renders inline formatting and safe links', () => {
+    const html = renderInline('**bold** *em* `a < b` [docs](https://example.com) snake_case_name');
+
+    expect(html).toContain('<strong>bold</strong>');
+    expect(html).toContain('<em>em</em>');
+    expect(html).toContain('>a &lt; b</code>');
+    expect(html).toContain('href="https://example.com"');
+    expect(html).toContain('snake_case_name');
+  });
+
+  test('splits fenced code from prose, including unterminated fences', () => {
+    const blocks = parseMarkdown('Intro\n\n```ts\nconst a = 1;\n```\nOutro\n```py\nprint(1)');
+
+    expect(blocks.map(block => block.type)).toEqual(['html', 'code', 'html', 'code']);
+    expect(blocks[1]).toEqual({ type: 'code', language: 'ts', code: 'const a = 1;' });
+    expect(blocks[3]).toEqual({ type: 'code', language: 'py', code: 'print(1)' });
+  });
+
+  test('renders lists, nested lists and tables', () => {
+    const html = renderMarkdown(
+      '- one\n  - nested\n- [x] done\n\n1. first\n\n| A | B |\n|---|--:|\n| 1 | 2 |'
+    );
+
+    expect(html).toMatch(
+      /<ul[^>]*><li>one<ul[^>]*><li>nested<\/li><\/ul><\/li><li>☑ done<\/li><\/ul>/
+    );
+    expect(html).toMatch(/<ol[^>]*><li>first<\/li><\/ol>/);
+    expect(html).toContain('text-align: right">2</td>');
+  });
+});
+
+describe('Syntax highlighting', () => {
+  test('resolves language aliases', () => {
+    expect(resolveLanguage('TS')).toBe('typescript');
+    expect(resolveLanguage('brainfuck')).toBeNull();
+  });
+
+  test('wraps tokens in classed spans and escapes the rest', () => {
+    const html = highlightCode('const x = "<b>"; // note', 'js');
+
+    expect(html).toContain('<span class="text-purple-300">const</span>');
+    expect(html).toContain('<span class="text-green-300">&quot;&lt;b&gt;&quot;</span>');
+    expect(html).toContain('<span class="text-gray-400 italic">// note</span>');
+  });
+
+  test('escapes unknown languages without markup', () => {
+    expect(highlightCode('<div>', 'unknown')).toBe('&lt;div&gt;');
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * QR Code Test Suite
+ * Decodes generated symbols back to text to verify layout, masking and error correction
+ */
+
+import { encodeQRCode, qrCodeToSVG, type QRCode } from '../qrCode';
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  x => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+// Function patterns for versions 1-6, which have at most one alignment pattern
+const isFunctionModule = (x: number, y: number, size: number): boolean => {
+  const inFinder = (x <= 8 && y <= 8) || (x >= size - 8 && y <= 8) || (x <= 8 && y >= size - 8);
+  const alignment = size - 7;
+  const inAlignment = size > 21 && Math.abs(x - alignment) <= 2 && Math.abs(y - alignment) <= 2;
+  return inFinder || inAlignment || x === 6 || y === 6;
+};
+
+const readFormat = (qr: QRCode) => {
+  const bit = (x: number, y: number) => (qr.modules[y]![x] ? 1 : 0);
+  const positions: Array<[number, number]> = [
+    [8, 0],
+    [8, 1],
+    [8, 2],
+    [8, 3],
+    [8, 4],
+    [8, 5],
+    [8, 7],
+    [8, 8],
+    [7, 8],
+    [5, 8],
+    [4, 8],
+    [3, 8],
+    [2, 8],
+    [1, 8],
+    [0, 8],
+  ];
+  const raw = positions.reduce((value, [x, y], i) => value | (bit(x, y) << i), 0) ^ 0x5412;
+  const data = raw >>> 10;
+
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  return { eccBits: data >>> 3, mask: data & 7, valid: (remainder & 0x3ff) === (raw & 0x3ff) };
+};
+
+const readCodewords = (qr: QRCode, mask: number): number[] => {
+  const { size, modules } = qr;
+  const bits: number[] = [];
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < size; vertical++) {
+      const y = upward ? size - 1 - vertical : vertical;
+      for (const x of [right, right - 1]) {
+        if (isFunctionModule(x, y, size)) continue;
+        bits.push(modules[y]![x] !== MASKS[mask]!(x, y) ? 1 : 0);
+      }
+    }
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+};
+
+// Evaluate the codeword polynomial at α^0..α^(eccLength-1); all zero means no errors
+const syndromes = (codewords: number[], eccLength: number): number[] => {
+  const result: number[] = [];
+  for (let i = 0, root = 1; i < eccLength; i++, root = gfMultiply(root, 2)) {
+    result.push(codewords.reduce((sum, byte) => gfMultiply(sum, root) ^ byte, 0));
+  }
+  return result;
+};
+
+const decodeByteMode = (codewords: number[]): string => {
+  const bits = codewords.flatMap(byte =>
+    Array.from({ length: 8 }, (_, i) => (byte >>> (7 - i)) & 1)
+  );
+  const read = (offset: number, length: number) =>
+    bits.slice(offset, offset + length).reduce((value, bit) => (value << 1) | bit, 0);
+
+  expect(read(0, 4)).toBe(0b0100);
+  const length = read(4, 8);
+  const bytes = Array.from({ length }, (_, i) => read(12 + i * 8, 8));
+  return new TextDecoder().decode(new Uint8Array(bytes));
+};
+
+describe('QR code encoding', () => {
+  test.each([
+    ['https://x.dev', 1, 16],
+    ['https://github.com', 2, 28],
+    ['Ünïcödé bookmark title ✓', 3, 44],
+  ])('round-trips %s through a single-block version %i symbol', (text, version, dataLength) => {
+    const qr = encodeQRCode(text, 'M');
+
+    expect(qr.version).toBe(version);
+    expect(qr.size).toBe(version * 4 + 17);
+    expect(qr.modules).toHaveLength(qr.size);
+
+    const format = readFormat(qr);
+    expect(format.valid).toBe(true);
+    expect(format.eccBits).toBe(0); // M
+
+    const codewords = readCodewords(qr, format.mask);
+    const total = [26, 44, 70][version - 1]!;
+    expect(codewords.slice(0, total)).toHaveLength(total);
+    expect(syndromes(codewords.slice(0, total), total - dataLength).every(s => s === 0)).toBe(true);
+    expect(decodeByteMode(codewords.slice(0, dataLength))).toBe(text);
+  });
+
+  test('draws finder patterns in three corners', () => {
+    const { modules, size } = encodeQRCode('finder');
+    const finderRow = [true, false, true, true, true, false, true];
+
+    for (const [x, y] of [
+      [0, 0],
+      [size - 7, 0],
+      [0, 3],
+    ] as const) {
+      expect(modules[y === 3 ? size - 4 : 3]!.slice(x, x + 7)).toEqual(finderRow);
+    }
+  });
+
+  test('grows the version with the text and rejects text that cannot fit', () => {
+    expect(encodeQRCode('x'.repeat(230), 'L').version).toBe(9);
+    expect(encodeQRCode('x'.repeat(231), 'L').version).toBe(10);
+    expect(encodeQRCode('x'.repeat(231), 'H').version).toBeGreaterThan(10);
+    expect(() => encodeQRCode('x'.repeat(3000), 'L')).toThrow('too long');
+  });
+
+  test('writes version information from version 7 up', () => {
+    const qr = encodeQRCode('x'.repeat(120), 'M');
+    const bits = Array.from({ length: 18 }, (_, i) => {
+      const a = qr.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      expect(qr.modules[a]![b]).toBe(qr.modules[b]![a]);
+      return qr.modules[b]![a] ? 1 << i : 0;
+    });
+
+    expect(qr.version).toBe(7);
+    expect(bits.reduce((sum, bit) => sum | bit, 0)).toBe(0x07c94);
+  });
+
+  test('renders a standalone SVG with a quiet zone', () => {
+    const svg = qrCodeToSVG(encodeQRCode('svg'), { scale: 2, margin: 4 });
+
+    expect(svg).toContain('viewBox="0 0 29 29"');
+    expect(svg).toContain('width="58"');
+    expect(svg).toMatch(/<path d="M4,4h1v1h-1z/);
+  });
+});
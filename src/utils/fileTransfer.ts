@@ -0,0 +1,110 @@
+/**
+ * File Transfer Utilities
+ * Save and open text files through native dialogs on Electron, with download/file-input fallbacks elsewhere
+ */
+
+import { getPlatformAPI } from '@/platform';
+
+export interface TextFileFilter {
+  name: string;
+  extensions: string[];
+}
+
+export interface OpenedTextFile {
+  name: string;
+  content: string;
+}
+
+const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Save text content to a file. Returns false when the user cancels.
+ */
+export const saveTextFile = async (
+  filename: string,
+  content: string,
+  mimeType: string = 'text/plain',
+  filters?: TextFileFilter[]
+): Promise<boolean> => {
+  const api = await getPlatformAPI();
+
+  if (api.type === 'electron') {
+    const path = await api.system.fileSystem.showSaveDialog({
+      defaultPath: filename,
+      ...(filters && { filters }),
+    });
+    if (!path) return false;
+
+    await api.system.fileSystem.writeFile(path, content);
+    return true;
+  }
+
+  downloadBlob(filename, new Blob([content], { type: mimeType }));
+  return true;
+};
+
+/**
+ * Save binary content such as an image. The file system API only writes text, so
+ * this always goes through a download, which Electron turns into a save dialog.
+ */
+export const saveBlobFile = (filename: string, blob: Blob): void => {
+  downloadBlob(filename, blob);
+};
+
+/**
+ * Let the user pick a text file and read its contents. Resolves null when cancelled.
+ */
+export const openTextFile = async (filters?: TextFileFilter[]): Promise<OpenedTextFile | null> => {
+  const api = await getPlatformAPI();
+
+  if (api.type === 'electron') {
+    const [path] = await api.system.fileSystem.showOpenDialog({
+      properties: ['openFile'],
+      ...(filters && { filters }),
+    });
+    if (!path) return null;
+
+    return {
+      name: path.split(/[\\/]/).pop() || path,
+      content: await api.system.fileSystem.readFile(path),
+    };
+  }
+
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+
+    if (filters) {
+      input.accept = filters
+        .flatMap(filter => filter.extensions)
+        .map(ext => `.${ext}`)
+        .join(',');
+    }
+
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+
+      file
+        .text()
+        .then(content => resolve({ name: file.name, content }))
+        .catch(reject);
+    };
+    input.addEventListener('cancel', () => resolve(null));
+
+    input.click();
+  });
+};
@@ -0,0 +1,260 @@
+/**
+ * Markdown Utilities
+ * Minimal, escape-first Markdown parser for chat messages and notes
+ */
+
+import { escapeHTML } from './syntaxHighlight';
+
+// Rendered output: HTML for prose, raw code for fenced blocks so callers can add controls
+export type MarkdownBlock =
+  { type: 'html'; html: string } | { type: 'code'; language: string; code: string };
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}(?:(?:\*\s*){3,}|(?:-\s*){3,}|(?:_\s*){3,})$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const SAFE_URL = /^(?:https?:|mailto:)/i;
+
+/**
+ * Render inline Markdown (code, links, emphasis) from raw text to HTML
+ */
+export const renderInline = (text: string): string => {
+  const protectedSegments: string[] = [];
+  const protect = (html: string) => `\u0000${protectedSegments.push(html) - 1}\u0000`;
+
+  let html = escapeHTML(text)
+    .replace(/`([^`\n]+)`/g, (_, code: string) =>
+      protect(`<code class="px-1 bg-black bg-opacity-30 rounded text-pink-200">${code}</code>`)
+    )
+    .replace(/\[([^\]\n]+)\]\(([^)\s]+)\)/g, (_match, label: string, url: string) =>
+      SAFE_URL.test(url)
+        ? protect(
+            `<a href="${url}" target="_blank" rel="noopener noreferrer" class="text-blue-300 underline">${label}</a>`
+          )
+        : label
+    )
+    .replace(
+      /(^|[\s(])(https?:\/\/[^\s<)]+)/g,
+      (_, prefix: string, url: string) =>
+        `${prefix}${protect(
+          `<a href="${url}" target="_blank" rel="noopener noreferrer" class="text-blue-300 underline">${url}</a>`
+        )}`
+    );
+
+  html = html
+    .replace(
+      /\*\*(?=\S)([\s\S]*?\S)\*\*|__(?=\S)([\s\S]*?\S)__/g,
+      (_, a, b) => `<strong>${a ?? b}</strong>`
+    )
+    .replace(/\*(?=\S)([^*]*?\S)\*|\b_(?=\S)([^_]*?\S)_\b/g, (_, a, b) => `<em>${a ?? b}</em>`)
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+
+  return html.replace(
+    /\u0000(\d+)\u0000/g,
+    (_, index: string) => protectedSegments[Number(index)] ?? ''
+  );
+};
+
+const splitTableRow = (line: string): string[] =>
+  line
+    .trim()
+    .replace(/^\||\|$/g, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const renderTable = (rows: string[]): string => {
+  const [headerRow = '', separatorRow = '', ...bodyRows] = rows;
+  const alignments = splitTableRow(separatorRow).map(cell =>
+    cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : 'left'
+  );
+
+  const renderRow = (row: string, tag: 'th' | 'td') =>
+    `<tr>${splitTableRow(row)
+      .map(
+        (cell, index) =>
+          `<${tag} class="border border-white border-opacity-20 px-2 py-1" style="text-align: ${
+            alignments[index] || 'left'
+          }">${renderInline(cell)}</${tag}>`
+      )
+      .join('')}</tr>`;
+
+  return (
+    '<table class="my-2 border-collapse text-xs">' +
+    `<thead class="bg-white bg-opacity-10">${renderRow(headerRow, 'th')}</thead>` +
+    `<tbody>${bodyRows.map(row => renderRow(row, 'td')).join('')}</tbody></table>`
+  );
+};
+
+const renderList = (lines: string[]): string => {
+  const baseIndent = LIST_ITEM.exec(lines[0] ?? '')?.[1]?.length ?? 0;
+  const ordered = /\d/.test(LIST_ITEM.exec(lines[0] ?? '')?.[2] ?? '');
+  const items: string[][] = [];
+
+  for (const line of lines) {
+    const match = LIST_ITEM.exec(line);
+    if (match && (match[1]?.length ?? 0) <= baseIndent) {
+      items.push([match[3] ?? '']);
+    } else {
+      items[items.length - 1]?.push(line);
+    }
+  }
+
+  const listItems = items.map(([first = '', ...rest]) => {
+    const task = /^\[([ xX])\]\s+(.*)$/.exec(first);
+    const label = task
+      ? `${task[1] === ' ' ? '☐' : '☑'} ${renderInline(task[2] ?? '')}`
+      : renderInline(first);
+    const nested = rest.length ? renderLines(rest.map(line => line.replace(/^\s{1,4}/, ''))) : '';
+    return `<li>${label}${nested}</li>`;
+  });
+
+  return ordered
+    ? `<ol class="list-decimal ml-5 my-1">${listItems.join('')}</ol>`
+    : `<ul class="list-disc ml-5 my-1">${listItems.join('')}</ul>`;
+};
+
+/**
+ * Render block-level Markdown (no fenced code) to HTML
+ */
+const renderLines = (lines: string[]): string => {
+  const html: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i] ?? '';
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = heading[1]?.length ?? 1;
+      const size = level === 1 ? 'text-lg' : level === 2 ? 'text-base' : 'text-sm';
+      html.push(
+        `<h${level} class="${size} font-bold mt-2 mb-1">${renderInline(heading[2] ?? '')}</h${level}>`
+      );
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      html.push('<hr class="my-2 border-white border-opacity-20" />');
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i] ?? '')) {
+        quoted.push((lines[i] ?? '').replace(QUOTE, ''));
+        i++;
+      }
+      html.push(
+        `<blockquote class="border-l-2 border-white border-opacity-30 pl-2 my-1 opacity-80">${renderLines(quoted)}</blockquote>`
+      );
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const listLines: string[] = [];
+      while (i < lines.length) {
+        const current = lines[i] ?? '';
+        const continues =
+          LIST_ITEM.test(current) || (/^\s+\S/.test(current) && listLines.length > 0);
+        if (!continues) break;
+        listLines.push(current);
+        i++;
+      }
+      html.push(renderList(listLines));
+      continue;
+    }
+
+    if (line.includes('|') && TABLE_SEPARATOR.test(lines[i + 1] ?? '')) {
+      const rows: string[] = [];
+      while (i < lines.length && (lines[i] ?? '').includes('|')) {
+        rows.push(lines[i] ?? '');
+        i++;
+      }
+      html.push(renderTable(rows));
+      continue;
+    }
+
+    // Paragraph: consecutive lines until a blank line or another block starts
+    const paragraph: string[] = [];
+    while (i < lines.length) {
+      const current = lines[i] ?? '';
+      if (
+        !current.trim() ||
+        (paragraph.length > 0 &&
+          (HEADING.test(current) ||
+            RULE.test(current) ||
+            QUOTE.test(current) ||
+            LIST_ITEM.test(current)))
+      ) {
+        break;
+      }
+      paragraph.push(current);
+      i++;
+    }
+    html.push(`<p class="my-1">${paragraph.map(renderInline).join('<br />')}</p>`);
+  }
+
+  return html.join('');
+};
+
+/**
+ * Parse Markdown into prose and code blocks. An unterminated fence (e.g. while a reply
+ * is still streaming) runs to the end of the content.
+ */
+export const parseMarkdown = (markdown: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  let prose: string[] = [];
+
+  const flushProse = () => {
+    const html = renderLines(prose);
+    if (html) {
+      blocks.push({ type: 'html', html });
+    }
+    prose = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const fence = FENCE.exec(lines[i] ?? '');
+    if (!fence) {
+      prose.push(lines[i] ?? '');
+      continue;
+    }
+
+    flushProse();
+    const marker = fence[1] ?? '```';
+    const code: string[] = [];
+
+    for (i++; i < lines.length; i++) {
+      const line = lines[i] ?? '';
+      if (line.trim().startsWith(marker) && !line.trim().slice(marker.length).trim()) break;
+      code.push(line);
+    }
+
+    blocks.push({ type: 'code', language: fence[2] ?? '', code: code.join('\n') });
+  }
+
+  flushProse();
+  return blocks;
+};
+
+/**
+ * Render Markdown to a single HTML string, with code blocks as <pre> elements
+ */
+export const renderMarkdown = (markdown: string): string =>
+  parseMarkdown(markdown)
+    .map(block =>
+      block.type === 'html'
+        ? block.html
+        : `<pre class="my-2 p-2 bg-black bg-opacity-30 rounded overflow-auto"><code>${escapeHTML(block.code)}</code></pre>`
+    )
+    .join('');
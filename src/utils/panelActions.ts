@@ -0,0 +1,205 @@
+/**
+ * Panel Actions
+ * Runs panel context menu and command palette actions against the layout store
+ */
+
+import { useLayoutStore } from '@/stores/layoutStore';
+import { TemplateCategory, useTemplateStore } from '@/stores/templateStore';
+import { PANEL_COMPONENTS } from '@/components/panels';
+import type { ContextMenuAction } from '@/components/ui/PanelContextMenu';
+import type { PanelComponent, PanelLayout } from '@/types/panel';
+import { saveTextFile } from './fileTransfer';
+import { zIndexManager } from './zIndexManager';
+
+export interface PanelActionInfo {
+  action: ContextMenuAction;
+  label: string;
+  icon: string;
+  shortcut?: string;
+  dangerous?: boolean;
+  // Panels that must be selected, 1 when not set
+  minPanels?: number;
+}
+
+// Every context menu action, in menu order
+export const PANEL_ACTIONS: PanelActionInfo[] = [
+  { action: 'duplicate', label: 'Duplicate Panel', icon: '📋', shortcut: 'Ctrl+D' },
+  { action: 'delete', label: 'Delete Panel', icon: '🗑️', shortcut: 'Delete', dangerous: true },
+  { action: 'group', label: 'Group Panels', icon: '📦', shortcut: 'Ctrl+G', minPanels: 2 },
+  { action: 'ungroup', label: 'Ungroup', icon: '📤', shortcut: 'Ctrl+Shift+G' },
+  { action: 'bring-to-front', label: 'Bring to Front', icon: '⬆️', shortcut: 'Ctrl+]' },
+  { action: 'bring-forward', label: 'Bring Forward', icon: '🔼', shortcut: 'Ctrl+Shift+]' },
+  { action: 'send-backward', label: 'Send Backward', icon: '🔽', shortcut: 'Ctrl+Shift+[' },
+  { action: 'send-to-back', label: 'Send to Back', icon: '⬇️', shortcut: 'Ctrl+[' },
+  { action: 'fullscreen', label: 'Fullscreen', icon: '⛶', shortcut: 'F11' },
+  { action: 'minimize', label: 'Minimize', icon: '➖' },
+  { action: 'maximize', label: 'Maximize', icon: '⬜' },
+  { action: 'lock', label: 'Lock', icon: '🔒', shortcut: 'Ctrl+L' },
+  { action: 'unlock', label: 'Unlock', icon: '🔓' },
+  { action: 'copy', label: 'Copy', icon: '📄', shortcut: 'Ctrl+C' },
+  { action: 'paste', label: 'Paste', icon: '📋', shortcut: 'Ctrl+V' },
+  { action: 'save-as-template', label: 'Save as Template', icon: '💾' },
+  { action: 'export', label: 'Export Panel', icon: '📤' },
+  { action: 'settings', label: 'Rename Panel', icon: '✏️', shortcut: 'Ctrl+,' },
+];
+
+// Offset applied to pasted panels so they do not cover the originals
+const PASTE_OFFSET = 20;
+
+// Panels copied with the Copy action, without their ids
+let panelClipboard: Array<Omit<PanelLayout, 'id'>> = [];
+
+export const hasCopiedPanels = (): boolean => panelClipboard.length > 0;
+
+const applyZIndices = (updated: PanelLayout[]) => {
+  const store = useLayoutStore.getState();
+  updated.forEach(panel => {
+    if (store.getPanel(panel.id)?.zIndex !== panel.zIndex) {
+      store.updatePanel(panel.id, { zIndex: panel.zIndex });
+    }
+  });
+};
+
+/**
+ * Run a context menu action on the given panels. Paste ignores the panel ids.
+ * Locked panels are left out of actions that move, resize or delete them.
+ */
+export const runPanelAction = async (
+  action: ContextMenuAction,
+  panelIds: string[]
+): Promise<void> => {
+  const store = useLayoutStore.getState();
+  const panels = store.panels.filter(panel => panelIds.includes(panel.id));
+  const unlocked = panels.filter(panel => !panel.locked);
+  const { bounds } = store.viewport;
+
+  switch (action) {
+    case 'duplicate':
+      panels.forEach(panel => store.duplicatePanel(panel.id));
+      break;
+
+    case 'delete':
+      unlocked.forEach(panel => store.removePanel(panel.id));
+      store.clearSelection();
+      break;
+
+    case 'group':
+      store.groupPanels(panels.map(panel => panel.id));
+      break;
+
+    case 'ungroup':
+      store.ungroupPanels(panels.map(panel => panel.id));
+      break;
+
+    case 'lock':
+    case 'unlock':
+      panels.forEach(panel => store.updatePanel(panel.id, { locked: action === 'lock' }));
+      break;
+
+    case 'bring-to-front':
+    case 'send-to-back':
+    case 'bring-forward':
+    case 'send-backward': {
+      const reorder = {
+        'bring-to-front': zIndexManager.bringToFront.bind(zIndexManager),
+        'send-to-back': zIndexManager.sendToBack.bind(zIndexManager),
+        'bring-forward': zIndexManager.bringForward.bind(zIndexManager),
+        'send-backward': zIndexManager.sendBackward.bind(zIndexManager),
+      }[action];
+      applyZIndices(panels.reduce((result, panel) => reorder(panel.id, result), store.panels));
+      break;
+    }
+
+    case 'fullscreen':
+      unlocked.forEach(panel =>
+        store.updatePanel(panel.id, { position: { x: 0, y: 0 }, size: { ...bounds } })
+      );
+      break;
+
+    case 'maximize':
+      unlocked.forEach(panel => {
+        const maxSize = panel.constraints.maxSize ?? bounds;
+        const size = {
+          width: Math.min(maxSize.width, bounds.width),
+          height: Math.min(maxSize.height, bounds.height),
+        };
+        store.updatePanel(panel.id, { size });
+        store.centerPanel(panel.id);
+      });
+      break;
+
+    case 'minimize':
+      unlocked.forEach(panel => store.updatePanel(panel.id, { size: panel.constraints.minSize }));
+      break;
+
+    case 'copy':
+      panelClipboard = panels.map(({ id: _, groupId: _groupId, ...panel }) => panel);
+      break;
+
+    case 'paste':
+      panelClipboard.forEach(panel =>
+        store.addPanel({
+          ...panel,
+          position: { x: panel.position.x + PASTE_OFFSET, y: panel.position.y + PASTE_OFFSET },
+        })
+      );
+      break;
+
+    case 'save-as-template': {
+      if (panels.length === 0) return;
+      const name = prompt('Template name:', 'My layout');
+      if (!name?.trim()) return;
+      useTemplateStore.getState().createTemplate(name.trim(), '', panels, TemplateCategory.Custom);
+      break;
+    }
+
+    case 'export':
+      if (panels.length === 0) return;
+      await saveTextFile('panels.json', JSON.stringify(panels, null, 2), 'application/json', [
+        { name: 'JSON', extensions: ['json'] },
+      ]);
+      break;
+
+    // The title shown in the panel header; left empty, the panel's own title returns
+    case 'settings': {
+      const [panel] = panels;
+      if (!panel) return;
+      const title = prompt('Panel title:', panel.metadata?.title ?? '');
+      if (title === null) return;
+      store.updatePanel(panel.id, { metadata: { ...panel.metadata, title: title.trim() } });
+      break;
+    }
+  }
+};
+
+/**
+ * Select the first panel of a type and bring it to the front, adding one if
+ * the layout has none. Returns the panel id.
+ */
+export const showPanel = (component: PanelComponent): string | null => {
+  const store = useLayoutStore.getState();
+  const existing = store.getPanelsByType(component)[0];
+
+  if (!existing) {
+    const metadata = PANEL_COMPONENTS[component];
+    if (!metadata) return null;
+
+    const offset = store.panels.length * 30;
+    store.addPanel({
+      component,
+      position: { x: 100 + offset, y: 100 + offset },
+      size: metadata.defaultSize,
+      zIndex: 100,
+      visible: true,
+      constraints: { minSize: metadata.minSize, maxSize: metadata.maxSize },
+    });
+  }
+
+  const added = useLayoutStore.getState().getPanelsByType(component);
+  const panel = existing ?? added[added.length - 1];
+  if (!panel) return null;
+
+  applyZIndices(zIndexManager.bringToFront(panel.id, useLayoutStore.getState().panels));
+  useLayoutStore.getState().selectPanel(panel.id, false);
+  return panel.id;
+};
@@ -0,0 +1,493 @@
+/**
+ * QR Code Utilities
+ * Encodes text as a QR code (byte mode, ISO/IEC 18004) without any network service,
+ * and renders it as an SVG path, SVG document or PNG image
+ */
+
+export type QRErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export interface QRCode {
+  version: number;
+  size: number;
+  // modules[y][x] is true for a dark module
+  modules: boolean[][];
+}
+
+export interface QRRenderOptions {
+  scale?: number; // Pixels per module
+  margin?: number; // Quiet zone in modules; the standard asks for 4
+  dark?: string;
+  light?: string;
+}
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+// Format information bits for each error correction level
+const FORMAT_BITS: Record<QRErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Error correction codewords per block, indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK: Record<QRErrorCorrection, number[]> = {
+  // prettier-ignore
+  L: [0, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  // prettier-ignore
+  M: [0, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  // prettier-ignore
+  Q: [0, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  // prettier-ignore
+  H: [0, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+};
+
+// Number of error correction blocks, indexed by version (index 0 unused)
+const ERROR_CORRECTION_BLOCKS: Record<QRErrorCorrection, number[]> = {
+  // prettier-ignore
+  L: [0, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  // prettier-ignore
+  M: [0, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  // prettier-ignore
+  Q: [0, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  // prettier-ignore
+  H: [0, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+};
+
+// Mask penalty weights
+const PENALTY_RUN = 3;
+const PENALTY_BLOCK = 3;
+const PENALTY_FINDER = 40;
+const PENALTY_BALANCE = 10;
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0;
+
+// Bits available for data and error correction once function patterns are placed
+const rawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignCount - 10) * alignCount - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+};
+
+const dataCodewords = (version: number, ecc: QRErrorCorrection): number =>
+  Math.floor(rawDataModules(version) / 8) -
+  ECC_CODEWORDS_PER_BLOCK[ecc][version]! * ERROR_CORRECTION_BLOCKS[ecc][version]!;
+
+const alignmentPositions = (version: number): number[] => {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step = Math.floor((version * 8 + count * 3 + 5) / (count * 4 - 4)) * 2;
+  const positions = [6];
+  for (let pos = version * 4 + 10; positions.length < count; pos -= step) {
+    positions.splice(1, 0, pos);
+  }
+  return positions;
+};
+
+/**
+ * Reed-Solomon arithmetic over GF(2^8) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+ */
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonDivisor = (degree: number): number[] => {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j]!, root) ^ (result[j + 1] ?? 0);
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const reedSolomonRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i]! ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+};
+
+/**
+ * Split data into blocks, append each block's error correction and interleave them
+ */
+const addErrorCorrection = (data: number[], version: number, ecc: QRErrorCorrection): number[] => {
+  const blockCount = ERROR_CORRECTION_BLOCKS[ecc][version]!;
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[ecc][version]!;
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlockCount = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const block = data.slice(
+      offset,
+      offset + shortBlockLength - eccLength + (i < shortBlockCount ? 0 : 1)
+    );
+    offset += block.length;
+    const eccBytes = reedSolomonRemainder(block, divisor);
+    // Pad short blocks so every block has the same length while interleaving
+    if (i < shortBlockCount) block.push(0);
+    blocks.push(block.concat(eccBytes));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0]!.length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - eccLength || j >= shortBlockCount) {
+        result.push(block[i]!);
+      }
+    });
+  }
+  return result;
+};
+
+/**
+ * Build the data codewords for a byte-mode segment, using the smallest version that fits
+ */
+const encodeData = (
+  bytes: Uint8Array,
+  ecc: QRErrorCorrection
+): { version: number; codewords: number[] } => {
+  for (let version = MIN_VERSION; version <= MAX_VERSION; version++) {
+    const countBits = version < 10 ? 8 : 16;
+    const capacityBits = dataCodewords(version, ecc) * 8;
+    if (4 + countBits + bytes.length * 8 > capacityBits) continue;
+
+    const bits: number[] = [];
+    const append = (value: number, length: number) => {
+      for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+
+    append(0b0100, 4);
+    append(bytes.length, countBits);
+    bytes.forEach(byte => append(byte, 8));
+
+    // Terminator, then pad to a whole byte
+    append(0, Math.min(4, capacityBits - bits.length));
+    append(0, (8 - (bits.length % 8)) % 8);
+
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+      codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+    }
+    for (let pad = 0xec; codewords.length < capacityBits / 8; pad ^= 0xec ^ 0x11) {
+      codewords.push(pad);
+    }
+    return { version, codewords };
+  }
+
+  throw new Error('Text is too long for a QR code');
+};
+
+class QRMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly isFunction: boolean[][];
+
+  constructor(
+    readonly version: number,
+    private readonly ecc: QRErrorCorrection
+  ) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+    this.isFunction = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  private setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y]![x] = dark;
+    this.isFunction[y]![x] = true;
+  }
+
+  private drawFunctionPatterns() {
+    const { size } = this;
+
+    // Timing patterns
+    for (let i = 0; i < size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    // Finder patterns with their separators
+    for (const [cx, cy] of [
+      [3, 3],
+      [size - 4, 3],
+      [3, size - 4],
+    ] as const) {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x < 0 || x >= size || y < 0 || y >= size) continue;
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          this.setFunction(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+
+    // Alignment patterns, except where they would overlap the finders
+    const positions = alignmentPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((cx, i) => {
+      positions.forEach((cy, j) => {
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+
+    // Reserve the format areas; the real bits are written once the mask is chosen
+    this.drawFormatBits(0);
+    this.drawVersion();
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (FORMAT_BITS[this.ecc] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const { size } = this;
+
+    // Around the top-left finder
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+    // Split between the other two finders
+    for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, getBit(bits, i));
+    this.setFunction(8, size - 8, true);
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return;
+
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    const bits = (this.version << 12) | remainder;
+
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, getBit(bits, i));
+      this.setFunction(b, a, getBit(bits, i));
+    }
+  }
+
+  /**
+   * Place codewords in the two-module-wide zigzag that runs up and down from the right edge
+   */
+  drawCodewords(codewords: number[]) {
+    const { size } = this;
+    let bit = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5; // Skip the vertical timing pattern
+      const upward = ((right + 1) & 2) === 0;
+      for (let vertical = 0; vertical < size; vertical++) {
+        const y = upward ? size - 1 - vertical : vertical;
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          if (this.isFunction[y]![x] || bit >= codewords.length * 8) continue;
+          this.modules[y]![x] = getBit(codewords[bit >>> 3]!, 7 - (bit & 7));
+          bit++;
+        }
+      }
+    }
+  }
+
+  // Masks are XOR, so applying the same one twice undoes it
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (this.isFunction[y]![x]) continue;
+        let invert: boolean;
+        switch (mask) {
+          case 0:
+            invert = (x + y) % 2 === 0;
+            break;
+          case 1:
+            invert = y % 2 === 0;
+            break;
+          case 2:
+            invert = x % 3 === 0;
+            break;
+          case 3:
+            invert = (x + y) % 3 === 0;
+            break;
+          case 4:
+            invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+            break;
+          case 5:
+            invert = ((x * y) % 2) + ((x * y) % 3) === 0;
+            break;
+          case 6:
+            invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+            break;
+          default:
+            invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+        }
+        if (invert) this.modules[y]![x] = !this.modules[y]![x];
+      }
+    }
+  }
+
+  /**
+   * Score how hard the symbol is to scan; the mask with the lowest score is used
+   */
+  penaltyScore(): number {
+    const { size, modules } = this;
+    const column = (x: number) => modules.map(row => row[x]!);
+    const lines = [...modules, ...Array.from({ length: size }, (_, x) => column(x))];
+    let score = 0;
+
+    for (const line of lines) {
+      // Long runs of one colour
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          run++;
+          continue;
+        }
+        if (run >= 5) score += PENALTY_RUN + run - 5;
+        run = 1;
+      }
+
+      // Patterns that look like a finder: dark-light-dark×3-light-dark beside four light modules
+      const padded = [false, false, false, false, ...line, false, false, false, false];
+      for (let i = 0; i + 11 <= padded.length; i++) {
+        const segment = padded
+          .slice(i, i + 11)
+          .map(dark => (dark ? 1 : 0))
+          .join('');
+        if (segment === '10111010000' || segment === '00001011101') score += PENALTY_FINDER;
+      }
+    }
+
+    // 2×2 blocks of one colour
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = modules[y]![x];
+        if (
+          color === modules[y]![x + 1] &&
+          color === modules[y + 1]![x] &&
+          color === modules[y + 1]![x + 1]
+        ) {
+          score += PENALTY_BLOCK;
+        }
+      }
+    }
+
+    // Balance of dark and light modules
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * PENALTY_BALANCE;
+
+    return score;
+  }
+}
+
+/**
+ * Encode text (as UTF-8) into a QR code
+ */
+export const encodeQRCode = (text: string, ecc: QRErrorCorrection = 'M'): QRCode => {
+  const { version, codewords } = encodeData(new TextEncoder().encode(text), ecc);
+  const matrix = new QRMatrix(version, ecc);
+  matrix.drawCodewords(addErrorCorrection(codewords, version, ecc));
+
+  let bestMask = 0;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const score = matrix.penaltyScore();
+    if (score < bestScore) {
+      bestMask = mask;
+      bestScore = score;
+    }
+    matrix.applyMask(mask);
+  }
+
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(bestMask);
+  return { version, size: matrix.size, modules: matrix.modules };
+};
+
+/**
+ * SVG path data for the dark modules, offset by the quiet zone
+ */
+export const qrCodeToPath = (qr: QRCode, margin: number = 4): string => {
+  const parts: string[] = [];
+  qr.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) parts.push(`M${x + margin},${y + margin}h1v1h-1z`);
+    });
+  });
+  return parts.join('');
+};
+
+/**
+ * Standalone SVG document for a QR code
+ */
+export const qrCodeToSVG = (
+  qr: QRCode,
+  { scale = 8, margin = 4, dark = '#000000', light = '#ffffff' }: QRRenderOptions = {}
+): string => {
+  const extent = qr.size + margin * 2;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${extent * scale}" height="${extent * scale}" viewBox="0 0 ${extent} ${extent}" shape-rendering="crispEdges">`,
+    `<rect width="${extent}" height="${extent}" fill="${light}"/>`,
+    `<path d="${qrCodeToPath(qr, margin)}" fill="${dark}"/>`,
+    '</svg>',
+  ].join('\n');
+};
+
+/**
+ * Draw a QR code onto a new canvas and return it as a PNG
+ */
+export const qrCodeToPNG = (
+  qr: QRCode,
+  { scale = 8, margin = 4, dark = '#000000', light = '#ffffff' }: QRRenderOptions = {}
+): Promise<Blob> => {
+  const extent = (qr.size + margin * 2) * scale;
+  const canvas = document.createElement('canvas');
+  canvas.width = extent;
+  canvas.height = extent;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return Promise.reject(new Error('Canvas is not available'));
+  }
+
+  context.fillStyle = light;
+  context.fillRect(0, 0, extent, extent);
+  context.fillStyle = dark;
+  qr.modules.forEach((row, y) => {
+    row.forEach((isDark, x) => {
+      if (isDark) context.fillRect((x + margin) * scale, (y + margin) * scale, scale, scale);
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to create PNG'))));
+  });
+};
@@ -0,0 +1,251 @@
+/**
+ * Syntax Highlighting Utilities
+ * Lightweight regex tokenizer that turns code into escaped HTML with token classes
+ */
+
+type TokenType =
+  'comment' | 'string' | 'number' | 'keyword' | 'literal' | 'tag' | 'attribute' | 'property';
+
+type TokenRule = [TokenType, RegExp];
+
+interface LanguageDefinition {
+  rules: TokenRule[];
+  caseInsensitive?: boolean;
+}
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  comment: 'text-gray-400 italic',
+  string: 'text-green-300',
+  number: 'text-orange-300',
+  keyword: 'text-purple-300',
+  literal: 'text-orange-300',
+  tag: 'text-red-300',
+  attribute: 'text-yellow-200',
+  property: 'text-blue-300',
+};
+
+const words = (list: string) => new RegExp(`\\b(?:${list.trim().split(/\s+/).join('|')})\\b`);
+
+// Shared token patterns (no capturing groups; they are combined into one regex)
+const DOUBLE_QUOTED = /"(?:\\.|[^"\\\n])*"/;
+const SINGLE_QUOTED = /'(?:\\.|[^'\\\n])*'/;
+const BACKTICK_QUOTED = /`(?:\\.|[^`\\])*`/;
+const C_COMMENT = /\/\/.*|\/\*[\s\S]*?\*\//;
+const HASH_COMMENT = /#.*/;
+const NUMBER = /\b(?:0[xX][\da-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)\b/;
+
+const cLike = (keywords: string, literals = 'true false null'): LanguageDefinition => ({
+  rules: [
+    ['comment', C_COMMENT],
+    ['string', DOUBLE_QUOTED],
+    ['string', SINGLE_QUOTED],
+    ['string', BACKTICK_QUOTED],
+    ['literal', words(literals)],
+    ['keyword', words(keywords)],
+    ['number', NUMBER],
+  ],
+});
+
+const JS_KEYWORDS = `
+  async await break case catch class const continue default delete do else export extends
+  finally for from function if import in instanceof let new of return static super switch this
+  throw try typeof var void while yield`;
+
+const LANGUAGES: Record<string, LanguageDefinition> = {
+  javascript: cLike(JS_KEYWORDS, 'true false null undefined NaN'),
+  typescript: cLike(
+    `${JS_KEYWORDS} abstract as declare enum implements interface keyof namespace private
+     protected public readonly satisfies type`,
+    'true false null undefined NaN'
+  ),
+  java: cLike(`
+    abstract break case catch class continue default do else enum extends final finally for if
+    implements import instanceof interface new package private protected public return static
+    super switch this throw throws try void while var`),
+  c: cLike(
+    `
+    auto break case char class const continue default delete do double else enum extern float for
+    if inline int long namespace new private protected public return short signed sizeof static
+    struct switch template this typedef union unsigned using virtual void volatile while`,
+    'true false NULL nullptr'
+  ),
+  csharp: cLike(`
+    abstract as async await base bool break case catch class const continue default do else enum
+    foreach for if in interface internal is namespace new out override private protected public
+    readonly ref return sealed static string struct switch this throw try using var virtual void
+    while`),
+  go: cLike(
+    `
+    break case chan const continue default defer else fallthrough for func go goto if import
+    interface map package range return select struct switch type var`,
+    'true false nil iota'
+  ),
+  rust: cLike(
+    `
+    as async await break const continue crate dyn else enum extern fn for if impl in let loop match
+    mod move mut pub ref return self Self static struct super trait type unsafe use where while`,
+    'true false None Some Ok Err'
+  ),
+  python: {
+    rules: [
+      ['comment', HASH_COMMENT],
+      ['string', /(?:[rRbBfFuU]{1,2})?(?:"""[\s\S]*?"""|'''[\s\S]*?''')/],
+      ['string', DOUBLE_QUOTED],
+      ['string', SINGLE_QUOTED],
+      ['literal', words('True False None')],
+      [
+        'keyword',
+        words(`
+          and as assert async await break class continue def del elif else except finally for
+          from global if import in is lambda nonlocal not or pass raise return try while with yield`),
+      ],
+      ['number', NUMBER],
+    ],
+  },
+  bash: {
+    rules: [
+      ['comment', HASH_COMMENT],
+      ['string', DOUBLE_QUOTED],
+      ['string', SINGLE_QUOTED],
+      ['property', /\$\{[^}\n]*\}|\$\w+/],
+      [
+        'keyword',
+        words(`
+          if then else elif fi for in do done while until case esac function return export local
+          sudo echo cd`),
+      ],
+      ['number', NUMBER],
+    ],
+  },
+  json: {
+    rules: [
+      ['property', /"(?:\\.|[^"\\\n])*"(?=\s*:)/],
+      ['string', DOUBLE_QUOTED],
+      ['literal', words('true false null')],
+      ['number', /-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/],
+    ],
+  },
+  css: {
+    rules: [
+      ['comment', /\/\*[\s\S]*?\*\//],
+      ['string', DOUBLE_QUOTED],
+      ['string', SINGLE_QUOTED],
+      ['keyword', /@[\w-]+/],
+      ['property', /[\w-]+(?=\s*:)/],
+      ['number', /#[\da-fA-F]{3,8}\b|\b\d+(?:\.\d+)?(?:px|em|rem|%|vh|vw|s|ms|deg)?\b/],
+    ],
+  },
+  markup: {
+    rules: [
+      ['comment', /<!--[\s\S]*?-->/],
+      ['tag', /<\/?[\w:-]+|\/?>/],
+      ['attribute', /[\w:-]+(?==)/],
+      ['string', DOUBLE_QUOTED],
+      ['string', SINGLE_QUOTED],
+    ],
+  },
+  sql: {
+    caseInsensitive: true,
+    rules: [
+      ['comment', /--.*|\/\*[\s\S]*?\*\//],
+      ['string', SINGLE_QUOTED],
+      ['literal', words('null true false')],
+      [
+        'keyword',
+        words(`
+          select from where and or not insert into values update set delete create table alter drop
+          index join left right inner outer on group by order having limit offset as distinct union
+          primary key foreign references default`),
+      ],
+      ['number', NUMBER],
+    ],
+  },
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  console: 'bash',
+  cpp: 'c',
+  'c++': 'c',
+  h: 'c',
+  cs: 'csharp',
+  golang: 'go',
+  rs: 'rust',
+  kotlin: 'java',
+  scss: 'css',
+  less: 'css',
+  html: 'markup',
+  xml: 'markup',
+  svg: 'markup',
+  vue: 'markup',
+  jsonc: 'json',
+};
+
+const compiledPatterns = new Map<string, RegExp>();
+
+export const escapeHTML = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Resolve a fence info string (e.g. "ts", "Python") to a supported language id
+ */
+export const resolveLanguage = (language: string): string | null => {
+  const normalized = language.trim().toLowerCase();
+  const resolved = LANGUAGE_ALIASES[normalized] || normalized;
+  return LANGUAGES[resolved] ? resolved : null;
+};
+
+/**
+ * Highlight code as HTML. Unknown languages are returned escaped without token markup.
+ */
+export const highlightCode = (code: string, language: string): string => {
+  const resolved = resolveLanguage(language);
+  const definition = resolved ? LANGUAGES[resolved] : undefined;
+  if (!resolved || !definition) {
+    return escapeHTML(code);
+  }
+
+  let pattern = compiledPatterns.get(resolved);
+  if (!pattern) {
+    pattern = new RegExp(
+      definition.rules.map(([, rule]) => `(${rule.source})`).join('|'),
+      definition.caseInsensitive ? 'gi' : 'g'
+    );
+    compiledPatterns.set(resolved, pattern);
+  }
+
+  let html = '';
+  let lastIndex = 0;
+  pattern.lastIndex = 0;
+
+  for (let match = pattern.exec(code); match; match = pattern.exec(code)) {
+    if (match[0] === '') {
+      pattern.lastIndex++;
+      continue;
+    }
+
+    const ruleIndex = match.findIndex((group, index) => index > 0 && group !== undefined) - 1;
+    const tokenType = definition.rules[ruleIndex]?.[0];
+
+    html += escapeHTML(code.slice(lastIndex, match.index));
+    html += tokenType
+      ? `<span class="${TOKEN_CLASSES[tokenType]}">${escapeHTML(match[0])}</span>`
+      : escapeHTML(match[0]);
+    lastIndex = match.index + match[0].length;
+  }
+
+  return html + escapeHTML(code.slice(lastIndex));
+};
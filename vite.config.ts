@@ -72,7 +72,7 @@ export default defineConfig(({ command, mode }) => {
           popup: path.resolve(__dirname, 'popup.html'),
           options: path.resolve(__dirname, 'options.html'),
           newtab: path.resolve(__dirname, 'newtab.html'),
-          background: path.resolve(__dirname, 'public/background.ts'),
+          background: path.resolve(__dirname, 'src/background/worker.ts'),
           content: path.resolve(__dirname, 'src/content.ts'),
         } : isElectron ? {
           // Electron entry points